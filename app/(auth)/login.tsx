@@ -8,7 +8,13 @@ import {
   ScrollView,
   Pressable,
 } from "react-native";
-import { Text, TextInput, Button, HelperText } from "react-native-paper";
+import {
+  Text,
+  TextInput,
+  Button,
+  HelperText,
+  Checkbox,
+} from "react-native-paper";
 import { Link } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTranslation } from "react-i18next";
@@ -17,20 +23,50 @@ import { Colors, inputTheme } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
+import BackendProfilesSheet from "../../components/BackendProfilesSheet";
+import {
+  getActiveProfile,
+  subscribeActiveProfile,
+} from "../../services/backends";
 
 export default function LoginScreen() {
   const { t } = useTranslation();
-  const { login, biometricEnabled, biometricAvailable, loginWithBiometric } =
-    useAuth();
+  const {
+    login,
+    biometricEnabled,
+    biometricAvailable,
+    loginWithBiometric,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+  } = useAuth();
   const { colors, inputTheme: themeInput } = useAppTheme();
   const Colors = colors;
   const inputTheme = themeInput;
   const styles = createStyles(colors);
-  const [email, setEmail] = useState("");
+  const [profile, setProfile] = useState(getActiveProfile);
+  const [profilesVisible, setProfilesVisible] = useState(false);
+  const [email, setEmail] = useState(() => profile.lastEmail || "");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [code, setCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
+
+  // Each backend has its own account; start from the email last used there
+  useEffect(
+    () =>
+      subscribeActiveProfile((next) => {
+        setProfile(next);
+        setEmail(next.lastEmail || "");
+        setPassword("");
+        setError("");
+        setCode("");
+      }),
+    [],
+  );
 
   // Auto-trigger biometric on mount if enabled (but NOT right after logout)
   useEffect(() => {
@@ -65,6 +101,32 @@ export default function LoginScreen() {
     }
   };
 
+  const handleVerify = async () => {
+    if (!code.trim()) return;
+    setLoading(true);
+    setError("");
+    try {
+      await verifyTwoFactor(code, { recovery: useRecovery, trustDevice });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err: any) {
+      const status = err.response?.status;
+      const msg = err.response?.data?.message || err.message;
+      setError(`[${status || "Error"}] ${msg}`);
+      setCode("");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setCode("");
+    setUseRecovery(false);
+    setTrustDevice(false);
+    setError("");
+  };
+
   const handleBiometricLogin = async () => {
     setLoading(true);
     setError("");
@@ -99,73 +161,187 @@ export default function LoginScreen() {
             </View>
             <Text style={styles.appName}>Pulse</Text>
             <Text style={styles.subtitle}>{t("auth.loginSubtitle")}</Text>
+            <Pressable
+              onPress={() => {
+                Haptics.selectionAsync();
+                setProfilesVisible(true);
+              }}
+              style={({ pressed }) => [
+                styles.profileChip,
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <View
+                style={[styles.profileDot, { backgroundColor: profile.color }]}
+              />
+              <Text style={styles.profileName} numberOfLines={1}>
+                {profile.name}
+              </Text>
+              <MaterialCommunityIcons
+                name="chevron-down"
+                size={16}
+                color={Colors.textSecondary}
+              />
+            </Pressable>
           </View>
 
-          <View style={styles.form}>
-            <TextInput
-              label={t("auth.emailOrUsername")}
-              value={email}
-              onChangeText={setEmail}
-              mode="outlined"
-              autoCapitalize="none"
-              keyboardType="email-address"
-              left={<TextInput.Icon icon="account" />}
-              style={styles.input}
-              outlineColor={Colors.border}
-              activeOutlineColor={Colors.primary}
-              textColor={Colors.text}
-              theme={inputTheme}
-            />
+          {twoFactorChallenge ? (
+            <View style={styles.form}>
+              <Text style={styles.stepTitle}>
+                {t("auth.twoFactorVerification")}
+              </Text>
+              <Text style={styles.stepHint}>
+                {useRecovery
+                  ? t("auth.enterRecoveryCode")
+                  : t("auth.enterTwoFactorCode")}
+              </Text>
+              <Text style={styles.stepAccount}>{twoFactorChallenge.email}</Text>
 
-            <TextInput
-              label={t("auth.password")}
-              value={password}
-              onChangeText={setPassword}
-              mode="outlined"
-              secureTextEntry={!showPassword}
-              left={<TextInput.Icon icon="lock" />}
-              right={
-                <TextInput.Icon
-                  icon={showPassword ? "eye-off" : "eye"}
-                  onPress={() => setShowPassword(!showPassword)}
-                />
-              }
-              style={styles.input}
-              outlineColor={Colors.border}
-              activeOutlineColor={Colors.primary}
-              textColor={Colors.text}
-              theme={inputTheme}
-            />
+              <TextInput
+                key={useRecovery ? "recovery" : "totp"}
+                label={
+                  useRecovery ? t("auth.recoveryCode") : t("auth.twoFactorCode")
+                }
+                value={code}
+                onChangeText={setCode}
+                mode="outlined"
+                autoFocus
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType={useRecovery ? "default" : "number-pad"}
+                textContentType="oneTimeCode"
+                autoComplete="one-time-code"
+                maxLength={useRecovery ? 32 : 6}
+                onSubmitEditing={handleVerify}
+                left={
+                  <TextInput.Icon
+                    icon={useRecovery ? "key-outline" : "shield-key-outline"}
+                  />
+                }
+                style={styles.input}
+                outlineColor={Colors.border}
+                activeOutlineColor={Colors.primary}
+                textColor={Colors.text}
+                theme={inputTheme}
+              />
 
-            {error ? (
-              <HelperText type="error" visible>
-                {error}
-              </HelperText>
-            ) : null}
+              <Checkbox.Item
+                label={t("auth.trustDevice")}
+                status={trustDevice ? "checked" : "unchecked"}
+                onPress={() => setTrustDevice(!trustDevice)}
+                position="leading"
+                color={Colors.primary}
+                labelStyle={styles.checkboxLabel}
+                style={styles.checkbox}
+              />
 
-            <Button
-              mode="contained"
-              onPress={handleLogin}
-              loading={loading}
-              disabled={loading || !email.trim() || !password.trim()}
-              style={styles.button}
-              contentStyle={styles.buttonContent}
-              labelStyle={styles.buttonLabel}
-              buttonColor={Colors.primary}
-            >
-              {t("auth.signIn")}
-            </Button>
+              {error ? (
+                <HelperText type="error" visible>
+                  {error}
+                </HelperText>
+              ) : null}
 
-            <View style={styles.linkRow}>
-              <Text style={styles.linkText}>{t("auth.noAccount")} </Text>
-              <Link href="/(auth)/register" style={styles.link}>
-                {t("auth.signUp")}
-              </Link>
+              <Button
+                mode="contained"
+                onPress={handleVerify}
+                loading={loading}
+                disabled={
+                  loading || (useRecovery ? !code.trim() : code.length < 6)
+                }
+                style={styles.button}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+                buttonColor={Colors.primary}
+              >
+                {t("auth.verify")}
+              </Button>
+
+              <Button
+                onPress={() => {
+                  setUseRecovery(!useRecovery);
+                  setCode("");
+                  setError("");
+                }}
+                textColor={Colors.primary}
+              >
+                {useRecovery
+                  ? t("auth.useAuthenticatorCode")
+                  : t("auth.useRecoveryCode")}
+              </Button>
+              <Button
+                onPress={handleCancelTwoFactor}
+                textColor={Colors.textSecondary}
+              >
+                {t("auth.backToSignIn")}
+              </Button>
             </View>
-          </View>
+          ) : (
+            <View style={styles.form}>
+              <TextInput
+                label={t("auth.emailOrUsername")}
+                value={email}
+                onChangeText={setEmail}
+                mode="outlined"
+                autoCapitalize="none"
+                keyboardType="email-address"
+                left={<TextInput.Icon icon="account" />}
+                style={styles.input}
+                outlineColor={Colors.border}
+                activeOutlineColor={Colors.primary}
+                textColor={Colors.text}
+                theme={inputTheme}
+              />
+
+              <TextInput
+                label={t("auth.password")}
+                value={password}
+                onChangeText={setPassword}
+                mode="outlined"
+                secureTextEntry={!showPassword}
+                left={<TextInput.Icon icon="lock" />}
+                right={
+                  <TextInput.Icon
+                    icon={showPassword ? "eye-off" : "eye"}
+                    onPress={() => setShowPassword(!showPassword)}
+                  />
+                }
+                style={styles.input}
+                outlineColor={Colors.border}
+                activeOutlineColor={Colors.primary}
+                textColor={Colors.text}
+                theme={inputTheme}
+              />
+
+              {error ? (
+                <HelperText type="error" visible>
+                  {error}
+                </HelperText>
+              ) : null}
+
+              <Button
+                mode="contained"
+                onPress={handleLogin}
+                loading={loading}
+                disabled={loading || !email.trim() || !password.trim()}
+                style={styles.button}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+                buttonColor={Colors.primary}
+              >
+                {t("auth.signIn")}
+              </Button>
+
+              <View style={styles.linkRow}>
+                <Text style={styles.linkText}>{t("auth.noAccount")} </Text>
+                <Link href="/(auth)/register" style={styles.link}>
+                  {t("auth.signUp")}
+                </Link>
+              </View>
+            </View>
+          )}
 
           {/* Biometric Login - Compact at bottom */}
-          {biometricEnabled && biometricAvailable && (
+          {biometricEnabled && biometricAvailable && !twoFactorChallenge && (
             <View style={styles.biometricSection}>
               <View style={styles.dividerRow}>
                 <View style={styles.dividerLine} />
@@ -198,6 +374,10 @@ export default function LoginScreen() {
           )}
         </ScrollView>
       </KeyboardAvoidingView>
+      <BackendProfilesSheet
+        visible={profilesVisible}
+        onDismiss={() => setProfilesVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -237,6 +417,21 @@ const createStyles = (Colors: any) =>
       color: Colors.textSecondary,
       marginTop: 6,
     },
+    profileChip: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      marginTop: 16,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      backgroundColor: Colors.card,
+      borderWidth: 1,
+      borderColor: Colors.border,
+      maxWidth: "80%",
+    },
+    profileDot: { width: 10, height: 10, borderRadius: 5 },
+    profileName: { fontSize: 13, fontWeight: "600", color: Colors.text },
     biometricSection: { alignItems: "center", marginTop: 24 },
     biometricBtn: {
       flexDirection: "row",
@@ -271,6 +466,25 @@ const createStyles = (Colors: any) =>
       color: Colors.textSecondary,
     },
     form: { gap: 12 },
+    stepTitle: {
+      fontSize: 20,
+      fontWeight: "700",
+      color: Colors.text,
+      textAlign: "center",
+    },
+    stepHint: {
+      fontSize: 14,
+      color: Colors.textSecondary,
+      textAlign: "center",
+    },
+    stepAccount: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: Colors.primary,
+      textAlign: "center",
+    },
+    checkbox: { paddingHorizontal: 0 },
+    checkboxLabel: { fontSize: 14, color: Colors.text, textAlign: "left" },
     input: { backgroundColor: Colors.surface },
     button: { marginTop: 8, borderRadius: 12 },
     buttonContent: { paddingVertical: 6 },
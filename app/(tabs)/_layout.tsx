@@ -121,6 +121,12 @@ export default function TabLayout() {
       route: "/test-runner",
       color: colors.info,
     },
+    {
+      title: t("nav.schedules", "Deploy Calendar"),
+      icon: "calendar-clock",
+      route: "/schedules",
+      color: colors.info,
+    },
     {
       title: t("nav.pipelines", "Pipelines"),
       icon: "pipe",
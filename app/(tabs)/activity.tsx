@@ -10,6 +10,7 @@ import { Text, ActivityIndicator, Chip } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 import { useRouter } from "expo-router";
 import api from "../../services/api";
+import { deploymentsApi } from "../../services/client";
 import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
@@ -59,8 +60,7 @@ export default function ActivityScreen() {
       console.error("Activity fetch error:", err);
       // Try fallback: fetch recent deployments as activity
       try {
-        const deploysRes = await api.get("/deployments?limit=20");
-        const deploys = deploysRes.data?.deployments || deploysRes.data || [];
+        const deploys = await deploymentsApi.recent(20);
         const mapped = deploys.map((d: any) => ({
           _id: d._id,
           action: "deploy",
@@ -171,6 +171,11 @@ export default function ActivityScreen() {
               item.details ||
               `${rawAction} on ${item.target || item.resourceType || ""}`}
           </Text>
+          {item.reason ? (
+            <Text style={styles.reason} numberOfLines={2}>
+              “{item.reason}”
+            </Text>
+          ) : null}
           {(item.user || item.status) && (
             <View style={styles.itemFooter}>
               {item.user && (
@@ -282,6 +287,12 @@ const createStyles = (Colors: any) =>
     },
     time: { fontSize: 11, color: Colors.textSecondary },
     message: { fontSize: 13, color: Colors.textSecondary, lineHeight: 18 },
+    reason: {
+      fontSize: 12,
+      fontStyle: "italic",
+      color: Colors.textSecondary,
+      marginTop: 4,
+    },
     itemFooter: {
       flexDirection: "row",
       alignItems: "center",
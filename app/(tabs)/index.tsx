@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from "react";
+import { useState, useCallback } from "react";
 import {
   View,
   StyleSheet,
@@ -11,12 +11,14 @@ import { useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
 import { useAuth } from "../../contexts/AuthContext";
 import api from "../../services/api";
+import { Deployment, deploymentsApi } from "../../services/client";
 import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { connectSocket, disconnectSocket } from "../../services/socket";
 import * as Haptics from "expo-haptics";
 import ServerResourceWidget from "../../components/ServerResourceWidget";
+import LastUpdated from "../../components/LastUpdated";
+import { useQuery } from "../../hooks/useQuery";
 import Svg, {
   Defs,
   LinearGradient as SvgLinearGradient,
@@ -486,39 +488,29 @@ export default function DashboardScreen() {
   const { colors } = useAppTheme();
   const Colors = colors;
   const styles = createStyles(colors);
-  const [stats, setStats] = useState<Stats | null>(null);
-  const [recentDeploys, setRecentDeploys] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  const fetchData = async () => {
-    try {
-      const [statsRes, deploysRes] = await Promise.all([
-        api.get("/stats"),
-        api.get("/deployments?limit=5"),
-      ]);
-      setStats(statsRes.data);
-      setRecentDeploys(deploysRes.data?.deployments || deploysRes.data || []);
-    } catch (err) {
-      console.error("Failed to fetch stats", err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  useEffect(() => {
-    if (user) {
-      fetchData();
-      connectSocket();
-    }
-    return () => disconnectSocket();
-  }, [user]);
+  const statsQuery = useQuery<Stats>(
+    ["stats"],
+    async () => (await api.get("/stats")).data,
+    { enabled: !!user },
+  );
+  const recentQuery = useQuery<Deployment[]>(
+    ["deployments", "recent", 5],
+    () => deploymentsApi.recent(5),
+    { enabled: !!user },
+  );
+  const stats = statsQuery.data;
+  const recentDeploys = recentQuery.data || [];
+  const loading = statsQuery.loading || recentQuery.loading;
 
-  const onRefresh = useCallback(() => {
+  const refetchStats = statsQuery.refetch;
+  const refetchRecent = recentQuery.refetch;
+  const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    fetchData();
-  }, []);
+    await Promise.all([refetchStats(), refetchRecent()]);
+    setRefreshing(false);
+  }, [refetchStats, refetchRecent]);
 
   if (loading) {
     return (
@@ -540,6 +532,12 @@ export default function DashboardScreen() {
         />
       }
     >
+      <LastUpdated
+        updatedAt={statsQuery.updatedAt}
+        fetching={statsQuery.fetching || recentQuery.fetching}
+        offline={statsQuery.offline}
+        failed={!!statsQuery.error || !!recentQuery.error}
+      />
       <View style={styles.statsGrid}>
         <StatCard
           icon="server"
@@ -61,6 +61,10 @@ export default function NotificationsScreen() {
         return { icon: "rocket-launch", color: info };
       case "health_alert":
         return { icon: "heart-pulse", color: warning };
+      case "cron_failed":
+        return { icon: "clock-alert-outline", color: error };
+      case "cron_missed":
+        return { icon: "clock-remove-outline", color: warning };
       default:
         return { icon: "bell", color: neutral };
     }
@@ -94,6 +98,14 @@ export default function NotificationsScreen() {
           const deploymentId = parts[idIndex];
           route = `/deployment/${deploymentId}`;
         }
+      } else if (route.includes("/cron/")) {
+        // Backend Link: /cron/<serverId>/runs/<jobKey>
+        const parts = route.split("/");
+        const idIndex = parts.indexOf("cron") + 1;
+        const job = parts[parts.indexOf("runs") + 1];
+        if (idIndex > 0 && idIndex < parts.length && job) {
+          route = `/cron/runs?serverId=${parts[idIndex]}&job=${job}`;
+        }
       }
 
       console.log("[Notification] Navigating to:", route);
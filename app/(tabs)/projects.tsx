@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from "react";
+import { useState, useCallback } from "react";
 import {
   View,
   StyleSheet,
@@ -22,31 +22,24 @@ import {
 } from "react-native-paper";
 import { useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  deploymentsApi,
+  getErrorMessage,
+  Project,
+  projectsApi,
+} from "../../services/client";
 import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import * as Clipboard from "expo-clipboard";
 import { useIsFocused } from "@react-navigation/native";
-import { connectSocket } from "../../services/socket";
+import { useRooms, useSocketEvent } from "../../hooks/useRealtime";
 import { ProjectListSkeleton } from "../../components/Skeletons";
-
-const API_BASE =
-  process.env.EXPO_PUBLIC_API_URL || "http://192.168.1.100:5000/api";
-const WEBHOOK_BASE = API_BASE.replace(/\/api$/, "");
-
-interface Project {
-  _id: string;
-  name: string;
-  repoUrl: string;
-  branch: string;
-  server: { _id: string; name: string; host: string; status: string };
-  deployPath: string;
-  status: string;
-  autoDeploy: boolean;
-  lastDeployedAt?: string;
-}
+import LastUpdated from "../../components/LastUpdated";
+import { useQuery } from "../../hooks/useQuery";
+import { runOrQueue } from "../../services/outbox";
+import { getServerUrl } from "../../services/backends";
 
 export default function ProjectsScreen() {
   const { t } = useTranslation();
@@ -54,9 +47,7 @@ export default function ProjectsScreen() {
   const { colors } = useAppTheme();
   const Colors = colors;
   const styles = createStyles(colors);
-  const [projects, setProjects] = useState<Project[]>([]);
   const [search, setSearch] = useState("");
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [menuVisible, setMenuVisible] = useState<string | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<Project | null>(null);
@@ -65,109 +56,77 @@ export default function ProjectsScreen() {
 
   const isFocused = useIsFocused();
 
-  const fetchProjects = async () => {
-    try {
-      const res = await api.get("/projects");
-      setProjects(res.data);
-    } catch (err) {
-      console.error("Failed to fetch projects", err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchProjects();
-  }, []);
+  const {
+    data: projects = [],
+    setData: setProjects,
+    refetch: fetchProjects,
+    loading,
+    fetching,
+    offline,
+    error,
+    updatedAt,
+  } = useQuery<Project[]>(["projects"], projectsApi.list);
 
   // Realtime updates
-  useEffect(() => {
-    let activeSocket: any = null;
-    let isMounted = true;
-
-    const handleStatusUpdate = (data: any) => {
-      console.log(
-        `[Projects] Received status update for ${data.projectId}: ${data.status}`,
+  useRooms("project", isFocused ? projects.map((p) => p._id) : []);
+  useSocketEvent(
+    "deployment:status",
+    (data) => {
+      if (!data.projectId) return;
+      setProjects((prev = []) =>
+        prev.map((p) =>
+          p._id === data.projectId
+            ? {
+                ...p,
+                status: data.status,
+                lastDeployedAt: data.timestamp || new Date().toISOString(),
+              }
+            : p,
+        ),
       );
-      if (data.projectId) {
-        setProjects((prev) =>
-          prev.map((p) =>
-            p._id === data.projectId
-              ? {
-                  ...p,
-                  status: data.status,
-                  lastDeployedAt: data.timestamp || new Date().toISOString(),
-                }
-              : p,
-          ),
-        );
 
-        // If status is "running" or "failed", background fetch strictly to ensure consistency using the API
-        if (["running", "stopped", "failed", "success"].includes(data.status)) {
-          fetchProjects();
-        }
+      // If status is "running" or "failed", background fetch strictly to ensure consistency using the API
+      if (["running", "stopped", "failed", "success"].includes(data.status)) {
+        fetchProjects();
       }
-    };
-
-    const projectIds = projects.map((p) => p._id).join(",");
-
-    if (isFocused && projects.length > 0) {
-      connectSocket()
-        .then((socket) => {
-          if (!isMounted) return;
-          activeSocket = socket;
-
-          // Join all project rooms
-          projects.forEach((p) => {
-            socket.emit("join:project", p._id);
-          });
-
-          socket.on("deployment:status", handleStatusUpdate);
-        })
-        .catch((err) => {
-          console.log("Socket connection failed in Projects", err);
-        });
-    }
-
-    return () => {
-      isMounted = false;
-      if (activeSocket) {
-        activeSocket.off("deployment:status", handleStatusUpdate);
-        // We don't necessarily need to leave rooms as they are cleaned up on disconnect
-        // or can be persisted.
-      }
-    };
-  }, [isFocused, projects.map((p) => p._id).join(",")]); // Only re-run if project list IDs change
+    },
+    isFocused,
+  );
 
-  const onRefresh = useCallback(() => {
+  const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    fetchProjects();
-  }, []);
+    await fetchProjects();
+    setRefreshing(false);
+  }, [fetchProjects]);
 
   const handleDeploy = async (projectId: string) => {
+    const name = projects.find((p) => p._id === projectId)?.name || projectId;
     try {
-      await api.post(`/deployments/${projectId}/deploy`);
+      const result = await runOrQueue(
+        { kind: "deploy", projectId },
+        t("outbox.deployLabel", { name }),
+      );
+      if (result.queued) {
+        Alert.alert(t("outbox.queuedTitle"), t("outbox.queuedMessage"));
+        return;
+      }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.push(`/deployment/${projectId}`);
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("deploy.deployFailed"),
+        getErrorMessage(err, t("deploy.deployFailed")),
       );
     }
   };
 
   const handleStop = async (projectId: string) => {
     try {
-      await api.post(`/deployments/${projectId}/stop`);
+      await deploymentsApi.stop(projectId);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       fetchProjects();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
@@ -175,15 +134,12 @@ export default function ProjectsScreen() {
     if (!deleteTarget) return;
     setDeleting(true);
     try {
-      await api.delete(`/projects/${deleteTarget._id}`);
+      await projectsApi.remove(deleteTarget._id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setDeleteTarget(null);
       fetchProjects();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     } finally {
       setDeleting(false);
     }
@@ -298,7 +254,7 @@ export default function ProjectsScreen() {
       <Pressable
         style={styles.webhookRow}
         onPress={() => {
-          Clipboard.setStringAsync(`${WEBHOOK_BASE}/api/webhook/${item._id}`);
+          Clipboard.setStringAsync(`${getServerUrl()}/api/webhook/${item._id}`);
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
           Alert.alert(t("common.success"), t("projects.webhookCopied"));
         }}
@@ -309,7 +265,7 @@ export default function ProjectsScreen() {
           color={Colors.textSecondary}
         />
         <Text style={styles.webhookText} numberOfLines={1}>
-          {WEBHOOK_BASE}/api/webhook/{item._id}
+          {getServerUrl()}/api/webhook/{item._id}
         </Text>
         <MaterialCommunityIcons
           name="content-copy"
@@ -492,6 +448,12 @@ export default function ProjectsScreen() {
           </Pressable>
         ))}
       </ScrollView>
+      <LastUpdated
+        updatedAt={updatedAt}
+        fetching={fetching}
+        offline={offline}
+        failed={!!error}
+      />
       <FlatList
         data={filtered}
         keyExtractor={(item) => item._id}
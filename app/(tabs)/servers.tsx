@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from "react";
+import { useState, useCallback } from "react";
 import {
   View,
   StyleSheet,
@@ -21,23 +21,14 @@ import {
 } from "react-native-paper";
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import { getErrorMessage, Server, serversApi } from "../../services/client";
 import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { ServerListSkeleton } from "../../components/Skeletons";
-
-interface Server {
-  _id: string;
-  name: string;
-  host: string;
-  port: number;
-  username: string;
-  authType: "password" | "key";
-  status: "online" | "offline" | "unknown";
-  lastCheckedAt?: string;
-}
+import LastUpdated from "../../components/LastUpdated";
+import { useQuery } from "../../hooks/useQuery";
 
 export default function ServersScreen() {
   const { t } = useTranslation();
@@ -46,9 +37,7 @@ export default function ServersScreen() {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const Colors = colors;
   const styles = createStyles(colors);
-  const [servers, setServers] = useState<Server[]>([]);
   const [search, setSearch] = useState("");
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [menuVisible, setMenuVisible] = useState<string | null>(null);
   const [testingId, setTestingId] = useState<string | null>(null);
@@ -58,43 +47,35 @@ export default function ServersScreen() {
     "all" | "online" | "offline"
   >("all");
 
-  const fetchServers = async () => {
-    try {
-      const res = await api.get("/servers");
-      setServers(res.data);
-    } catch (err) {
-      console.error("Failed to fetch servers", err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchServers();
-  }, []);
+  const {
+    data: servers = [],
+    refetch: fetchServers,
+    loading,
+    fetching,
+    offline,
+    error,
+    updatedAt,
+  } = useQuery<Server[]>(["servers"], serversApi.list);
 
-  const onRefresh = useCallback(() => {
+  const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    fetchServers();
-  }, []);
+    await fetchServers();
+    setRefreshing(false);
+  }, [fetchServers]);
 
   const handleTest = async (id: string) => {
     setTestingId(id);
     try {
-      await api.post(`/servers/${id}/test`);
+      await serversApi.testConnection(id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(
         t("common.success") || "Success",
         t("servers.connectionSuccess"),
       );
       fetchServers();
-    } catch (err: any) {
+    } catch (err) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert(
-        "Error",
-        err.response?.data?.message || t("servers.connectionFailed"),
-      );
+      Alert.alert("Error", getErrorMessage(err, t("servers.connectionFailed")));
     } finally {
       setTestingId(null);
     }
@@ -104,15 +85,12 @@ export default function ServersScreen() {
     if (!deleteTarget) return;
     setDeleting(true);
     try {
-      await api.delete(`/servers/${deleteTarget._id}`);
+      await serversApi.remove(deleteTarget._id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setDeleteTarget(null);
       fetchServers();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     } finally {
       setDeleting(false);
     }
@@ -278,6 +256,12 @@ export default function ServersScreen() {
           </Pressable>
         ))}
       </View>
+      <LastUpdated
+        updatedAt={updatedAt}
+        fetching={fetching}
+        offline={offline}
+        failed={!!error}
+      />
       <FlatList
         data={filtered}
         keyExtractor={(item) => item._id}
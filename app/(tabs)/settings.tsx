@@ -21,6 +21,7 @@ import {
   ActivityIndicator,
   Checkbox,
   List,
+  SegmentedButtons,
 } from "react-native-paper";
 import { useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
@@ -30,8 +31,24 @@ import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
+import * as LocalAuthentication from "expo-local-authentication";
+import * as Clipboard from "expo-clipboard";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import i18n from "../../services/i18n";
+import { getConfirmWindow, setConfirmWindow } from "../../services/outbox";
+import {
+  getActiveProfile,
+  getServerUrl,
+  subscribeActiveProfile,
+} from "../../services/backends";
+import BackendProfilesSheet from "../../components/BackendProfilesSheet";
+import {
+  APP_LOCK_TIMEOUT_OPTIONS,
+  getAppLockSettings,
+  loadAppLockSettings,
+  setAppLockSettings,
+  subscribeAppLock,
+} from "../../services/appLock";
 
 export default function SettingsScreen() {
   const { t } = useTranslation();
@@ -69,6 +86,8 @@ export default function SettingsScreen() {
   const [twoFactorSecret, setTwoFactorSecret] = useState("");
   const [twoFactorQrCode, setTwoFactorQrCode] = useState("");
   const [twoFactorLoading, setTwoFactorLoading] = useState(false);
+  // Shown once right after setup; the server only returns them then
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const [disable2FAPassword, setDisable2FAPassword] = useState("");
 
   // GitHub state
@@ -123,6 +142,43 @@ export default function SettingsScreen() {
   });
 
   const [language, setLanguage] = useState(i18n.language || "vi");
+  const [confirmWindow, setConfirmWindowState] = useState<number | null>(null);
+
+  const [backend, setBackend] = useState(getActiveProfile);
+  const [showBackends, setShowBackends] = useState(false);
+
+  useEffect(() => {
+    getConfirmWindow().then(setConfirmWindowState);
+  }, []);
+
+  useEffect(() => subscribeActiveProfile(setBackend), []);
+
+  const [appLock, setAppLock] = useState(getAppLockSettings);
+
+  useEffect(() => {
+    loadAppLockSettings().then(setAppLock);
+    return subscribeAppLock(setAppLock);
+  }, []);
+
+  // Turning the lock on must prove the biometric works first
+  const handleToggleAppLock = async (enabled: boolean) => {
+    if (enabled) {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: t("appLock.prompt"),
+        cancelLabel: t("common.cancel"),
+      });
+      if (!result.success) return;
+    }
+    Haptics.selectionAsync();
+    setAppLockSettings({ enabled });
+  };
+
+  const handleConfirmWindow = (value: string) => {
+    const minutes = parseInt(value, 10);
+    setConfirmWindowState(minutes);
+    setConfirmWindow(minutes);
+    Haptics.selectionAsync();
+  };
 
   useEffect(() => {
     const init = async () => {
@@ -389,15 +445,19 @@ export default function SettingsScreen() {
     if (twoFactorCode.length < 6) return;
     try {
       setTwoFactorLoading(true);
-      await api.post("/auth/2fa/verify", {
+      const res = await api.post("/auth/2fa/verify", {
         token: twoFactorCode,
         secret: twoFactorSecret, // Initial verification needs the secret
       });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert(
-        t("common.success"),
-        t("settings.twoFactorEnabled", "2FA Enabled"),
-      );
+      if (res.data?.recoveryCodes?.length) {
+        setRecoveryCodes(res.data.recoveryCodes);
+      } else {
+        Alert.alert(
+          t("common.success"),
+          t("settings.twoFactorEnabled", "2FA Enabled"),
+        );
+      }
       setShow2FADialog(false);
       setTwoFactorCode("");
 
@@ -512,6 +572,35 @@ export default function SettingsScreen() {
           </Card.Content>
         </Card>
 
+        {/* Backend profile */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionTitleRow}>
+              <SectionIcon name="server-network" />
+              <Text style={styles.sectionTitle}>{t("backends.title")}</Text>
+            </View>
+            <View style={styles.backendRow}>
+              <View
+                style={[styles.backendDot, { backgroundColor: backend.color }]}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.switchLabel}>{backend.name}</Text>
+                <Text style={styles.backendUrl} numberOfLines={1}>
+                  {backend.url}
+                </Text>
+              </View>
+              <Button
+                mode="outlined"
+                compact
+                onPress={() => setShowBackends(true)}
+                textColor={Colors.primary}
+              >
+                {t("backends.manage")}
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+
         {/* Language */}
         <Card style={styles.card}>
           <Card.Content>
@@ -622,6 +711,30 @@ export default function SettingsScreen() {
           </Card.Content>
         </Card>
 
+        {/* Offline action queue */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionTitleRow}>
+              <SectionIcon name="tray-full" />
+              <Text style={styles.sectionTitle}>
+                {t("outbox.confirmWindow")}
+              </Text>
+            </View>
+            <Text style={styles.settingDesc}>
+              {t("outbox.confirmWindowDesc")}
+            </Text>
+            <SegmentedButtons
+              value={confirmWindow !== null ? String(confirmWindow) : ""}
+              onValueChange={handleConfirmWindow}
+              buttons={[5, 15, 60].map((m) => ({
+                value: String(m),
+                label: t("outbox.minutes", { count: m }),
+              }))}
+              style={{ marginTop: 12 }}
+            />
+          </Card.Content>
+        </Card>
+
         {/* Biometric Security */}
         {biometricAvailable && (
           <Card style={styles.card}>
@@ -677,6 +790,36 @@ export default function SettingsScreen() {
                   </Text>
                 </View>
               )}
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.switchLabel}>{t("appLock.enable")}</Text>
+                  <Text style={styles.backendUrl}>
+                    {t("appLock.enableDesc")}
+                  </Text>
+                </View>
+                <Switch
+                  value={appLock.enabled}
+                  onValueChange={handleToggleAppLock}
+                  color={Colors.primary}
+                />
+              </View>
+              {appLock.enabled && (
+                <SegmentedButtons
+                  value={String(appLock.timeoutMinutes)}
+                  onValueChange={(value) => {
+                    Haptics.selectionAsync();
+                    setAppLockSettings({ timeoutMinutes: parseInt(value, 10) });
+                  }}
+                  buttons={APP_LOCK_TIMEOUT_OPTIONS.map((m) => ({
+                    value: String(m),
+                    label:
+                      m === 0
+                        ? t("appLock.immediately")
+                        : t("outbox.minutes", { count: m }),
+                  }))}
+                  style={{ marginTop: 8 }}
+                />
+              )}
             </Card.Content>
           </Card>
         )}
@@ -1209,7 +1352,7 @@ export default function SettingsScreen() {
                   color: isDark ? "#c9d1d9" : "#24292e",
                 }}
               >
-                POST {process.env.EXPO_PUBLIC_API_URL?.replace("/api", "")}
+                POST {getServerUrl()}
                 /api/webhook/{"<projectId>"}
               </Text>
             </View>
@@ -1768,6 +1911,47 @@ export default function SettingsScreen() {
             </Dialog.Actions>
           </Dialog>
 
+          {/* Recovery codes, shown once after enabling 2FA */}
+          <Dialog
+            visible={!!recoveryCodes}
+            dismissable={false}
+            style={{ backgroundColor: Colors.card, borderRadius: 20 }}
+          >
+            <Dialog.Title style={{ color: Colors.text }}>
+              {t("settings.recoveryCodes")}
+            </Dialog.Title>
+            <Dialog.Content>
+              <Text style={{ color: Colors.textSecondary, marginBottom: 14 }}>
+                {t("settings.recoveryCodesDesc")}
+              </Text>
+              <View style={styles.recoveryGrid}>
+                {recoveryCodes?.map((code) => (
+                  <Text key={code} style={styles.recoveryCode}>
+                    {code}
+                  </Text>
+                ))}
+              </View>
+            </Dialog.Content>
+            <Dialog.Actions>
+              <Button
+                icon="content-copy"
+                onPress={() => {
+                  Clipboard.setStringAsync(recoveryCodes?.join("\n") || "");
+                  Haptics.selectionAsync();
+                }}
+                textColor={Colors.textSecondary}
+              >
+                {t("common.copy")}
+              </Button>
+              <Button
+                onPress={() => setRecoveryCodes(null)}
+                textColor={Colors.primary}
+              >
+                {t("settings.recoveryCodesSaved")}
+              </Button>
+            </Dialog.Actions>
+          </Dialog>
+
           {/* S3 Configuration Dialog */}
           <Dialog
             visible={s3DialogOpen}
@@ -2014,6 +2198,10 @@ export default function SettingsScreen() {
             </Dialog.Actions>
           </Dialog>
         </Portal>
+        <BackendProfilesSheet
+          visible={showBackends}
+          onDismiss={() => setShowBackends(false)}
+        />
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -2045,6 +2233,25 @@ const createStyles = (Colors: any) =>
       fontWeight: "600",
       marginTop: 2,
     },
+    backendRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      marginTop: 8,
+    },
+    backendDot: { width: 12, height: 12, borderRadius: 6 },
+    recoveryGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+    recoveryCode: {
+      width: "47%",
+      textAlign: "center",
+      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+      fontSize: 14,
+      color: Colors.text,
+      backgroundColor: Colors.surface,
+      paddingVertical: 6,
+      borderRadius: 6,
+    },
+    backendUrl: { fontSize: 12, color: Colors.textSecondary },
     adminBtn: { marginTop: 14, borderColor: Colors.primary, borderRadius: 10 },
     sectionTitleRow: {
       flexDirection: "row",
@@ -12,9 +12,13 @@ import { AuthProvider, useAuth } from "../contexts/AuthContext";
 import { ThemeProvider, useAppTheme } from "../contexts/ThemeContext";
 import { ServerProvider } from "../contexts/ServerContext";
 import { NotificationProvider } from "../contexts/NotificationContext";
+import { TerminalSessionProvider } from "../contexts/TerminalSessionContext";
 import "../services/i18n";
 import { useTranslation } from "react-i18next";
 import NetworkMonitor from "../components/NetworkMonitor";
+import PendingActions from "../components/PendingActions";
+import AppLock from "../components/AppLock";
+import { markActivity } from "../services/appLock";
 
 function RootLayoutNav() {
   const { t } = useTranslation();
@@ -43,7 +47,8 @@ function RootLayoutNav() {
   }
 
   return (
-    <>
+    // Any touch resets the app lock's idle timer
+    <View style={styles.root} onTouchStart={markActivity}>
       <StatusBar style={isDark ? "light" : "dark"} />
       <Stack
         screenOptions={{
@@ -87,10 +92,22 @@ function RootLayoutNav() {
           name="deployment/[id]"
           options={{ title: "Deployment", headerBackTitle: "Back" }}
         />
+        <Stack.Screen
+          name="deployment/diff"
+          options={{ title: "Git Diff", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="deployment/compare"
+          options={{ title: "Compare", headerBackTitle: "Back" }}
+        />
         <Stack.Screen
           name="nginx/[serverId]"
           options={{ title: "Nginx Manager", headerBackTitle: "Server" }}
         />
+        <Stack.Screen
+          name="nginx/wizard"
+          options={{ title: "Vhost Wizard", headerBackTitle: "Back" }}
+        />
         <Stack.Screen
           name="admin/users"
           options={{ title: "User Management", headerBackTitle: "Settings" }}
@@ -116,6 +133,26 @@ function RootLayoutNav() {
           name="docker"
           options={{ title: t("nav.docker") || "Docker" }}
         />
+        <Stack.Screen
+          name="docker/stack"
+          options={{ title: "Compose Stack", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="docker/container"
+          options={{ title: "Container", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="docker/disk"
+          options={{ title: "Disk Usage", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="pm2/ecosystem"
+          options={{ title: "Ecosystem", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="pm2/process"
+          options={{ title: "Process", headerBackTitle: "Back" }}
+        />
         <Stack.Screen
           name="infrastructure"
           options={{ title: t("nav.infrastructure") || "Infrastructure" }}
@@ -124,6 +161,22 @@ function RootLayoutNav() {
           name="pipelines"
           options={{ title: t("nav.pipelines") || "Pipelines" }}
         />
+        <Stack.Screen
+          name="pipelines/editor"
+          options={{ title: "Pipeline Editor", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="pipelines/runs"
+          options={{ title: "Pipeline Runs", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="pipelines/run"
+          options={{ title: "Pipeline Run", headerBackTitle: "Back" }}
+        />
+        <Stack.Screen
+          name="schedules"
+          options={{ title: t("nav.schedules") || "Deploy Calendar" }}
+        />
         <Stack.Screen
           name="secrets"
           options={{ title: t("nav.secrets") || "Secrets Vault" }}
@@ -141,7 +194,9 @@ function RootLayoutNav() {
           options={{ title: t("nav.webhookDebug") || "Webhook Debug" }}
         />
       </Stack>
-    </>
+      {user && <PendingActions />}
+      {user && <AppLock />}
+    </View>
   );
 }
 
@@ -183,8 +238,10 @@ function ThemedApp() {
         <AuthProvider>
           <ServerProvider>
             <NotificationProvider>
-              <NetworkMonitor />
-              <RootLayoutNav />
+              <TerminalSessionProvider>
+                <NetworkMonitor />
+                <RootLayoutNav />
+              </TerminalSessionProvider>
             </NotificationProvider>
           </ServerProvider>
         </AuthProvider>
@@ -206,6 +263,7 @@ export default function RootLayout() {
 }
 
 const styles = StyleSheet.create({
+  root: { flex: 1 },
   loading: {
     flex: 1,
     justifyContent: "center",
@@ -18,43 +18,16 @@ import {
 import { Svg, Path, Defs, LinearGradient, Stop, Line } from "react-native-svg";
 import { Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  analyticsApi,
+  DoraMetrics,
+  ProjectStat,
+  TrendDay,
+} from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 
 // --- Interfaces ---
-interface DoraMetrics {
-  period: number;
-  deployFrequency: number;
-  totalDeploys: number;
-  avgLeadTimeMinutes: number;
-  changeFailureRate: number;
-  failedDeploys: number;
-  mttrMinutes: number;
-  recoveryCount: number;
-}
-
-interface TrendDay {
-  date: string;
-  day: string;
-  success: number;
-  failed: number;
-  total: number;
-  avgDurationSeconds: number;
-}
-
-interface ProjectStat {
-  projectId: string;
-  name: string;
-  status: string;
-  total: number;
-  success: number;
-  failed: number;
-  successRate: number;
-  avgDurationSeconds: number;
-  lastDeploy: string;
-}
-
 // --- Helper Components ---
 const MetricCard = ({
   icon,
@@ -99,16 +72,16 @@ export default function AnalyticsScreen() {
 
   const fetchData = useCallback(async () => {
     try {
-      const [doraRes, trendsRes, heatmapRes, projectsRes] = await Promise.all([
-        api.get(`/analytics/dora?days=${days}`),
-        api.get(`/analytics/trends?days=${days}`),
-        api.get(`/analytics/heatmap?days=${days}`),
-        api.get(`/analytics/projects?days=${days}`),
+      const [doraData, trendData, heatmapData, statsData] = await Promise.all([
+        analyticsApi.dora(days),
+        analyticsApi.trends(days),
+        analyticsApi.heatmap(days),
+        analyticsApi.projects(days),
       ]);
-      setDora(doraRes.data);
-      setTrends(trendsRes.data.trends || []);
-      setHeatmap(heatmapRes.data.heatmap || []);
-      setProjectStats(projectsRes.data.stats || []);
+      setDora(doraData);
+      setTrends(trendData);
+      setHeatmap(heatmapData);
+      setProjectStats(statsData);
     } catch (error) {
       console.error("Failed to fetch analytics", error);
     } finally {
@@ -24,24 +24,16 @@ import {
 } from "react-native-paper";
 import { Stack, useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  Approval,
+  ApprovalDecision,
+  approvalsApi,
+  ApprovalStatus,
+  getErrorMessage,
+} from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 
-interface Approval {
-  _id: string;
-  title: string;
-  description?: string;
-  type: string;
-  status: "pending" | "approved" | "rejected";
-  requestedBy: { _id: string; username: string; email: string };
-  reviewedBy?: { _id: string; username: string };
-  reviewedAt?: string;
-  reviewComment?: string;
-  project: { _id: string; name: string };
-  createdAt: string;
-}
-
 const statusConfig: Record<
   string,
   { color: string; icon: string; label: string }
@@ -75,7 +67,7 @@ export default function ApprovalsScreen() {
   const { colors, isDark } = useAppTheme();
   const styles = createStyles(colors);
 
-  const [tab, setTab] = useState("all");
+  const [tab, setTab] = useState<ApprovalStatus | "all">("all");
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [approvals, setApprovals] = useState<Approval[]>([]);
@@ -86,8 +78,8 @@ export default function ApprovalsScreen() {
   const [reviewDialog, setReviewDialog] = useState<{
     open: boolean;
     id: string;
-    action: string;
-  }>({ open: false, id: "", action: "" });
+    action: ApprovalDecision;
+  }>({ open: false, id: "", action: "approve" });
   const [reviewComment, setReviewComment] = useState("");
   const [newApproval, setNewApproval] = useState({
     title: "",
@@ -98,8 +90,7 @@ export default function ApprovalsScreen() {
 
   const fetchApprovals = useCallback(async () => {
     try {
-      const { data } = await api.get(`/approvals?status=${tab}`);
-      setApprovals(data.approvals || []);
+      setApprovals(await approvalsApi.list(tab));
     } catch (error) {
       console.error("Failed to load approvals", error);
       Alert.alert(
@@ -125,7 +116,7 @@ export default function ApprovalsScreen() {
   const handleCreateApproval = async () => {
     if (!newApproval.title) return;
     try {
-      await api.post("/approvals", newApproval);
+      await approvalsApi.create(newApproval);
       setCreateDialog(false);
       setNewApproval({
         title: "",
@@ -134,22 +125,23 @@ export default function ApprovalsScreen() {
         projectId: "",
       });
       fetchApprovals();
-    } catch (error: any) {
-      Alert.alert(t("common.error"), error.response?.data?.message || "Failed");
+    } catch (error) {
+      Alert.alert(t("common.error"), getErrorMessage(error, "Failed"));
     }
   };
 
   const handleReview = async () => {
     try {
-      await api.post(`/approvals/${reviewDialog.id}/review`, {
-        action: reviewDialog.action,
-        comment: reviewComment,
-      });
-      setReviewDialog({ open: false, id: "", action: "" });
+      await approvalsApi.review(
+        reviewDialog.id,
+        reviewDialog.action,
+        reviewComment,
+      );
+      setReviewDialog({ open: false, id: "", action: "approve" });
       setReviewComment("");
       fetchApprovals();
-    } catch (error: any) {
-      Alert.alert(t("common.error"), error.response?.data?.message || "Failed");
+    } catch (error) {
+      Alert.alert(t("common.error"), getErrorMessage(error, "Failed"));
     }
   };
 
@@ -167,12 +159,12 @@ export default function ApprovalsScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              await api.delete(`/approvals/${id}`);
+              await approvalsApi.remove(id);
               fetchApprovals();
-            } catch (error: any) {
+            } catch (error) {
               Alert.alert(
                 t("common.error"),
-                error.response?.data?.message || "Failed",
+                getErrorMessage(error, "Failed"),
               );
             }
           },
@@ -316,7 +308,7 @@ export default function ApprovalsScreen() {
       <View style={styles.tabContainer}>
         <SegmentedButtons
           value={tab}
-          onValueChange={setTab}
+          onValueChange={(value) => setTab(value as ApprovalStatus | "all")}
           buttons={[
             { value: "all", label: "All" },
             { value: "pending", label: "Pending" },
@@ -465,7 +457,9 @@ export default function ApprovalsScreen() {
         {/* Review Dialog */}
         <Dialog
           visible={reviewDialog.open}
-          onDismiss={() => setReviewDialog({ open: false, id: "", action: "" })}
+          onDismiss={() =>
+            setReviewDialog({ open: false, id: "", action: "approve" })
+          }
         >
           <Dialog.Title>
             {reviewDialog.action === "approve" ? "✅ Approve" : "❌ Reject"}{" "}
@@ -484,7 +478,7 @@ export default function ApprovalsScreen() {
           <Dialog.Actions>
             <Button
               onPress={() =>
-                setReviewDialog({ open: false, id: "", action: "" })
+                setReviewDialog({ open: false, id: "", action: "approve" })
               }
             >
               {t("common.cancel", "Cancel")}
@@ -14,28 +14,12 @@ import { useTranslation } from "react-i18next";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { useAppTheme } from "../contexts/ThemeContext";
-import api from "../services/api";
+import { analyticsApi, ServerBandwidth } from "../services/client";
 
 const screenWidth = Dimensions.get("window").width;
 const chartWidth = screenWidth - 64; // padding 16 * 2 + card padding 16 * 2
 const chartHeight = 220;
 
-interface BandwidthHistory {
-  timestamp: string;
-  rxRate: number;
-  txRate: number;
-}
-
-interface ServerBandwidth {
-  serverId: string;
-  name: string;
-  host: string;
-  status: string;
-  currentRx: number;
-  currentTx: number;
-  history: BandwidthHistory[];
-}
-
 const formatBytes = (bytes: number) => {
   if (!bytes || bytes === 0) return "0 B";
   const k = 1024;
@@ -59,12 +43,8 @@ export default function BandwidthScreen() {
     if (!selectedServer?._id) return;
     if (!silent) setLoading(true);
     try {
-      const res = await api.get("/analytics/bandwidth");
-      setData(
-        res.data.filter(
-          (s: ServerBandwidth) => s.serverId === selectedServer._id,
-        ),
-      );
+      const all = await analyticsApi.bandwidth();
+      setData(all.filter((s) => s.serverId === selectedServer._id));
     } catch (err) {
       console.error(err);
     } finally {
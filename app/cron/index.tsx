@@ -6,6 +6,7 @@ import {
   Alert,
   KeyboardAvoidingView,
   Platform,
+  Pressable,
 } from "react-native";
 import {
   Text,
@@ -22,33 +23,50 @@ import {
   Menu,
   Switch,
   RadioButton,
+  Chip,
+  HelperText,
 } from "react-native-paper";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import { CronJobRun, cronApi, getErrorMessage } from "../../services/client";
 import { useServer } from "../../contexts/ServerContext";
+import { runOrQueue } from "../../services/outbox";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import CustomAlertDialog, {
   CustomAlertDialogRef,
 } from "../../components/CustomAlertDialog";
+import { useRoom, useSocketEvent } from "../../hooks/useRealtime";
+import { format, formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { elapsedMs, formatDuration } from "../../utils/duration";
+import {
+  CRON_MACROS,
+  CRON_RUN_ICONS,
+  CronError,
+  CronJob,
+  CrontabEntry,
+  crontabJobs,
+  cronRunColor,
+  describeCron,
+  newCronJob,
+  newMonitorKey,
+  nextCronRuns,
+  parseCron,
+  parseCrontab,
+  serializeCrontab,
+} from "../../utils/cron";
+import { resolveTimezone } from "../../utils/timezone";
 
-interface CronJob {
-  id: string; // generated uuid
-  min: string;
-  hour: string;
-  dom: string;
-  mon: string;
-  dow: string;
-  command: string;
-}
-
-const generateId = () => Math.random().toString(36).substr(2, 9);
+const PREVIEW_RUNS = 5;
+// Recent runs across all monitored jobs, for the strip on each card
+const RECENT_RUNS = 100;
+const STRIP_RUNS = 12;
 
 export default function CronScreen() {
   const router = useRouter();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { colors } = useAppTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const insets = useSafeAreaInsets();
@@ -60,24 +78,20 @@ export default function CronScreen() {
 
   // Data
   const [jobs, setJobs] = useState<CronJob[]>([]);
-  const [rawLines, setRawLines] = useState<string[]>([]);
+  const [entries, setEntries] = useState<CrontabEntry[]>([]);
   const [cronContent, setCronContent] = useState("");
-  const [originalContent, setOriginalContent] = useState("");
+  // Runs are previewed in the server's zone when the agent reports it
+  const [timezone, setTimezone] = useState<string | undefined>();
+  const [runs, setRuns] = useState<CronJobRun[]>([]);
 
   // Editor State
   const [dialogVisible, setDialogVisible] = useState(false);
   const [editingJob, setEditingJob] = useState<CronJob | null>(null);
 
   // Form Data
-  const [formData, setFormData] = useState<CronJob>({
-    id: "",
-    min: "*",
-    hour: "*",
-    dom: "*",
-    mon: "*",
-    dow: "*",
-    command: "",
-  });
+  const [formData, setFormData] = useState<CronJob>(newCronJob());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [installing, setInstalling] = useState(false);
 
   // Simple Form State
   const [frequency, setFrequency] = useState("daily");
@@ -96,74 +110,87 @@ export default function CronScreen() {
     if (!selectedServer) return;
     setLoading(true);
     try {
-      const { data } = await api.get(`/cron/${selectedServer._id}`);
-      const content = data.jobs || "";
-      parseContent(content);
-    } catch (err: any) {
+      const crontab = await cronApi.get(selectedServer._id);
+      setTimezone(crontab.timezone);
+      setCronContent(crontab.jobs);
+      parseContent(crontab.jobs);
+      fetchRuns();
+    } catch (err) {
       dialogRef.current?.show(
         "Error",
-        err.response?.data?.message || "Failed to fetch cron jobs",
+        getErrorMessage(err, "Failed to fetch cron jobs"),
       );
     } finally {
       setLoading(false);
     }
   };
 
-  const parseContent = (content: string) => {
-    const lines = content.split("\n");
-    const parsedJobs: CronJob[] = [];
-    const others: string[] = [];
-
-    lines.forEach((line) => {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith("#") || trimmed.includes("=")) {
-        others.push(line);
-        return;
-      }
-
-      const parts = trimmed.split(/\s+/);
-      if (parts.length >= 6) {
-        parsedJobs.push({
-          id: generateId(),
-          min: parts[0],
-          hour: parts[1],
-          dom: parts[2],
-          mon: parts[3],
-          dow: parts[4],
-          command: parts.slice(5).join(" "),
-        });
-      } else {
-        others.push(line);
-      }
-    });
-
-    setJobs(parsedJobs);
-    setRawLines(others);
+  // History is optional: jobs still show without it
+  const fetchRuns = async () => {
+    if (!selectedServer) return;
+    try {
+      setRuns(await cronApi.runs(selectedServer._id, { limit: RECENT_RUNS }));
+    } catch {
+      setRuns([]);
+    }
   };
 
-  const stringifyJobs = (currentJobs: CronJob[]) => {
-    const jobLines = currentJobs.map(
-      (j) => `${j.min} ${j.hour} ${j.dom} ${j.mon} ${j.dow} ${j.command}`,
+  useRoom("server", selectedServer?._id);
+  useSocketEvent("cron:run", ({ serverId, ...run }) => {
+    if (serverId !== selectedServer?._id) return;
+    setRuns((prev) =>
+      prev.some((r) => r._id === run._id)
+        ? prev.map((r) => (r._id === run._id ? run : r))
+        : [run, ...prev],
+    );
+  });
+
+  const runsByJob = useMemo(() => {
+    const byJob = new Map<string, CronJobRun[]>();
+    runs.forEach((run) =>
+      byJob.set(run.jobKey, [...(byJob.get(run.jobKey) || []), run]),
     );
+    return byJob;
+  }, [runs]);
 
-    const cleanRawLines = rawLines.filter((l) => l.trim() !== "");
-    return [...cleanRawLines, ...jobLines].join("\n").trim() + "\n";
+  const parseContent = (content: string) => {
+    const parsed = parseCrontab(content);
+    setEntries(parsed);
+    setJobs(crontabJobs(parsed));
   };
 
+  // Comments, env lines and lines we can't parse are written back as-is
+  const stringifyJobs = (currentJobs: CronJob[]) =>
+    serializeCrontab(entries, currentJobs);
+
   const saveCronJobs = async () => {
     if (!selectedServer) return;
     setLoading(true);
     const contentToSave = mode === "visual" ? stringifyJobs(jobs) : cronContent;
 
     try {
-      await api.post(`/cron/${selectedServer._id}`, { jobs: contentToSave });
+      const result = await runOrQueue(
+        {
+          kind: "cron-save",
+          serverId: selectedServer._id,
+          jobs: contentToSave,
+        },
+        t("outbox.cronLabel", { server: selectedServer.name }),
+      );
+      if (result.queued) {
+        dialogRef.current?.show(
+          t("outbox.queuedTitle"),
+          t("outbox.queuedMessage"),
+        );
+        return;
+      }
       setCronContent(contentToSave);
       if (mode === "visual") parseContent(contentToSave);
       dialogRef.current?.show(t("common.success"), t("cron.jobUpdated"));
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         t("common.error"),
-        err.response?.data?.message || t("cron.saveFailed"),
+        getErrorMessage(err, t("cron.saveFailed")),
       );
     } finally {
       setLoading(false);
@@ -171,7 +198,14 @@ export default function CronScreen() {
   };
 
   const detectFrequency = (job: CronJob) => {
-    const { min, hour, dom, mon, dow } = job;
+    const fields = job.expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      setFrequency("custom");
+      return;
+    }
+    const [min, hour, dom, mon, dow] = fields;
+    const isNum = (v: string) => /^\d+$/.test(v);
+    const time = `${hour.padStart(2, "0")}:${min.padStart(2, "0")}`;
     if (
       min === "*" &&
       hour === "*" &&
@@ -180,87 +214,71 @@ export default function CronScreen() {
       dow === "*"
     ) {
       setFrequency("everyMinute");
-    } else if (hour === "*" && dom === "*" && mon === "*" && dow === "*") {
+    } else if (
+      isNum(min) &&
+      hour === "*" &&
+      dom === "*" &&
+      mon === "*" &&
+      dow === "*"
+    ) {
       setFrequency("hourly");
-      setSimpleMinute(min === "*" ? "0" : min);
-    } else if (dom === "*" && mon === "*" && dow === "*") {
+      setSimpleMinute(min);
+    } else if (!isNum(min) || !isNum(hour) || mon !== "*") {
+      setFrequency("custom");
+    } else if (dom === "*" && dow === "*") {
       setFrequency("daily");
-      setSimpleTime(`${hour.padStart(2, "0")}:${min.padStart(2, "0")}`);
-    } else if (dom === "*" && mon === "*" && dow !== "*") {
+      setSimpleTime(time);
+    } else if (dom === "*" && isNum(dow)) {
       setFrequency("weekly");
-      setSimpleTime(`${hour.padStart(2, "0")}:${min.padStart(2, "0")}`);
+      setSimpleTime(time);
       setSimpleDayOfWeek(dow);
-    } else if (dom !== "*" && mon === "*" && dow === "*") {
+    } else if (isNum(dom) && dow === "*") {
       setFrequency("monthly");
-      setSimpleTime(`${hour.padStart(2, "0")}:${min.padStart(2, "0")}`);
+      setSimpleTime(time);
       setSimpleDayOfMonth(dom);
     } else {
       setFrequency("custom");
     }
   };
 
-  const updateFormDataFromSimple = (newFreq: string) => {
-    const newData = { ...formData };
-    switch (newFreq) {
+  // The expression the form currently describes
+  const simpleExpression = () => {
+    const [h, m] = simpleTime.split(":").map((n) => parseInt(n, 10) || 0);
+    switch (frequency) {
       case "everyMinute":
-        newData.min = "*";
-        newData.hour = "*";
-        newData.dom = "*";
-        newData.mon = "*";
-        newData.dow = "*";
-        break;
+        return "* * * * *";
       case "hourly":
-        newData.min = simpleMinute;
-        newData.hour = "*";
-        newData.dom = "*";
-        newData.mon = "*";
-        newData.dow = "*";
-        break;
+        return `${parseInt(simpleMinute, 10) || 0} * * * *`;
       case "daily":
-        const [dh, dm] = simpleTime.split(":");
-        newData.min = parseInt(dm || "0").toString();
-        newData.hour = parseInt(dh || "0").toString();
-        newData.dom = "*";
-        newData.mon = "*";
-        newData.dow = "*";
-        break;
+        return `${m} ${h} * * *`;
       case "weekly":
-        const [wh, wm] = simpleTime.split(":");
-        newData.min = parseInt(wm || "0").toString();
-        newData.hour = parseInt(wh || "0").toString();
-        newData.dom = "*";
-        newData.mon = "*";
-        newData.dow = simpleDayOfWeek;
-        break;
+        return `${m} ${h} * * ${simpleDayOfWeek}`;
       case "monthly":
-        const [mh, mm] = simpleTime.split(":");
-        newData.min = parseInt(mm || "0").toString();
-        newData.hour = parseInt(mh || "0").toString();
-        newData.dom = simpleDayOfMonth;
-        newData.mon = "*";
-        newData.dow = "*";
-        break;
+        return `${m} ${h} ${simpleDayOfMonth} * *`;
+      default:
+        return formData.expression;
     }
-    setFormData(newData);
-    setFrequency(newFreq);
   };
 
+  const expression = simpleExpression();
+  const parsed = useMemo(() => parseCron(expression), [expression]);
+  const previewRuns = useMemo(
+    () =>
+      parsed.schedule
+        ? nextCronRuns(parsed.schedule, PREVIEW_RUNS, timezone)
+        : [],
+    [parsed, timezone],
+  );
+
   const openDialog = (job?: CronJob) => {
+    setFormError(null);
     if (job) {
       setEditingJob(job);
       setFormData({ ...job });
       detectFrequency(job);
     } else {
       setEditingJob(null);
-      setFormData({
-        id: generateId(),
-        min: "0",
-        hour: "0",
-        dom: "*",
-        mon: "*",
-        dow: "*",
-        command: "",
-      });
+      setFormData(newCronJob());
       setFrequency("daily");
       setSimpleTime("00:00");
       setSimpleDayOfWeek("1");
@@ -270,42 +288,37 @@ export default function CronScreen() {
     setDialogVisible(true);
   };
 
-  const handleSaveJob = () => {
-    if (frequency !== "custom") {
-      updateFormDataFromSimple(frequency);
+  const handleSaveJob = async () => {
+    if (!selectedServer) return;
+    if (parsed.errors.length) {
+      setFormError(t("cron.fixSchedule"));
+      return;
+    }
+    if (!formData.command.trim()) {
+      setFormError(t("cron.commandRequired"));
+      return;
     }
+    const finalJob: CronJob = {
+      ...formData,
+      expression: expression.trim().replace(/\s+/g, " "),
+      command: formData.command.trim(),
+    };
 
-    let finalJob = { ...formData };
-
-    if (frequency !== "custom") {
-      switch (frequency) {
-        case "everyMinute":
-          finalJob.min = "*";
-          finalJob.hour = "*";
-          finalJob.dom = "*";
-          break;
-        case "hourly":
-          finalJob.min = simpleMinute;
-          finalJob.hour = "*";
-          break;
-        case "daily":
-          const [dh, dm] = simpleTime.split(":");
-          finalJob.min = parseInt(dm || "0").toString();
-          finalJob.hour = parseInt(dh || "0").toString();
-          break;
-        case "weekly":
-          const [wh, wm] = simpleTime.split(":");
-          finalJob.min = parseInt(wm || "0").toString();
-          finalJob.hour = parseInt(wh || "0").toString();
-          finalJob.dow = simpleDayOfWeek;
-          break;
-        case "monthly":
-          const [mh, mm] = simpleTime.split(":");
-          finalJob.min = parseInt(mm || "0").toString();
-          finalJob.hour = parseInt(mh || "0").toString();
-          finalJob.dom = simpleDayOfMonth;
-          break;
+    // The first monitored job on a server installs the wrapper
+    if (finalJob.monitor && !finalJob.monitor.wrapper) {
+      let wrapper = jobs.find((j) => j.monitor)?.monitor?.wrapper;
+      if (!wrapper) {
+        setInstalling(true);
+        try {
+          ({ wrapper } = await cronApi.installMonitor(selectedServer._id));
+        } catch (err) {
+          setFormError(getErrorMessage(err, t("cron.monitorInstallFailed")));
+          return;
+        } finally {
+          setInstalling(false);
+        }
       }
+      finalJob.monitor = { ...finalJob.monitor, wrapper };
     }
 
     if (editingJob) {
@@ -326,25 +339,113 @@ export default function CronScreen() {
     );
   };
 
-  const describeCron = (job: CronJob) => {
-    const { min, hour, dom, mon, dow } = job;
-    if (
-      min === "*" &&
-      hour === "*" &&
-      dom === "*" &&
-      mon === "*" &&
-      dow === "*"
-    )
-      return "Every minute";
-    if (hour === "*" && dom === "*" && mon === "*" && dow === "*")
-      return `Hourly at :${min.padStart(2, "0")}`;
-    if (dom === "*" && mon === "*" && dow === "*")
-      return `Daily at ${hour.padStart(2, "0")}:${min.padStart(2, "0")}`;
-    if (dom === "*" && mon === "*" && dow !== "*") {
-      const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
-      return `Weekly on ${days[parseInt(dow) || 0]} at ${hour.padStart(2, "0")}:${min.padStart(2, "0")}`;
-    }
-    return `${min} ${hour} ${dom} ${mon} ${dow}`;
+  const zone = resolveTimezone(timezone);
+  const dateLocale = i18n.language === "vi" ? vi : undefined;
+  const invalidLines = useMemo(
+    () =>
+      (mode === "raw" ? parseCrontab(cronContent) : entries).flatMap((e) =>
+        e.kind === "invalid" ? [e] : [],
+      ),
+    [mode, cronContent, entries],
+  );
+
+  const errorText = (e: CronError) =>
+    e.field === "expression"
+      ? e.message
+      : `${t(`cron.fields.${e.field}`)}: ${e.message}`;
+
+  const describeJob = (job: CronJob) => {
+    const { schedule } = parseCron(job.expression);
+    return schedule ? describeCron(schedule, t) : job.expression;
+  };
+
+  const setMonitored = (enabled: boolean) =>
+    setFormData({
+      ...formData,
+      monitor: enabled
+        ? editingJob?.monitor || {
+            wrapper: "",
+            key: newMonitorKey(),
+            alert: true,
+          }
+        : undefined,
+    });
+
+  const openRuns = (job: CronJob) =>
+    job.monitor &&
+    router.push({
+      pathname: "/cron/runs",
+      params: {
+        serverId: selectedServer!._id,
+        job: job.monitor.key,
+        command: job.command,
+      },
+    });
+
+  const nextRunOf = (job: CronJob) => {
+    const { schedule } = parseCron(job.expression);
+    const [next] = schedule ? nextCronRuns(schedule, 1, timezone) : [];
+    return next;
+  };
+
+  // Oldest to newest, like a timeline read left to right
+  const renderRunStrip = (job: CronJob) => {
+    const jobRuns = runsByJob.get(job.monitor!.key) || [];
+    const [last] = jobRuns;
+    const lastDuration = last && last.status !== "missed" && elapsedMs(last);
+    return (
+      <Pressable style={styles.runStrip} onPress={() => openRuns(job)}>
+        <View style={styles.runDots}>
+          {jobRuns
+            .slice(0, STRIP_RUNS)
+            .reverse()
+            .map((run) => (
+              <View
+                key={run._id}
+                style={[
+                  styles.runDot,
+                  { backgroundColor: cronRunColor(run.status, colors) },
+                ]}
+              />
+            ))}
+        </View>
+        <View style={styles.runStripMeta}>
+          {last ? (
+            <>
+              <MaterialCommunityIcons
+                name={CRON_RUN_ICONS[last.status] as any}
+                size={14}
+                color={cronRunColor(last.status, colors)}
+              />
+              <Text style={styles.runStripText} numberOfLines={1}>
+                {[
+                  t("cron.lastRun", {
+                    when: formatDistanceToNow(new Date(last.startedAt), {
+                      addSuffix: true,
+                      locale: dateLocale,
+                    }),
+                  }),
+                  t(`cron.runStatus_${last.status}`),
+                  lastDuration ? formatDuration(lastDuration) : null,
+                  last.exitCode
+                    ? t("cron.exitCode", { code: last.exitCode })
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.runStripText}>{t("cron.noRunsYet")}</Text>
+          )}
+          <MaterialCommunityIcons
+            name="chevron-right"
+            size={16}
+            color={colors.textSecondary}
+          />
+        </View>
+      </Pressable>
+    );
   };
 
   if (!selectedServer)
@@ -384,6 +485,18 @@ export default function CronScreen() {
 
         {mode === "visual" ? (
           <ScrollView contentContainerStyle={{ padding: 16 }}>
+            {invalidLines.length > 0 && (
+              <View style={styles.invalidBanner}>
+                <MaterialCommunityIcons
+                  name="alert-outline"
+                  size={18}
+                  color={colors.warning}
+                />
+                <Text style={{ flex: 1, color: colors.text, fontSize: 12 }}>
+                  {t("cron.invalidLinesKept", { count: invalidLines.length })}
+                </Text>
+              </View>
+            )}
             {jobs.length === 0 && !loading && (
               <Text
                 style={{
@@ -410,7 +523,7 @@ export default function CronScreen() {
                         variant="titleMedium"
                         style={{ fontWeight: "bold", color: colors.text }}
                       >
-                        {describeCron(job)}
+                        {describeJob(job)}
                       </Text>
                       <Text
                         variant="bodySmall"
@@ -419,11 +532,22 @@ export default function CronScreen() {
                           color: colors.textSecondary,
                         }}
                       >
-                        {job.min} {job.hour} {job.dom} {job.mon} {job.dow}
+                        {job.expression}
                       </Text>
+                      {nextRunOf(job) && (
+                        <Text variant="bodySmall" style={styles.nextRun}>
+                          {t("cron.nextRun", {
+                            when: formatDistanceToNow(nextRunOf(job)!.at, {
+                              addSuffix: true,
+                              locale: dateLocale,
+                            }),
+                          })}
+                        </Text>
+                      )}
                       <Text variant="bodyMedium" style={styles.commandText}>
                         {job.command}
                       </Text>
+                      {job.monitor && renderRunStrip(job)}
                     </View>
                     <View>
                       <IconButton
@@ -467,6 +591,14 @@ export default function CronScreen() {
               }}
               textColor={colors.text}
             />
+            {invalidLines.map((entry) => (
+              <HelperText key={entry.line} type="error" visible>
+                {t("cron.lineError", {
+                  line: entry.line,
+                  message: entry.errors.map(errorText).join("; "),
+                })}
+              </HelperText>
+            ))}
             <Button
               mode="contained"
               onPress={saveCronJobs}
@@ -510,6 +642,9 @@ export default function CronScreen() {
                 </Text>
                 <RadioButton.Group
                   onValueChange={(val) => {
+                    if (val === "custom") {
+                      setFormData({ ...formData, expression });
+                    }
                     setFrequency(val);
                   }}
                   value={frequency}
@@ -634,54 +769,95 @@ export default function CronScreen() {
                 )}
 
                 {frequency === "custom" && (
-                  <View
-                    style={{ flexDirection: "row", gap: 5, marginBottom: 16 }}
-                  >
-                    <TextInput
-                      style={{ flex: 1, backgroundColor: colors.surface }}
-                      label="Min"
-                      value={formData.min}
-                      onChangeText={(t) => setFormData({ ...formData, min: t })}
-                      mode="outlined"
-                      textColor={colors.text}
-                    />
+                  <View style={{ marginBottom: 8 }}>
                     <TextInput
-                      style={{ flex: 1, backgroundColor: colors.surface }}
-                      label="Hr"
-                      value={formData.hour}
-                      onChangeText={(t) =>
-                        setFormData({ ...formData, hour: t })
+                      label={t("cron.expression")}
+                      value={formData.expression}
+                      onChangeText={(text) =>
+                        setFormData({ ...formData, expression: text })
                       }
                       mode="outlined"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      placeholder="*/5 * * * *"
+                      error={parsed.errors.length > 0}
                       textColor={colors.text}
+                      style={{
+                        fontFamily:
+                          Platform.OS === "ios" ? "Courier" : "monospace",
+                        backgroundColor: colors.surface,
+                      }}
                     />
-                    <TextInput
-                      style={{ flex: 1, backgroundColor: colors.surface }}
-                      label="Dom"
-                      value={formData.dom}
-                      onChangeText={(t) => setFormData({ ...formData, dom: t })}
-                      mode="outlined"
-                      textColor={colors.text}
-                    />
-                    <TextInput
-                      style={{ flex: 1, backgroundColor: colors.surface }}
-                      label="Mon"
-                      value={formData.mon}
-                      onChangeText={(t) => setFormData({ ...formData, mon: t })}
-                      mode="outlined"
-                      textColor={colors.text}
-                    />
-                    <TextInput
-                      style={{ flex: 1, backgroundColor: colors.surface }}
-                      label="Dow"
-                      value={formData.dow}
-                      onChangeText={(t) => setFormData({ ...formData, dow: t })}
-                      mode="outlined"
-                      textColor={colors.text}
-                    />
+                    <Text style={styles.fieldLegend}>
+                      {t("cron.fieldLegend")}
+                    </Text>
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                    >
+                      <View style={{ flexDirection: "row", gap: 6 }}>
+                        {Object.keys(CRON_MACROS)
+                          .filter((m) => m !== "@annually" && m !== "@midnight")
+                          .map((macro) => (
+                            <Chip
+                              key={macro}
+                              compact
+                              selected={formData.expression === macro}
+                              onPress={() =>
+                                setFormData({ ...formData, expression: macro })
+                              }
+                            >
+                              {macro}
+                            </Chip>
+                          ))}
+                      </View>
+                    </ScrollView>
                   </View>
                 )}
 
+                {/* Validation and preview of whatever the form describes */}
+                <View style={styles.preview}>
+                  {parsed.errors.length > 0 ? (
+                    parsed.errors.map((e, i) => (
+                      <HelperText
+                        key={i}
+                        type="error"
+                        visible
+                        style={{ paddingHorizontal: 0 }}
+                      >
+                        {errorText(e)}
+                      </HelperText>
+                    ))
+                  ) : parsed.schedule ? (
+                    <>
+                      <Text style={{ fontWeight: "bold", color: colors.text }}>
+                        {describeCron(parsed.schedule, t)}
+                      </Text>
+                      {parsed.schedule.reboot ? (
+                        <Text style={styles.previewMeta}>
+                          {t("cron.rebootHint")}
+                        </Text>
+                      ) : (
+                        <>
+                          <Text style={styles.previewMeta}>
+                            {t("cron.nextRuns", { zone })}
+                          </Text>
+                          {previewRuns.map((run) => (
+                            <Text
+                              key={run.at.getTime()}
+                              style={styles.previewRun}
+                            >
+                              {format(run.wall, "EEE d MMM yyyy, HH:mm", {
+                                locale: dateLocale,
+                              })}
+                            </Text>
+                          ))}
+                        </>
+                      )}
+                    </>
+                  ) : null}
+                </View>
+
                 <TextInput
                   label={t("cron.command")}
                   value={formData.command}
@@ -695,6 +871,43 @@ export default function CronScreen() {
                   }}
                   textColor={colors.text}
                 />
+                <View style={styles.switchRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: colors.text }}>
+                      {t("cron.recordRuns")}
+                    </Text>
+                    <Text style={styles.switchHint}>
+                      {t("cron.recordRunsHint")}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={!!formData.monitor}
+                    onValueChange={setMonitored}
+                    color={colors.primary}
+                  />
+                </View>
+                {formData.monitor && (
+                  <View style={styles.switchRow}>
+                    <Text style={{ flex: 1, color: colors.text }}>
+                      {t("cron.alertOnFailure")}
+                    </Text>
+                    <Switch
+                      value={formData.monitor.alert}
+                      onValueChange={(alert) =>
+                        setFormData({
+                          ...formData,
+                          monitor: { ...formData.monitor!, alert },
+                        })
+                      }
+                      color={colors.primary}
+                    />
+                  </View>
+                )}
+                {formError && (
+                  <HelperText type="error" visible>
+                    {formError}
+                  </HelperText>
+                )}
               </ScrollView>
             </Dialog.ScrollArea>
             <Dialog.Actions>
@@ -704,7 +917,12 @@ export default function CronScreen() {
               >
                 {t("common.cancel")}
               </Button>
-              <Button onPress={handleSaveJob} textColor={colors.primary}>
+              <Button
+                onPress={handleSaveJob}
+                loading={installing}
+                disabled={installing}
+                textColor={colors.primary}
+              >
                 {t("common.save")}
               </Button>
             </Dialog.Actions>
@@ -744,6 +962,75 @@ const createStyles = (colors: any) =>
       marginBottom: 16,
       backgroundColor: colors.card,
     },
+    nextRun: {
+      marginTop: 4,
+      color: colors.primary,
+    },
+    invalidBanner: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      padding: 12,
+      marginBottom: 16,
+      borderRadius: 8,
+      backgroundColor: colors.warning + "20",
+    },
+    fieldLegend: {
+      fontFamily: "monospace",
+      fontSize: 11,
+      color: colors.textSecondary,
+      marginVertical: 6,
+    },
+    preview: {
+      marginBottom: 16,
+      padding: 12,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceVariant,
+    },
+    previewMeta: {
+      marginTop: 6,
+      marginBottom: 2,
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    previewRun: {
+      fontFamily: "monospace",
+      fontSize: 12,
+      color: colors.text,
+    },
+    runStrip: {
+      marginTop: 10,
+      gap: 6,
+    },
+    runDots: {
+      flexDirection: "row",
+      gap: 3,
+    },
+    runDot: {
+      width: 14,
+      height: 6,
+      borderRadius: 3,
+    },
+    runStripMeta: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+    },
+    runStripText: {
+      flex: 1,
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    switchRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      marginTop: 12,
+    },
+    switchHint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
     commandText: {
       marginTop: 8,
       fontFamily: "monospace",
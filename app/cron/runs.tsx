@@ -0,0 +1,300 @@
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  Platform,
+} from "react-native";
+import { Text, ActivityIndicator, IconButton } from "react-native-paper";
+import { Stack, useFocusEffect, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { CronJobRun, cronApi, getErrorMessage } from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import { useRoom, useSocketEvent } from "../../hooks/useRealtime";
+import { elapsedMs, formatDuration } from "../../utils/duration";
+import { CRON_RUN_ICONS, cronRunColor } from "../../utils/cron";
+
+const HISTORY_LIMIT = 100;
+
+export default function CronRunsScreen() {
+  const { serverId, job, command } = useLocalSearchParams<{
+    serverId: string;
+    job: string;
+    command?: string;
+  }>();
+  const { t, i18n } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [runs, setRuns] = useState<CronJobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!serverId || !job) return;
+    try {
+      setRuns(await cronApi.runs(serverId, { job, limit: HISTORY_LIMIT }));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("common.failedLoad")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, job, t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load]),
+  );
+
+  // Runs that start or finish while the screen is open
+  useRoom("server", serverId);
+  useSocketEvent("cron:run", ({ serverId: runServer, ...run }) => {
+    if (runServer !== serverId || run.jobKey !== job) return;
+    setRuns((prev) =>
+      prev.some((r) => r._id === run._id)
+        ? prev.map((r) => (r._id === run._id ? run : r))
+        : [run, ...prev],
+    );
+  });
+
+  const summary = useMemo(() => {
+    const finished = runs.filter((r) => r.status !== "running");
+    const durations = runs
+      .filter((r) => r.status === "success" || r.status === "failed")
+      .map((r) => elapsedMs(r))
+      .filter((ms): ms is number => ms !== null);
+    return {
+      total: finished.length,
+      success: finished.filter((r) => r.status === "success").length,
+      failed: finished.filter((r) => r.status === "failed").length,
+      missed: finished.filter((r) => r.status === "missed").length,
+      average: durations.length
+        ? durations.reduce((a, b) => a + b, 0) / durations.length
+        : null,
+    };
+  }, [runs]);
+
+  const copyOutput = async (output: string) => {
+    await Clipboard.setStringAsync(output);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const renderRun = ({ item, index }: { item: CronJobRun; index: number }) => {
+    const color = cronRunColor(item.status, colors);
+    const duration = item.status === "missed" ? null : elapsedMs(item);
+    const open = expanded === item._id;
+    return (
+      <View style={styles.row}>
+        <View style={styles.rail}>
+          <MaterialCommunityIcons
+            name={CRON_RUN_ICONS[item.status] as any}
+            size={20}
+            color={color}
+          />
+          {index < runs.length - 1 && <View style={styles.railLine} />}
+        </View>
+        <Pressable
+          style={styles.runCard}
+          disabled={!item.output}
+          onPress={() => setExpanded(open ? null : item._id)}
+        >
+          <View style={styles.runHeader}>
+            <Text style={[styles.status, { color }]}>
+              {t(`cron.runStatus_${item.status}`)}
+            </Text>
+            <Text style={styles.meta}>
+              {format(new Date(item.startedAt), "PP HH:mm:ss", {
+                locale: i18n.language === "vi" ? vi : undefined,
+              })}
+            </Text>
+          </View>
+          <View style={styles.runMeta}>
+            <Text style={styles.meta}>
+              {[
+                item.status === "missed" ? t("cron.missedHint") : null,
+                duration !== null ? formatDuration(duration) : null,
+                item.exitCode !== undefined
+                  ? t("cron.exitCode", { code: item.exitCode })
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+            {item.output ? (
+              <MaterialCommunityIcons
+                name={open ? "chevron-up" : "chevron-down"}
+                size={18}
+                color={colors.textSecondary}
+              />
+            ) : null}
+          </View>
+          {open && item.output ? (
+            <View style={styles.output}>
+              {item.truncated && (
+                <Text style={styles.truncated}>
+                  {t("cron.outputTruncated")}
+                </Text>
+              )}
+              <ScrollView horizontal>
+                <Text selectable style={styles.outputText}>
+                  {item.output}
+                </Text>
+              </ScrollView>
+              <IconButton
+                icon="content-copy"
+                size={16}
+                iconColor={colors.textSecondary}
+                style={styles.copy}
+                onPress={() => copyOutput(item.output!)}
+              />
+            </View>
+          ) : null}
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: t("cron.runHistory") }} />
+      {command ? (
+        <View style={styles.header}>
+          <Text style={styles.command} numberOfLines={2}>
+            {command}
+          </Text>
+          {summary.total > 0 && (
+            <Text style={styles.meta}>
+              {[
+                t("cron.runsSucceeded", {
+                  count: summary.success,
+                  total: summary.total,
+                }),
+                summary.failed
+                  ? t("cron.runsFailed", { count: summary.failed })
+                  : null,
+                summary.missed
+                  ? t("cron.runsMissed", { count: summary.missed })
+                  : null,
+                summary.average !== null
+                  ? t("cron.averageDuration", {
+                      duration: formatDuration(summary.average),
+                    })
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          )}
+        </View>
+      ) : null}
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={runs}
+          keyExtractor={(item) => item._id}
+          renderItem={renderRun}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                load();
+              }}
+            />
+          }
+          ListEmptyComponent={
+            <Text style={styles.empty}>{error || t("cron.noRuns")}</Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    centered: { flex: 1, justifyContent: "center", alignItems: "center" },
+    header: {
+      gap: 6,
+      padding: 16,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    command: {
+      fontFamily: Platform.OS === "ios" ? "Courier" : "monospace",
+      fontSize: 13,
+      color: colors.text,
+    },
+    list: { padding: 16 },
+    row: { flexDirection: "row", gap: 10 },
+    rail: { alignItems: "center", width: 20, paddingTop: 12 },
+    railLine: {
+      flex: 1,
+      width: 2,
+      marginTop: 4,
+      backgroundColor: colors.border,
+    },
+    runCard: {
+      flex: 1,
+      padding: 12,
+      marginBottom: 8,
+      borderRadius: 10,
+      backgroundColor: colors.surface,
+    },
+    runHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    status: { fontWeight: "bold", fontSize: 14 },
+    runMeta: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginTop: 4,
+    },
+    meta: { fontSize: 12, color: colors.textSecondary, flexShrink: 1 },
+    output: {
+      marginTop: 10,
+      padding: 10,
+      borderRadius: 6,
+      backgroundColor: colors.surfaceVariant,
+    },
+    outputText: {
+      fontFamily: Platform.OS === "ios" ? "Courier" : "monospace",
+      fontSize: 12,
+      color: colors.text,
+    },
+    truncated: {
+      fontSize: 11,
+      fontStyle: "italic",
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    copy: { position: "absolute", top: -4, right: -4, margin: 0 },
+    empty: {
+      textAlign: "center",
+      color: colors.textSecondary,
+      marginTop: 40,
+    },
+  });
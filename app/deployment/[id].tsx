@@ -25,12 +25,30 @@ import {
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  Deployment,
+  deploymentsApi,
+  getErrorMessage,
+  isApiError,
+  MaintenancePolicy,
+  projectsApi,
+  serversApi,
+} from "../../services/client";
 import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { connectSocket, getSocket } from "../../services/socket";
+import { useRoom, useSocketEvent } from "../../hooks/useRealtime";
 import * as Haptics from "expo-haptics";
+import { runOrQueue } from "../../services/outbox";
+import DeployLogViewer from "../../components/DeployLogViewer";
+import RollbackSheet from "../../components/RollbackSheet";
+import DeploySchedulePanel from "../../components/DeploySchedulePanel";
+import { isDeployAllowed, nextWindowStart } from "../../utils/schedules";
+import {
+  DeployLogEntry,
+  buildDeployLog,
+  deployLogToText,
+} from "../../utils/deployLogs";
 
 // Safe date formatting to avoid [invalid date]
 const safeTime = (v: any): string => {
@@ -45,11 +63,7 @@ const safeDate = (v: any): string => {
   return isNaN(d.getTime()) ? "—" : d.toLocaleString();
 };
 
-interface LogEntry {
-  log: string;
-  type: "info" | "error" | "success" | "warning";
-  timestamp: string;
-}
+type LogEntry = DeployLogEntry;
 
 export default function DeploymentDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -58,7 +72,6 @@ export default function DeploymentDetailScreen() {
   const { colors } = useAppTheme();
   const Colors = colors;
   const styles = createStyles(colors);
-  const logScrollRef = useRef<ScrollView>(null);
 
   const [deployment, setDeployment] = useState<any>(null);
   const [project, setProject] = useState<any>(null);
@@ -73,7 +86,10 @@ export default function DeploymentDetailScreen() {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
-  const [logSearch, setLogSearch] = useState("");
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const [logsFullscreen, setLogsFullscreen] = useState(false);
+  const [rollbackOpen, setRollbackOpen] = useState(false);
   const [command, setCommand] = useState("");
   const [cmdHistory, setCmdHistory] = useState<
     { command: string; stdout: string; stderr: string; code: number }[]
@@ -82,9 +98,9 @@ export default function DeploymentDetailScreen() {
   const [terminalOpen, setTerminalOpen] = useState(false);
   const termScrollRef = useRef<ScrollView>(null);
 
-  const eventSourceRef = useRef<any>(null);
-
-  const fetchData = async () => {
+  // selectedId keeps a deployment chosen in this render selected, since
+  // this closure still sees the previous `deployment`
+  const fetchData = async (selectedId?: string) => {
     try {
       setLoading(true);
       let targetProjectId = id;
@@ -93,20 +109,21 @@ export default function DeploymentDetailScreen() {
       // Logic: Try to verify if 'id' is a project ID or Deployment ID
       // We assume it's a Project ID first (common case from Dashboard)
       try {
-        const projRes = await api.get(`/projects/${id}`);
-        setProject(projRes.data);
+        setProject(await projectsApi.get(id));
         targetProjectId = id;
-      } catch (e: any) {
+      } catch (e) {
         // If 404, it might be a Deployment ID
-        if (e.response?.status === 404 || e.response?.status === 500) {
+        if (isApiError(e) && (e.status === 404 || e.status === 500)) {
           try {
-            const depRes = await api.get(`/deployments/${id}`);
-            const dep = depRes.data;
+            const dep = await deploymentsApi.get(id);
             if (dep && dep.project) {
               setProject(dep.project); // The endpoint populates project
-              setDeployment(dep);
-              targetProjectId = dep.project._id || dep.project;
-              initialDeployment = dep;
+              targetProjectId =
+                typeof dep.project === "string" ? dep.project : dep.project._id;
+              if (!selectedId) {
+                setDeployment(dep);
+                initialDeployment = dep;
+              }
             }
           } catch (err) {
             console.error("Failed to load as deployment", err);
@@ -117,14 +134,19 @@ export default function DeploymentDetailScreen() {
       // 2. Fetch deployment history (using targetProjectId)
       if (targetProjectId) {
         try {
-          const histRes = await api.get(
-            `/deployments/${targetProjectId}/history`,
-          );
-          const historyData = histRes.data?.deployments || histRes.data || [];
+          const historyData = await deploymentsApi.history(targetProjectId);
           setHistory(historyData);
 
-          // If we didn't start with a specific deployment, use the latest
-          if (!initialDeployment && historyData.length > 0) {
+          if (selectedId) {
+            // A deployment that just started may not be listed yet; keep the
+            // placeholder selected and let its logs arrive live
+            const selected = historyData.find((d: any) => d._id === selectedId);
+            if (selected) {
+              initialDeployment = selected;
+              setDeployment(selected);
+            }
+          } else if (!initialDeployment && historyData.length > 0) {
+            // If we didn't start with a specific deployment, use the latest
             // Check if we already have a selected deployment (from state)
             // If so, update it with fresh data from history instead of resetting to latest
             if (deployment) {
@@ -152,11 +174,9 @@ export default function DeploymentDetailScreen() {
       if (initialDeployment) {
         // If we already fetched deployment details, we might want to ensure we have logs
         try {
-          const { data } = await api.get(
-            `/deployments/${initialDeployment._id}/logs`,
-          );
+          const savedLogs = await deploymentsApi.logs(initialDeployment._id);
           setLogs(
-            (data.logs || []).map((entry: any) => {
+            savedLogs.map((entry) => {
               // Backward compatibility for string logs
               if (typeof entry === "string") {
                 return {
@@ -217,145 +237,82 @@ export default function DeploymentDetailScreen() {
     fetchData();
   }, [id]);
 
-  useEffect(() => {
-    // Setup socket
-    let socketCleanup: (() => void) | undefined;
-    (async () => {
-      try {
-        const socket = await connectSocket();
-
-        // Join deployment room
-        const depId = deployment?._id || (id && !project ? id : null);
-        if (depId) {
-          socket.emit("join:deployment", depId);
-        }
-
-        // Also join project room if we know it
-        // This ensures we get updates even if we don't know the specific deployment ID yet
-        // or if a new deployment starts while we are here.
-        const pId = project?._id || (id && !depId ? id : null);
-        if (pId) {
-          socket.emit("join:project", pId);
-        }
-
-        // Listen for deployment updates
-        // Listen for deployment updates
-        socket.on("deployment:status", (data: any) => {
-          console.log("[Mobile] Received deployment:status", data);
-
-          const currentProjectId = project?._id || id;
-          const isRelevant =
-            data.projectId === currentProjectId ||
-            data.deploymentId === id ||
-            data.deploymentId === deployment?._id;
-
-          if (isRelevant) {
-            // Update deployment state
-            setDeployment((prev: any) => {
-              if (!prev) return prev;
-              return { ...prev, status: data.status };
-            });
-
-            // Update project state if needed (for list views etc)
-            setProject((prev: any) => {
-              if (!prev) return prev;
-              return { ...prev, status: data.status };
-            });
-
-            // Update history list locally
-            setHistory((prev) =>
-              prev.map((item: any) =>
-                item._id === data.deploymentId
-                  ? { ...item, status: data.status }
-                  : item,
-              ),
-            );
-
-            // If status is final or running, refresh data to get full details (end time, etc)
-            if (
-              ["success", "failed", "cancelled", "stopped", "running"].includes(
-                data.status,
-              )
-            ) {
-              fetchData();
-            }
-
-            // Haptic feedback
-            if (data.status === "success" || data.status === "running") {
-              Haptics.notificationAsync(
-                Haptics.NotificationFeedbackType.Success,
-              );
-            } else if (data.status === "failed") {
-              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-            }
-          }
-        });
+  // Join the deployment room, and the project room too so we still get
+  // updates before we know the deployment ID or when a new one starts
+  const depId = deployment?._id || (id && !project ? id : null);
+  const pId = project?._id || (id && !depId ? id : null);
+  useRoom("deployment", depId);
+  useRoom("project", pId);
+
+  const isRelevant = (data: { projectId?: string; deploymentId?: string }) =>
+    data.projectId === (project?._id || id) ||
+    data.deploymentId === id ||
+    data.deploymentId === deployment?._id;
+
+  useSocketEvent("deployment:status", (data) => {
+    console.log("[Mobile] Received deployment:status", data);
+    if (!isRelevant(data)) return;
+
+    // Update deployment state
+    setDeployment((prev: any) => {
+      if (!prev) return prev;
+      return { ...prev, status: data.status };
+    });
+
+    // Update project state if needed (for list views etc)
+    setProject((prev: any) => {
+      if (!prev) return prev;
+      return { ...prev, status: data.status };
+    });
+
+    // Update history list locally
+    setHistory((prev) =>
+      prev.map((item: any) =>
+        item._id === data.deploymentId
+          ? { ...item, status: data.status }
+          : item,
+      ),
+    );
 
-        socket.on("deployment:log", (data: any) => {
-          const currentProjectId = project?._id || id;
-          if (
-            data.projectId === currentProjectId ||
-            data.deploymentId === id ||
-            data.deploymentId === deployment?._id
-          ) {
-            const newLog: LogEntry = {
-              log:
-                data.message || data.text || data.log || JSON.stringify(data),
-              type: (data.type || "info") as LogEntry["type"],
-              timestamp: data.timestamp || new Date().toISOString(),
-            };
-            setLogs((prev) => [...prev, newLog]);
-          }
-        });
+    // If status is final or running, refresh data to get full details (end time, etc)
+    if (
+      ["success", "failed", "cancelled", "stopped", "running"].includes(
+        data.status,
+      )
+    ) {
+      setStreaming(false);
+      fetchData();
+    }
 
-        socketCleanup = () => {
-          if (depId) socket.emit("leave:deployment", depId);
-          if (pId) socket.emit("leave:project", pId);
-          socket.off("deployment:status");
-          socket.off("deployment:log");
-        };
-      } catch {}
-    })();
+    // Haptic feedback
+    if (data.status === "success" || data.status === "running") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } else if (data.status === "failed") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  });
 
-    return () => {
-      socketCleanup?.();
-      if (eventSourceRef.current) {
-        eventSourceRef.current.cancel?.();
-      }
+  useSocketEvent("deployment:log", (data) => {
+    if (!isRelevant(data)) return;
+    const newLog: LogEntry = {
+      log: data.message || data.text || data.log || JSON.stringify(data),
+      type: (data.type || "info") as LogEntry["type"],
+      timestamp: data.timestamp || new Date().toISOString(),
     };
-  }, [id, project?._id, deployment?._id]);
-
-  // Separate effect for Server Stats
-  useEffect(() => {
-    let cleanup: (() => void) | undefined;
-    if (project?.server) {
-      const serverId = project.server._id || project.server;
-      (async () => {
-        try {
-          const socket = await connectSocket();
-          socket.emit("join:server", serverId);
-
-          const handleStats = (data: any) => {
-            if (data.serverId === serverId) {
-              setStats(data.stats);
-            }
-          };
-
-          socket.on("server:stats", handleStats);
+    setLogs((prev) => [...prev, newLog]);
+  });
 
-          cleanup = () => {
-            socket.emit("leave:server", serverId);
-            socket.off("server:stats", handleStats);
-          };
-        } catch (e) {
-          // console.log("Socket stats error", e);
-        }
-      })();
-    }
-    return () => {
-      cleanup?.();
-    };
-  }, [project?.server]);
+  // Live resource usage of the server the project runs on
+  const statsServerId: string | undefined =
+    project?.server?._id || project?.server;
+  useRoom("server", statsServerId);
+  useSocketEvent(
+    "server:stats",
+    (data) => {
+      if (data.serverId === statsServerId) setStats(data.stats);
+    },
+    !!statsServerId,
+  );
 
   // Auto-scroll logic moved to ScrollView onContentSizeChange
 
@@ -364,18 +321,73 @@ export default function DeploymentDetailScreen() {
     fetchData();
   }, []);
 
+  // Outside the project's maintenance windows a deploy is either refused or
+  // scheduled for when the next window opens, depending on the policy
+  const deferToMaintenanceWindow = async () => {
+    let policy: MaintenancePolicy | null = null;
+    try {
+      policy = await deploymentsApi.maintenance(project?._id || id);
+    } catch {
+      // Offline or not supported: let the deploy through, the backend decides
+    }
+    if (!policy || isDeployAllowed(policy)) return false;
+    const next = nextWindowStart(policy);
+    if (policy.mode === "block" || !next) {
+      Alert.alert(
+        t("schedule.blockedTitle"),
+        next
+          ? t("schedule.blockedMessage", { time: next.toLocaleString() })
+          : t("schedule.blockedNoWindow"),
+      );
+      return true;
+    }
+    Alert.alert(
+      t("schedule.queueTitle"),
+      t("schedule.queueMessage", { time: next.toLocaleString() }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("deploy.schedule"),
+          onPress: async () => {
+            try {
+              await deploymentsApi.schedule(id, next);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              fetchData();
+            } catch (err) {
+              Alert.alert(
+                t("common.error"),
+                getErrorMessage(err, t("common.failed")),
+              );
+            }
+          },
+        },
+      ],
+    );
+    return true;
+  };
+
   const handleDeploy = async () => {
     setDeploying(true);
     try {
-      await api.post(`/deployments/${id}/deploy`);
+      if (await deferToMaintenanceWindow()) return;
+      const result = await runOrQueue(
+        { kind: "deploy", projectId: id },
+        t("outbox.deployLabel", { name: project?.name || id }),
+      );
+      if (result.queued) {
+        Alert.alert(t("outbox.queuedTitle"), t("outbox.queuedMessage"));
+        return;
+      }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       // Pass the project ID explicitly if we have it, or let it fallback
       // startSSEStream(project?._id || id); // Removed in favor of Socket.IO
       fetchData();
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("deploy.deployFailed"),
+        getErrorMessage(err, t("deploy.deployFailed")),
       );
     } finally {
       setDeploying(false);
@@ -384,112 +396,116 @@ export default function DeploymentDetailScreen() {
 
   const handleStop = async () => {
     try {
-      await api.post(`/deployments/${id}/stop`);
+      await deploymentsApi.stop(id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       fetchData();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
   const handleRestart = async () => {
     try {
-      await api.post(`/deployments/${id}/restart`);
+      await deploymentsApi.restart(id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       fetchData();
-    } catch (err: any) {
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
+    }
+  };
+
+  const handleRollback = async (target: Deployment, reason: string) => {
+    try {
+      const result = await deploymentsApi.rollback(id, {
+        targetDeploymentId: target._id,
+        reason,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setRollbackOpen(false);
+      // Follow the new deployment's logs in the viewer from a clean slate
+      setLogs([]);
+      setStreaming(true);
+      if (result?.deploymentId) {
+        setDeployment({
+          _id: result.deploymentId,
+          project: project?._id || id,
+          status: "pending",
+          rollbackOf: target._id,
+          rollbackReason: reason,
+          createdAt: new Date().toISOString(),
+        });
+      }
+      fetchData(result?.deploymentId);
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("common.failed"),
+        getErrorMessage(err, t("deploy.rollbackFailed")),
       );
     }
   };
 
-  const handleRollback = async () => {
-    Alert.alert(t("deploy.rollback"), t("deploy.rollbackConfirm"), [
-      { text: t("common.cancel"), style: "cancel" },
-      {
-        text: t("deploy.rollback"),
-        onPress: async () => {
-          try {
-            await api.post(`/deployments/${id}/rollback`);
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            fetchData();
-          } catch (err: any) {
-            Alert.alert(
-              t("common.error"),
-              err.response?.data?.message || t("deploy.rollbackFailed"),
-            );
-          }
-        },
-      },
-    ]);
-  };
-
   const handleCancel = async () => {
     try {
-      await api.post(`/deployments/${id}/cancel`);
+      await deploymentsApi.cancel(id);
       fetchData();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
   const handleSchedule = async () => {
     try {
-      await api.post(`/deployments/${id}/schedule`, {
-        scheduledFor: scheduledDate.toISOString(),
-      });
+      await deploymentsApi.schedule(id, scheduledDate);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert(t("common.success"), t("deploy.scheduled"));
       fetchData();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
   const handleCancelSchedule = async () => {
     try {
-      await api.delete(`/deployments/${id}/schedule`);
+      await deploymentsApi.cancelSchedule(id);
       fetchData();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
   const exportLogs = async () => {
     try {
       await Share.share({
-        message: logs.join("\n"),
+        message: deployLogToText(buildDeployLog(logs).lines),
         title: t("deploy.logsTitle", { name: project?.name || id }),
       });
     } catch {}
   };
 
-  const fetchDiff = async () => {
-    try {
-      const res = await api.get(`/deployments/${id}/diff`);
-      Alert.alert(t("deploy.gitDiff"), res.data?.diff || t("deploy.noDiff"), [
-        { text: t("common.ok") },
-      ]);
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
-    }
+  const openDiff = () => {
+    router.push(`/deployment/diff?projectId=${project?._id || id}`);
+  };
+
+  const toggleCompareSelection = (depId: string) => {
+    Haptics.selectionAsync();
+    setCompareSelection((prev) =>
+      prev.includes(depId)
+        ? prev.filter((x) => x !== depId)
+        : [...prev, depId].slice(-2),
+    );
+  };
+
+  // History is newest first, so the later index is the older deployment
+  const openComparison = () => {
+    if (compareSelection.length !== 2) return;
+    const [a, b] = compareSelection.map((depId) =>
+      history.findIndex((d: any) => d._id === depId),
+    );
+    const [base, head] =
+      a > b ? compareSelection : [...compareSelection].reverse();
+    setCompareMode(false);
+    setCompareSelection([]);
+    router.push(`/deployment/compare?base=${base}&head=${head}`);
   };
 
   const handleSelectDeployment = async (dep: any) => {
@@ -501,10 +517,9 @@ export default function DeploymentDetailScreen() {
     setStreaming(false);
 
     try {
-      const { data } = await api.get(`/deployments/${dep._id}/logs`);
-      const savedLogs: string[] = data.logs || [];
+      const savedLogs = await deploymentsApi.logs(dep._id);
       setLogs(
-        savedLogs.map((entry: any) => {
+        savedLogs.map((entry) => {
           if (typeof entry === "string") {
             return {
               log: entry,
@@ -522,7 +537,7 @@ export default function DeploymentDetailScreen() {
           };
         }),
       );
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(t("common.error"), t("deploy.loadLogsFailed"));
     } finally {
       setLoading(false);
@@ -537,16 +552,14 @@ export default function DeploymentDetailScreen() {
     try {
       const sId = project.server?._id || project.server;
       const deployPath = project.deployPath || "~";
-      const res = await api.post(`/servers/${sId}/exec`, {
-        command: `cd ${deployPath} && ${cmd}`,
-      });
+      const res = await serversApi.exec(sId, `cd ${deployPath} && ${cmd}`);
       setCmdHistory((prev) => [
         ...prev,
         {
           command: cmd,
-          stdout: res.data.output || res.data.stdout || "",
-          stderr: res.data.stderr || "",
-          code: res.data.code ?? 0,
+          stdout: res.output || res.stdout || "",
+          stderr: res.stderr || "",
+          code: res.code ?? 0,
         },
       ]);
     } catch (err: any) {
@@ -555,10 +568,10 @@ export default function DeploymentDetailScreen() {
         {
           command: cmd,
           stdout: "",
-          stderr:
-            err.response?.data?.message ||
-            err.message ||
-            t("deploy.connectionFailed"),
+          stderr: getErrorMessage(
+            err,
+            err.message || t("deploy.connectionFailed"),
+          ),
           code: 1,
         },
       ]);
@@ -600,7 +613,7 @@ export default function DeploymentDetailScreen() {
               <IconButton
                 icon="file-document"
                 iconColor={Colors.textSecondary}
-                onPress={fetchDiff}
+                onPress={openDiff}
                 size={20}
                 style={{ marginVertical: 0 }}
               />
@@ -706,7 +719,7 @@ export default function DeploymentDetailScreen() {
             <View style={styles.actions}>
               <Button
                 mode="outlined"
-                onPress={handleRollback}
+                onPress={() => setRollbackOpen(true)}
                 icon="history"
                 textColor={Colors.info}
                 style={[styles.actionBtn, { borderColor: Colors.info }]}
@@ -898,6 +911,9 @@ export default function DeploymentDetailScreen() {
                 {t("common.cancel")}
               </Button>
             </View>
+            {(project?._id || id) && (
+              <DeploySchedulePanel projectId={project?._id || id} />
+            )}
           </Card.Content>
         </Card>
 
@@ -914,6 +930,14 @@ export default function DeploymentDetailScreen() {
             <View
               style={{ flexDirection: "row", alignItems: "center", gap: 4 }}
             >
+              <IconButton
+                icon="fullscreen"
+                iconColor={Colors.textSecondary}
+                size={18}
+                onPress={() => setLogsFullscreen(true)}
+                style={{ margin: 0 }}
+                disabled={logs.length === 0}
+              />
               <IconButton
                 icon="download"
                 iconColor={Colors.textSecondary}
@@ -932,23 +956,6 @@ export default function DeploymentDetailScreen() {
             </View>
           </View>
 
-          {/* Search */}
-          <View style={styles.logSearchRow}>
-            <MaterialCommunityIcons
-              name="magnify"
-              size={16}
-              color={Colors.textSecondary}
-            />
-            <RNTextInput
-              value={logSearch}
-              onChangeText={setLogSearch}
-              placeholder="Search logs..."
-              placeholderTextColor={Colors.textSecondary}
-              style={styles.logSearchInput}
-              autoCapitalize="none"
-            />
-          </View>
-
           {/* Terminal */}
           <View style={styles.logTerminal}>
             {/* Terminal header with dots */}
@@ -990,92 +997,47 @@ export default function DeploymentDetailScreen() {
             </View>
 
             {/* Log body */}
-            <ScrollView
-              ref={logScrollRef}
+            <DeployLogViewer
+              entries={logs}
+              streaming={streaming}
               style={styles.logContainer}
-              contentContainerStyle={{ paddingBottom: 40 }}
-              onContentSizeChange={() =>
-                logScrollRef.current?.scrollToEnd({ animated: true })
-              }
-              nestedScrollEnabled
-            >
-              {logs.length === 0 ? (
-                <Text style={styles.logTextDim}>{t("deploy.noLogsYet")}</Text>
-              ) : (
-                logs
-                  .filter(
-                    (entry) =>
-                      !logSearch ||
-                      entry.log.toLowerCase().includes(logSearch.toLowerCase()),
-                  )
-                  .map((entry, index) => {
-                    const isStep = /^[📥📦🔨🚀⏹️🔧📂🎉❌⚙]/.test(entry.log);
-                    let color = "#c9d1d9"; // Default text
-                    if (entry.type === "error") color = "#f85149";
-                    else if (entry.type === "success") color = "#3fb950";
-                    else if (entry.type === "warning") color = "#eab308";
-
-                    if (isStep) {
-                      return (
-                        <View
-                          key={index}
-                          style={{ marginTop: 8, marginBottom: 4 }}
-                        >
-                          <Text
-                            style={{
-                              color: color,
-                              fontWeight: "bold",
-                              fontSize: 13,
-                              fontFamily:
-                                Platform.OS === "ios" ? "Menlo" : "monospace",
-                            }}
-                          >
-                            {entry.log}
-                          </Text>
-                        </View>
-                      );
-                    }
-
-                    return (
-                      <View
-                        key={index}
-                        style={{ flexDirection: "row", marginBottom: 2 }}
-                      >
-                        <Text
-                          style={{
-                            color: "#6b7280",
-                            fontSize: 11,
-                            marginRight: 8,
-                            fontFamily:
-                              Platform.OS === "ios" ? "Menlo" : "monospace",
-                            minWidth: 60,
-                          }}
-                        >
-                          {entry.timestamp
-                            ? new Date(entry.timestamp).toLocaleTimeString([], {
-                                hour12: false,
-                              })
-                            : "--:--:--"}
-                        </Text>
-                        <Text
-                          style={{
-                            color: color,
-                            fontSize: 12,
-                            fontFamily:
-                              Platform.OS === "ios" ? "Menlo" : "monospace",
-                            flex: 1,
-                          }}
-                        >
-                          {entry.log}
-                        </Text>
-                      </View>
-                    );
-                  })
-              )}
-            </ScrollView>
+            />
           </View>
         </Card>
 
+        <Portal>
+          <Modal
+            visible={logsFullscreen}
+            onDismiss={() => setLogsFullscreen(false)}
+            contentContainerStyle={styles.logFullscreen}
+          >
+            <View style={styles.logTerminalHeader}>
+              <Text style={styles.logTerminalTitle}>
+                {t("deploy.logsTitle", { name: project?.name || id })}
+              </Text>
+              <IconButton
+                icon="close"
+                iconColor="#c9d1d9"
+                size={18}
+                onPress={() => setLogsFullscreen(false)}
+                style={{ margin: 0 }}
+              />
+            </View>
+            <DeployLogViewer
+              entries={logs}
+              streaming={streaming}
+              style={{ flex: 1 }}
+            />
+          </Modal>
+        </Portal>
+
+        <RollbackSheet
+          visible={rollbackOpen}
+          onDismiss={() => setRollbackOpen(false)}
+          history={history}
+          onConfirm={handleRollback}
+        />
+
         {/* Remote Terminal */}
         <Card style={styles.card}>
           {/* Collapsible header */}
@@ -1297,16 +1259,54 @@ export default function DeploymentDetailScreen() {
                 size={18}
                 color={Colors.primary}
               />
-              <Text style={styles.sectionTitle}>
+              <Text style={[styles.sectionTitle, { flex: 1 }]}>
                 {t("deploy.history")} ({history.length})
               </Text>
+              {history.length > 1 && (
+                <Button
+                  compact
+                  mode={compareMode ? "contained-tonal" : "text"}
+                  icon="compare-horizontal"
+                  textColor={Colors.primary}
+                  onPress={() => {
+                    setCompareMode((v) => !v);
+                    setCompareSelection([]);
+                  }}
+                >
+                  {compareMode ? t("common.cancel") : t("compare.action")}
+                </Button>
+              )}
             </View>
+            {compareMode && (
+              <View style={styles.compareBar}>
+                <Text style={styles.historyMeta}>
+                  {t("compare.selectHint", {
+                    count: compareSelection.length,
+                  })}
+                </Text>
+                <Button
+                  compact
+                  mode="contained"
+                  buttonColor={Colors.primary}
+                  disabled={compareSelection.length !== 2}
+                  onPress={openComparison}
+                >
+                  {t("compare.action")}
+                </Button>
+              </View>
+            )}
             {history.slice(0, 10).map((dep: any) => {
-              const isSelected = deployment?._id === dep._id;
+              const isSelected = compareMode
+                ? compareSelection.includes(dep._id)
+                : deployment?._id === dep._id;
               return (
                 <Pressable
                   key={dep._id}
-                  onPress={() => handleSelectDeployment(dep)}
+                  onPress={() =>
+                    compareMode
+                      ? toggleCompareSelection(dep._id)
+                      : handleSelectDeployment(dep)
+                  }
                   style={({ pressed }) => [
                     styles.historyItem,
                     pressed && { backgroundColor: Colors.surfaceVariant },
@@ -1318,6 +1318,18 @@ export default function DeploymentDetailScreen() {
                     },
                   ]}
                 >
+                  {compareMode && (
+                    <MaterialCommunityIcons
+                      name={
+                        isSelected
+                          ? "checkbox-marked-circle"
+                          : "checkbox-blank-circle-outline"
+                      }
+                      size={20}
+                      color={isSelected ? Colors.primary : Colors.textSecondary}
+                      style={{ marginRight: 10 }}
+                    />
+                  )}
                   <View style={{ flex: 1 }}>
                     <Text
                       style={[
@@ -1330,6 +1342,12 @@ export default function DeploymentDetailScreen() {
                     <Text style={styles.historyMeta}>
                       {safeDate(dep.startedAt || dep.createdAt)}
                     </Text>
+                    {dep.rollbackOf ? (
+                      <Text style={styles.historyMeta} numberOfLines={1}>
+                        {t("rollback.historyLabel")}
+                        {dep.rollbackReason ? ` · ${dep.rollbackReason}` : ""}
+                      </Text>
+                    ) : null}
                   </View>
                   <Chip
                     compact
@@ -1455,22 +1473,6 @@ const createStyles = (Colors: any) =>
       paddingTop: 14,
       paddingBottom: 8,
     },
-    logSearchRow: {
-      flexDirection: "row" as const,
-      alignItems: "center" as const,
-      marginHorizontal: 12,
-      marginBottom: 8,
-      backgroundColor: "rgba(255,255,255,0.06)",
-      borderRadius: 8,
-      paddingHorizontal: 10,
-      gap: 6,
-    },
-    logSearchInput: {
-      flex: 1,
-      color: Colors.text,
-      fontSize: 12,
-      paddingVertical: 8,
-    },
     logStepHeader: {
       backgroundColor: "rgba(255,255,255,0.03)",
       paddingVertical: 4,
@@ -1529,8 +1531,14 @@ const createStyles = (Colors: any) =>
     },
     logContainer: {
       backgroundColor: "#0d1117",
-      padding: 12,
-      maxHeight: 350,
+      height: 420,
+    },
+    logFullscreen: {
+      flex: 1,
+      margin: 12,
+      borderRadius: 12,
+      overflow: "hidden",
+      backgroundColor: "#0d1117",
     },
     logLine: {
       flexDirection: "row",
@@ -1551,13 +1559,6 @@ const createStyles = (Colors: any) =>
       fontSize: 11,
       lineHeight: 17,
     },
-    logTextDim: {
-      color: "#484f58",
-      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
-      fontSize: 11,
-      lineHeight: 17,
-      fontStyle: "italic",
-    },
     termHeader: {
       flexDirection: "row" as const,
       alignItems: "center" as const,
@@ -1628,6 +1629,13 @@ const createStyles = (Colors: any) =>
       borderBottomWidth: 0.5,
       borderBottomColor: Colors.border,
     },
+    compareBar: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      gap: 8,
+      marginBottom: 8,
+    },
     historyVersion: { fontSize: 14, fontWeight: "600", color: Colors.text },
     historyMeta: { fontSize: 12, color: Colors.textSecondary, marginTop: 2 },
     schedulePickerBtn: {
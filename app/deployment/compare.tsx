@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import {
+  Text,
+  Card,
+  ActivityIndicator,
+  Button,
+  Chip,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import {
+  Deployment,
+  DeploymentComparison,
+  deploymentsApi,
+  EnvVarChangeKind,
+  getErrorMessage,
+} from "../../services/client";
+import { statusColor } from "../../constants/theme";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import DiffView from "../../components/DiffView";
+import { diffTotals, parseUnifiedDiff } from "../../utils/diff";
+import { deploymentDurationMs, formatDuration } from "../../utils/duration";
+
+const ENV_CHANGE_ICONS: Record<EnvVarChangeKind, string> = {
+  added: "plus-circle-outline",
+  removed: "minus-circle-outline",
+  changed: "pencil-circle-outline",
+};
+
+export default function DeploymentCompareScreen() {
+  const { base, head } = useLocalSearchParams<{ base: string; head: string }>();
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+
+  const [comparison, setComparison] = useState<DeploymentComparison | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    if (!base || !head) return;
+    try {
+      setError("");
+      setComparison(await deploymentsApi.compare(base, head));
+    } catch (err) {
+      setError(getErrorMessage(err, t("common.failed")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [base, head, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const files = useMemo(
+    () => parseUnifiedDiff(comparison?.diff || ""),
+    [comparison?.diff],
+  );
+  const totals = useMemo(() => diffTotals(files), [files]);
+
+  const envColors: Record<EnvVarChangeKind, string> = {
+    added: colors.success,
+    removed: colors.error,
+    changed: colors.warning,
+  };
+
+  const renderSide = (dep: Deployment, label: string) => {
+    const ms = deploymentDurationMs(dep);
+    return (
+      <View style={styles.side}>
+        <Text style={styles.sideLabel}>{label}</Text>
+        <Text style={styles.sideVersion}>
+          #{dep.version || dep._id.slice(-6)}
+        </Text>
+        <Chip
+          compact
+          style={styles.sideChip}
+          textStyle={{
+            color: statusColor(dep.status, colors),
+            fontSize: 10,
+            fontWeight: "700",
+          }}
+        >
+          {t(`deploy.status_${dep.status}`, { defaultValue: dep.status })}
+        </Chip>
+        <Text style={styles.sideMeta} numberOfLines={1}>
+          {dep.commitHash ? dep.commitHash.slice(0, 7) : "—"}
+        </Text>
+        <Text style={styles.sideMeta}>
+          {ms === null ? "—" : formatDuration(ms)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderDurationDelta = (c: DeploymentComparison) => {
+    const before = deploymentDurationMs(c.base);
+    const after = deploymentDurationMs(c.head);
+    if (before === null || after === null) return null;
+    const delta = after - before;
+    const faster = delta < 0;
+    return (
+      <View style={styles.deltaRow}>
+        <MaterialCommunityIcons
+          name={faster ? "trending-down" : "trending-up"}
+          size={16}
+          color={faster ? colors.success : colors.warning}
+        />
+        <Text style={styles.deltaText}>
+          {delta === 0
+            ? t("compare.sameDuration")
+            : t(faster ? "compare.faster" : "compare.slower", {
+                duration: formatDuration(delta),
+              })}
+        </Text>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: t("compare.title") }} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("compare.title") }} />
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              load();
+            }}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        {error || !comparison ? (
+          <View style={styles.errorBox}>
+            <MaterialCommunityIcons
+              name="alert-circle-outline"
+              size={32}
+              color={colors.error}
+            />
+            <Text style={styles.errorText}>
+              {error || t("common.failedLoad")}
+            </Text>
+            <Button mode="outlined" onPress={load} textColor={colors.primary}>
+              {t("common.retry")}
+            </Button>
+          </View>
+        ) : (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <View style={styles.sides}>
+                  {renderSide(comparison.base, t("compare.base"))}
+                  <MaterialCommunityIcons
+                    name="arrow-right"
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                  {renderSide(comparison.head, t("compare.head"))}
+                </View>
+                {renderDurationDelta(comparison)}
+              </Card.Content>
+            </Card>
+
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.sectionTitle}>
+                  {t("compare.commits", {
+                    count: comparison.commits.length,
+                  })}
+                </Text>
+                {comparison.commits.length === 0 ? (
+                  <Text style={styles.muted}>{t("compare.noCommits")}</Text>
+                ) : (
+                  comparison.commits.map((commit) => (
+                    <View key={commit.hash} style={styles.commitRow}>
+                      <Text style={styles.commitHash}>
+                        {commit.hash.slice(0, 7)}
+                      </Text>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.commitMessage} numberOfLines={2}>
+                          {commit.message}
+                        </Text>
+                        {commit.author ? (
+                          <Text style={styles.muted}>{commit.author}</Text>
+                        ) : null}
+                      </View>
+                    </View>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.sectionTitle}>
+                  {t("compare.envChanges")}
+                </Text>
+                {comparison.envChanges.length === 0 ? (
+                  <Text style={styles.muted}>{t("compare.noEnvChanges")}</Text>
+                ) : (
+                  comparison.envChanges.map((change) => (
+                    <View key={change.key} style={styles.envRow}>
+                      <MaterialCommunityIcons
+                        name={ENV_CHANGE_ICONS[change.change] as any}
+                        size={16}
+                        color={envColors[change.change]}
+                      />
+                      <Text style={styles.envKey}>{change.key}</Text>
+                      <Text
+                        style={[
+                          styles.envKind,
+                          { color: envColors[change.change] },
+                        ]}
+                      >
+                        {t(`compare.env_${change.change}`)}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+
+            {comparison.diff ? (
+              <>
+                <View style={styles.diffHeader}>
+                  <Text style={[styles.sectionTitle, { flex: 1 }]}>
+                    {t("diff.filesChanged", { count: files.length })}
+                  </Text>
+                  <Text style={[styles.diffCount, { color: colors.success }]}>
+                    +{totals.additions}
+                  </Text>
+                  <Text style={[styles.diffCount, { color: colors.error }]}>
+                    −{totals.deletions}
+                  </Text>
+                </View>
+                <DiffView files={files} />
+              </>
+            ) : null}
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    content: { padding: 12, paddingBottom: 40 },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.background,
+    },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.card,
+      borderRadius: 16,
+    },
+    sectionTitle: {
+      fontSize: 15,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 8,
+    },
+    muted: { fontSize: 12, color: colors.textSecondary },
+    sides: { flexDirection: "row", alignItems: "center", gap: 8 },
+    side: { flex: 1, alignItems: "center", gap: 4 },
+    sideLabel: {
+      fontSize: 11,
+      fontWeight: "700",
+      color: colors.textSecondary,
+      textTransform: "uppercase",
+    },
+    sideVersion: { fontSize: 18, fontWeight: "800", color: colors.text },
+    sideChip: { backgroundColor: colors.surfaceVariant },
+    sideMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      fontFamily: "monospace",
+    },
+    deltaRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 6,
+      marginTop: 12,
+    },
+    deltaText: { fontSize: 13, color: colors.text },
+    commitRow: {
+      flexDirection: "row",
+      gap: 10,
+      paddingVertical: 8,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    commitHash: {
+      fontSize: 12,
+      fontFamily: "monospace",
+      color: colors.primary,
+      fontWeight: "600",
+    },
+    commitMessage: { fontSize: 13, color: colors.text },
+    envRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 6,
+    },
+    envKey: {
+      flex: 1,
+      fontSize: 13,
+      fontFamily: "monospace",
+      color: colors.text,
+    },
+    envKind: { fontSize: 11, fontWeight: "700" },
+    diffHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingHorizontal: 4,
+      marginTop: 4,
+    },
+    diffCount: { fontSize: 14, fontWeight: "700", marginBottom: 8 },
+    errorBox: { alignItems: "center", gap: 12, paddingVertical: 40 },
+    errorText: { fontSize: 14, color: colors.error, textAlign: "center" },
+  });
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import { Text, ActivityIndicator, Button } from "react-native-paper";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { deploymentsApi, getErrorMessage } from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import DiffView from "../../components/DiffView";
+import { diffTotals, parseUnifiedDiff } from "../../utils/diff";
+
+export default function DeploymentDiffScreen() {
+  const { projectId } = useLocalSearchParams<{ projectId: string }>();
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+
+  const [raw, setRaw] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      setError("");
+      setRaw(await deploymentsApi.diff(projectId));
+    } catch (err) {
+      setError(getErrorMessage(err, t("common.failed")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [projectId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const files = useMemo(() => parseUnifiedDiff(raw), [raw]);
+  const totals = useMemo(() => diffTotals(files), [files]);
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: t("deploy.gitDiff") }} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("deploy.gitDiff") }} />
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              load();
+            }}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        {error ? (
+          <View style={styles.errorBox}>
+            <MaterialCommunityIcons
+              name="alert-circle-outline"
+              size={32}
+              color={colors.error}
+            />
+            <Text style={styles.errorText}>{error}</Text>
+            <Button mode="outlined" onPress={load} textColor={colors.primary}>
+              {t("common.retry")}
+            </Button>
+          </View>
+        ) : !raw.trim() ? (
+          <Text style={styles.empty}>{t("deploy.noDiff")}</Text>
+        ) : files.length === 0 ? (
+          // Not something we can parse; show it as the backend sent it
+          <Text style={styles.rawText} selectable>
+            {raw}
+          </Text>
+        ) : (
+          <>
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>
+                {t("diff.filesChanged", { count: files.length })}
+              </Text>
+              <Text style={[styles.summaryCount, { color: colors.success }]}>
+                +{totals.additions}
+              </Text>
+              <Text style={[styles.summaryCount, { color: colors.error }]}>
+                −{totals.deletions}
+              </Text>
+            </View>
+            <DiffView files={files} />
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    content: { padding: 12, paddingBottom: 40 },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.background,
+    },
+    summary: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      marginBottom: 12,
+      paddingHorizontal: 4,
+    },
+    summaryText: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    summaryCount: { fontSize: 14, fontWeight: "700" },
+    empty: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: "center",
+      paddingVertical: 40,
+    },
+    rawText: {
+      fontSize: 12,
+      fontFamily: "monospace",
+      color: colors.text,
+    },
+    errorBox: { alignItems: "center", gap: 12, paddingVertical: 40 },
+    errorText: { fontSize: 14, color: colors.error, textAlign: "center" },
+  });
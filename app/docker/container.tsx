@@ -0,0 +1,764 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  FlatList,
+  RefreshControl,
+  Platform,
+  Pressable,
+} from "react-native";
+import {
+  Text,
+  Card,
+  ActivityIndicator,
+  IconButton,
+  SegmentedButtons,
+  Chip,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { format } from "date-fns";
+import { dockerApi, getErrorMessage } from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import Sparkline from "../../components/Sparkline";
+import { useLogStream } from "../../hooks/useLogStream";
+import { formatDuration } from "../../utils/duration";
+import {
+  ContainerDetail,
+  ContainerLogLine,
+  StatsSample,
+  formatBytes,
+  isSecretEnv,
+  netRates,
+  parseInspect,
+  parseLogLine,
+  parseLogs,
+  statsSample,
+} from "../../utils/docker";
+
+type Tab = "overview" | "stats" | "logs";
+
+const STATS_INTERVAL = 3000;
+const MAX_SAMPLES = 40;
+const LOG_TAIL = 200;
+const MAX_LOG_LINES = 500;
+const MONO = Platform.OS === "ios" ? "Menlo" : "monospace";
+
+// Docker times carry nanoseconds, which not every Date parser accepts
+const toDate = (value: string) => {
+  const date = new Date(value.replace(/(\.\d{3})\d+/, "$1"));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const stateColor = (status: string, colors: any) =>
+  status === "running"
+    ? colors.success
+    : status === "restarting" || status === "paused"
+      ? colors.warning
+      : colors.error;
+
+export default function ContainerDetailScreen() {
+  const { serverId, id, name } = useLocalSearchParams<{
+    serverId: string;
+    id: string;
+    name?: string;
+  }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors, isDark } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors, isDark), [colors, isDark]);
+
+  const [tab, setTab] = useState<Tab>("overview");
+  const [detail, setDetail] = useState<ContainerDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  const [samples, setSamples] = useState<StatsSample[]>([]);
+  const [statsError, setStatsError] = useState<string | null>(null);
+
+  const [logs, setLogs] = useState<ContainerLogLine[]>([]);
+  const [logsLoading, setLogsLoading] = useState(false);
+  const [follow, setFollow] = useState(false);
+  const [showTimestamps, setShowTimestamps] = useState(true);
+  const [logNotice, setLogNotice] = useState<string | null>(null);
+  const logListRef = useRef<FlatList<ContainerLogLine>>(null);
+
+  const running = detail?.state.status === "running";
+
+  const loadDetail = useCallback(async () => {
+    if (!serverId || !id) return;
+    try {
+      setDetail(parseInspect(await dockerApi.inspectContainer(serverId, id)));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("common.failedLoad")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, id, t]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  // ── Stats: sampled while the tab is open ──
+
+  useEffect(() => {
+    if (tab !== "stats" || !running || !serverId || !id) return;
+    let cancelled = false;
+    const sample = async () => {
+      try {
+        const stats = await dockerApi.containerStats(serverId, id);
+        if (cancelled) return;
+        setSamples((prev) => [...prev, statsSample(stats)].slice(-MAX_SAMPLES));
+        setStatsError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setStatsError(getErrorMessage(err, t("container.statsFailed")));
+        }
+      }
+    };
+    sample();
+    const interval = setInterval(sample, STATS_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [tab, running, serverId, id, t]);
+
+  const rates = useMemo(() => netRates(samples), [samples]);
+  const latest = samples[samples.length - 1];
+  const latestRate = rates[rates.length - 1];
+
+  // ── Logs: a timestamped tail, then the live stream while following ──
+
+  const loadLogs = useCallback(async () => {
+    if (!serverId || !id) return;
+    setLogsLoading(true);
+    try {
+      const text = await dockerApi.containerLogs(serverId, id, {
+        tail: LOG_TAIL,
+        timestamps: true,
+      });
+      setLogs(parseLogs(text));
+      setLogNotice(null);
+    } catch (err) {
+      setLogNotice(getErrorMessage(err, t("container.logsFailed")));
+    } finally {
+      setLogsLoading(false);
+    }
+  }, [serverId, id, t]);
+
+  const logsFetched = useRef(false);
+  useEffect(() => {
+    // Only the first visit loads by itself; refreshes are explicit
+    if (tab !== "logs" || logsFetched.current) return;
+    logsFetched.current = true;
+    loadLogs();
+  }, [tab, loadLogs]);
+
+  const appendLogs = (lines: ContainerLogLine[]) =>
+    setLogs((prev) => [...prev, ...lines].slice(-MAX_LOG_LINES));
+
+  useLogStream(
+    tab === "logs" && follow && serverId && id
+      ? {
+          serverId,
+          type: "docker",
+          target: id,
+          params: { timestamps: "1" },
+        }
+      : null,
+    {
+      onOpen: () => setLogNotice(null),
+      onChunk: (content) =>
+        appendLogs(content.split("\n").filter(Boolean).map(parseLogLine)),
+      onFail: (failure) => {
+        setLogNotice(
+          failure.kind === "ticket"
+            ? getErrorMessage(failure.error, t("container.followFailed"))
+            : failure.kind === "server"
+              ? failure.message
+              : t("container.streamLost"),
+        );
+        setFollow(false);
+      },
+    },
+  );
+
+  const openShell = () =>
+    router.push({
+      pathname: `/server/${serverId}/terminal`,
+      params: {
+        id: serverId,
+        container: id,
+        name: detail?.name || name || id?.slice(0, 12),
+      },
+    });
+
+  const toggleReveal = (key: string) =>
+    setRevealed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const renderRow = (label: string, value?: string | number | null) =>
+    value === undefined || value === null || value === "" ? null : (
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        <Text style={styles.rowValue} selectable>
+          {String(value)}
+        </Text>
+      </View>
+    );
+
+  const formatTime = (value?: string, pattern = "PP HH:mm:ss") => {
+    const date = value ? toDate(value) : null;
+    return date ? format(date, pattern) : undefined;
+  };
+
+  const renderOverview = () => {
+    if (!detail) {
+      return <Text style={styles.empty}>{error || t("common.noData")}</Text>;
+    }
+    const { state, health, healthcheck } = detail;
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadDetail();
+            }}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.statusHeader}>
+              <View
+                style={[
+                  styles.dot,
+                  { backgroundColor: stateColor(state.status, colors) },
+                ]}
+              />
+              <Text style={styles.statusText}>{state.status}</Text>
+              {state.oomKilled && (
+                <Chip compact textStyle={{ color: colors.error }}>
+                  {t("container.oomKilled")}
+                </Chip>
+              )}
+            </View>
+            {renderRow(t("container.image"), detail.image)}
+            {renderRow(t("container.command"), detail.command)}
+            {renderRow(t("container.created"), formatTime(detail.created))}
+            {renderRow(t("container.startedAt"), formatTime(state.startedAt))}
+            {!running &&
+              renderRow(
+                t("container.finishedAt"),
+                formatTime(state.finishedAt),
+              )}
+            {!running && renderRow(t("container.exitCode"), state.exitCode)}
+            {renderRow(t("container.error"), state.error)}
+            {renderRow(
+              t("container.restartPolicy"),
+              detail.restartPolicy.name === "on-failure" &&
+                detail.restartPolicy.maxRetries
+                ? `${detail.restartPolicy.name}:${detail.restartPolicy.maxRetries}`
+                : detail.restartPolicy.name,
+            )}
+            {renderRow(t("container.restartCount"), state.restartCount)}
+            {renderRow(t("container.workingDir"), detail.workingDir)}
+            {renderRow(t("container.user"), detail.user)}
+          </Card.Content>
+        </Card>
+
+        {(healthcheck || health) && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text style={styles.sectionTitle}>{t("container.health")}</Text>
+              {health &&
+                renderRow(
+                  t("container.healthStatus"),
+                  health.failingStreak
+                    ? `${health.status} · ${t("container.failingStreak", {
+                        count: health.failingStreak,
+                      })}`
+                    : health.status,
+                )}
+              {healthcheck && (
+                <>
+                  {renderRow(t("container.healthTest"), healthcheck.test)}
+                  {renderRow(
+                    t("container.healthTiming"),
+                    [
+                      healthcheck.interval &&
+                        t("container.every", {
+                          duration: formatDuration(healthcheck.interval),
+                        }),
+                      healthcheck.timeout &&
+                        t("container.timeout", {
+                          duration: formatDuration(healthcheck.timeout),
+                        }),
+                      healthcheck.retries &&
+                        t("container.retries", { count: healthcheck.retries }),
+                      healthcheck.startPeriod &&
+                        t("container.startPeriod", {
+                          duration: formatDuration(healthcheck.startPeriod),
+                        }),
+                    ]
+                      .filter(Boolean)
+                      .join(" · "),
+                  )}
+                </>
+              )}
+              {health?.log
+                .slice(-5)
+                .reverse()
+                .map((probe, i) => (
+                  <View key={i} style={styles.probe}>
+                    <MaterialCommunityIcons
+                      name={
+                        probe.exitCode === 0 ? "check-circle" : "close-circle"
+                      }
+                      size={14}
+                      color={
+                        probe.exitCode === 0 ? colors.success : colors.error
+                      }
+                    />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.meta}>
+                        {formatTime(probe.start)} ·{" "}
+                        {t("container.exitCodeShort", { code: probe.exitCode })}
+                      </Text>
+                      {probe.output ? (
+                        <Text style={styles.mono} numberOfLines={3}>
+                          {probe.output}
+                        </Text>
+                      ) : null}
+                    </View>
+                  </View>
+                ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>{t("container.ports")}</Text>
+            {detail.ports.length === 0 ? (
+              <Text style={styles.meta}>{t("container.none")}</Text>
+            ) : (
+              detail.ports.map((port) => (
+                <Text key={port.container} style={styles.mono}>
+                  {port.host.length
+                    ? `${port.host.join(", ")} → ${port.container}`
+                    : `${port.container} (${t("container.notPublished")})`}
+                </Text>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>{t("container.networks")}</Text>
+            {detail.networks.length === 0 ? (
+              <Text style={styles.meta}>{t("container.none")}</Text>
+            ) : (
+              detail.networks.map((network) => (
+                <View key={network.name} style={styles.listItem}>
+                  <Text style={styles.itemTitle}>{network.name}</Text>
+                  <Text style={styles.mono}>
+                    {[
+                      network.ipAddress,
+                      network.gateway && `gw ${network.gateway}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ") || "—"}
+                  </Text>
+                  {network.aliases.length > 0 && (
+                    <Text style={styles.meta}>
+                      {t("container.aliases", {
+                        aliases: network.aliases.join(", "),
+                      })}
+                    </Text>
+                  )}
+                </View>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>{t("container.mounts")}</Text>
+            {detail.mounts.length === 0 ? (
+              <Text style={styles.meta}>{t("container.none")}</Text>
+            ) : (
+              detail.mounts.map((mount) => (
+                <View key={mount.destination} style={styles.listItem}>
+                  <View style={styles.mountHeader}>
+                    <MaterialCommunityIcons
+                      name={mount.type === "volume" ? "database" : "folder"}
+                      size={14}
+                      color={colors.textSecondary}
+                    />
+                    <Text style={styles.itemTitle}>{mount.destination}</Text>
+                    {mount.readOnly && (
+                      <Text style={styles.badge}>
+                        {t("container.readOnly")}
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.mono} numberOfLines={2}>
+                    {mount.type}: {mount.source}
+                  </Text>
+                </View>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>
+              {t("container.environment")}
+            </Text>
+            {detail.env.length === 0 ? (
+              <Text style={styles.meta}>{t("container.none")}</Text>
+            ) : (
+              detail.env.map(({ key, value }) => {
+                const masked = isSecretEnv(key) && !revealed.has(key);
+                return (
+                  <Pressable
+                    key={key}
+                    style={styles.envRow}
+                    disabled={!isSecretEnv(key)}
+                    onPress={() => toggleReveal(key)}
+                  >
+                    <Text style={[styles.mono, { flex: 1 }]} selectable>
+                      <Text style={{ fontWeight: "bold" }}>{key}</Text>=
+                      {masked ? "••••••••" : value}
+                    </Text>
+                    {isSecretEnv(key) && (
+                      <MaterialCommunityIcons
+                        name={masked ? "eye-outline" : "eye-off-outline"}
+                        size={16}
+                        color={colors.textSecondary}
+                      />
+                    )}
+                  </Pressable>
+                );
+              })
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    );
+  };
+
+  const renderStats = () => {
+    if (!running) {
+      return <Text style={styles.empty}>{t("container.notRunning")}</Text>;
+    }
+    if (!latest) {
+      return statsError ? (
+        <Text style={styles.empty}>{statsError}</Text>
+      ) : (
+        <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+      );
+    }
+    const maxRate = Math.max(...rates.map((r) => Math.max(r.rx, r.tx)), 1);
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        {statsError && <Text style={styles.warning}>{statsError}</Text>}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.chartHeader}>
+              <Text style={styles.sectionTitle}>{t("container.cpu")}</Text>
+              <Text style={[styles.chartValue, { color: colors.primary }]}>
+                {latest.cpu.toFixed(1)}%
+              </Text>
+            </View>
+            <Sparkline
+              series={[
+                { values: samples.map((s) => s.cpu), color: colors.primary },
+              ]}
+              // CPU can pass 100% on multi-core hosts
+              max={Math.max(100, ...samples.map((s) => s.cpu))}
+            />
+          </Card.Content>
+        </Card>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.chartHeader}>
+              <Text style={styles.sectionTitle}>{t("container.memory")}</Text>
+              <Text style={[styles.chartValue, { color: colors.warning }]}>
+                {formatBytes(latest.memory)} / {formatBytes(latest.memoryLimit)}
+              </Text>
+            </View>
+            <Sparkline
+              series={[
+                {
+                  values: samples.map((s) => s.memoryPercent),
+                  color: colors.warning,
+                },
+              ]}
+              max={100}
+            />
+          </Card.Content>
+        </Card>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.chartHeader}>
+              <Text style={styles.sectionTitle}>{t("container.network")}</Text>
+              {latestRate && (
+                <Text style={styles.meta}>
+                  ↓ {formatBytes(latestRate.rx)}/s · ↑{" "}
+                  {formatBytes(latestRate.tx)}/s
+                </Text>
+              )}
+            </View>
+            <Sparkline
+              series={[
+                { values: rates.map((r) => r.rx), color: colors.info },
+                { values: rates.map((r) => r.tx), color: colors.success },
+              ]}
+              max={maxRate}
+            />
+            <Text style={styles.meta}>
+              {t("container.netTotals", {
+                rx: formatBytes(latest.netRx),
+                tx: formatBytes(latest.netTx),
+              })}
+            </Text>
+          </Card.Content>
+        </Card>
+        <Text style={styles.hint}>
+          {t("container.sampling", {
+            seconds: STATS_INTERVAL / 1000,
+            count: samples.length,
+          })}
+        </Text>
+      </ScrollView>
+    );
+  };
+
+  const renderLogs = () => (
+    <View style={{ flex: 1 }}>
+      <View style={styles.logToolbar}>
+        <Chip
+          compact
+          icon={follow ? "pause" : "play"}
+          selected={follow}
+          onPress={() => setFollow(!follow)}
+        >
+          {follow ? t("container.following") : t("container.follow")}
+        </Chip>
+        <Chip
+          compact
+          icon="clock-outline"
+          selected={showTimestamps}
+          onPress={() => setShowTimestamps(!showTimestamps)}
+        >
+          {t("container.timestamps")}
+        </Chip>
+        <View style={{ flex: 1 }} />
+        <IconButton
+          icon="refresh"
+          size={18}
+          disabled={logsLoading || follow}
+          onPress={loadLogs}
+        />
+      </View>
+      {logNotice && <Text style={styles.warning}>{logNotice}</Text>}
+      <View style={styles.logBox}>
+        {logsLoading && logs.length === 0 ? (
+          <ActivityIndicator style={{ marginTop: 40 }} color="#fff" />
+        ) : (
+          <FlatList
+            ref={logListRef}
+            data={logs}
+            keyExtractor={(_, i) => String(i)}
+            contentContainerStyle={{ padding: 10 }}
+            onContentSizeChange={() => {
+              if (follow) logListRef.current?.scrollToEnd({ animated: false });
+            }}
+            renderItem={({ item }) => (
+              <Text style={styles.logLine} selectable>
+                {showTimestamps && item.timestamp ? (
+                  <Text style={styles.logTime}>
+                    {formatTime(item.timestamp, "HH:mm:ss.SSS")}{" "}
+                  </Text>
+                ) : null}
+                {item.text}
+              </Text>
+            )}
+            ListEmptyComponent={
+              <Text style={styles.logTime}>{t("container.noLogs")}</Text>
+            }
+          />
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: detail?.name || name || t("container.title"),
+          headerRight: () => (
+            <IconButton
+              icon="console"
+              iconColor={colors.primary}
+              disabled={!running}
+              accessibilityLabel={t("container.openShell")}
+              onPress={openShell}
+            />
+          ),
+        }}
+      />
+      <View style={styles.tabs}>
+        <SegmentedButtons
+          value={tab}
+          onValueChange={(value) => setTab(value as Tab)}
+          buttons={[
+            { value: "overview", label: t("container.overview") },
+            { value: "stats", label: t("container.stats") },
+            { value: "logs", label: t("container.logs") },
+          ]}
+        />
+      </View>
+      {loading ? (
+        <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+      ) : tab === "overview" ? (
+        renderOverview()
+      ) : tab === "stats" ? (
+        renderStats()
+      ) : (
+        renderLogs()
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any, isDark: boolean) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    tabs: {
+      padding: 12,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    content: { padding: 12, paddingBottom: 40 },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    sectionTitle: {
+      fontSize: 15,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 6,
+    },
+    statusHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      marginBottom: 8,
+    },
+    dot: { width: 10, height: 10, borderRadius: 5 },
+    statusText: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+      textTransform: "capitalize",
+    },
+    row: { flexDirection: "row", gap: 12, paddingVertical: 3 },
+    rowLabel: { width: 110, fontSize: 12, color: colors.textSecondary },
+    rowValue: { flex: 1, fontSize: 12, color: colors.text },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    mono: { fontFamily: MONO, fontSize: 12, color: colors.text },
+    listItem: { paddingVertical: 6, gap: 2 },
+    itemTitle: { fontSize: 13, fontWeight: "600", color: colors.text },
+    mountHeader: { flexDirection: "row", alignItems: "center", gap: 6 },
+    badge: {
+      fontSize: 10,
+      fontWeight: "700",
+      color: colors.warning,
+      borderWidth: 1,
+      borderColor: colors.warning,
+      borderRadius: 4,
+      paddingHorizontal: 4,
+    },
+    probe: { flexDirection: "row", gap: 8, paddingVertical: 4 },
+    envRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 3,
+    },
+    chartHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    chartValue: { fontSize: 14, fontWeight: "700" },
+    hint: { textAlign: "center", fontSize: 11, color: colors.textSecondary },
+    empty: {
+      textAlign: "center",
+      color: colors.textSecondary,
+      marginTop: 40,
+      paddingHorizontal: 20,
+    },
+    warning: {
+      color: colors.warning,
+      fontSize: 12,
+      paddingHorizontal: 12,
+      paddingBottom: 6,
+    },
+    logToolbar: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    logBox: {
+      flex: 1,
+      marginHorizontal: 12,
+      marginBottom: 12,
+      borderRadius: 12,
+      overflow: "hidden",
+      backgroundColor: isDark ? "#0d1117" : "#161b22",
+    },
+    logLine: {
+      fontFamily: MONO,
+      fontSize: 11,
+      lineHeight: 16,
+      color: "#e6edf3",
+    },
+    logTime: { fontFamily: MONO, fontSize: 11, color: "#8b949e" },
+  });
@@ -0,0 +1,454 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+  Pressable,
+} from "react-native";
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  Checkbox,
+  Divider,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import {
+  DiskUsageEntry,
+  dockerApi,
+  getErrorMessage,
+  PrunePreview,
+  PruneTarget,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import { formatBytes, PRUNE_TARGETS, pruneTotals } from "../../utils/docker";
+
+const TARGET_ICONS: Record<PruneTarget, string> = {
+  images: "layers-outline",
+  containers: "docker",
+  volumes: "database-outline",
+  buildCache: "hammer-wrench",
+};
+
+const targetColor = (target: PruneTarget, colors: any) =>
+  ({
+    images: colors.primary,
+    containers: colors.info,
+    volumes: colors.warning,
+    buildCache: colors.success,
+  })[target];
+
+// Items listed per target before the rest collapse into a count
+const PREVIEW_ITEMS = 8;
+
+export default function DockerDiskScreen() {
+  const { serverId } = useLocalSearchParams<{ serverId: string }>();
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [usage, setUsage] = useState<DiskUsageEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Volumes are opt-in: pruning them can delete the only copy of some data
+  const [selected, setSelected] = useState<Set<PruneTarget>>(
+    new Set(["containers", "images", "buildCache"]),
+  );
+  const [previews, setPreviews] = useState<PrunePreview[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [pruning, setPruning] = useState(false);
+  const [expanded, setExpanded] = useState<PruneTarget | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    if (!serverId) return;
+    try {
+      setUsage(await dockerApi.diskUsage(serverId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("dockerDisk.loadFailed")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, t]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const toggleTarget = (target: PruneTarget) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(target)) next.delete(target);
+      else next.add(target);
+      return next;
+    });
+    // A preview only holds for the targets it was made with
+    setPreviews(null);
+  };
+
+  const handlePreview = async () => {
+    if (!serverId || selected.size === 0) return;
+    setPreviewing(true);
+    try {
+      setPreviews(
+        await dockerApi.prunePreview(
+          serverId,
+          PRUNE_TARGETS.filter((target) => selected.has(target)),
+        ),
+      );
+      setExpanded(null);
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("dockerDisk.previewFailed")),
+      );
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const totals = previews ? pruneTotals(previews) : null;
+
+  const handlePrune = () => {
+    if (!serverId || !previews || !totals) return;
+    const selections = previews
+      .filter((preview) => preview.items.length > 0)
+      .map((preview) => ({
+        target: preview.target,
+        ids: preview.items.map((item) => item.id),
+      }));
+    Alert.alert(
+      t("dockerDisk.confirmTitle"),
+      t("dockerDisk.confirmMessage", {
+        count: totals.items,
+        size: formatBytes(totals.reclaimable),
+      }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("dockerDisk.prune"),
+          style: "destructive",
+          onPress: async () => {
+            setPruning(true);
+            try {
+              const results = await dockerApi.prune(serverId, selections);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              const reclaimed = results.reduce(
+                (sum, r) => sum + r.reclaimed,
+                0,
+              );
+              const deleted = results.reduce((sum, r) => sum + r.deleted, 0);
+              Alert.alert(
+                t("common.success"),
+                t("dockerDisk.pruned", {
+                  count: deleted,
+                  size: formatBytes(reclaimed),
+                }),
+              );
+              setPreviews(null);
+              loadUsage();
+            } catch (err) {
+              Alert.alert(
+                t("common.error"),
+                getErrorMessage(err, t("dockerDisk.pruneFailed")),
+              );
+            } finally {
+              setPruning(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const totalSize = usage.reduce((sum, entry) => sum + entry.size, 0);
+  const totalReclaimable = usage.reduce(
+    (sum, entry) => sum + entry.reclaimable,
+    0,
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: t("dockerDisk.title") }} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            loadUsage();
+          }}
+          tintColor={colors.primary}
+        />
+      }
+    >
+      <Stack.Screen options={{ title: t("dockerDisk.title") }} />
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.total}>{formatBytes(totalSize)}</Text>
+          <Text style={styles.meta}>
+            {t("dockerDisk.reclaimable", {
+              size: formatBytes(totalReclaimable),
+            })}
+          </Text>
+          {totalSize > 0 && (
+            <View style={styles.stackedBar}>
+              {usage.map((entry) => (
+                <View
+                  key={entry.type}
+                  style={{
+                    flex: entry.size,
+                    backgroundColor: targetColor(entry.type, colors),
+                  }}
+                />
+              ))}
+            </View>
+          )}
+          {usage.map((entry) => (
+            <View key={entry.type} style={styles.usageRow}>
+              <MaterialCommunityIcons
+                name={TARGET_ICONS[entry.type] as any}
+                size={18}
+                color={targetColor(entry.type, colors)}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.usageLabel}>
+                  {t(`dockerDisk.types.${entry.type}`)}
+                </Text>
+                <Text style={styles.meta}>
+                  {t("dockerDisk.activeCount", {
+                    active: entry.active,
+                    total: entry.total,
+                  })}
+                </Text>
+              </View>
+              <View style={{ alignItems: "flex-end" }}>
+                <Text style={styles.usageLabel}>{formatBytes(entry.size)}</Text>
+                <Text style={styles.meta}>
+                  {t("dockerDisk.reclaimable", {
+                    size: formatBytes(entry.reclaimable),
+                  })}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </Card.Content>
+      </Card>
+
+      <Text style={styles.sectionTitle}>{t("dockerDisk.cleanup")}</Text>
+      <Card style={styles.card}>
+        <Card.Content>
+          {PRUNE_TARGETS.map((target) => (
+            <Pressable
+              key={target}
+              style={styles.targetRow}
+              onPress={() => toggleTarget(target)}
+              disabled={previewing || pruning}
+            >
+              <Checkbox.Android
+                status={selected.has(target) ? "checked" : "unchecked"}
+                onPress={() => toggleTarget(target)}
+                disabled={previewing || pruning}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.usageLabel}>
+                  {t(`dockerDisk.targets.${target}`)}
+                </Text>
+                <Text
+                  style={[
+                    styles.meta,
+                    target === "volumes" && { color: colors.warning },
+                  ]}
+                >
+                  {t(`dockerDisk.targetHints.${target}`)}
+                </Text>
+              </View>
+            </Pressable>
+          ))}
+          <Button
+            mode="outlined"
+            icon="eye-outline"
+            onPress={handlePreview}
+            loading={previewing}
+            disabled={previewing || pruning || selected.size === 0}
+            style={{ marginTop: 8 }}
+          >
+            {t("dockerDisk.preview")}
+          </Button>
+        </Card.Content>
+      </Card>
+
+      {previews && totals && (
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>
+              {t("dockerDisk.previewTitle")}
+            </Text>
+            <Text style={styles.meta}>
+              {t("dockerDisk.previewSummary", {
+                count: totals.items,
+                size: formatBytes(totals.reclaimable),
+              })}
+            </Text>
+            {previews.map((preview) => (
+              <View key={preview.target}>
+                <Divider style={{ marginVertical: 8 }} />
+                <Pressable
+                  style={styles.previewHeader}
+                  disabled={preview.items.length === 0}
+                  onPress={() =>
+                    setExpanded(
+                      expanded === preview.target ? null : preview.target,
+                    )
+                  }
+                >
+                  <MaterialCommunityIcons
+                    name={TARGET_ICONS[preview.target] as any}
+                    size={16}
+                    color={targetColor(preview.target, colors)}
+                  />
+                  <Text style={[styles.usageLabel, { flex: 1 }]}>
+                    {t(`dockerDisk.targets.${preview.target}`)} (
+                    {preview.items.length})
+                  </Text>
+                  <Text style={styles.usageLabel}>
+                    {formatBytes(preview.reclaimable)}
+                  </Text>
+                  {preview.items.length > 0 && (
+                    <MaterialCommunityIcons
+                      name={
+                        expanded === preview.target
+                          ? "chevron-up"
+                          : "chevron-down"
+                      }
+                      size={18}
+                      color={colors.textSecondary}
+                    />
+                  )}
+                </Pressable>
+                {expanded === preview.target && (
+                  <>
+                    {preview.items.slice(0, PREVIEW_ITEMS).map((item) => (
+                      <View key={item.id} style={styles.itemRow}>
+                        <Text style={styles.itemName} numberOfLines={1}>
+                          {item.name || item.id.slice(0, 12)}
+                        </Text>
+                        <Text style={styles.meta}>
+                          {formatBytes(item.size)}
+                        </Text>
+                      </View>
+                    ))}
+                    {preview.items.length > PREVIEW_ITEMS && (
+                      <Text style={styles.meta}>
+                        {t("dockerDisk.more", {
+                          count: preview.items.length - PREVIEW_ITEMS,
+                        })}
+                      </Text>
+                    )}
+                  </>
+                )}
+              </View>
+            ))}
+            <Button
+              mode="contained"
+              icon="broom"
+              buttonColor={colors.error}
+              onPress={handlePrune}
+              loading={pruning}
+              disabled={pruning || totals.items === 0}
+              style={{ marginTop: 12 }}
+            >
+              {totals.items === 0
+                ? t("dockerDisk.nothingToPrune")
+                : t("dockerDisk.pruneSize", {
+                    size: formatBytes(totals.reclaimable),
+                  })}
+            </Button>
+          </Card.Content>
+        </Card>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    content: { padding: 12, paddingBottom: 40 },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.background,
+    },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    error: { color: colors.error, marginBottom: 12, textAlign: "center" },
+    total: { fontSize: 28, fontWeight: "800", color: colors.text },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    stackedBar: {
+      flexDirection: "row",
+      height: 10,
+      borderRadius: 5,
+      overflow: "hidden",
+      marginVertical: 12,
+      backgroundColor: colors.border,
+    },
+    usageRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 8,
+    },
+    usageLabel: { fontSize: 14, fontWeight: "600", color: colors.text },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 8,
+      marginTop: 4,
+    },
+    targetRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+      paddingVertical: 4,
+    },
+    previewHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+    itemRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      gap: 12,
+      paddingVertical: 4,
+      paddingLeft: 24,
+    },
+    itemName: { flex: 1, fontSize: 12, color: colors.text },
+  });
@@ -21,10 +21,27 @@ import {
   Menu,
   Dialog,
   TextInput,
+  Switch,
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  ComposeProject,
+  ContainerAction,
+  ContainerStats,
+  dockerApi,
+  DockerContainer,
+  DockerImage,
+  DockerInfo,
+  DockerNetwork,
+  DockerSearchResult,
+  DockerVolume,
+  getErrorMessage,
+  ImageTag,
+  isApiError,
+  Secret,
+  secretsApi,
+} from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
@@ -32,38 +49,28 @@ import { useServer } from "../../contexts/ServerContext";
 import CustomAlertDialog, {
   CustomAlertDialogRef,
 } from "../../components/CustomAlertDialog";
+import ImageTagSheet from "../../components/ImageTagSheet";
+import { groupStacks, StackState, stackState } from "../../utils/compose";
+import { formatBytes, isBuiltinNetwork } from "../../utils/docker";
+import {
+  containerRepository,
+  encodeRegistryCredential,
+  REGISTRY_SECRET_TYPE,
+  registryCredentialFor,
+  withTag,
+} from "../../utils/registry";
 
-interface DockerContainer {
-  id: string;
-  name: string;
-  image: string;
-  status: string;
-  state: string;
-  ports: string;
-  created: string;
-  size: string;
-  networks: string;
-  command: string;
-}
+type Tab = "containers" | "stacks" | "images" | "volumes" | "networks";
 
-interface DockerImage {
-  id: string;
-  repository: string;
-  tag: string;
-  size: string;
-  created: string;
-}
+const emptyLogin = { registry: "", username: "", password: "" };
 
-interface ContainerStats {
-  containerId: string;
-  name: string;
-  cpuPercent: string;
-  memUsage: string;
-  memPercent: string;
-  netIO: string;
-  blockIO: string;
-  pids: string;
-}
+const emptyCreate = {
+  name: "",
+  driver: "",
+  subnet: "",
+  gateway: "",
+  internal: false,
+};
 
 const stateColor: Record<string, string> = {
   running: "#22c55e",
@@ -74,6 +81,12 @@ const stateColor: Record<string, string> = {
   dead: "#ef4444",
 };
 
+const stackColor: Record<StackState, string> = {
+  running: "#22c55e",
+  partial: "#eab308",
+  stopped: "#6b7280",
+};
+
 export default function DockerManagerScreen() {
   const router = useRouter();
   const { t } = useTranslation();
@@ -86,16 +99,16 @@ export default function DockerManagerScreen() {
   const { selectedServer } = useServer();
   const serverId = paramServerId || selectedServer?._id;
 
-  const [tab, setTab] = useState<"containers" | "images">("containers");
+  const [tab, setTab] = useState<Tab>("containers");
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [dockerInfo, setDockerInfo] = useState<{
-    installed: boolean;
-    version?: string;
-  } | null>(null);
+  const [dockerInfo, setDockerInfo] = useState<DockerInfo | null>(null);
 
   const [containers, setContainers] = useState<DockerContainer[]>([]);
   const [images, setImages] = useState<DockerImage[]>([]);
+  const [projects, setProjects] = useState<ComposeProject[]>([]);
+  const [volumes, setVolumes] = useState<DockerVolume[]>([]);
+  const [networks, setNetworks] = useState<DockerNetwork[]>([]);
   const [stats, setStats] = useState<ContainerStats[]>([]);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
 
@@ -112,13 +125,40 @@ export default function DockerManagerScreen() {
   const [inspectContent, setInspectContent] = useState("");
   const [inspectLoading, setInspectLoading] = useState(false);
 
+  // Create Volume / Network
+  const [createKind, setCreateKind] = useState<"volume" | "network" | null>(
+    null,
+  );
+  const [createConfig, setCreateConfig] = useState(emptyCreate);
+  const [creating, setCreating] = useState(false);
+
   // Pull Image Autocomplete
   const [pullVisible, setPullVisible] = useState(false);
   const [pullImage, setPullImage] = useState("");
   const [pulling, setPulling] = useState(false);
-  const [pullSuggestions, setPullSuggestions] = useState<any[]>([]);
+  const [pullSuggestions, setPullSuggestions] = useState<
+    DockerSearchResult[]
+  >([]);
   const [pullSearchLoading, setPullSearchLoading] = useState(false);
 
+  // Registry logins, stored in the secrets vault. The pull credential is
+  // matched to the image's registry until one is picked by hand ("" for
+  // anonymous)
+  const [registrySecrets, setRegistrySecrets] = useState<Secret[]>([]);
+  const [pullCredentialChoice, setPullCredentialChoice] = useState<
+    string | null
+  >(null);
+  const [credentialMenuVisible, setCredentialMenuVisible] = useState(false);
+  const [tagBrowserVisible, setTagBrowserVisible] = useState(false);
+  const [loginVisible, setLoginVisible] = useState(false);
+  const [loginConfig, setLoginConfig] = useState(emptyLogin);
+  const [savingLogin, setSavingLogin] = useState(false);
+
+  // Container whose image is being moved to another tag
+  const [updateTarget, setUpdateTarget] = useState<DockerContainer | null>(
+    null,
+  );
+
   // Run Container
   const [runVisible, setRunVisible] = useState(false);
   const [runConfig, setRunConfig] = useState({
@@ -139,8 +179,7 @@ export default function DockerManagerScreen() {
         }
         setPullSearchLoading(true);
         try {
-          const { data } = await api.get(`/docker/search?query=${pullImage}`);
-          setPullSuggestions(data.results || []);
+          setPullSuggestions(await dockerApi.search(pullImage));
         } catch (error) {
           console.log("Docker search error", error);
           setPullSuggestions([]);
@@ -161,24 +200,37 @@ export default function DockerManagerScreen() {
   const fetchData = useCallback(async () => {
     if (!serverId) return;
     try {
-      const [infoRes, containersRes, imagesRes] = await Promise.all([
-        api.get(`/docker/${serverId}/info`),
-        api.get(`/docker/${serverId}/containers`),
-        api.get(`/docker/${serverId}/images`),
+      const [
+        info,
+        containerList,
+        imageList,
+        projectList,
+        volumeList,
+        networkList,
+      ] = await Promise.all([
+        dockerApi.info(serverId),
+        dockerApi.containers(serverId),
+        dockerApi.images(serverId),
+        // Servers without the compose plugin still list their containers
+        dockerApi.composeProjects(serverId).catch(() => []),
+        dockerApi.volumes(serverId).catch(() => []),
+        dockerApi.networks(serverId).catch(() => []),
       ]);
-      setDockerInfo(infoRes.data);
-      setContainers(containersRes.data.containers || []);
-      setImages(imagesRes.data.images || []);
+      setDockerInfo(info);
+      setContainers(containerList);
+      setImages(imageList);
+      setProjects(projectList);
+      setVolumes(volumeList);
+      setNetworks(networkList);
 
       // Fetch stats for running containers
       try {
-        const statsRes = await api.get(`/docker/${serverId}/stats`);
-        setStats(statsRes.data.stats || []);
+        setStats(await dockerApi.stats(serverId));
       } catch {
         // silenly fail if no running containers or stats not available
       }
-    } catch (err: any) {
-      if (err.response?.status === 404) {
+    } catch (err) {
+      if (isApiError(err) && err.status === 404) {
         // Server not found
       } else {
         setDockerInfo({ installed: false });
@@ -195,16 +247,36 @@ export default function DockerManagerScreen() {
     return () => clearInterval(interval);
   }, [fetchData]);
 
+  const loadRegistrySecrets = useCallback(async () => {
+    try {
+      setRegistrySecrets(await secretsApi.list(REGISTRY_SECRET_TYPE));
+    } catch {
+      // Pulls still work anonymously
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRegistrySecrets();
+  }, [loadRegistrySecrets]);
+
   const onRefresh = () => {
     setRefreshing(true);
     fetchData();
   };
 
+  const pullCredential =
+    pullCredentialChoice === null
+      ? registryCredentialFor(registrySecrets, pullImage)
+      : registrySecrets.find((s) => s._id === pullCredentialChoice);
+
   const handlePullImage = async () => {
     if (!pullImage.trim() || !serverId) return;
     setPulling(true);
     try {
-      await api.post(`/docker/${serverId}/pull`, { image: pullImage });
+      await dockerApi.pull(serverId, {
+        image: pullImage,
+        credentialId: pullCredential?._id,
+      });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       dialogRef.current?.show(
         t("common.success", "Success"),
@@ -215,22 +287,100 @@ export default function DockerManagerScreen() {
       );
       setPullVisible(false);
       setPullImage("");
+      setPullCredentialChoice(null);
       fetchData();
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         t("common.error", "Error"),
-        err.response?.data?.message || "Failed to pull image",
+        getErrorMessage(err, "Failed to pull image"),
       );
     } finally {
       setPulling(false);
     }
   };
 
+  const handleSaveLogin = async () => {
+    const { registry, username, password } = loginConfig;
+    if (!registry.trim() || !username.trim() || !password) return;
+    setSavingLogin(true);
+    try {
+      const secret = await secretsApi.create({
+        name: registry.trim(),
+        value: encodeRegistryCredential({
+          username: username.trim(),
+          password,
+        }),
+        type: REGISTRY_SECRET_TYPE,
+        description: t("docker.registryLoginDescription", {
+          username: username.trim(),
+        }),
+        tags: ["docker"],
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadRegistrySecrets();
+      setPullCredentialChoice(secret._id);
+      setLoginVisible(false);
+    } catch (err) {
+      dialogRef.current?.show(
+        t("common.error", "Error"),
+        getErrorMessage(err, t("docker.registryLoginFailed")),
+      );
+    } finally {
+      setSavingLogin(false);
+    }
+  };
+
+  const updateRepository = updateTarget
+    ? containerRepository(updateTarget.image, images)
+    : null;
+
+  const handleUpdateContainer = (container: DockerContainer, tag: ImageTag) => {
+    const repository = containerRepository(container.image, images);
+    if (!serverId || !repository) return;
+    const image = withTag(repository, tag.name);
+    setUpdateTarget(null);
+    Alert.alert(
+      t("docker.updateTitle"),
+      t("docker.updateConfirm", { name: container.name, image }),
+      [
+        { text: t("common.cancel", "Cancel"), style: "cancel" },
+        {
+          text: t("docker.update"),
+          onPress: async () => {
+            setActionLoading(`${container.id}-update`);
+            try {
+              await dockerApi.updateContainer(serverId, container.id, {
+                image,
+                credentialId: registryCredentialFor(registrySecrets, image)
+                  ?._id,
+              });
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              dialogRef.current?.show(
+                t("common.success", "Success"),
+                t("docker.updateSuccess", { name: container.name, image }),
+              );
+              fetchData();
+            } catch (err) {
+              dialogRef.current?.show(
+                t("common.error", "Error"),
+                getErrorMessage(err, t("docker.updateFailed")),
+              );
+            } finally {
+              setActionLoading(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const handleRunContainer = async () => {
     if (!serverId) return;
     setActionLoading("running");
     try {
-      await api.post(`/docker/${serverId}/containers/run`, runConfig);
+      await dockerApi.run(serverId, runConfig);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       dialogRef.current?.show(
         t("common.success", "Success"),
@@ -239,32 +389,33 @@ export default function DockerManagerScreen() {
       setRunVisible(false);
       setTab("containers");
       fetchData();
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         t("common.error", "Error"),
-        err.response?.data?.message || "Failed to start container",
+        getErrorMessage(err, "Failed to start container"),
       );
     } finally {
       setActionLoading(null);
     }
   };
 
-  const handleContainerAction = async (containerId: string, action: string) => {
+  const handleContainerAction = async (
+    containerId: string,
+    action: ContainerAction,
+  ) => {
     if (!serverId) return;
 
     const performAction = async () => {
       setActionLoading(`${containerId}-${action}`);
       setMenuVisible(null);
       try {
-        await api.post(
-          `/docker/${serverId}/containers/${containerId}/${action}`,
-        );
+        await dockerApi.containerAction(serverId, containerId, action);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         fetchData();
-      } catch (err: any) {
+      } catch (err) {
         dialogRef.current?.show(
           t("common.error"),
-          err.response?.data?.message || `Failed to ${action}`,
+          getErrorMessage(err, `Failed to ${action}`),
         );
       } finally {
         setActionLoading(null);
@@ -308,15 +459,123 @@ export default function DockerManagerScreen() {
           onPress: async () => {
             setActionLoading(`${imageId}-remove`);
             try {
-              await api.delete(`/docker/${serverId}/images/${imageId}`);
+              await dockerApi.removeImage(serverId, imageId);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              fetchData();
+            } catch (err) {
+              dialogRef.current?.show(
+                t("common.error", "Error"),
+                getErrorMessage(err, "Failed to remove image"),
+              );
+            } finally {
+              setActionLoading(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!serverId || !createKind || !createConfig.name.trim()) return;
+    const { name, driver, subnet, gateway, internal } = createConfig;
+    setCreating(true);
+    try {
+      if (createKind === "volume") {
+        await dockerApi.createVolume(serverId, {
+          name: name.trim(),
+          driver: driver.trim() || undefined,
+        });
+      } else {
+        await dockerApi.createNetwork(serverId, {
+          name: name.trim(),
+          driver: driver.trim() || undefined,
+          subnet: subnet.trim() || undefined,
+          gateway: gateway.trim() || undefined,
+          internal,
+        });
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCreateKind(null);
+      fetchData();
+    } catch (err) {
+      dialogRef.current?.show(
+        t("common.error", "Error"),
+        getErrorMessage(
+          err,
+          createKind === "volume"
+            ? t("docker.createVolumeFailed")
+            : t("docker.createNetworkFailed"),
+        ),
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const openCreate = (kind: "volume" | "network") => {
+    setCreateConfig(emptyCreate);
+    setCreateKind(kind);
+  };
+
+  const handleRemoveVolume = (volume: DockerVolume) => {
+    if (!serverId) return;
+    setMenuVisible(null);
+    Alert.alert(
+      t("common.confirmDelete", "Confirm Delete"),
+      t("docker.confirmRemoveVolume", { name: volume.name }),
+      [
+        { text: t("common.cancel", "Cancel"), style: "cancel" },
+        {
+          text: t("common.delete", "Delete"),
+          style: "destructive",
+          onPress: async () => {
+            setActionLoading(`${volume.name}-remove`);
+            try {
+              await dockerApi.removeVolume(serverId, volume.name);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              fetchData();
+            } catch (err) {
+              dialogRef.current?.show(
+                t("common.error", "Error"),
+                getErrorMessage(err, t("docker.removeVolumeFailed")),
+              );
+            } finally {
+              setActionLoading(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleRemoveNetwork = (network: DockerNetwork) => {
+    if (!serverId) return;
+    setMenuVisible(null);
+    Alert.alert(
+      t("common.confirmDelete", "Confirm Delete"),
+      t("docker.confirmRemoveNetwork", { name: network.name }),
+      [
+        { text: t("common.cancel", "Cancel"), style: "cancel" },
+        {
+          text: t("common.delete", "Delete"),
+          style: "destructive",
+          onPress: async () => {
+            setActionLoading(`${network.id}-remove`);
+            try {
+              await dockerApi.removeNetwork(serverId, network.id);
               Haptics.notificationAsync(
                 Haptics.NotificationFeedbackType.Success,
               );
               fetchData();
-            } catch (err: any) {
+            } catch (err) {
               dialogRef.current?.show(
                 t("common.error", "Error"),
-                err.response?.data?.message || "Failed to remove image",
+                getErrorMessage(err, t("docker.removeNetworkFailed")),
               );
             } finally {
               setActionLoading(null);
@@ -328,16 +587,17 @@ export default function DockerManagerScreen() {
   };
 
   const openLogs = async (containerId: string, name: string) => {
+    if (!serverId) return;
     setMenuVisible(null);
     setCurrentContainerName(name);
     setLogContent("");
     setLogVisible(true);
     setLogLoading(true);
     try {
-      const { data } = await api.get(
-        `/docker/${serverId}/containers/${containerId}/logs?tail=300`,
-      );
-      setLogContent(data.logs || "No logs");
+      const logs = await dockerApi.containerLogs(serverId, containerId, {
+        tail: 300,
+      });
+      setLogContent(logs || "No logs");
     } catch {
       setLogContent("Failed to load logs");
     } finally {
@@ -346,16 +606,15 @@ export default function DockerManagerScreen() {
   };
 
   const openInspect = async (containerId: string, name: string) => {
+    if (!serverId) return;
     setMenuVisible(null);
     setCurrentContainerName(name);
     setInspectContent("");
     setInspectVisible(true);
     setInspectLoading(true);
     try {
-      const { data } = await api.get(
-        `/docker/${serverId}/containers/${containerId}/inspect`,
-      );
-      setInspectContent(JSON.stringify(data.data, null, 2));
+      const data = await dockerApi.inspectContainer(serverId, containerId);
+      setInspectContent(JSON.stringify(data, null, 2));
     } catch {
       setInspectContent("Failed to inspect");
     } finally {
@@ -364,16 +623,15 @@ export default function DockerManagerScreen() {
   };
 
   const openImageInspect = async (imageId: string, name: string) => {
+    if (!serverId) return;
     setMenuVisible(null);
     setCurrentContainerName(name);
     setInspectContent("");
     setInspectVisible(true);
     setInspectLoading(true);
     try {
-      const { data } = await api.get(
-        `/docker/${serverId}/images/${imageId}/inspect`,
-      );
-      setInspectContent(JSON.stringify(data.data, null, 2));
+      const data = await dockerApi.inspectImage(serverId, imageId);
+      setInspectContent(JSON.stringify(data, null, 2));
     } catch {
       setInspectContent("Failed to inspect image");
     } finally {
@@ -381,6 +639,40 @@ export default function DockerManagerScreen() {
     }
   };
 
+  const openVolumeInspect = async (name: string) => {
+    if (!serverId) return;
+    setMenuVisible(null);
+    setCurrentContainerName(name);
+    setInspectContent("");
+    setInspectVisible(true);
+    setInspectLoading(true);
+    try {
+      const data = await dockerApi.inspectVolume(serverId, name);
+      setInspectContent(JSON.stringify(data, null, 2));
+    } catch {
+      setInspectContent("Failed to inspect volume");
+    } finally {
+      setInspectLoading(false);
+    }
+  };
+
+  const openNetworkInspect = async (networkId: string, name: string) => {
+    if (!serverId) return;
+    setMenuVisible(null);
+    setCurrentContainerName(name);
+    setInspectContent("");
+    setInspectVisible(true);
+    setInspectLoading(true);
+    try {
+      const data = await dockerApi.inspectNetwork(serverId, networkId);
+      setInspectContent(JSON.stringify(data, null, 2));
+    } catch {
+      setInspectContent("Failed to inspect network");
+    } finally {
+      setInspectLoading(false);
+    }
+  };
+
   const getStats = (containerId: string) =>
     stats.find(
       (s) =>
@@ -440,7 +732,16 @@ export default function DockerManagerScreen() {
       const statusColor = stateColor[container.state] || stateColor.created;
 
       return (
-        <Card key={container.id} style={styles.card}>
+        <Card
+          key={container.id}
+          style={styles.card}
+          onPress={() =>
+            router.push({
+              pathname: "/docker/container",
+              params: { serverId, id: container.id, name: container.name },
+            })
+          }
+        >
           <Card.Content>
             <View style={styles.cardHeader}>
               <View
@@ -492,6 +793,16 @@ export default function DockerManagerScreen() {
                   title={t("common.details", "Inspect")}
                   leadingIcon="information-outline"
                 />
+                <Menu.Item
+                  onPress={() => {
+                    setMenuVisible(null);
+                    setUpdateTarget(container);
+                  }}
+                  title={t("docker.updateImage")}
+                  leadingIcon="update"
+                  // Nothing to pull a new tag of without a repository
+                  disabled={!containerRepository(container.image, images)}
+                />
                 <Divider />
                 {container.state === "running" ? (
                   <Menu.Item
@@ -580,6 +891,101 @@ export default function DockerManagerScreen() {
     });
   };
 
+  const stacks = groupStacks(projects, containers);
+
+  const renderStacks = () => {
+    if (stacks.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons
+            name="layers-outline"
+            size={64}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.emptyText}>{t("compose.noStacks")}</Text>
+        </View>
+      );
+    }
+
+    return stacks.map((stack) => {
+      const state = stackState(stack);
+      const services = new Set(
+        stack.containers.map((c) => c.composeService || c.name),
+      );
+      return (
+        <Card
+          key={stack.project.name}
+          style={styles.card}
+          onPress={() =>
+            router.push({
+              pathname: "/docker/stack",
+              params: { serverId, project: stack.project.name },
+            })
+          }
+        >
+          <Card.Content>
+            <View style={styles.cardHeader}>
+              <View
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  gap: 10,
+                  flex: 1,
+                }}
+              >
+                <View
+                  style={{
+                    width: 10,
+                    height: 10,
+                    borderRadius: 5,
+                    backgroundColor: stackColor[state],
+                  }}
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.procName}>{stack.project.name}</Text>
+                  <Text style={styles.procMeta} numberOfLines={1}>
+                    {stack.project.configFiles[0] || t("compose.filesMissing")}
+                  </Text>
+                </View>
+              </View>
+              <MaterialCommunityIcons
+                name="chevron-right"
+                size={20}
+                color={colors.textSecondary}
+              />
+            </View>
+            <Divider style={{ marginVertical: 10 }} />
+            <View style={styles.statsRow}>
+              <View style={styles.statItem}>
+                <MaterialCommunityIcons
+                  name="cube-outline"
+                  size={14}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.statValue}>
+                  {t("compose.serviceCount", { count: services.size })}
+                </Text>
+              </View>
+              <View style={styles.statItem}>
+                <MaterialCommunityIcons
+                  name="docker"
+                  size={14}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.statValue}>
+                  {t("compose.runningCount", {
+                    running: stack.running,
+                    total: stack.containers.length,
+                  })}
+                </Text>
+              </View>
+            </View>
+          </Card.Content>
+        </Card>
+      );
+    });
+  };
+
   const renderImages = () => {
     if (images.length === 0) {
       return (
@@ -677,6 +1083,217 @@ export default function DockerManagerScreen() {
     });
   };
 
+  const renderUsedBy = (names: string[]) => (
+    <View style={styles.statsRow}>
+      {names.length === 0 ? (
+        <Text style={[styles.procMeta, { fontStyle: "italic" }]}>
+          {t("docker.unused")}
+        </Text>
+      ) : (
+        names.map((name) => {
+          const container = containers.find((c) => c.name === name);
+          return (
+            <Chip
+              key={name}
+              compact
+              icon="docker"
+              disabled={!container}
+              onPress={() =>
+                container &&
+                router.push({
+                  pathname: "/docker/container",
+                  params: { serverId, id: container.id, name },
+                })
+              }
+            >
+              {name}
+            </Chip>
+          );
+        })
+      )}
+    </View>
+  );
+
+  const renderVolumes = () => (
+    <>
+      <Button
+        mode="outlined"
+        icon="plus"
+        onPress={() => openCreate("volume")}
+        style={{ marginBottom: 12 }}
+      >
+        {t("docker.createVolume")}
+      </Button>
+      {volumes.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons
+            name="database-outline"
+            size={64}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.emptyText}>{t("docker.noVolumes")}</Text>
+        </View>
+      ) : (
+        volumes.map((volume) => {
+          const isActionLoading = actionLoading === `${volume.name}-remove`;
+          const inUse = volume.containers.length > 0;
+          return (
+            <Card key={volume.name} style={styles.card}>
+              <Card.Content>
+                <View style={styles.cardHeader}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.procName} numberOfLines={1}>
+                      {volume.name}
+                    </Text>
+                    <Text style={styles.procMeta} numberOfLines={1}>
+                      {volume.driver} · {volume.mountpoint}
+                    </Text>
+                  </View>
+                  <Menu
+                    visible={menuVisible === `volume-${volume.name}`}
+                    onDismiss={() => setMenuVisible(null)}
+                    anchor={
+                      <IconButton
+                        icon="dots-horizontal"
+                        size={20}
+                        onPress={() => setMenuVisible(`volume-${volume.name}`)}
+                      />
+                    }
+                  >
+                    <Menu.Item
+                      onPress={() => openVolumeInspect(volume.name)}
+                      title={t("common.details", "Inspect")}
+                      leadingIcon="information-outline"
+                    />
+                    <Divider />
+                    <Menu.Item
+                      onPress={() => handleRemoveVolume(volume)}
+                      title={
+                        inUse ? t("docker.inUse") : t("common.delete", "Delete")
+                      }
+                      leadingIcon="delete"
+                      disabled={inUse}
+                    />
+                  </Menu>
+                </View>
+                <Divider style={{ marginVertical: 10 }} />
+                {volume.size !== undefined && (
+                  <View style={[styles.statItem, { marginBottom: 8 }]}>
+                    <MaterialCommunityIcons
+                      name="harddisk"
+                      size={14}
+                      color={colors.textSecondary}
+                    />
+                    <Text style={styles.statValue}>
+                      {formatBytes(volume.size)}
+                    </Text>
+                  </View>
+                )}
+                {renderUsedBy(volume.containers)}
+                {isActionLoading && (
+                  <View style={styles.overlayLoading}>
+                    <ActivityIndicator color={colors.primary} />
+                  </View>
+                )}
+              </Card.Content>
+            </Card>
+          );
+        })
+      )}
+    </>
+  );
+
+  const renderNetworks = () => (
+    <>
+      <Button
+        mode="outlined"
+        icon="plus"
+        onPress={() => openCreate("network")}
+        style={{ marginBottom: 12 }}
+      >
+        {t("docker.createNetwork")}
+      </Button>
+      {networks.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons
+            name="lan"
+            size={64}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.emptyText}>{t("docker.noNetworks")}</Text>
+        </View>
+      ) : (
+        networks.map((network) => {
+          const isActionLoading = actionLoading === `${network.id}-remove`;
+          const builtin = isBuiltinNetwork(network.name);
+          const inUse = network.containers.length > 0;
+          return (
+            <Card key={network.id} style={styles.card}>
+              <Card.Content>
+                <View style={styles.cardHeader}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.procName} numberOfLines={1}>
+                      {network.name}
+                    </Text>
+                    <Text style={styles.procMeta} numberOfLines={1}>
+                      {[
+                        network.driver,
+                        network.scope,
+                        network.internal && t("docker.internal"),
+                        network.subnet,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </Text>
+                  </View>
+                  <Menu
+                    visible={menuVisible === `network-${network.id}`}
+                    onDismiss={() => setMenuVisible(null)}
+                    anchor={
+                      <IconButton
+                        icon="dots-horizontal"
+                        size={20}
+                        onPress={() => setMenuVisible(`network-${network.id}`)}
+                      />
+                    }
+                  >
+                    <Menu.Item
+                      onPress={() =>
+                        openNetworkInspect(network.id, network.name)
+                      }
+                      title={t("common.details", "Inspect")}
+                      leadingIcon="information-outline"
+                    />
+                    <Divider />
+                    <Menu.Item
+                      onPress={() => handleRemoveNetwork(network)}
+                      title={
+                        builtin
+                          ? t("docker.builtinNetwork")
+                          : inUse
+                            ? t("docker.inUse")
+                            : t("common.delete", "Delete")
+                      }
+                      leadingIcon="delete"
+                      disabled={builtin || inUse}
+                    />
+                  </Menu>
+                </View>
+                <Divider style={{ marginVertical: 10 }} />
+                {renderUsedBy(network.containers)}
+                {isActionLoading && (
+                  <View style={styles.overlayLoading}>
+                    <ActivityIndicator color={colors.primary} />
+                  </View>
+                )}
+              </Card.Content>
+            </Card>
+          );
+        })
+      )}
+    </>
+  );
+
   return (
     <>
       <Stack.Screen
@@ -687,20 +1304,57 @@ export default function DockerManagerScreen() {
 
       <View style={styles.container}>
         <View style={styles.tabContainer}>
-          <Button
-            mode={tab === "containers" ? "contained" : "text"}
-            onPress={() => setTab("containers")}
-            style={styles.tabBtn}
-          >
-            {t("docker.containers", "Containers")} ({containers.length})
-          </Button>
-          <Button
-            mode={tab === "images" ? "contained" : "text"}
-            onPress={() => setTab("images")}
-            style={styles.tabBtn}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={{ flex: 1 }}
           >
-            {t("docker.images", "Images")} ({images.length})
-          </Button>
+            <Button
+              mode={tab === "containers" ? "contained" : "text"}
+              onPress={() => setTab("containers")}
+              style={styles.tabBtn}
+            >
+              {t("docker.containers", "Containers")} ({containers.length})
+            </Button>
+            <Button
+              mode={tab === "stacks" ? "contained" : "text"}
+              onPress={() => setTab("stacks")}
+              style={styles.tabBtn}
+            >
+              {t("compose.stacks")} ({stacks.length})
+            </Button>
+            <Button
+              mode={tab === "images" ? "contained" : "text"}
+              onPress={() => setTab("images")}
+              style={styles.tabBtn}
+            >
+              {t("docker.images", "Images")} ({images.length})
+            </Button>
+            <Button
+              mode={tab === "volumes" ? "contained" : "text"}
+              onPress={() => setTab("volumes")}
+              style={styles.tabBtn}
+            >
+              {t("docker.volumes")} ({volumes.length})
+            </Button>
+            <Button
+              mode={tab === "networks" ? "contained" : "text"}
+              onPress={() => setTab("networks")}
+              style={styles.tabBtn}
+            >
+              {t("docker.networks")} ({networks.length})
+            </Button>
+          </ScrollView>
+          <IconButton
+            icon="chart-donut"
+            size={20}
+            mode="contained-tonal"
+            iconColor={colors.primary}
+            onPress={() =>
+              router.push({ pathname: "/docker/disk", params: { serverId } })
+            }
+            style={{ margin: 0, marginLeft: 8 }}
+          />
           <IconButton
             icon="download"
             size={20}
@@ -721,7 +1375,15 @@ export default function DockerManagerScreen() {
           }
           contentContainerStyle={{ padding: 12, paddingBottom: 80 }}
         >
-          {tab === "containers" ? renderContainers() : renderImages()}
+          {tab === "containers"
+            ? renderContainers()
+            : tab === "stacks"
+              ? renderStacks()
+              : tab === "volumes"
+                ? renderVolumes()
+                : tab === "networks"
+                  ? renderNetworks()
+                  : renderImages()}
         </ScrollView>
       </View>
 
@@ -831,6 +1493,62 @@ export default function DockerManagerScreen() {
                 ) : null
               }
             />
+            <View style={styles.pullOptions}>
+              <Menu
+                visible={credentialMenuVisible}
+                onDismiss={() => setCredentialMenuVisible(false)}
+                anchor={
+                  <Button
+                    mode="outlined"
+                    icon="key-variant"
+                    compact
+                    onPress={() => setCredentialMenuVisible(true)}
+                    disabled={pulling}
+                  >
+                    {pullCredential?.name || t("docker.anonymous")}
+                  </Button>
+                }
+              >
+                <Menu.Item
+                  onPress={() => {
+                    setPullCredentialChoice("");
+                    setCredentialMenuVisible(false);
+                  }}
+                  title={t("docker.anonymous")}
+                  leadingIcon="incognito"
+                />
+                {registrySecrets.map((secret) => (
+                  <Menu.Item
+                    key={secret._id}
+                    onPress={() => {
+                      setPullCredentialChoice(secret._id);
+                      setCredentialMenuVisible(false);
+                    }}
+                    title={secret.name}
+                    leadingIcon="key-variant"
+                  />
+                ))}
+                <Divider />
+                <Menu.Item
+                  onPress={() => {
+                    setCredentialMenuVisible(false);
+                    setLoginConfig(emptyLogin);
+                    setLoginVisible(true);
+                  }}
+                  title={t("docker.addRegistryLogin")}
+                  leadingIcon="plus"
+                />
+              </Menu>
+              <Button
+                mode="outlined"
+                icon="tag-outline"
+                compact
+                onPress={() => setTagBrowserVisible(true)}
+                disabled={pulling || !pullImage.trim()}
+              >
+                {t("docker.browseTags")}
+              </Button>
+            </View>
             {pullSuggestions.length > 0 && (
               <ScrollView
                 style={{
@@ -874,6 +1592,206 @@ export default function DockerManagerScreen() {
         </Dialog>
       </Portal>
 
+      {/* Registry Login Dialog */}
+      <Portal>
+        <Dialog
+          visible={loginVisible}
+          onDismiss={() => setLoginVisible(false)}
+        >
+          <Dialog.Title>{t("docker.addRegistryLogin")}</Dialog.Title>
+          <Dialog.Content>
+            <Text style={{ marginBottom: 12 }}>
+              {t("docker.registryLoginHint")}
+            </Text>
+            <TextInput
+              label={t("docker.registry")}
+              value={loginConfig.registry}
+              onChangeText={(text) =>
+                setLoginConfig({ ...loginConfig, registry: text })
+              }
+              mode="outlined"
+              placeholder="ghcr.io"
+              autoCapitalize="none"
+              autoCorrect={false}
+              disabled={savingLogin}
+              style={{ marginBottom: 12 }}
+            />
+            <TextInput
+              label={t("docker.username")}
+              value={loginConfig.username}
+              onChangeText={(text) =>
+                setLoginConfig({ ...loginConfig, username: text })
+              }
+              mode="outlined"
+              autoCapitalize="none"
+              autoCorrect={false}
+              disabled={savingLogin}
+              style={{ marginBottom: 12 }}
+            />
+            <TextInput
+              label={t("docker.passwordOrToken")}
+              value={loginConfig.password}
+              onChangeText={(text) =>
+                setLoginConfig({ ...loginConfig, password: text })
+              }
+              mode="outlined"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              disabled={savingLogin}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button
+              onPress={() => setLoginVisible(false)}
+              disabled={savingLogin}
+            >
+              {t("common.cancel", "Cancel")}
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSaveLogin}
+              loading={savingLogin}
+              disabled={
+                savingLogin ||
+                !loginConfig.registry.trim() ||
+                !loginConfig.username.trim() ||
+                !loginConfig.password
+              }
+            >
+              {t("common.save")}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <ImageTagSheet
+        visible={tagBrowserVisible}
+        onDismiss={() => setTagBrowserVisible(false)}
+        image={pullImage}
+        credentialId={pullCredential?._id}
+        onSelect={(tag) => {
+          setPullImage(withTag(pullImage, tag.name));
+          setPullSuggestions([]);
+          setTagBrowserVisible(false);
+        }}
+      />
+
+      <ImageTagSheet
+        visible={updateRepository !== null}
+        onDismiss={() => setUpdateTarget(null)}
+        image={updateRepository || ""}
+        credentialId={
+          updateRepository
+            ? registryCredentialFor(registrySecrets, updateRepository)?._id
+            : undefined
+        }
+        onSelect={(tag) =>
+          updateTarget && handleUpdateContainer(updateTarget, tag)
+        }
+      />
+
+      {/* Create Volume / Network Dialog */}
+      <Portal>
+        <Dialog
+          visible={createKind !== null}
+          onDismiss={() => setCreateKind(null)}
+        >
+          <Dialog.Title>
+            {createKind === "network"
+              ? t("docker.createNetwork")
+              : t("docker.createVolume")}
+          </Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label={t("docker.name")}
+              value={createConfig.name}
+              onChangeText={(text) =>
+                setCreateConfig({ ...createConfig, name: text })
+              }
+              mode="outlined"
+              autoCapitalize="none"
+              autoCorrect={false}
+              disabled={creating}
+              style={{ marginBottom: 12 }}
+            />
+            <TextInput
+              label={t("docker.driver")}
+              value={createConfig.driver}
+              onChangeText={(text) =>
+                setCreateConfig({ ...createConfig, driver: text })
+              }
+              mode="outlined"
+              placeholder={createKind === "network" ? "bridge" : "local"}
+              autoCapitalize="none"
+              autoCorrect={false}
+              disabled={creating}
+              style={{ marginBottom: 12 }}
+            />
+            {createKind === "network" && (
+              <>
+                <TextInput
+                  label={t("docker.subnet")}
+                  value={createConfig.subnet}
+                  onChangeText={(text) =>
+                    setCreateConfig({ ...createConfig, subnet: text })
+                  }
+                  mode="outlined"
+                  placeholder="172.30.0.0/16"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  disabled={creating}
+                  style={{ marginBottom: 12 }}
+                />
+                <TextInput
+                  label={t("docker.gateway")}
+                  value={createConfig.gateway}
+                  onChangeText={(text) =>
+                    setCreateConfig({ ...createConfig, gateway: text })
+                  }
+                  mode="outlined"
+                  placeholder="172.30.0.1"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  disabled={creating || !createConfig.subnet.trim()}
+                  style={{ marginBottom: 12 }}
+                />
+                <View style={styles.switchRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.statValue}>
+                      {t("docker.internal")}
+                    </Text>
+                    <Text style={styles.procMeta}>
+                      {t("docker.internalHint")}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={createConfig.internal}
+                    onValueChange={(internal) =>
+                      setCreateConfig({ ...createConfig, internal })
+                    }
+                    disabled={creating}
+                  />
+                </View>
+              </>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setCreateKind(null)} disabled={creating}>
+              {t("common.cancel", "Cancel")}
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleCreate}
+              loading={creating}
+              disabled={creating || !createConfig.name.trim()}
+            >
+              {t("common.create")}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {/* Run Container Dialog */}
       <Portal>
         <Dialog visible={runVisible} onDismiss={() => setRunVisible(false)}>
@@ -1103,6 +2021,7 @@ const createStyles = (colors: any) =>
     },
     tabContainer: {
       flexDirection: "row",
+      alignItems: "center",
       paddingHorizontal: 16,
       paddingVertical: 12,
       backgroundColor: colors.surface,
@@ -1110,9 +2029,19 @@ const createStyles = (colors: any) =>
       borderBottomColor: colors.border,
     },
     tabBtn: {
-      flex: 1,
       marginHorizontal: 4,
     },
+    pullOptions: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+      marginTop: 12,
+    },
+    switchRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+    },
     card: {
       marginBottom: 12,
       backgroundColor: colors.surface,
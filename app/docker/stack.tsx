@@ -0,0 +1,624 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Platform,
+  Alert,
+} from "react-native";
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  IconButton,
+  SegmentedButtons,
+  TextInput,
+  HelperText,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import {
+  ComposeAction,
+  ComposeProject,
+  dockerApi,
+  DockerContainer,
+  getErrorMessage,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import { useRoom, useSocketEvent } from "../../hooks/useRealtime";
+import DeployLogViewer from "../../components/DeployLogViewer";
+import type { DeployLogEntry } from "../../utils/deployLogs";
+import { serviceContainers, validateCompose } from "../../utils/compose";
+
+type Tab = "services" | "file" | "output";
+
+interface Operation {
+  opId: string;
+  action: ComposeAction;
+  service?: string;
+  entries: DeployLogEntry[];
+  exitCode: number | null;
+}
+
+const ACTIONS: { action: ComposeAction; icon: string }[] = [
+  { action: "up", icon: "play" },
+  { action: "pull", icon: "download" },
+  { action: "restart", icon: "restart" },
+  { action: "down", icon: "stop" },
+];
+
+const stateColor = (state: string, colors: any) =>
+  state === "running"
+    ? colors.success
+    : state === "restarting" || state === "paused"
+      ? colors.warning
+      : colors.error;
+
+const logEntry = (log: string, type: DeployLogEntry["type"] = "info") => ({
+  log,
+  type,
+  timestamp: new Date().toISOString(),
+});
+
+export default function ComposeStackScreen() {
+  const { serverId, project } = useLocalSearchParams<{
+    serverId: string;
+    project: string;
+  }>();
+  const { t } = useTranslation();
+  const { colors, isDark } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors, isDark), [colors, isDark]);
+
+  const [tab, setTab] = useState<Tab>("services");
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [info, setInfo] = useState<ComposeProject | null>(null);
+  const [containers, setContainers] = useState<DockerContainer[]>([]);
+
+  // Compose file
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [saved, setSaved] = useState("");
+  const [draft, setDraft] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [serverCheck, setServerCheck] = useState<{
+    ok: boolean;
+    output: string;
+  } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const running = !!operation && operation.exitCode === null;
+
+  const load = useCallback(async () => {
+    if (!serverId || !project) return;
+    try {
+      const [projects, all] = await Promise.all([
+        dockerApi.composeProjects(serverId),
+        dockerApi.containers(serverId),
+      ]);
+      setInfo(projects.find((p) => p.name === project) || null);
+      setContainers(all.filter((c) => c.composeProject === project));
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("common.failedLoad")),
+      );
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, project, t]);
+
+  const loadFile = useCallback(async () => {
+    if (!serverId || !project) return;
+    try {
+      const file = await dockerApi.composeFile(serverId, project);
+      setFilePath(file.path);
+      setSaved(file.content);
+      setDraft(file.content);
+      setFileError(null);
+    } catch (err) {
+      setFileError(getErrorMessage(err, t("compose.fileLoadFailed")));
+    }
+  }, [serverId, project, t]);
+
+  useEffect(() => {
+    load();
+    loadFile();
+  }, [load, loadFile]);
+
+  useRoom("server", serverId);
+
+  // Other sessions' commands on this server are ignored
+  useSocketEvent("compose:output", (data) => {
+    if (data.serverId !== serverId || data.opId !== operation?.opId) return;
+    setOperation((prev) =>
+      prev && prev.opId === data.opId
+        ? { ...prev, entries: [...prev.entries, logEntry(data.data)] }
+        : prev,
+    );
+  });
+
+  useSocketEvent("compose:done", (data) => {
+    if (data.serverId !== serverId || data.opId !== operation?.opId) return;
+    setOperation((prev) =>
+      prev && prev.opId === data.opId
+        ? {
+            ...prev,
+            exitCode: data.exitCode,
+            entries: [
+              ...prev.entries,
+              data.exitCode === 0
+                ? logEntry(t("compose.finished"), "success")
+                : logEntry(
+                    t("compose.exitedWith", { code: data.exitCode }),
+                    "error",
+                  ),
+            ],
+          }
+        : prev,
+    );
+    Haptics.notificationAsync(
+      data.exitCode === 0
+        ? Haptics.NotificationFeedbackType.Success
+        : Haptics.NotificationFeedbackType.Error,
+    );
+    load();
+  });
+
+  // Services declared in the file, plus any whose containers outlived it
+  const validation = useMemo(() => validateCompose(draft), [draft]);
+  const byService = useMemo(() => serviceContainers(containers), [containers]);
+  const services = useMemo(() => {
+    const declared = validateCompose(saved).services;
+    return [
+      ...declared,
+      ...[...byService.keys()].filter((s) => !declared.includes(s)),
+    ];
+  }, [saved, byService]);
+
+  const startAction = async (action: ComposeAction, service?: string) => {
+    if (!serverId || !project || running) return;
+    const opId = `${Date.now().toString(36)}${Math.random()
+      .toString(36)
+      .slice(2, 8)}`;
+    const command = ["docker compose", action, service]
+      .filter(Boolean)
+      .join(" ");
+    setOperation({
+      opId,
+      action,
+      service,
+      entries: [logEntry(`$ ${command}`)],
+      exitCode: null,
+    });
+    setTab("output");
+    try {
+      await dockerApi.composeAction(serverId, project, action, {
+        opId,
+        service,
+      });
+    } catch (err) {
+      setOperation((prev) =>
+        prev && prev.opId === opId
+          ? {
+              ...prev,
+              exitCode: -1,
+              entries: [
+                ...prev.entries,
+                logEntry(
+                  getErrorMessage(err, t("compose.actionFailed")),
+                  "error",
+                ),
+              ],
+            }
+          : prev,
+      );
+    }
+  };
+
+  const confirmAction = (action: ComposeAction, service?: string) => {
+    if (action !== "down") {
+      startAction(action, service);
+      return;
+    }
+    Alert.alert(
+      t("compose.action_down"),
+      service
+        ? t("compose.confirmDownService", { service })
+        : t("compose.confirmDown", { project }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("compose.action_down"),
+          style: "destructive",
+          onPress: () => startAction(action, service),
+        },
+      ],
+    );
+  };
+
+  const checkOnServer = async () => {
+    if (!serverId || !project) return;
+    setChecking(true);
+    try {
+      const result = await dockerApi.validateCompose(serverId, project, draft);
+      setServerCheck({
+        ok: result.success,
+        output: result.output || result.message || "",
+      });
+    } catch (err) {
+      setServerCheck({
+        ok: false,
+        output: getErrorMessage(err, t("compose.checkFailed")),
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const saveFile = async () => {
+    if (!serverId || !project || validation.errors.length) return;
+    setSaving(true);
+    try {
+      await dockerApi.saveComposeFile(serverId, project, draft);
+      setSaved(draft);
+      setServerCheck(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // Saving alone doesn't touch running containers
+      Alert.alert(t("compose.savedTitle"), t("compose.savedMessage"), [
+        { text: t("compose.later"), style: "cancel" },
+        { text: t("compose.applyNow"), onPress: () => startAction("up") },
+      ]);
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("compose.saveFailed")),
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderActions = (service?: string) => (
+    <View style={styles.actions}>
+      {ACTIONS.map(({ action, icon }) => (
+        <IconButton
+          key={action}
+          icon={icon}
+          size={service ? 18 : 22}
+          mode={service ? undefined : "contained-tonal"}
+          iconColor={action === "down" ? colors.error : colors.primary}
+          disabled={running}
+          accessibilityLabel={t(`compose.action_${action}`)}
+          onPress={() => confirmAction(action, service)}
+        />
+      ))}
+    </View>
+  );
+
+  const renderServices = () => (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            load();
+          }}
+          tintColor={colors.primary}
+        />
+      }
+    >
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.sectionTitle}>{t("compose.wholeStack")}</Text>
+          {info?.status ? <Text style={styles.meta}>{info.status}</Text> : null}
+          {(info?.configFiles.length ? info.configFiles : [filePath])
+            .filter(Boolean)
+            .map((file) => (
+              <Text key={file} style={styles.path} numberOfLines={1}>
+                {file}
+              </Text>
+            ))}
+          {renderActions()}
+        </Card.Content>
+      </Card>
+
+      {services.length === 0 && (
+        <Text style={styles.empty}>{t("compose.noServices")}</Text>
+      )}
+      {services.map((service) => {
+        const list = byService.get(service) || [];
+        return (
+          <Card key={service} style={styles.card}>
+            <Card.Content>
+              <View style={styles.serviceHeader}>
+                <MaterialCommunityIcons
+                  name="cube-outline"
+                  size={18}
+                  color={colors.primary}
+                />
+                <Text style={styles.serviceName}>{service}</Text>
+              </View>
+              {list.length === 0 ? (
+                <Text style={styles.meta}>{t("compose.notCreated")}</Text>
+              ) : (
+                list.map((container) => (
+                  <View key={container.id} style={styles.containerRow}>
+                    <View
+                      style={[
+                        styles.dot,
+                        {
+                          backgroundColor: stateColor(container.state, colors),
+                        },
+                      ]}
+                    />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.containerName} numberOfLines={1}>
+                        {container.name}
+                      </Text>
+                      <Text style={styles.meta} numberOfLines={1}>
+                        {[container.image, container.status]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </Text>
+                    </View>
+                  </View>
+                ))
+              )}
+              {renderActions(service)}
+            </Card.Content>
+          </Card>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderFile = () => {
+    if (fileError) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.empty}>{fileError}</Text>
+          <Button onPress={loadFile}>{t("common.retry")}</Button>
+        </View>
+      );
+    }
+    const dirty = draft !== saved;
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {filePath && <Text style={styles.path}>{filePath}</Text>}
+        <TextInput
+          mode="outlined"
+          multiline
+          value={draft}
+          onChangeText={(text) => {
+            setDraft(text);
+            setServerCheck(null);
+          }}
+          autoCapitalize="none"
+          autoCorrect={false}
+          spellCheck={false}
+          error={validation.errors.length > 0}
+          style={styles.editor}
+          contentStyle={styles.editorText}
+          textColor={colors.text}
+        />
+        {validation.errors.length > 0 ? (
+          validation.errors.map((error, i) => (
+            <HelperText key={i} type="error" visible>
+              {error}
+            </HelperText>
+          ))
+        ) : (
+          <HelperText type="info" visible>
+            {t("compose.looksValid", { count: validation.services.length })}
+          </HelperText>
+        )}
+        {serverCheck && (
+          <View
+            style={[
+              styles.serverCheck,
+              {
+                borderColor: serverCheck.ok ? colors.success : colors.error,
+              },
+            ]}
+          >
+            <Text
+              style={{
+                fontWeight: "bold",
+                color: serverCheck.ok ? colors.success : colors.error,
+              }}
+            >
+              {serverCheck.ok
+                ? t("compose.serverCheckPassed")
+                : t("compose.serverCheckFailed")}
+            </Text>
+            {serverCheck.output ? (
+              <Text style={styles.editorText}>{serverCheck.output}</Text>
+            ) : null}
+          </View>
+        )}
+        <View style={styles.fileActions}>
+          <Button
+            mode="text"
+            disabled={!dirty || saving}
+            onPress={() => {
+              setDraft(saved);
+              setServerCheck(null);
+            }}
+          >
+            {t("compose.revert")}
+          </Button>
+          <Button
+            mode="outlined"
+            loading={checking}
+            disabled={checking || validation.errors.length > 0}
+            onPress={checkOnServer}
+          >
+            {t("compose.checkOnServer")}
+          </Button>
+          <Button
+            mode="contained"
+            loading={saving}
+            disabled={!dirty || saving || validation.errors.length > 0}
+            onPress={saveFile}
+          >
+            {t("common.save")}
+          </Button>
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderOutput = () =>
+    operation ? (
+      <View style={styles.output}>
+        <DeployLogViewer
+          entries={operation.entries}
+          streaming={running}
+          style={{ flex: 1 }}
+        />
+      </View>
+    ) : (
+      <View style={styles.centered}>
+        <Text style={styles.empty}>{t("compose.noOutput")}</Text>
+      </View>
+    );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: project || t("compose.stack") }} />
+      <View style={styles.tabs}>
+        <SegmentedButtons
+          value={tab}
+          onValueChange={(value) => setTab(value as Tab)}
+          buttons={[
+            { value: "services", label: t("compose.services") },
+            { value: "file", label: t("compose.file") },
+            {
+              value: "output",
+              label: t("compose.output"),
+              icon: running ? "progress-clock" : undefined,
+            },
+          ]}
+        />
+      </View>
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : tab === "services" ? (
+        renderServices()
+      ) : tab === "file" ? (
+        renderFile()
+      ) : (
+        renderOutput()
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any, isDark: boolean) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      padding: 20,
+    },
+    tabs: {
+      padding: 12,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    content: { padding: 12, paddingBottom: 40 },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    sectionTitle: {
+      fontSize: 15,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 4,
+    },
+    serviceHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      marginBottom: 8,
+    },
+    serviceName: { fontSize: 15, fontWeight: "700", color: colors.text },
+    containerRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 4,
+    },
+    dot: { width: 8, height: 8, borderRadius: 4 },
+    containerName: { fontSize: 13, fontWeight: "500", color: colors.text },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    path: {
+      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+      fontSize: 11,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    actions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      marginTop: 6,
+      marginRight: -8,
+    },
+    empty: {
+      textAlign: "center",
+      color: colors.textSecondary,
+      marginVertical: 20,
+    },
+    editor: {
+      minHeight: 360,
+      marginTop: 8,
+      backgroundColor: colors.surface,
+    },
+    editorText: {
+      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+      fontSize: 12,
+      color: colors.text,
+    },
+    serverCheck: {
+      gap: 6,
+      padding: 10,
+      marginTop: 4,
+      borderWidth: 1,
+      borderRadius: 8,
+    },
+    fileActions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      flexWrap: "wrap",
+      gap: 8,
+      marginTop: 12,
+    },
+    output: {
+      flex: 1,
+      margin: 12,
+      borderRadius: 12,
+      overflow: "hidden",
+      backgroundColor: isDark ? "#0d1117" : "#161b22",
+    },
+  });
@@ -15,21 +15,11 @@ import {
 } from "react-native-paper";
 import { useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../services/api";
+import { Server, serversApi } from "../services/client";
 import { Colors, statusColor } from "../constants/theme";
 import { useAppTheme } from "../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 
-interface Server {
-  _id: string;
-  name: string;
-  host: string;
-  port: number;
-  username: string;
-  authType: "password" | "key";
-  status: "online" | "offline" | "unknown";
-}
-
 export default function FTPSelectionScreen() {
   const { t } = useTranslation();
   const router = useRouter();
@@ -43,8 +33,7 @@ export default function FTPSelectionScreen() {
 
   const fetchServers = async () => {
     try {
-      const res = await api.get("/servers");
-      setServers(res.data);
+      setServers(await serversApi.list());
     } catch (err) {
       console.error("Failed to fetch servers", err);
     } finally {
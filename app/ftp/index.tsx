@@ -1,6 +1,7 @@
 import { useEffect, useState, useCallback, useRef, useMemo } from "react";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getAccessToken } from "../../services/authTokens";
 import {
   View,
   StyleSheet,
@@ -28,7 +29,7 @@ import {
   Modal,
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
-import api from "../../services/api";
+import { FileEntry, ftpApi, getErrorMessage } from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { useServer } from "../../contexts/ServerContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
@@ -47,16 +48,6 @@ import CustomAlertDialog, {
   CustomAlertDialogRef,
 } from "../../components/CustomAlertDialog";
 
-interface FileEntry {
-  name: string;
-  type: "directory" | "file" | "symlink" | "d" | "-" | "l"; // Support both just in case, though backend sends "directory"
-  size: number; // in bytes
-  permissions: string;
-  owner: string;
-  group: string;
-  modified: string;
-}
-
 export default function FTPScreen() {
   const router = useRouter();
   const { colors } = useAppTheme();
@@ -130,17 +121,12 @@ export default function FTPScreen() {
     if (!selectedServer) return;
     setLoading(true);
     try {
-      const res = await api.get(`/ftp/${selectedServer._id}/list`, {
-        params: { path },
-      });
+      const listing = await ftpApi.list(selectedServer._id, path);
       // Just set raw data, processing happens in useMemo
-      setRawFiles(res.data.entries || (res.data as FileEntry[]));
-      setCurrentPath(res.data.path || path);
-    } catch (err: any) {
-      Alert.alert(
-        "Error",
-        err.response?.data?.message || "Failed to load files",
-      );
+      setRawFiles(listing.entries);
+      setCurrentPath(listing.path);
+    } catch (err) {
+      Alert.alert("Error", getErrorMessage(err, "Failed to load files"));
       // If path invalid, fallback logic
       if (history.length > 0) {
         const prev = history[history.length - 1];
@@ -316,14 +302,11 @@ export default function FTPScreen() {
       const oldPath =
         (currentPath === "/" ? "" : currentPath) + "/" + selectedFile.name;
       const newPath = (currentPath === "/" ? "" : currentPath) + "/" + newName;
-      await api.post(`/ftp/${selectedServer._id}/rename`, { oldPath, newPath });
+      await ftpApi.rename(selectedServer._id, oldPath, newPath);
       setRenameVisible(false);
       fetchFiles(currentPath);
-    } catch (err: any) {
-      dialogRef.current?.show(
-        "Error",
-        err.response?.data?.message || "Rename failed",
-      );
+    } catch (err) {
+      dialogRef.current?.show("Error", getErrorMessage(err, "Rename failed"));
     }
   };
 
@@ -336,17 +319,16 @@ export default function FTPScreen() {
         try {
           const path =
             (currentPath === "/" ? "" : currentPath) + "/" + item.name;
-          await api.delete(`/ftp/${selectedServer._id}/file`, {
-            data: {
-              path,
-              type: isDirectory(item) ? "directory" : "file",
-            },
-          });
+          await ftpApi.remove(
+            selectedServer._id,
+            path,
+            isDirectory(item) ? "directory" : "file",
+          );
           fetchFiles(currentPath);
-        } catch (err: any) {
+        } catch (err) {
           dialogRef.current?.show(
             "Error",
-            err.response?.data?.message || "Delete failed",
+            getErrorMessage(err, "Delete failed"),
           );
         }
       },
@@ -359,13 +341,13 @@ export default function FTPScreen() {
     if (!selectedServer) return;
     try {
       const path = (currentPath === "/" ? "" : currentPath) + "/" + name;
-      await api.post(`/ftp/${selectedServer._id}/mkdir`, { path });
+      await ftpApi.mkdir(selectedServer._id, path);
       setMkdirVisible(false);
       fetchFiles(currentPath);
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         "Error",
-        err.response?.data?.message || "Create folder failed",
+        getErrorMessage(err, "Create folder failed"),
       );
     }
   };
@@ -375,14 +357,11 @@ export default function FTPScreen() {
     try {
       const path =
         (currentPath === "/" ? "" : currentPath) + "/" + selectedFile.name;
-      await api.post(`/ftp/${selectedServer._id}/chmod`, { path, mode });
+      await ftpApi.chmod(selectedServer._id, path, mode);
       setChmodVisible(false);
       fetchFiles(currentPath);
-    } catch (err: any) {
-      dialogRef.current?.show(
-        "Error",
-        err.response?.data?.message || "Chmod failed",
-      );
+    } catch (err) {
+      dialogRef.current?.show("Error", getErrorMessage(err, "Chmod failed"));
     }
   };
 
@@ -409,18 +388,13 @@ export default function FTPScreen() {
         } as any);
         formData.append("path", currentPath);
 
-        await api.post(`/ftp/${selectedServer._id}/upload`, formData, {
-          headers: { "Content-Type": "multipart/form-data" },
-        });
+        await ftpApi.upload(selectedServer._id, formData);
       }
 
       fetchFiles(currentPath);
       dialogRef.current?.show("Success", `Uploaded ${res.assets.length} items`);
-    } catch (err: any) {
-      dialogRef.current?.show(
-        "Error",
-        err.response?.data?.message || "Upload failed",
-      );
+    } catch (err) {
+      dialogRef.current?.show("Error", getErrorMessage(err, "Upload failed"));
     } finally {
       setLoading(false);
     }
@@ -444,23 +418,17 @@ export default function FTPScreen() {
 
     try {
       if (pickerMode === "move") {
-        await api.post(`/ftp/${selectedServer._id}/rename`, {
-          oldPath: sourcePath,
-          newPath: destinationPath,
-        });
+        await ftpApi.rename(selectedServer._id, sourcePath, destinationPath);
         dialogRef.current?.show("Success", `Moved to ${destPath}`);
       } else {
-        await api.post(`/ftp/${selectedServer._id}/copy`, {
-          sourcePath,
-          destPath: destinationPath,
-        });
+        await ftpApi.copy(selectedServer._id, sourcePath, destinationPath);
         dialogRef.current?.show("Success", `Copied to ${destPath}`);
       }
       fetchFiles(currentPath);
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         "Error",
-        err.response?.data?.message || "Operation failed",
+        getErrorMessage(err, "Operation failed"),
       );
     } finally {
       setLoading(false);
@@ -481,18 +449,17 @@ export default function FTPScreen() {
     setZipVisible(false);
     setLoading(true);
     try {
-      await api.post(`/ftp/${selectedServer._id}/zip`, {
+      // Currently only supporting single item zip from menu
+      await ftpApi.zip(
+        selectedServer._id,
         basePath,
-        items: [selectedFile.name], // Currently only supporting single item zip from menu
+        [selectedFile.name],
         archiveName,
-      });
+      );
       dialogRef.current?.show("Success", "Archive created");
       fetchFiles(currentPath);
-    } catch (err: any) {
-      dialogRef.current?.show(
-        "Error",
-        err.response?.data?.message || "Zip failed",
-      );
+    } catch (err) {
+      dialogRef.current?.show("Error", getErrorMessage(err, "Zip failed"));
     } finally {
       setLoading(false);
     }
@@ -508,16 +475,13 @@ export default function FTPScreen() {
         try {
           const archivePath =
             (currentPath === "/" ? "" : currentPath) + "/" + item.name;
-          await api.post(`/ftp/${selectedServer._id}/unzip`, {
-            archivePath,
-            destPath: currentPath,
-          });
+          await ftpApi.unzip(selectedServer._id, archivePath, currentPath);
           dialogRef.current?.show("Success", "Extracted successfully");
           fetchFiles(currentPath);
-        } catch (err: any) {
+        } catch (err) {
           dialogRef.current?.show(
             "Error",
-            err.response?.data?.message || "Unzip failed",
+            getErrorMessage(err, "Unzip failed"),
           );
         } finally {
           setLoading(false);
@@ -541,32 +505,11 @@ export default function FTPScreen() {
     try {
       const filePath =
         (currentPath === "/" ? "" : currentPath) + "/" + item.name;
-      const downloadRes = await api.get(`/ftp/${selectedServer._id}/download`, {
-        params: { path: filePath },
-        responseType: "arraybuffer", // Important for binary
-      });
-
-      // Expo FileSystem logic
       const fileUri =
         (FileSystem.documentDirectory || FileSystem.cacheDirectory) + item.name;
-      // Write base64 or similar. Axios arraybuffer in RN needs handling
-      // Actually, simplest way with Auth is just passing token in URL, but we have Bearer auth.
-      // Better: Use FileSystem.downloadAsync with headers.
-
-      const token = await AsyncStorage.getItem("accessToken"); // Need to get token.
-      // AsyncStorage import is already there.
-
-      // Construct API URL
-      // We need generic API URL. api.defaults.baseURL might be set.
-      // Assuming api.getUri() or we know the base.
-      // Let's rely on api instance base URL if possible or hardcode/env.
-      // For now, let's try writing the data we got from axios if small enough, but binary handling in JS bridge is slow.
-      // Correct approach: FileSystem.downloadAsync
-
-      // HACK: Reconstruct URL.
-      // api.defaults.baseURL is usually set.
-      const baseUrl = api.defaults.baseURL || "http://localhost:5000/api";
-      const downloadUrl = `${baseUrl}/ftp/${selectedServer._id}/download?path=${encodeURIComponent(filePath)}`;
+      // Stream straight to disk; axios would pull the whole file over the bridge
+      const token = await getAccessToken();
+      const downloadUrl = ftpApi.downloadUrl(selectedServer._id, filePath);
 
       const result = await FileSystem.downloadAsync(downloadUrl, fileUri, {
         headers: {
@@ -581,7 +524,7 @@ export default function FTPScreen() {
       } else {
         throw new Error("Download status " + result.status);
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error(err);
       dialogRef.current?.show("Error", "Download failed");
     } finally {
@@ -637,19 +580,17 @@ export default function FTPScreen() {
             if (!item) continue;
 
             const path = (currentPath === "/" ? "" : currentPath) + "/" + name;
-            // Send as query params for better compatibility with some backends/proxies for DELETE
-            await api.delete(`/ftp/${selectedServer._id}/file`, {
-              params: {
-                path,
-                type: isDirectory(item) ? "directory" : "file",
-              },
-            });
+            await ftpApi.remove(
+              selectedServer._id,
+              path,
+              isDirectory(item) ? "directory" : "file",
+            );
           }
 
           setSelectionMode(false);
           setSelectedItems(new Set());
           fetchFiles(currentPath);
-        } catch (err: any) {
+        } catch (err) {
           dialogRef.current?.show("Error", "Failed to delete some items");
           fetchFiles(currentPath);
         } finally {
@@ -22,9 +22,9 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { useAppTheme } from "../contexts/ThemeContext";
 import { useServer } from "../contexts/ServerContext";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getApiUrl } from "../services/backends";
 import EventSource from "react-native-sse";
-import api from "../services/api";
+import { authApi, dockerApi, getErrorMessage, pm2Api } from "../services/client";
 
 type LogType = "docker" | "pm2" | "nginx" | "syslog" | "auth";
 
@@ -79,25 +79,17 @@ export default function LogStudioScreen() {
       setLoadingTargets(true);
       try {
         if (selectedType === "docker") {
-          const res = await api.get(`/docker/${selectedServer._id}/containers`);
-          const data = Array.isArray(res.data)
-            ? res.data
-            : res.data?.containers || [];
+          const containers = await dockerApi.containers(selectedServer._id);
           setTargets(
-            data.map((c: any) => ({
-              id: c.Names ? c.Names[0].replace("/", "") : c.Id.substring(0, 12),
-              name: c.Names
-                ? c.Names[0].replace("/", "")
-                : c.Id.substring(0, 12),
+            containers.map((c) => ({
+              id: c.name || c.id.substring(0, 12),
+              name: c.name || c.id.substring(0, 12),
             })),
           );
         } else if (selectedType === "pm2") {
-          const res = await api.get(`/pm2/${selectedServer._id}/processes`);
-          const data = Array.isArray(res.data)
-            ? res.data
-            : res.data?.processes || [];
+          const processes = await pm2Api.processes(selectedServer._id);
           setTargets(
-            data.map((p: any) => ({
+            processes.map((p) => ({
               id: p.name,
               name: p.name,
             })),
@@ -122,9 +114,21 @@ export default function LogStudioScreen() {
     ]);
     setIsStreaming(true);
 
-    const token = await AsyncStorage.getItem("accessToken");
+    // The stream URL carries a single-use ticket so the long-lived JWT never
+    // lands in a URL, where proxies and access logs would keep it
+    let ticket: string;
+    try {
+      ({ ticket } = await authApi.ticket("logs", selectedServer._id));
+    } catch (err) {
+      setLogs((prev) => [
+        ...prev,
+        `[ERROR] ${getErrorMessage(err, "Could not authorize the stream")}`,
+      ]);
+      setIsStreaming(false);
+      return;
+    }
     const targetQuery = selectedTarget ? `&target=${selectedTarget}` : "";
-    const url = `${process.env.EXPO_PUBLIC_API_URL || "http://192.168.1.10:5000"}/api/logs/stream?serverId=${selectedServer._id}&type=${selectedType}${targetQuery}&token=${token}`;
+    const url = `${getApiUrl()}/logs/stream?serverId=${selectedServer._id}&type=${selectedType}${targetQuery}&ticket=${encodeURIComponent(ticket)}`;
 
     const es = new EventSource(url);
     eventSourceRef.current = es;
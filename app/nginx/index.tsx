@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useRef } from "react";
+import React, { useState, useCallback, useRef } from "react";
 import {
   View,
   StyleSheet,
@@ -27,31 +27,38 @@ import {
   SegmentedButtons,
   Snackbar,
 } from "react-native-paper";
-import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import {
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+  Stack,
+} from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  ActionResult,
+  getErrorMessage,
+  nginxApi,
+  NginxConfig,
+  NginxLogType,
+  NginxStatus,
+  Project,
+  projectsApi,
+} from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { useServer } from "../../contexts/ServerContext";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-
-interface NginxConfig {
-  name: string;
-  enabled: boolean;
-  size: string;
-  modified: string;
-}
+import {
+  parseVhostSpec,
+  projectPortChanged,
+  VhostSpec,
+} from "../../utils/nginx";
 
 import CustomAlertDialog, {
   CustomAlertDialogRef,
 } from "../../components/CustomAlertDialog";
 
-interface NginxStatus {
-  active: boolean;
-  output: string;
-}
-
 const DEFAULT_TEMPLATE = `server {
     listen 80;
     server_name example.com;
@@ -86,6 +93,11 @@ export default function NginxManagerScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [status, setStatus] = useState<NginxStatus | null>(null);
+  const [fabOpen, setFabOpen] = useState(false);
+
+  // Wizard-written vhosts by file name, and the projects they may follow
+  const [vhosts, setVhosts] = useState<Record<string, VhostSpec>>({});
+  const [projects, setProjects] = useState<Project[]>([]);
 
   // Editor State
   const [editorVisible, setEditorVisible] = useState(false);
@@ -97,16 +109,13 @@ export default function NginxManagerScreen() {
 
   // Log Viewer State
   const [logVisible, setLogVisible] = useState(false);
-  const [logType, setLogType] = useState<"access" | "error">("access");
+  const [logType, setLogType] = useState<NginxLogType>("access");
   const [logContent, setLogContent] = useState("");
   const [logLoading, setLogLoading] = useState(false);
 
   // Test/Reload Output
   const [outputDialogVisible, setOutputDialogVisible] = useState(false);
-  const [actionOutput, setActionOutput] = useState<{
-    success: boolean;
-    output: string;
-  } | null>(null);
+  const [actionOutput, setActionOutput] = useState<ActionResult | null>(null);
 
   // Custom Dialog Ref
   const dialogRef = useRef<CustomAlertDialogRef>(null);
@@ -114,13 +123,14 @@ export default function NginxManagerScreen() {
   const fetchData = useCallback(async () => {
     if (!serverId) return;
     try {
-      const [configsRes, statusRes] = await Promise.all([
-        api.get(`/nginx/${serverId}/configs`),
-        api.get(`/nginx/${serverId}/status`),
+      const [configList, nginxStatus] = await Promise.all([
+        nginxApi.configs(serverId),
+        nginxApi.status(serverId),
       ]);
-      setConfigs(configsRes.data);
-      setStatus(statusRes.data);
-    } catch (err: any) {
+      setConfigs(configList);
+      setStatus(nginxStatus);
+      loadVhosts(serverId, configList);
+    } catch (err) {
       // console.error(err);
     } finally {
       setLoading(false);
@@ -128,9 +138,35 @@ export default function NginxManagerScreen() {
     }
   }, [serverId]);
 
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  // Also picks up what the wizard saved on coming back
+  useFocusEffect(
+    useCallback(() => {
+      fetchData();
+    }, [fetchData]),
+  );
+
+  // Site files are small, so each is read to find the wizard's ones
+  const loadVhosts = async (id: string, configList: NginxConfig[]) => {
+    const [contents, projectList] = await Promise.all([
+      Promise.all(
+        configList.map((c) => nginxApi.read(id, c.name).catch(() => "")),
+      ),
+      projectsApi.list().catch(() => [] as Project[]),
+    ]);
+    const found: Record<string, VhostSpec> = {};
+    configList.forEach((c, i) => {
+      const spec = parseVhostSpec(contents[i]);
+      if (spec) found[c.name] = spec;
+    });
+    setVhosts(found);
+    setProjects(projectList);
+  };
+
+  const openWizard = (name?: string) =>
+    router.push({
+      pathname: "/nginx/wizard",
+      params: name ? { serverId, name } : { serverId },
+    });
 
   const onRefresh = () => {
     setRefreshing(true);
@@ -140,7 +176,7 @@ export default function NginxManagerScreen() {
   const handleTest = async () => {
     if (!serverId) return;
     try {
-      const { data } = await api.post(`/nginx/${serverId}/test`);
+      const data = await nginxApi.test(serverId);
       setActionOutput(data);
       setOutputDialogVisible(true);
       if (data.success) {
@@ -156,7 +192,7 @@ export default function NginxManagerScreen() {
   const handleReload = async () => {
     if (!serverId) return;
     try {
-      const { data } = await api.post(`/nginx/${serverId}/reload`);
+      const data = await nginxApi.reload(serverId);
       if (data.success) {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         fetchData();
@@ -176,14 +212,13 @@ export default function NginxManagerScreen() {
   const handleToggle = async (config: NginxConfig) => {
     if (!serverId) return;
     try {
-      const action = config.enabled ? "disable" : "enable";
-      await api.post(`/nginx/${serverId}/configs/${config.name}/${action}`);
+      await nginxApi.setEnabled(serverId, config.name, !config.enabled);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       fetchData();
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         "Error",
-        err.response?.data?.message || "Failed to toggle",
+        getErrorMessage(err, "Failed to toggle"),
       );
     }
   };
@@ -195,12 +230,12 @@ export default function NginxManagerScreen() {
       `Are you sure you want to delete ${config.name}?`,
       async () => {
         try {
-          await api.delete(`/nginx/${serverId}/configs/${config.name}`);
+          await nginxApi.remove(serverId, config.name);
           fetchData();
-        } catch (err: any) {
+        } catch (err) {
           dialogRef.current?.show(
             "Error",
-            err.response?.data?.message || "Delete failed",
+            getErrorMessage(err, "Delete failed"),
           );
         }
       },
@@ -217,11 +252,8 @@ export default function NginxManagerScreen() {
       setEditorFilename(filename);
       setEditorLoading(true);
       try {
-        const { data } = await api.get(
-          `/nginx/${serverId}/configs/${filename}`,
-        );
-        setEditorContent(data.content);
-      } catch (err: any) {
+        setEditorContent(await nginxApi.read(serverId, filename));
+      } catch (err) {
         dialogRef.current?.show("Error", "Failed to load config");
         setEditorVisible(false);
       } finally {
@@ -240,9 +272,10 @@ export default function NginxManagerScreen() {
     setEditorSaving(true);
     try {
       if (reload) {
-        const { data } = await api.post(
-          `/nginx/${serverId}/configs/${editorFilename}/save-reload`,
-          { content: editorContent },
+        const data = await nginxApi.saveAndReload(
+          serverId,
+          editorFilename,
+          editorContent,
         );
         if (data.success) {
           dialogRef.current?.show("Success", "Saved and Reloaded Nginx");
@@ -253,33 +286,25 @@ export default function NginxManagerScreen() {
           setOutputDialogVisible(true);
         }
       } else {
-        await api.post(`/nginx/${serverId}/configs/${editorFilename}`, {
-          content: editorContent,
-        });
+        await nginxApi.save(serverId, editorFilename, editorContent);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         setEditorVisible(false);
         fetchData();
       }
-    } catch (err: any) {
-      dialogRef.current?.show(
-        "Error",
-        err.response?.data?.message || "Save failed",
-      );
+    } catch (err) {
+      dialogRef.current?.show("Error", getErrorMessage(err, "Save failed"));
     } finally {
       setEditorSaving(false);
     }
   };
 
-  const handleViewLogs = async (type: "access" | "error") => {
+  const handleViewLogs = async (type: NginxLogType) => {
     if (!serverId) return;
     setLogType(type);
     setLogVisible(true);
     setLogLoading(true);
     try {
-      const { data } = await api.get(
-        `/nginx/${serverId}/logs/${type}?lines=100`,
-      );
-      setLogContent(data.content);
+      setLogContent(await nginxApi.logs(serverId, type, 100));
     } catch (err: any) {
       setLogContent(`Failed to load log: ${err.message}`);
     } finally {
@@ -382,6 +407,17 @@ export default function NginxManagerScreen() {
                       <Text style={styles.cardSubtitle}>
                         {config.size} • {config.modified}
                       </Text>
+                      {vhosts[config.name] &&
+                        projectPortChanged(
+                          vhosts[config.name],
+                          projects.find(
+                            (p) => p._id === vhosts[config.name].projectId,
+                          ),
+                        ) && (
+                          <Text style={styles.portChanged}>
+                            {t("nginxWizard.portOutdated")}
+                          </Text>
+                        )}
                     </View>
                     <Chip
                       mode="outlined"
@@ -404,6 +440,16 @@ export default function NginxManagerScreen() {
                   </View>
                   <Divider style={{ marginVertical: 12 }} />
                   <View style={styles.actionRow}>
+                    {vhosts[config.name] && (
+                      <Button
+                        mode="text"
+                        compact
+                        icon="auto-fix"
+                        onPress={() => openWizard(config.name)}
+                      >
+                        {t("nginxWizard.open")}
+                      </Button>
+                    )}
                     <Button
                       mode="text"
                       compact
@@ -442,11 +488,25 @@ export default function NginxManagerScreen() {
           )}
         </ScrollView>
 
-        <FAB
-          icon="plus"
-          style={[styles.fab, { backgroundColor: colors.primary }]}
+        <FAB.Group
+          visible
+          open={fabOpen}
+          icon={fabOpen ? "close" : "plus"}
+          fabStyle={{ backgroundColor: colors.primary }}
           color="white"
-          onPress={() => handleOpenEditor()}
+          actions={[
+            {
+              icon: "auto-fix",
+              label: t("nginxWizard.title"),
+              onPress: () => openWizard(),
+            },
+            {
+              icon: "file-document-edit-outline",
+              label: t("nginxWizard.blankConfig"),
+              onPress: () => handleOpenEditor(),
+            },
+          ]}
+          onStateChange={({ open }) => setFabOpen(open)}
         />
 
         {/* Editor Modal */}
@@ -656,12 +716,7 @@ const createStyles = (colors: any) =>
     },
     cardSubtitle: { fontSize: 13, color: colors.textSecondary },
     actionRow: { flexDirection: "row", justifyContent: "flex-end", gap: 4 },
-    fab: {
-      position: "absolute",
-      margin: 16,
-      right: 0,
-      bottom: 0,
-    },
+    portChanged: { fontSize: 12, color: colors.warning, marginTop: 2 },
     editorInput: {
       flex: 1,
       fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
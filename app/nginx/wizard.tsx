@@ -0,0 +1,661 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Platform,
+  Alert,
+  KeyboardAvoidingView,
+} from "react-native";
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  IconButton,
+  SegmentedButtons,
+  TextInput,
+  HelperText,
+  Switch,
+  Menu,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import {
+  getErrorMessage,
+  nginxApi,
+  NginxConfig,
+  Project,
+  projectsApi,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import {
+  LoadBalancing,
+  newUpstream,
+  newVhostSpec,
+  parseVhostSpec,
+  projectPort,
+  renderVhost,
+  validateVhost,
+  vhostDomains,
+  VhostKind,
+  VhostSpec,
+  VhostUpstream,
+} from "../../utils/nginx";
+
+const MONO = Platform.OS === "ios" ? "Menlo" : "monospace";
+
+export default function NginxWizardScreen() {
+  const { serverId, name } = useLocalSearchParams<{
+    serverId: string;
+    // Set when reopening a vhost the wizard wrote
+    name?: string;
+  }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [fileName, setFileName] = useState(name || "");
+  const [spec, setSpec] = useState<VhostSpec>(() => newVhostSpec());
+  const [original, setOriginal] = useState<string | null>(null);
+  const [configs, setConfigs] = useState<NginxConfig[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [portNotice, setPortNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [projectMenuVisible, setProjectMenuVisible] = useState(false);
+  const [previewVisible, setPreviewVisible] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!serverId) return;
+    try {
+      const [configList, projectList, content] = await Promise.all([
+        nginxApi.configs(serverId),
+        projectsApi.list().catch(() => [] as Project[]),
+        name ? nginxApi.read(serverId, name) : Promise.resolve(null),
+      ]);
+      const onServer = projectList.filter((p) => p.server?._id === serverId);
+      setConfigs(configList);
+      setProjects(onServer);
+      if (content === null) return;
+
+      const saved = parseVhostSpec(content);
+      if (!saved) {
+        Alert.alert(t("common.error"), t("nginxWizard.notWizardFile"));
+        router.back();
+        return;
+      }
+      setOriginal(content);
+      // A linked project whose port moved is picked up on the next save
+      const project = onServer.find((p) => p._id === saved.projectId);
+      const port = project && projectPort(project);
+      if (port !== undefined && port !== saved.projectPort) {
+        setPortNotice(
+          t("nginxWizard.portChanged", {
+            project: project?.name,
+            from: saved.projectPort,
+            to: port,
+          }),
+        );
+        setSpec({ ...saved, projectPort: port });
+      } else {
+        setSpec(saved);
+      }
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("nginxWizard.loadFailed")),
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [serverId, name, router, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const config = configs.find((c) => c.name === name);
+  const wasEnabled = !!config?.enabled;
+  const linked = projects.find((p) => p._id === spec.projectId);
+
+  const content = useMemo(() => renderVhost(spec, fileName), [spec, fileName]);
+  const errors = useMemo(() => {
+    const list = validateVhost(spec, fileName);
+    if (!name && configs.some((c) => c.name === fileName)) {
+      list.unshift(t("nginxWizard.nameTaken", { name: fileName }));
+    }
+    return list;
+  }, [spec, fileName, name, configs, t]);
+
+  const update = (patch: Partial<VhostSpec>) =>
+    setSpec((prev) => ({ ...prev, ...patch }));
+
+  const updateUpstream = (index: number, patch: Partial<VhostUpstream>) =>
+    update({
+      upstreams: spec.upstreams.map((u, i) =>
+        i === index ? { ...u, ...patch } : u,
+      ),
+    });
+
+  const linkProject = (project?: Project) => {
+    setProjectMenuVisible(false);
+    setPortNotice(null);
+    update({
+      projectId: project?._id,
+      projectPort: project ? projectPort(project) : undefined,
+    });
+  };
+
+  const save = async (enable: boolean) => {
+    if (!serverId) return;
+    const live = enable || wasEnabled;
+    setBusy(true);
+    try {
+      await nginxApi.save(serverId, fileName, content);
+      if (!live) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        router.back();
+        return;
+      }
+      // `nginx -t` only reads enabled sites, so the vhost is linked in for
+      // the test and taken back out if it fails, all before any reload
+      if (!wasEnabled) await nginxApi.setEnabled(serverId, fileName, true);
+      const test = await nginxApi.test(serverId);
+      if (!test.success) {
+        if (!wasEnabled) {
+          await nginxApi.setEnabled(serverId, fileName, false);
+        } else if (original !== null) {
+          await nginxApi.save(serverId, fileName, original);
+        }
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(
+          t("nginxWizard.testFailed"),
+          `${test.output || ""}\n\n${t(
+            wasEnabled ? "nginxWizard.restored" : "nginxWizard.leftDisabled",
+          )}`,
+        );
+        return;
+      }
+      const reload = await nginxApi.reload(serverId);
+      if (!reload.success) {
+        Alert.alert(
+          t("common.error"),
+          reload.output || t("nginxWizard.reloadFailed"),
+        );
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        t("common.success"),
+        t("nginxWizard.live", { domains: vhostDomains(spec).join(", ") }),
+      );
+      router.back();
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("nginxWizard.saveFailed")),
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderSwitch = (
+    label: string,
+    value: boolean,
+    onChange: (value: boolean) => void,
+    hint?: string,
+  ) => (
+    <View style={styles.switchRow}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.switchLabel}>{label}</Text>
+        {hint && <Text style={styles.meta}>{hint}</Text>}
+      </View>
+      <Switch value={value} onValueChange={onChange} color={colors.primary} />
+    </View>
+  );
+
+  const renderInput = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    placeholder?: string,
+    style?: object,
+  ) => (
+    <TextInput
+      label={label}
+      value={value}
+      onChangeText={onChange}
+      mode="outlined"
+      dense
+      placeholder={placeholder}
+      autoCapitalize="none"
+      autoCorrect={false}
+      style={[styles.input, style]}
+    />
+  );
+
+  const renderProxy = () => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.sectionTitle}>{t("nginxWizard.upstreams")}</Text>
+        <Menu
+          visible={projectMenuVisible}
+          onDismiss={() => setProjectMenuVisible(false)}
+          anchor={
+            <Button
+              mode="outlined"
+              icon="link-variant"
+              onPress={() => setProjectMenuVisible(true)}
+              style={{ marginBottom: 8 }}
+            >
+              {linked
+                ? t("nginxWizard.linkedTo", { project: linked.name })
+                : t("nginxWizard.linkProject")}
+            </Button>
+          }
+        >
+          <Menu.Item
+            onPress={() => linkProject(undefined)}
+            title={t("nginxWizard.notLinked")}
+          />
+          {projects.map((project) => (
+            <Menu.Item
+              key={project._id}
+              onPress={() => linkProject(project)}
+              title={`${project.name} · ${
+                projectPort(project)
+                  ? `PORT ${projectPort(project)}`
+                  : t("nginxWizard.noPort")
+              }`}
+            />
+          ))}
+        </Menu>
+        {spec.projectId ? (
+          <>
+            <Text style={styles.mono}>127.0.0.1:{spec.projectPort ?? "?"}</Text>
+            <Text style={styles.meta}>{t("nginxWizard.linkedHint")}</Text>
+            {portNotice && (
+              <HelperText type="info" visible>
+                {portNotice}
+              </HelperText>
+            )}
+          </>
+        ) : (
+          <>
+            {spec.upstreams.map((upstream, i) => (
+              <View key={i} style={styles.upstreamRow}>
+                {renderInput(
+                  t("nginxWizard.address"),
+                  upstream.address,
+                  (address) => updateUpstream(i, { address }),
+                  "127.0.0.1:3000",
+                  { flex: 2 },
+                )}
+                {renderInput(
+                  t("nginxWizard.weight"),
+                  upstream.weight,
+                  (weight) => updateUpstream(i, { weight }),
+                  "1",
+                  { flex: 0.8 },
+                )}
+                <IconButton
+                  icon={upstream.backup ? "backup-restore" : "server"}
+                  size={18}
+                  selected={upstream.backup}
+                  iconColor={
+                    upstream.backup ? colors.warning : colors.textSecondary
+                  }
+                  accessibilityLabel={t("nginxWizard.backup")}
+                  onPress={() =>
+                    updateUpstream(i, { backup: !upstream.backup })
+                  }
+                />
+                <IconButton
+                  icon="close"
+                  size={18}
+                  disabled={spec.upstreams.length === 1}
+                  onPress={() =>
+                    update({
+                      upstreams: spec.upstreams.filter((_, k) => k !== i),
+                    })
+                  }
+                />
+              </View>
+            ))}
+            <Button
+              icon="plus"
+              compact
+              onPress={() =>
+                update({ upstreams: [...spec.upstreams, newUpstream()] })
+              }
+              style={{ alignSelf: "flex-start" }}
+            >
+              {t("nginxWizard.addUpstream")}
+            </Button>
+            <Text style={styles.label}>{t("nginxWizard.balancing")}</Text>
+            <SegmentedButtons
+              value={spec.balancing}
+              onValueChange={(value) =>
+                update({ balancing: value as LoadBalancing })
+              }
+              density="small"
+              buttons={[
+                { value: "round-robin", label: "round-robin" },
+                { value: "least_conn", label: "least_conn" },
+                { value: "ip_hash", label: "ip_hash" },
+              ]}
+            />
+            <Text style={styles.meta}>{t("nginxWizard.backupHint")}</Text>
+          </>
+        )}
+        {renderSwitch(
+          t("nginxWizard.websocket"),
+          spec.websocket,
+          (websocket) => update({ websocket }),
+          t("nginxWizard.websocketHint"),
+        )}
+      </Card.Content>
+    </Card>
+  );
+
+  const renderStatic = () => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.sectionTitle}>{t("nginxWizard.staticFiles")}</Text>
+        {renderInput(
+          t("nginxWizard.root"),
+          spec.root,
+          (root) => update({ root }),
+          "/var/www/app/dist",
+        )}
+        {renderSwitch(
+          t("nginxWizard.spa"),
+          spec.spa,
+          (spa) => update({ spa }),
+          t("nginxWizard.spaHint"),
+        )}
+      </Card.Content>
+    </Card>
+  );
+
+  const renderRedirect = () => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.sectionTitle}>{t("nginxWizard.redirect")}</Text>
+        {renderInput(
+          t("nginxWizard.redirectTo"),
+          spec.redirectTo,
+          (redirectTo) => update({ redirectTo }),
+          "https://example.com",
+        )}
+        <SegmentedButtons
+          value={spec.redirectCode}
+          onValueChange={(value) =>
+            update({ redirectCode: value as VhostSpec["redirectCode"] })
+          }
+          density="small"
+          buttons={[
+            { value: "301", label: t("nginxWizard.permanent") },
+            { value: "302", label: t("nginxWizard.temporary") },
+          ]}
+        />
+        {renderSwitch(t("nginxWizard.keepPath"), spec.keepPath, (keepPath) =>
+          update({ keepPath }),
+        )}
+      </Card.Content>
+    </Card>
+  );
+
+  const renderOptions = () => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.sectionTitle}>{t("nginxWizard.options")}</Text>
+        {renderSwitch("gzip", spec.gzip, (gzip) => update({ gzip }))}
+        {renderInput(
+          "client_max_body_size",
+          spec.maxBodySize,
+          (maxBodySize) => update({ maxBodySize }),
+          "1m",
+        )}
+        {renderSwitch(t("nginxWizard.basicAuth"), spec.basicAuth, (basicAuth) =>
+          update({ basicAuth }),
+        )}
+        {spec.basicAuth && (
+          <>
+            {renderInput(t("nginxWizard.authFile"), spec.authFile, (authFile) =>
+              update({ authFile }),
+            )}
+            <Text style={styles.meta}>{t("nginxWizard.authFileHint")}</Text>
+          </>
+        )}
+        {renderSwitch(
+          t("nginxWizard.rateLimit"),
+          spec.rateLimit,
+          (rateLimit) => update({ rateLimit }),
+          t("nginxWizard.rateLimitHint"),
+        )}
+        {spec.rateLimit && (
+          <View style={styles.upstreamRow}>
+            {renderInput(
+              t("nginxWizard.rate"),
+              spec.rate,
+              (rate) => update({ rate }),
+              "10r/s",
+              { flex: 1 },
+            )}
+            {renderInput(
+              t("nginxWizard.burst"),
+              spec.burst,
+              (burst) => update({ burst }),
+              "20",
+              { flex: 1 },
+            )}
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  );
+
+  if (!serverId) return null;
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: t("nginxWizard.title") }} />
+        <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: name || t("nginxWizard.title") }} />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        style={{ flex: 1 }}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Card style={styles.card}>
+            <Card.Content>
+              <TextInput
+                label={t("nginxWizard.fileName")}
+                value={fileName}
+                onChangeText={setFileName}
+                mode="outlined"
+                dense
+                placeholder="my-app"
+                autoCapitalize="none"
+                autoCorrect={false}
+                // Renaming would leave the old file behind
+                disabled={!!name}
+                style={styles.input}
+              />
+              <SegmentedButtons
+                value={spec.kind}
+                onValueChange={(value) => update({ kind: value as VhostKind })}
+                buttons={[
+                  {
+                    value: "proxy",
+                    label: t("nginxWizard.proxy"),
+                    icon: "swap-horizontal",
+                  },
+                  {
+                    value: "static",
+                    label: t("nginxWizard.static"),
+                    icon: "folder-outline",
+                  },
+                  {
+                    value: "redirect",
+                    label: t("nginxWizard.redirect"),
+                    icon: "directions-fork",
+                  },
+                ]}
+                style={{ marginBottom: 8 }}
+              />
+              {renderInput(
+                t("nginxWizard.domains"),
+                spec.domains,
+                (domains) => update({ domains }),
+                "example.com www.example.com",
+              )}
+              {renderInput(
+                t("nginxWizard.listen"),
+                spec.listen,
+                (listen) => update({ listen }),
+                "80",
+              )}
+            </Card.Content>
+          </Card>
+
+          {spec.kind === "proxy" && renderProxy()}
+          {spec.kind === "static" && renderStatic()}
+          {spec.kind === "redirect" && renderRedirect()}
+          {spec.kind !== "redirect" && renderOptions()}
+
+          {errors.map((message) => (
+            <HelperText key={message} type="error" visible>
+              {message}
+            </HelperText>
+          ))}
+
+          <Button
+            icon={previewVisible ? "chevron-up" : "file-eye-outline"}
+            onPress={() => setPreviewVisible(!previewVisible)}
+            style={{ alignSelf: "flex-start" }}
+          >
+            {t("nginxWizard.preview")}
+          </Button>
+          {previewVisible && (
+            <View style={styles.codeBox}>
+              <ScrollView horizontal>
+                <Text style={styles.code} selectable>
+                  {content}
+                </Text>
+              </ScrollView>
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+      <View style={styles.footer}>
+        <MaterialCommunityIcons
+          name="shield-check-outline"
+          size={18}
+          color={colors.textSecondary}
+        />
+        <Text style={[styles.meta, { flex: 1 }]}>
+          {t("nginxWizard.testHint")}
+        </Text>
+      </View>
+      <View style={styles.actions}>
+        {!wasEnabled && (
+          <Button
+            mode="outlined"
+            onPress={() => save(false)}
+            disabled={busy || errors.length > 0}
+            style={{ flex: 1 }}
+          >
+            {t("common.save")}
+          </Button>
+        )}
+        <Button
+          mode="contained"
+          icon="check-network-outline"
+          onPress={() => save(true)}
+          loading={busy}
+          disabled={busy || errors.length > 0}
+          style={{ flex: 1.4 }}
+        >
+          {wasEnabled ? t("nginxWizard.saveLive") : t("nginxWizard.saveEnable")}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    content: { padding: 12, paddingBottom: 40 },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    sectionTitle: {
+      fontSize: 15,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 8,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: "600",
+      color: colors.textSecondary,
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    mono: { fontFamily: MONO, fontSize: 13, color: colors.text },
+    input: { backgroundColor: colors.surface, marginBottom: 8 },
+    upstreamRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+    switchRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      paddingVertical: 8,
+    },
+    switchLabel: { fontSize: 14, fontWeight: "600", color: colors.text },
+    codeBox: { borderRadius: 12, padding: 12, backgroundColor: "#0d1117" },
+    code: {
+      fontFamily: MONO,
+      fontSize: 11,
+      lineHeight: 16,
+      color: "#e6edf3",
+    },
+    footer: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingHorizontal: 12,
+      paddingTop: 8,
+      backgroundColor: colors.surface,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    actions: {
+      flexDirection: "row",
+      gap: 12,
+      padding: 12,
+      backgroundColor: colors.surface,
+    },
+  });
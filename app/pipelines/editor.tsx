@@ -0,0 +1,899 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Pressable,
+  Share,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import {
+  Text,
+  ActivityIndicator,
+  Button,
+  Chip,
+  IconButton,
+  Menu,
+  Portal,
+  Dialog,
+  TextInput,
+  HelperText,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+import {
+  getErrorMessage,
+  PipelineStage,
+  PipelineStep,
+  pipelinesApi,
+  projectsApi,
+  Secret,
+  secretsApi,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import DraggableList, { DragHandleProps } from "../../components/DraggableList";
+import {
+  FAILURE_POLICIES,
+  PipelineDraft,
+  RUN_WHEN,
+  STEP_TYPES,
+  STEP_TYPE_COLORS,
+  STEP_TYPE_ICONS,
+  cleanDraft,
+  draftFromPipeline,
+  isEmptyCondition,
+  moveItem,
+  needsCommand,
+  newStage,
+  newStep,
+  pipelineFromYaml,
+  pipelineToYaml,
+} from "../../utils/pipelines";
+
+const emptyDraft = (): PipelineDraft => ({
+  name: "",
+  description: "",
+  stages: [newStage(0)],
+  variables: [],
+});
+
+// Comma-separated text <-> list, keeping a trailing empty entry so the user
+// can type the separator
+const splitList = (text: string) =>
+  text.split(",").map((part) => part.trimStart());
+
+export default function PipelineEditorScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { colors, isDark } = useAppTheme();
+  const styles = createStyles(colors, isDark);
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<PipelineDraft>(emptyDraft);
+  const [projectId, setProjectId] = useState("");
+  const [projects, setProjects] = useState<any[]>([]);
+  const [secrets, setSecrets] = useState<Secret[]>([]);
+  const [projectMenuVisible, setProjectMenuVisible] = useState(false);
+  const [secretMenuFor, setSecretMenuFor] = useState<number | null>(null);
+  // "stage-step" of the step whose editor is open
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [yamlMode, setYamlMode] = useState<"import" | "export" | null>(null);
+  const [yamlText, setYamlText] = useState("");
+  const [yamlErrors, setYamlErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [projectList, pipeline] = await Promise.all([
+          projectsApi.list(),
+          id ? pipelinesApi.get(id) : Promise.resolve(null),
+        ]);
+        setProjects(projectList || []);
+        if (pipeline) {
+          setDraft(draftFromPipeline(pipeline));
+          setProjectId(pipeline.project?._id || "");
+        } else if (projectList?.length) {
+          setProjectId(projectList[0]._id);
+        }
+      } catch (err) {
+        Alert.alert(
+          t("common.error"),
+          getErrorMessage(err, t("common.failedLoad")),
+        );
+      } finally {
+        setLoading(false);
+      }
+      // Only used to suggest names for secret references
+      secretsApi
+        .list()
+        .then(setSecrets)
+        .catch(() => {});
+    })();
+  }, [id, t]);
+
+  const updateStages = (fn: (stages: PipelineStage[]) => PipelineStage[]) =>
+    setDraft((d) => ({ ...d, stages: fn(d.stages) }));
+
+  const updateStep = (
+    stageIdx: number,
+    stepIdx: number,
+    patch: Partial<PipelineStep>,
+  ) =>
+    updateStages((stages) =>
+      stages.map((stage, i) =>
+        i === stageIdx
+          ? {
+              ...stage,
+              steps: stage.steps.map((step, j) =>
+                j === stepIdx ? { ...step, ...patch } : step,
+              ),
+            }
+          : stage,
+      ),
+    );
+
+  const removeStep = (stageIdx: number, stepIdx: number) => {
+    setExpanded(null);
+    updateStages((stages) =>
+      stages
+        .map((stage, i) =>
+          i === stageIdx
+            ? { ...stage, steps: stage.steps.filter((_, j) => j !== stepIdx) }
+            : stage,
+        )
+        // A stage without steps has nothing to run
+        .filter((stage) => stage.steps.length > 0),
+    );
+  };
+
+  const updateVariable = (
+    index: number,
+    patch: Partial<PipelineDraft["variables"][number]>,
+  ) =>
+    setDraft((d) => ({
+      ...d,
+      variables: d.variables.map((v, i) =>
+        i === index ? { ...v, ...patch } : v,
+      ),
+    }));
+
+  const handleSave = async () => {
+    const clean = cleanDraft(draft);
+    const problems: string[] = [];
+    if (!clean.name) problems.push(t("pipelineEditor.nameRequired"));
+    if (!projectId) problems.push(t("pipelineEditor.projectRequired"));
+    clean.stages.forEach((stage) =>
+      stage.steps.forEach((step) => {
+        if (needsCommand(step) && !step.command?.trim()) {
+          problems.push(
+            t("pipelineEditor.commandRequired", {
+              stage: stage.name,
+              step: step.name,
+            }),
+          );
+        }
+      }),
+    );
+    if (problems.length) {
+      Alert.alert(t("pipelineEditor.invalidTitle"), problems.join("\n"));
+      return;
+    }
+    setSaving(true);
+    try {
+      const input = { ...clean, projectId };
+      if (id) await pipelinesApi.update(id, input);
+      else await pipelinesApi.create(input);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openExport = () => {
+    setYamlText(pipelineToYaml(cleanDraft(draft)));
+    setYamlErrors([]);
+    setYamlMode("export");
+  };
+
+  const openImport = () => {
+    setYamlText("");
+    setYamlErrors([]);
+    setYamlMode("import");
+  };
+
+  const applyImport = () => {
+    const result = pipelineFromYaml(yamlText);
+    if (!result.draft) {
+      setYamlErrors(result.errors);
+      return;
+    }
+    const imported = result.draft;
+    setDraft((d) => ({ ...imported, name: imported.name || d.name }));
+    setExpanded(null);
+    setYamlMode(null);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const renderStep = (
+    stageIdx: number,
+    step: PipelineStep,
+    stepIdx: number,
+    handle: DragHandleProps,
+  ) => {
+    const key = `${stageIdx}-${stepIdx}`;
+    const open = expanded === key;
+    const color = STEP_TYPE_COLORS[step.type] || colors.text;
+    return (
+      <View style={[styles.step, handle.dragging && styles.lifted]}>
+        <View style={styles.stepHeader}>
+          <View {...handle.dragHandlers} style={styles.handle}>
+            <MaterialCommunityIcons
+              name="drag-vertical"
+              size={20}
+              color={colors.textSecondary}
+            />
+          </View>
+          <Pressable
+            style={styles.stepSummary}
+            onPress={() => setExpanded(open ? null : key)}
+          >
+            <MaterialCommunityIcons
+              name={(STEP_TYPE_ICONS[step.type] || "cog") as any}
+              size={18}
+              color={color}
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.stepName} numberOfLines={1}>
+                {step.name || t("pipelineEditor.unnamedStep")}
+              </Text>
+              <Text style={styles.stepMeta} numberOfLines={1}>
+                {[
+                  t(`pipelineEditor.type_${step.type}`),
+                  step.onFailure && step.onFailure !== "stop"
+                    ? t(`pipelineEditor.failure_${step.onFailure}`)
+                    : null,
+                  isEmptyCondition(step.condition)
+                    ? null
+                    : t("pipelineEditor.conditional"),
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            </View>
+            <MaterialCommunityIcons
+              name={open ? "chevron-up" : "chevron-down"}
+              size={20}
+              color={colors.textSecondary}
+            />
+          </Pressable>
+        </View>
+        {open && (
+          <StepEditor
+            step={step}
+            onChange={(patch) => updateStep(stageIdx, stepIdx, patch)}
+            onRemove={() => removeStep(stageIdx, stepIdx)}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderStage = (
+    stage: PipelineStage,
+    stageIdx: number,
+    handle: DragHandleProps,
+  ) => (
+    <View>
+      {stageIdx > 0 && (
+        <View style={styles.connector}>
+          <MaterialCommunityIcons
+            name="arrow-down"
+            size={16}
+            color={colors.textSecondary}
+          />
+        </View>
+      )}
+      <View style={[styles.stage, handle.dragging && styles.lifted]}>
+        <View style={styles.stageHeader}>
+          <View {...handle.dragHandlers} style={styles.handle}>
+            <MaterialCommunityIcons
+              name="drag-horizontal-variant"
+              size={22}
+              color={colors.textSecondary}
+            />
+          </View>
+          <TextInput
+            mode="flat"
+            dense
+            value={stage.name}
+            onChangeText={(name) =>
+              updateStages((stages) =>
+                stages.map((s, i) => (i === stageIdx ? { ...s, name } : s)),
+              )
+            }
+            style={styles.stageName}
+            underlineColor="transparent"
+          />
+          {stage.steps.length > 1 && (
+            <Chip compact icon="call-split" style={styles.parallelChip}>
+              {t("pipelineEditor.parallel", { count: stage.steps.length })}
+            </Chip>
+          )}
+          <IconButton
+            icon="delete-outline"
+            size={18}
+            iconColor={colors.error}
+            disabled={draft.stages.length === 1}
+            onPress={() => {
+              setExpanded(null);
+              updateStages((stages) => stages.filter((_, i) => i !== stageIdx));
+            }}
+            style={{ margin: 0 }}
+          />
+        </View>
+        <DraggableList
+          data={stage.steps}
+          keyExtractor={(_, i) => String(i)}
+          gap={6}
+          onDragStateChange={setDragging}
+          onReorder={(from, to) => {
+            setExpanded(null);
+            updateStages((stages) =>
+              stages.map((s, i) =>
+                i === stageIdx
+                  ? { ...s, steps: moveItem(s.steps, from, to) }
+                  : s,
+              ),
+            );
+          }}
+          renderItem={(step, stepIdx, stepHandle) =>
+            renderStep(stageIdx, step, stepIdx, stepHandle)
+          }
+        />
+        <Button
+          compact
+          icon="plus"
+          onPress={() =>
+            updateStages((stages) =>
+              stages.map((s, i) =>
+                i === stageIdx
+                  ? { ...s, steps: [...s.steps, newStep(s.steps.length)] }
+                  : s,
+              ),
+            )
+          }
+          style={{ alignSelf: "flex-start", marginTop: 4 }}
+        >
+          {t("pipelineEditor.addParallelStep")}
+        </Button>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      <Stack.Screen
+        options={{
+          title: id
+            ? t("pipelineEditor.editTitle")
+            : t("pipelines.createPipeline"),
+          headerRight: () => (
+            <View style={{ flexDirection: "row" }}>
+              <IconButton icon="file-import-outline" onPress={openImport} />
+              <IconButton icon="file-export-outline" onPress={openExport} />
+            </View>
+          ),
+        }}
+      />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        scrollEnabled={!dragging}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TextInput
+          label={t("pipelineEditor.name")}
+          mode="outlined"
+          value={draft.name}
+          onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+          style={styles.input}
+        />
+        <TextInput
+          label={t("pipelineEditor.description")}
+          mode="outlined"
+          value={draft.description}
+          onChangeText={(description) =>
+            setDraft((d) => ({ ...d, description }))
+          }
+          style={styles.input}
+        />
+        <Text style={styles.label}>{t("pipelines.targetProject")}</Text>
+        <Menu
+          visible={projectMenuVisible}
+          onDismiss={() => setProjectMenuVisible(false)}
+          anchor={
+            <Button
+              mode="outlined"
+              icon="chevron-down"
+              contentStyle={{ flexDirection: "row-reverse" }}
+              onPress={() => setProjectMenuVisible(true)}
+              style={{ borderRadius: 4 }}
+            >
+              {projects.find((p) => p._id === projectId)?.name ||
+                t("pipelineEditor.selectProject")}
+            </Button>
+          }
+        >
+          {projects.map((p) => (
+            <Menu.Item
+              key={p._id}
+              onPress={() => {
+                setProjectId(p._id);
+                setProjectMenuVisible(false);
+              }}
+              title={p.name}
+            />
+          ))}
+        </Menu>
+
+        {/* Variables */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>
+            {t("pipelineEditor.variables")}
+          </Text>
+          <Button
+            compact
+            icon="plus"
+            onPress={() =>
+              setDraft((d) => ({
+                ...d,
+                variables: [...d.variables, { key: "", value: "" }],
+              }))
+            }
+          >
+            {t("common.add")}
+          </Button>
+        </View>
+        {draft.variables.length === 0 && (
+          <Text style={styles.hint}>{t("pipelineEditor.variablesHint")}</Text>
+        )}
+        {draft.variables.map((v, i) => (
+          <View key={i} style={styles.variableRow}>
+            <TextInput
+              mode="outlined"
+              dense
+              placeholder="NAME"
+              value={v.key}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              onChangeText={(key) =>
+                updateVariable(i, { key: key.replace(/[^A-Za-z0-9_]/g, "_") })
+              }
+              style={[styles.input, { flex: 1 }]}
+            />
+            {v.fromSecret ? (
+              <Menu
+                visible={secretMenuFor === i}
+                onDismiss={() => setSecretMenuFor(null)}
+                anchor={
+                  <Button
+                    mode="outlined"
+                    icon="key-outline"
+                    compact
+                    onPress={() => setSecretMenuFor(i)}
+                    style={{ flex: 1.3 }}
+                    labelStyle={{ fontSize: 12 }}
+                  >
+                    {v.value || t("pipelineEditor.pickSecret")}
+                  </Button>
+                }
+              >
+                {secrets.length === 0 ? (
+                  <Menu.Item title={t("pipelineEditor.noSecrets")} disabled />
+                ) : (
+                  secrets.map((s) => (
+                    <Menu.Item
+                      key={s._id}
+                      title={s.name}
+                      onPress={() => {
+                        updateVariable(i, { value: s.name });
+                        setSecretMenuFor(null);
+                      }}
+                    />
+                  ))
+                )}
+              </Menu>
+            ) : (
+              <TextInput
+                mode="outlined"
+                dense
+                placeholder={t("pipelineEditor.value")}
+                value={v.value}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onChangeText={(value) => updateVariable(i, { value })}
+                style={[styles.input, { flex: 1.3 }]}
+              />
+            )}
+            <IconButton
+              icon={v.fromSecret ? "lock" : "lock-open-variant-outline"}
+              size={18}
+              iconColor={v.fromSecret ? colors.warning : colors.textSecondary}
+              onPress={() =>
+                updateVariable(i, { fromSecret: !v.fromSecret, value: "" })
+              }
+              style={{ margin: 0 }}
+            />
+            <IconButton
+              icon="close"
+              size={18}
+              onPress={() =>
+                setDraft((d) => ({
+                  ...d,
+                  variables: d.variables.filter((_, j) => j !== i),
+                }))
+              }
+              style={{ margin: 0 }}
+            />
+          </View>
+        ))}
+
+        {/* Stages */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{t("pipelines.stages")}</Text>
+        </View>
+        <Text style={styles.hint}>{t("pipelineEditor.stagesHint")}</Text>
+        <DraggableList
+          data={draft.stages}
+          keyExtractor={(_, i) => String(i)}
+          onDragStateChange={setDragging}
+          onReorder={(from, to) => {
+            setExpanded(null);
+            updateStages((stages) => moveItem(stages, from, to));
+          }}
+          renderItem={renderStage}
+        />
+        <Button
+          mode="outlined"
+          icon="plus"
+          onPress={() =>
+            updateStages((stages) => [...stages, newStage(stages.length)])
+          }
+          style={{ marginTop: 12, borderRadius: 8 }}
+        >
+          {t("pipelines.addStage")}
+        </Button>
+
+        <Button
+          mode="contained"
+          icon="content-save"
+          onPress={handleSave}
+          loading={saving}
+          disabled={saving}
+          style={{ marginTop: 20, borderRadius: 8 }}
+        >
+          {t("common.save")}
+        </Button>
+      </ScrollView>
+
+      <Portal>
+        <Dialog
+          visible={yamlMode !== null}
+          onDismiss={() => setYamlMode(null)}
+          style={styles.dialog}
+        >
+          <Dialog.Title>
+            {yamlMode === "import"
+              ? t("pipelineEditor.importTitle")
+              : t("pipelineEditor.exportTitle")}
+          </Dialog.Title>
+          <Dialog.ScrollArea style={{ paddingHorizontal: 16 }}>
+            <ScrollView contentContainerStyle={{ paddingVertical: 12 }}>
+              {yamlMode === "import" && (
+                <Text style={styles.hint}>
+                  {t("pipelineEditor.importHint")}
+                </Text>
+              )}
+              <TextInput
+                mode="outlined"
+                multiline
+                value={yamlText}
+                onChangeText={(text) => {
+                  setYamlText(text);
+                  setYamlErrors([]);
+                }}
+                editable={yamlMode === "import"}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={[styles.input, styles.yaml]}
+              />
+              {yamlErrors.map((error, i) => (
+                <HelperText key={i} type="error" visible>
+                  {error}
+                </HelperText>
+              ))}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            {yamlMode === "import" ? (
+              <>
+                <Button
+                  icon="content-paste"
+                  onPress={async () =>
+                    setYamlText(await Clipboard.getStringAsync())
+                  }
+                >
+                  {t("pipelineEditor.paste")}
+                </Button>
+                <Button onPress={() => setYamlMode(null)}>
+                  {t("common.cancel")}
+                </Button>
+                <Button onPress={applyImport} disabled={!yamlText.trim()}>
+                  {t("pipelineEditor.import")}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  icon="content-copy"
+                  onPress={async () => {
+                    await Clipboard.setStringAsync(yamlText);
+                    Haptics.notificationAsync(
+                      Haptics.NotificationFeedbackType.Success,
+                    );
+                  }}
+                >
+                  {t("common.copy")}
+                </Button>
+                <Button
+                  icon="share-variant"
+                  onPress={() =>
+                    Share.share({ message: yamlText }).catch(() => {})
+                  }
+                >
+                  {t("pipelineEditor.share")}
+                </Button>
+                <Button onPress={() => setYamlMode(null)}>
+                  {t("common.close")}
+                </Button>
+              </>
+            )}
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </KeyboardAvoidingView>
+  );
+}
+
+function StepEditor({
+  step,
+  onChange,
+  onRemove,
+}: {
+  step: PipelineStep;
+  onChange: (patch: Partial<PipelineStep>) => void;
+  onRemove: () => void;
+}) {
+  const { t } = useTranslation();
+  const { colors, isDark } = useAppTheme();
+  const styles = createStyles(colors, isDark);
+  const condition = step.condition || {};
+
+  return (
+    <View style={styles.stepEditor}>
+      <TextInput
+        label={t("pipelineEditor.stepName")}
+        mode="outlined"
+        dense
+        value={step.name}
+        onChangeText={(name) => onChange({ name })}
+        style={styles.input}
+      />
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.chips}>
+          {STEP_TYPES.map((type) => (
+            <Chip
+              key={type}
+              compact
+              selected={step.type === type}
+              icon={STEP_TYPE_ICONS[type]}
+              onPress={() => onChange({ type })}
+            >
+              {t(`pipelineEditor.type_${type}`)}
+            </Chip>
+          ))}
+        </View>
+      </ScrollView>
+      {needsCommand(step) && (
+        <TextInput
+          label={t("pipelineEditor.command")}
+          mode="outlined"
+          multiline
+          value={step.command || ""}
+          onChangeText={(command) => onChange({ command })}
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={[styles.input, styles.command]}
+        />
+      )}
+      <View style={styles.fieldRow}>
+        <Text style={styles.label}>{t("pipelines.onFailure")}</Text>
+        {FAILURE_POLICIES.map((policy) => (
+          <Chip
+            key={policy}
+            compact
+            selected={(step.onFailure || "stop") === policy}
+            onPress={() => onChange({ onFailure: policy })}
+          >
+            {t(`pipelineEditor.failure_${policy}`)}
+          </Chip>
+        ))}
+      </View>
+      <TextInput
+        label={t("pipelineEditor.timeout")}
+        mode="outlined"
+        dense
+        keyboardType="number-pad"
+        value={step.timeout ? String(step.timeout) : ""}
+        onChangeText={(text) =>
+          onChange({ timeout: parseInt(text, 10) || undefined })
+        }
+        style={styles.input}
+      />
+
+      <Text style={[styles.label, { marginTop: 8 }]}>
+        {t("pipelineEditor.conditions")}
+      </Text>
+      <TextInput
+        label={t("pipelineEditor.branches")}
+        placeholder="main, release/*"
+        mode="outlined"
+        dense
+        autoCapitalize="none"
+        autoCorrect={false}
+        value={(condition.branches || []).join(", ")}
+        onChangeText={(text) =>
+          onChange({ condition: { ...condition, branches: splitList(text) } })
+        }
+        style={styles.input}
+      />
+      <TextInput
+        label={t("pipelineEditor.environments")}
+        placeholder="staging, production"
+        mode="outlined"
+        dense
+        autoCapitalize="none"
+        autoCorrect={false}
+        value={(condition.environments || []).join(", ")}
+        onChangeText={(text) =>
+          onChange({
+            condition: { ...condition, environments: splitList(text) },
+          })
+        }
+        style={styles.input}
+      />
+      <View style={styles.fieldRow}>
+        <Text style={styles.label}>{t("pipelineEditor.runWhen")}</Text>
+        {RUN_WHEN.map((when) => (
+          <Chip
+            key={when}
+            compact
+            selected={(condition.when || "success") === when}
+            onPress={() => onChange({ condition: { ...condition, when } })}
+          >
+            {t(`pipelineEditor.when_${when}`)}
+          </Chip>
+        ))}
+      </View>
+      <Button
+        icon="delete-outline"
+        textColor={colors.error}
+        onPress={onRemove}
+        style={{ alignSelf: "flex-end" }}
+        compact
+      >
+        {t("pipelineEditor.removeStep")}
+      </Button>
+    </View>
+  );
+}
+
+const createStyles = (colors: any, isDark: boolean) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.background,
+    },
+    content: { padding: 16, paddingBottom: 60, gap: 8 },
+    input: { backgroundColor: colors.background },
+    label: { fontSize: 12, color: colors.textSecondary },
+    hint: { fontSize: 12, color: colors.textSecondary, marginBottom: 4 },
+    sectionHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      marginTop: 16,
+    },
+    sectionTitle: { fontWeight: "bold", fontSize: 16, color: colors.text },
+    variableRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+    connector: { alignItems: "center", paddingVertical: 4 },
+    stage: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 10,
+    },
+    lifted: {
+      borderColor: colors.primary,
+      shadowColor: "#000",
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      shadowOffset: { width: 0, height: 4 },
+    },
+    stageHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+      marginBottom: 8,
+    },
+    stageName: {
+      flex: 1,
+      backgroundColor: "transparent",
+      fontWeight: "bold",
+    },
+    parallelChip: { backgroundColor: colors.primary + "20" },
+    handle: { padding: 6 },
+    step: {
+      backgroundColor: isDark ? "rgba(255,255,255,0.03)" : "rgba(0,0,0,0.03)",
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    stepHeader: { flexDirection: "row", alignItems: "center" },
+    stepSummary: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 10,
+      paddingRight: 8,
+    },
+    stepName: { fontSize: 14, fontWeight: "600", color: colors.text },
+    stepMeta: { fontSize: 11, color: colors.textSecondary, marginTop: 2 },
+    stepEditor: { paddingHorizontal: 10, paddingBottom: 10, gap: 8 },
+    chips: { flexDirection: "row", gap: 6 },
+    fieldRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      flexWrap: "wrap",
+      gap: 6,
+    },
+    command: { fontFamily: "monospace", fontSize: 13, minHeight: 64 },
+    dialog: { backgroundColor: colors.surface, maxHeight: "85%" },
+    yaml: { fontFamily: "monospace", fontSize: 12, minHeight: 220 },
+  });
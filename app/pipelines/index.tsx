@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -13,157 +13,76 @@ import {
   Chip,
   Card,
   IconButton,
-  Menu,
   Portal,
   Dialog,
-  TextInput,
-  Divider,
 } from "react-native-paper";
-import { Stack } from "expo-router";
+import { Stack, useFocusEffect, useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  getErrorMessage,
+  Pipeline,
+  PipelineRunResult,
+  pipelinesApi,
+} from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
-
-interface PipelineStep {
-  name: string;
-  type: "command" | "test" | "deploy" | "approval" | "notify";
-  command?: string;
-  onFailure?: "stop" | "continue" | "rollback";
-  timeout?: number;
-}
-
-interface Pipeline {
-  _id: string;
-  name: string;
-  description?: string;
-  project: { _id: string; name: string; status: string };
-  steps: PipelineStep[];
-  isActive: boolean;
-  lastRunAt?: string;
-  lastRunStatus?: string;
-  createdAt: string;
-}
-
-const stepTypeColors: Record<string, string> = {
-  command: "#3b82f6",
-  test: "#8b5cf6",
-  deploy: "#22c55e",
-  approval: "#f59e0b",
-  notify: "#06b6d4",
-};
-
-const stepTypeIcons: Record<string, string> = {
-  command: "console",
-  test: "flask-outline",
-  deploy: "rocket-launch-outline",
-  approval: "check-decagram-outline",
-  notify: "bell-outline",
-};
+import {
+  pipelineStages,
+  STEP_TYPE_COLORS,
+  STEP_TYPE_ICONS,
+} from "../../utils/pipelines";
 
 export default function PipelineBuilderScreen() {
   const { t } = useTranslation();
+  const router = useRouter();
   const { colors, isDark } = useAppTheme();
   const styles = createStyles(colors, isDark);
 
   const [loading, setLoading] = useState(true);
   const [pipelines, setPipelines] = useState<Pipeline[]>([]);
-  const [projects, setProjects] = useState<any[]>([]);
 
-  const [createDialog, setCreateDialog] = useState(false);
   const [runningId, setRunningId] = useState<string | null>(null);
   const [runResultsOpen, setRunResultsOpen] = useState(false);
-  const [runResults, setRunResults] = useState<any>(null);
-
-  // Create Form State
-  const [newPipeline, setNewPipeline] = useState({
-    name: "",
-    description: "",
-    projectId: "",
-    steps: [
-      {
-        name: "Install",
-        type: "command",
-        command: "npm install",
-        onFailure: "stop",
-      },
-    ] as PipelineStep[],
-  });
-
-  const [projectMenuVisible, setProjectMenuVisible] = useState(false);
-  const [stepTypeMenuVisible, setStepTypeMenuVisible] = useState<number | null>(
+  const [runResults, setRunResults] = useState<PipelineRunResult | null>(
     null,
   );
 
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  const fetchData = async () => {
-    setLoading(true);
+  const fetchData = useCallback(async () => {
     try {
-      const [pipeRes, projRes] = await Promise.all([
-        api.get("/pipelines"),
-        api.get("/projects"),
-      ]);
-      setPipelines(pipeRes.data.pipelines || []);
-      setProjects(projRes.data || []);
-
-      if (projRes.data && projRes.data.length > 0 && !newPipeline.projectId) {
-        setNewPipeline((prev) => ({ ...prev, projectId: projRes.data[0]._id }));
-      }
-    } catch {
-      Alert.alert(t("common.error"), "Failed to load pipelines");
+      setPipelines(await pipelinesApi.list());
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, "Failed to load pipelines"),
+      );
     } finally {
       setLoading(false);
     }
-  };
+  }, [t]);
 
-  const handleCreate = async () => {
-    if (!newPipeline.name || !newPipeline.projectId) {
-      Alert.alert(
-        "Validation Error",
-        "Please provide a name and select a project.",
-      );
-      return;
-    }
-    try {
-      await api.post("/pipelines", newPipeline);
-      Alert.alert(t("common.success"), "Pipeline created successfully!");
-      setCreateDialog(false);
-      setNewPipeline({
-        name: "",
-        description: "",
-        projectId: projects.length > 0 ? projects[0]._id : "",
-        steps: [
-          {
-            name: "Install",
-            type: "command",
-            command: "npm install",
-            onFailure: "stop",
-          },
-        ],
-      });
+  // Reload when coming back from the editor
+  useFocusEffect(
+    useCallback(() => {
       fetchData();
-    } catch (error: any) {
-      Alert.alert(
-        t("common.error"),
-        error.response?.data?.message || "Failed to create pipeline",
-      );
-    }
-  };
+    }, [fetchData]),
+  );
 
   const handleRun = async (id: string) => {
     setRunningId(id);
     setRunResults(null);
     try {
-      const { data } = await api.post(`/pipelines/${id}/run`);
-      setRunResults(data);
-      setRunResultsOpen(true);
+      const result = await pipelinesApi.run(id);
       fetchData();
-    } catch (error: any) {
+      // Recorded runs are followed live; older backends only return results
+      if (result.runId) {
+        router.push(`/pipelines/run?id=${result.runId}`);
+        return;
+      }
+      setRunResults(result);
+      setRunResultsOpen(true);
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        error.response?.data?.message || "Failed to run pipeline",
+        getErrorMessage(err, "Failed to run pipeline"),
       );
     } finally {
       setRunningId(null);
@@ -181,13 +100,13 @@ export default function PipelineBuilderScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              await api.delete(`/pipelines/${id}`);
+              await pipelinesApi.remove(id);
               Alert.alert(t("common.success"), "Pipeline deleted");
               fetchData();
-            } catch (error: any) {
+            } catch (err) {
               Alert.alert(
                 t("common.error"),
-                error.response?.data?.message || "Failed to delete pipeline",
+                getErrorMessage(err, "Failed to delete pipeline"),
               );
             }
           },
@@ -196,37 +115,6 @@ export default function PipelineBuilderScreen() {
     );
   };
 
-  const addStep = () => {
-    setNewPipeline((p) => ({
-      ...p,
-      steps: [
-        ...p.steps,
-        {
-          name: `Step ${p.steps.length + 1}`,
-          type: "command" as const,
-          command: "echo hello",
-          onFailure: "stop" as const,
-        },
-      ],
-    }));
-  };
-
-  const updateStep = (index: number, field: string, value: string) => {
-    setNewPipeline((p) => ({
-      ...p,
-      steps: p.steps.map((s, i) =>
-        i === index ? { ...s, [field]: value } : s,
-      ),
-    }));
-  };
-
-  const removeStep = (index: number) => {
-    setNewPipeline((p) => ({
-      ...p,
-      steps: p.steps.filter((_, i) => i !== index),
-    }));
-  };
-
   return (
     <SafeAreaView style={styles.container}>
       <Stack.Screen options={{ title: "Pipeline Builder" }} />
@@ -249,7 +137,7 @@ export default function PipelineBuilderScreen() {
         <Button
           mode="contained"
           icon="plus"
-          onPress={() => setCreateDialog(true)}
+          onPress={() => router.push("/pipelines/editor")}
           style={{ borderRadius: 8 }}
         >
           {t("pipelines.create", "Create")}</Button>
@@ -270,7 +158,7 @@ export default function PipelineBuilderScreen() {
               {t("pipelines.createMultistageDeploymentsTo", "Create multi-stage deployments to automate your workflow")}</Text>
             <Button
               mode="outlined"
-              onPress={() => setCreateDialog(true)}
+              onPress={() => router.push("/pipelines/editor")}
               style={{ marginTop: 16 }}
             >
               {t("pipelines.createFirstPipeline", "Create First Pipeline")}</Button>
@@ -348,7 +236,7 @@ export default function PipelineBuilderScreen() {
                   </View>
                 </View>
 
-                {/* Steps Visualizer */}
+                {/* Stages Visualizer: parallel steps are stacked */}
                 <View style={styles.stepsVisualizer}>
                   <ScrollView
                     horizontal
@@ -358,28 +246,36 @@ export default function PipelineBuilderScreen() {
                       paddingVertical: 8,
                     }}
                   >
-                    {pipeline.steps.map((step, idx) => (
+                    {pipelineStages(pipeline).map((stage, idx, stages) => (
                       <View
                         key={idx}
                         style={{ flexDirection: "row", alignItems: "center" }}
                       >
-                        <View
-                          style={[
-                            styles.stepCircle,
-                            {
-                              borderColor:
-                                stepTypeColors[step.type] || colors.border,
-                            },
-                          ]}
-                        >
-                          <IconButton
-                            icon={stepTypeIcons[step.type] || "cog"}
-                            iconColor={stepTypeColors[step.type] || colors.text}
-                            size={16}
-                            style={{ margin: 0 }}
-                          />
+                        <View style={styles.stageColumn}>
+                          {stage.steps.map((step, stepIdx) => (
+                            <View
+                              key={stepIdx}
+                              style={[
+                                styles.stepCircle,
+                                {
+                                  borderColor:
+                                    STEP_TYPE_COLORS[step.type] ||
+                                    colors.border,
+                                },
+                              ]}
+                            >
+                              <IconButton
+                                icon={STEP_TYPE_ICONS[step.type] || "cog"}
+                                iconColor={
+                                  STEP_TYPE_COLORS[step.type] || colors.text
+                                }
+                                size={16}
+                                style={{ margin: 0 }}
+                              />
+                            </View>
+                          ))}
                         </View>
-                        {idx < pipeline.steps.length - 1 && (
+                        {idx < stages.length - 1 && (
                           <View style={styles.stepConnector} />
                         )}
                       </View>
@@ -392,9 +288,13 @@ export default function PipelineBuilderScreen() {
                       textAlign: "center",
                     }}
                   >
-                    {pipeline.steps.length}{" "}
-                    {pipeline.steps.length === 1 ? "stage" : "stages"}:{" "}
-                    {pipeline.steps.map((s) => s.name).join(" → ")}
+                    {t("pipelines.stageSummary", {
+                      count: pipelineStages(pipeline).length,
+                    })}
+                    :{" "}
+                    {pipelineStages(pipeline)
+                      .map((s) => s.name)
+                      .join(" → ")}
                   </Text>
                 </View>
 
@@ -409,6 +309,28 @@ export default function PipelineBuilderScreen() {
                   >
                     {runningId === pipeline._id ? "Running..." : "Run"}
                   </Button>
+                  <IconButton
+                    icon="history"
+                    mode="outlined"
+                    onPress={() =>
+                      router.push({
+                        pathname: "/pipelines/runs",
+                        params: {
+                          pipelineId: pipeline._id,
+                          name: pipeline.name,
+                        },
+                      })
+                    }
+                    style={{ borderRadius: 8 }}
+                  />
+                  <IconButton
+                    icon="pencil-outline"
+                    mode="outlined"
+                    onPress={() =>
+                      router.push(`/pipelines/editor?id=${pipeline._id}`)
+                    }
+                    style={{ borderRadius: 8 }}
+                  />
                   <IconButton
                     icon="delete-outline"
                     iconColor={colors.error}
@@ -423,201 +345,6 @@ export default function PipelineBuilderScreen() {
         )}
       </ScrollView>
 
-      {/* Create Pipeline Dialog */}
-      <Portal>
-        <Dialog
-          visible={createDialog}
-          onDismiss={() => setCreateDialog(false)}
-          style={styles.dialog}
-        >
-          <Dialog.Title>{t("pipelines.createPipeline", "Create Pipeline")}</Dialog.Title>
-          <Dialog.ScrollArea style={styles.dialogScrollArea}>
-            <ScrollView
-              contentContainerStyle={{ paddingVertical: 16, gap: 12 }}
-            >
-              <TextInput
-                label="Pipeline Name"
-                mode="outlined"
-                value={newPipeline.name}
-                onChangeText={(text) =>
-                  setNewPipeline({ ...newPipeline, name: text })
-                }
-                style={styles.input}
-              />
-
-              <TextInput
-                label="Description"
-                mode="outlined"
-                value={newPipeline.description}
-                onChangeText={(text) =>
-                  setNewPipeline({ ...newPipeline, description: text })
-                }
-                style={styles.input}
-              />
-
-              {/* Project Selector */}
-              <View>
-                <Text
-                  style={{
-                    fontSize: 12,
-                    marginBottom: 4,
-                    color: colors.textSecondary,
-                  }}
-                >
-                  {t("pipelines.targetProject", "Target Project")}</Text>
-                <Menu
-                  visible={projectMenuVisible}
-                  onDismiss={() => setProjectMenuVisible(false)}
-                  anchor={
-                    <Button
-                      mode="outlined"
-                      icon="chevron-down"
-                      contentStyle={{ flexDirection: "row-reverse" }}
-                      onPress={() => setProjectMenuVisible(true)}
-                      style={{ borderRadius: 4 }}
-                    >
-                      {projects.find((p) => p._id === newPipeline.projectId)
-                        ?.name || "Select Project"}
-                    </Button>
-                  }
-                >
-                  {projects.map((p) => (
-                    <Menu.Item
-                      key={p._id}
-                      onPress={() => {
-                        setNewPipeline({ ...newPipeline, projectId: p._id });
-                        setProjectMenuVisible(false);
-                      }}
-                      title={p.name}
-                    />
-                  ))}
-                </Menu>
-              </View>
-
-              <Divider style={{ marginVertical: 8 }} />
-
-              {/* Steps Builder */}
-              <View
-                style={{
-                  flexDirection: "row",
-                  justifyContent: "space-between",
-                  alignItems: "center",
-                }}
-              >
-                <Text style={{ fontWeight: "bold", fontSize: 16 }}>{t("pipelines.stages", "Stages")}</Text>
-                <Button mode="text" icon="plus" onPress={addStep} compact>
-                  {t("pipelines.addStage", "Add Stage")}</Button>
-              </View>
-
-              {newPipeline.steps.map((step, idx) => (
-                <View key={idx} style={styles.stepBuilderCard}>
-                  <View
-                    style={{
-                      flexDirection: "row",
-                      justifyContent: "space-between",
-                      alignItems: "center",
-                      marginBottom: 8,
-                    }}
-                  >
-                    <Text style={{ fontWeight: "bold", color: colors.primary }}>
-                      {t("pipelines.stage", "Stage")}{idx + 1}
-                    </Text>
-                    {newPipeline.steps.length > 1 && (
-                      <IconButton
-                        icon="close"
-                        size={16}
-                        onPress={() => removeStep(idx)}
-                        style={{ margin: 0 }}
-                      />
-                    )}
-                  </View>
-
-                  <TextInput
-                    label="Stage Name"
-                    mode="outlined"
-                    value={step.name}
-                    onChangeText={(text) => updateStep(idx, "name", text)}
-                    style={[styles.input, { height: 40, marginBottom: 8 }]}
-                    dense
-                  />
-
-                  {/* Step Type Selector */}
-                  <Menu
-                    visible={stepTypeMenuVisible === idx}
-                    onDismiss={() => setStepTypeMenuVisible(null)}
-                    anchor={
-                      <Button
-                        mode="outlined"
-                        icon="chevron-down"
-                        contentStyle={{ flexDirection: "row-reverse" }}
-                        onPress={() => setStepTypeMenuVisible(idx)}
-                        style={{ borderRadius: 4, marginBottom: 8 }}
-                        labelStyle={{ fontSize: 12 }}
-                        compact
-                      >
-                        {t("pipelines.type", "Type:")}{step.type.toUpperCase()}
-                      </Button>
-                    }
-                  >
-                    {["command", "test", "deploy", "approval", "notify"].map(
-                      (type) => (
-                        <Menu.Item
-                          key={type}
-                          onPress={() => {
-                            updateStep(idx, "type", type);
-                            setStepTypeMenuVisible(null);
-                          }}
-                          title={type.toUpperCase()}
-                        />
-                      ),
-                    )}
-                  </Menu>
-
-                  {(step.type === "command" || step.type === "test") && (
-                    <TextInput
-                      label="Command"
-                      mode="outlined"
-                      value={step.command}
-                      onChangeText={(text) => updateStep(idx, "command", text)}
-                      style={[styles.input, { height: 40, marginBottom: 8 }]}
-                      dense
-                    />
-                  )}
-
-                  {/* On Failure behavior simplified to toggle for now */}
-                  <View
-                    style={{
-                      flexDirection: "row",
-                      alignItems: "center",
-                      gap: 8,
-                    }}
-                  >
-                    <Text style={{ fontSize: 12, color: colors.textSecondary }}>
-                      {t("pipelines.onFailure", "On Failure:")}</Text>
-                    <Chip
-                      compact
-                      selected={step.onFailure === "stop"}
-                      onPress={() => updateStep(idx, "onFailure", "stop")}
-                    >
-                      {t("pipelines.stop", "Stop")}</Chip>
-                    <Chip
-                      compact
-                      selected={step.onFailure === "continue"}
-                      onPress={() => updateStep(idx, "onFailure", "continue")}
-                    >
-                      {t("pipelines.continue", "Continue")}</Chip>
-                  </View>
-                </View>
-              ))}
-            </ScrollView>
-          </Dialog.ScrollArea>
-          <Dialog.Actions>
-            <Button onPress={() => setCreateDialog(false)}>{t("pipelines.cancel", "Cancel")}</Button>
-            <Button onPress={handleCreate}>{t("pipelines.create", "Create")}</Button>
-          </Dialog.Actions>
-        </Dialog>
-      </Portal>
-
       {/* Run Results Modal */}
       <Portal>
         <Dialog
@@ -660,7 +387,7 @@ export default function PipelineBuilderScreen() {
                     </Text>
                   </View>
 
-                  {runResults.results?.map((res: any, idx: number) => (
+                  {runResults.results?.map((res, idx) => (
                     <View
                       key={idx}
                       style={{
@@ -798,6 +525,10 @@ const createStyles = (colors: any, isDark: boolean) =>
       alignItems: "center",
       backgroundColor: colors.surface,
     },
+    stageColumn: {
+      gap: 6,
+      alignItems: "center",
+    },
     stepConnector: {
       width: 24,
       height: 2,
@@ -819,13 +550,6 @@ const createStyles = (colors: any, isDark: boolean) =>
     input: {
       backgroundColor: colors.background,
     },
-    stepBuilderCard: {
-      backgroundColor: isDark ? "rgba(255,255,255,0.03)" : "rgba(0,0,0,0.03)",
-      padding: 12,
-      borderRadius: 8,
-      borderWidth: 1,
-      borderColor: colors.border,
-    },
     codeOutput: {
       fontFamily: "monospace",
       fontSize: 10,
@@ -0,0 +1,598 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import {
+  Text,
+  ActivityIndicator,
+  Button,
+  Card,
+  Chip,
+  TextInput,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import * as Haptics from "expo-haptics";
+import {
+  approvalsApi,
+  ApprovalDecision,
+  getErrorMessage,
+  PipelineRun,
+  PipelineStepLog,
+  pipelinesApi,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import { useRoom, useSocketEvent } from "../../hooks/useRealtime";
+import DeployLogViewer from "../../components/DeployLogViewer";
+import { elapsedMs, formatDuration } from "../../utils/duration";
+import {
+  RUN_TRIGGER_ICONS,
+  STEP_STATUS_ICONS,
+  STEP_TYPE_ICONS,
+  StepRef,
+  focusStep,
+  isRunActive,
+  patchRunStep,
+  runStatusColor,
+  runStep,
+  stepKey,
+} from "../../utils/pipelines";
+
+export default function PipelineRunScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { t, i18n } = useTranslation();
+  const { colors, isDark } = useAppTheme();
+  const styles = createStyles(colors, isDark);
+
+  const [run, setRun] = useState<PipelineRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [selected, setSelected] = useState<StepRef | null>(null);
+  // Once the user taps a step we stop jumping to whatever runs next
+  const [pinned, setPinned] = useState(false);
+  const [logs, setLogs] = useState<Record<string, PipelineStepLog[]>>({});
+  const [logsLoading, setLogsLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const fetchRun = useCallback(async () => {
+    if (!id) return;
+    try {
+      const data = await pipelinesApi.getRun(id);
+      setRun(data);
+      setSelected((prev) => prev || focusStep(data));
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("common.failedLoad")),
+      );
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    fetchRun();
+  }, [fetchRun]);
+
+  const fetchLogs = useCallback(
+    async (ref: StepRef) => {
+      if (!id) return;
+      setLogsLoading(true);
+      try {
+        const entries = await pipelinesApi.stepLogs(id, ref.stage, ref.step);
+        setLogs((prev) => ({ ...prev, [stepKey(ref)]: entries }));
+      } catch {
+        // Steps that haven't started have no log yet
+      } finally {
+        setLogsLoading(false);
+      }
+    },
+    [id],
+  );
+
+  useEffect(() => {
+    if (selected) fetchLogs(selected);
+  }, [selected, fetchLogs]);
+
+  // Tick running durations
+  const active = !!run && isRunActive(run.status);
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  useRoom("pipelineRun", id);
+
+  useSocketEvent("pipeline:run", (data) => {
+    if (data.runId !== id) return;
+    setRun((prev) => (prev ? { ...prev, status: data.status } : prev));
+    if (!isRunActive(data.status)) {
+      Haptics.notificationAsync(
+        data.status === "success"
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error,
+      );
+      // Pick up finishedAt and anything the events didn't carry
+      fetchRun();
+    }
+  });
+
+  useSocketEvent("pipeline:step", (data) => {
+    if (data.runId !== id) return;
+    const { runId, stage, step, ...patch } = data;
+    const ref = { stage, step };
+    setRun((prev) => (prev ? patchRunStep(prev, ref, patch) : prev));
+    if (
+      !pinned &&
+      (patch.status === "running" || patch.status === "waiting_approval")
+    ) {
+      setSelected(ref);
+    }
+    if (patch.status === "failed") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  });
+
+  useSocketEvent("pipeline:log", (data) => {
+    if (data.runId !== id) return;
+    const key = stepKey(data);
+    const entry: PipelineStepLog = {
+      log: data.log,
+      type: data.type || "info",
+      timestamp: data.timestamp || new Date().toISOString(),
+    };
+    setLogs((prev) => ({ ...prev, [key]: [...(prev[key] || []), entry] }));
+  });
+
+  const selectStep = (ref: StepRef) => {
+    Haptics.selectionAsync();
+    setPinned(true);
+    setComment("");
+    setSelected(ref);
+  };
+
+  const handleRetry = async (ref: StepRef) => {
+    if (!id) return;
+    setBusy("retry");
+    try {
+      const updated = await pipelinesApi.retryStep(id, ref.stage, ref.step);
+      if (updated?.stages) setRun(updated);
+      // The retried attempt streams a fresh log
+      setLogs((prev) => ({ ...prev, [stepKey(ref)]: [] }));
+      setPinned(false);
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("pipelineRun.retryFailed")),
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApproval = async (
+    ref: StepRef,
+    approvalId: string,
+    action: ApprovalDecision,
+  ) => {
+    setBusy(action);
+    try {
+      await approvalsApi.review(approvalId, action, comment.trim());
+      setComment("");
+      setRun((prev) =>
+        prev
+          ? patchRunStep(prev, ref, {
+              status: action === "approve" ? "running" : "failed",
+            })
+          : prev,
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!id) return;
+    Alert.alert(t("pipelineRun.cancelTitle"), t("pipelineRun.cancelMessage"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("pipelineRun.cancelRun"),
+        style: "destructive",
+        onPress: async () => {
+          setBusy("cancel");
+          try {
+            const updated = await pipelinesApi.cancelRun(id);
+            if (updated?.stages) setRun(updated);
+            else fetchRun();
+          } catch (err) {
+            Alert.alert(
+              t("common.error"),
+              getErrorMessage(err, t("common.failed")),
+            );
+          } finally {
+            setBusy(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!run) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: t("pipelineRun.title") }} />
+        <Text style={styles.muted}>{t("pipelineRun.notFound")}</Text>
+      </View>
+    );
+  }
+
+  const runColor = runStatusColor(run.status, colors);
+  const runDuration = elapsedMs(run, now);
+  const step = selected ? runStep(run, selected) : undefined;
+  const stepLogs = selected ? logs[stepKey(selected)] || [] : [];
+  const stepDuration = step ? elapsedMs(step, now) : null;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{ title: run.pipeline?.name || t("pipelineRun.title") }}
+      />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              fetchRun();
+              if (selected) fetchLogs(selected);
+            }}
+          />
+        }
+      >
+        {/* Summary */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.summaryRow}>
+              <Chip
+                compact
+                style={{ backgroundColor: runColor + "20" }}
+                textStyle={{ color: runColor, fontWeight: "bold" }}
+              >
+                {t(`pipelineRun.status_${run.status}`)}
+              </Chip>
+              {runDuration !== null && (
+                <Text style={styles.muted}>{formatDuration(runDuration)}</Text>
+              )}
+              <View style={{ flex: 1 }} />
+              {active && (
+                <Button
+                  compact
+                  icon="stop-circle-outline"
+                  textColor={colors.error}
+                  onPress={handleCancel}
+                  loading={busy === "cancel"}
+                  disabled={!!busy}
+                >
+                  {t("pipelineRun.cancelRun")}
+                </Button>
+              )}
+            </View>
+            <View style={styles.metaRow}>
+              <MaterialCommunityIcons
+                name={RUN_TRIGGER_ICONS[run.trigger] as any}
+                size={14}
+                color={colors.textSecondary}
+              />
+              <Text style={styles.meta}>
+                {t(`pipelineRun.trigger_${run.trigger}`)}
+                {run.triggeredBy ? ` · ${run.triggeredBy.username}` : ""}
+                {" · "}
+                {formatDistanceToNow(new Date(run.startedAt || run.createdAt), {
+                  addSuffix: true,
+                  locale: i18n.language === "vi" ? vi : undefined,
+                })}
+              </Text>
+            </View>
+            {(run.branch || run.environment || run.commitHash) && (
+              <View style={styles.metaRow}>
+                <MaterialCommunityIcons
+                  name="source-branch"
+                  size={14}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.meta}>
+                  {[
+                    run.branch,
+                    run.environment,
+                    run.commitHash?.substring(0, 7),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </Text>
+              </View>
+            )}
+          </Card.Content>
+        </Card>
+
+        {/* Step graph: stages left to right, parallel steps stacked */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.graph}
+        >
+          {run.stages.map((stage, stageIdx) => (
+            <View key={stageIdx} style={styles.graphStage}>
+              {stageIdx > 0 && (
+                <MaterialCommunityIcons
+                  name="chevron-right"
+                  size={20}
+                  color={colors.textSecondary}
+                  style={{ alignSelf: "center" }}
+                />
+              )}
+              <View style={styles.stageColumn}>
+                <Text style={styles.stageTitle} numberOfLines={1}>
+                  {stage.name}
+                </Text>
+                {stage.steps.map((s, stepIdx) => {
+                  const color = runStatusColor(s.status, colors);
+                  const isSelected =
+                    selected?.stage === stageIdx && selected?.step === stepIdx;
+                  const duration = elapsedMs(s, now);
+                  return (
+                    <Pressable
+                      key={stepIdx}
+                      onPress={() =>
+                        selectStep({ stage: stageIdx, step: stepIdx })
+                      }
+                      style={[
+                        styles.node,
+                        { borderColor: isSelected ? color : colors.border },
+                        isSelected && { backgroundColor: color + "15" },
+                      ]}
+                    >
+                      {s.status === "running" ? (
+                        <ActivityIndicator size={14} color={color} />
+                      ) : (
+                        <MaterialCommunityIcons
+                          name={STEP_STATUS_ICONS[s.status] as any}
+                          size={16}
+                          color={color}
+                        />
+                      )}
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.nodeName} numberOfLines={1}>
+                          {s.name}
+                        </Text>
+                        <Text style={styles.nodeMeta} numberOfLines={1}>
+                          {duration !== null
+                            ? formatDuration(duration)
+                            : t(`pipelineRun.step_${s.status}`)}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+
+        {/* Selected step */}
+        {step && selected && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <View style={styles.summaryRow}>
+                <MaterialCommunityIcons
+                  name={(STEP_TYPE_ICONS[step.type] || "cog") as any}
+                  size={20}
+                  color={colors.text}
+                />
+                <Text style={styles.stepTitle} numberOfLines={1}>
+                  {step.name}
+                </Text>
+                <Chip
+                  compact
+                  style={{
+                    backgroundColor: runStatusColor(step.status, colors) + "20",
+                  }}
+                  textStyle={{
+                    color: runStatusColor(step.status, colors),
+                    fontSize: 11,
+                  }}
+                >
+                  {t(`pipelineRun.step_${step.status}`)}
+                </Chip>
+              </View>
+              <Text style={styles.meta}>
+                {[
+                  run.stages[selected.stage]?.name,
+                  stepDuration !== null ? formatDuration(stepDuration) : null,
+                  step.attempts && step.attempts > 1
+                    ? t("pipelineRun.attempt", { count: step.attempts })
+                    : null,
+                  step.exitCode !== undefined && step.exitCode !== null
+                    ? t("pipelineRun.exitCode", { code: step.exitCode })
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+              {step.skipReason && (
+                <Text style={[styles.meta, { marginTop: 6 }]}>
+                  {t("pipelineRun.skipped", { reason: step.skipReason })}
+                </Text>
+              )}
+              {step.error && <Text style={styles.error}>{step.error}</Text>}
+
+              {step.status === "waiting_approval" && step.approvalId && (
+                <View style={styles.approval}>
+                  <Text style={styles.approvalTitle}>
+                    {t("pipelineRun.approvalNeeded")}
+                  </Text>
+                  <TextInput
+                    mode="outlined"
+                    dense
+                    placeholder={t("pipelineRun.approvalComment")}
+                    value={comment}
+                    onChangeText={setComment}
+                    style={{ backgroundColor: colors.background }}
+                  />
+                  <View style={styles.actions}>
+                    <Button
+                      mode="outlined"
+                      icon="close"
+                      textColor={colors.error}
+                      onPress={() =>
+                        handleApproval(selected, step.approvalId!, "reject")
+                      }
+                      loading={busy === "reject"}
+                      disabled={!!busy}
+                      style={{ flex: 1 }}
+                    >
+                      {t("pipelineRun.reject")}
+                    </Button>
+                    <Button
+                      mode="contained"
+                      icon="check"
+                      buttonColor={colors.success}
+                      onPress={() =>
+                        handleApproval(selected, step.approvalId!, "approve")
+                      }
+                      loading={busy === "approve"}
+                      disabled={!!busy}
+                      style={{ flex: 1 }}
+                    >
+                      {t("pipelineRun.approve")}
+                    </Button>
+                  </View>
+                </View>
+              )}
+
+              {step.status === "failed" && (
+                <Button
+                  mode="contained-tonal"
+                  icon="replay"
+                  onPress={() => handleRetry(selected)}
+                  loading={busy === "retry"}
+                  disabled={!!busy}
+                  style={{ marginTop: 12, borderRadius: 8 }}
+                >
+                  {t("pipelineRun.retryStep")}
+                </Button>
+              )}
+            </Card.Content>
+          </Card>
+        )}
+
+        {step && (
+          <View style={styles.logs}>
+            {logsLoading && stepLogs.length === 0 ? (
+              <ActivityIndicator style={{ marginVertical: 24 }} />
+            ) : stepLogs.length === 0 ? (
+              <Text style={[styles.muted, { padding: 16 }]}>
+                {step.status === "pending" || step.status === "skipped"
+                  ? t("pipelineRun.noLogsYet")
+                  : t("pipelineRun.noLogs")}
+              </Text>
+            ) : (
+              <DeployLogViewer
+                entries={stepLogs}
+                streaming={step.status === "running"}
+                style={{ flex: 1 }}
+              />
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: any, isDark: boolean) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.background,
+    },
+    content: { padding: 16, paddingBottom: 40, gap: 12 },
+    card: { backgroundColor: colors.surface, borderRadius: 12 },
+    summaryRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+    metaRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      marginTop: 8,
+    },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    muted: { color: colors.textSecondary, textAlign: "center" },
+    graph: { paddingVertical: 4, gap: 4 },
+    graphStage: { flexDirection: "row", gap: 4 },
+    stageColumn: { width: 160, gap: 6 },
+    stageTitle: {
+      fontSize: 11,
+      fontWeight: "bold",
+      color: colors.textSecondary,
+      textTransform: "uppercase",
+    },
+    node: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      padding: 10,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      backgroundColor: colors.surface,
+    },
+    nodeName: { fontSize: 13, fontWeight: "600", color: colors.text },
+    nodeMeta: { fontSize: 11, color: colors.textSecondary, marginTop: 2 },
+    stepTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: "bold",
+      color: colors.text,
+    },
+    error: { color: colors.error, fontSize: 12, marginTop: 8 },
+    approval: {
+      marginTop: 12,
+      padding: 12,
+      gap: 8,
+      borderRadius: 8,
+      backgroundColor: colors.warning + "15",
+    },
+    approvalTitle: { fontWeight: "bold", color: colors.text },
+    actions: { flexDirection: "row", gap: 8 },
+    logs: {
+      height: 420,
+      borderRadius: 12,
+      overflow: "hidden",
+      backgroundColor: isDark ? "#0d1117" : "#161b22",
+    },
+  });
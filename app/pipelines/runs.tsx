@@ -0,0 +1,252 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+} from "react-native";
+import { Text, ActivityIndicator, Chip } from "react-native-paper";
+import {
+  Stack,
+  useFocusEffect,
+  useLocalSearchParams,
+  useRouter,
+} from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import {
+  getErrorMessage,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineRunTrigger,
+  pipelinesApi,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import { elapsedMs, formatDuration } from "../../utils/duration";
+import {
+  RUN_STATUSES,
+  RUN_TRIGGERS,
+  RUN_TRIGGER_ICONS,
+  runStatusColor,
+} from "../../utils/pipelines";
+
+export default function PipelineRunsScreen() {
+  const { pipelineId, name } = useLocalSearchParams<{
+    pipelineId: string;
+    name?: string;
+  }>();
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+
+  const [runs, setRuns] = useState<PipelineRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<PipelineRunStatus | null>(null);
+  const [trigger, setTrigger] = useState<PipelineRunTrigger | null>(null);
+
+  const load = useCallback(async () => {
+    if (!pipelineId) return;
+    try {
+      setRuns(
+        await pipelinesApi.runs(pipelineId, {
+          status: status || undefined,
+          trigger: trigger || undefined,
+          limit: 50,
+        }),
+      );
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("common.failedLoad")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [pipelineId, status, trigger, t]);
+
+  // Also reloads when a filter changes, and after returning from a run
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load]),
+  );
+
+  const renderRun = ({ item }: { item: PipelineRun }) => {
+    const color = runStatusColor(item.status, colors);
+    const duration = elapsedMs(item);
+    const steps = item.stages.flatMap((stage) => stage.steps);
+    const failed = steps.filter((s) => s.status === "failed").length;
+    return (
+      <Pressable
+        style={styles.row}
+        onPress={() => router.push(`/pipelines/run?id=${item._id}`)}
+      >
+        <View style={[styles.statusBar, { backgroundColor: color }]} />
+        <View style={{ flex: 1 }}>
+          <View style={styles.rowHeader}>
+            <Text style={[styles.status, { color }]}>
+              {t(`pipelineRun.status_${item.status}`)}
+            </Text>
+            <Text style={styles.meta}>
+              {format(new Date(item.startedAt || item.createdAt), "PP p", {
+                locale: i18n.language === "vi" ? vi : undefined,
+              })}
+            </Text>
+          </View>
+          <View style={styles.rowMeta}>
+            <MaterialCommunityIcons
+              name={RUN_TRIGGER_ICONS[item.trigger] as any}
+              size={13}
+              color={colors.textSecondary}
+            />
+            <Text style={styles.meta} numberOfLines={1}>
+              {[
+                t(`pipelineRun.trigger_${item.trigger}`),
+                item.triggeredBy?.username,
+                item.branch,
+                duration !== null ? formatDuration(duration) : null,
+                failed ? t("pipelineRun.failedSteps", { count: failed }) : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          </View>
+        </View>
+        <MaterialCommunityIcons
+          name="chevron-right"
+          size={20}
+          color={colors.textSecondary}
+        />
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: name || t("pipelineRun.history") }} />
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.chips}>
+            <Chip
+              compact
+              selected={status === null}
+              onPress={() => setStatus(null)}
+            >
+              {t("pipelineRun.allStatuses")}
+            </Chip>
+            {RUN_STATUSES.map((s) => (
+              <Chip
+                key={s}
+                compact
+                selected={status === s}
+                onPress={() => setStatus(status === s ? null : s)}
+              >
+                {t(`pipelineRun.status_${s}`)}
+              </Chip>
+            ))}
+          </View>
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.chips}>
+            <Chip
+              compact
+              selected={trigger === null}
+              onPress={() => setTrigger(null)}
+            >
+              {t("pipelineRun.allTriggers")}
+            </Chip>
+            {RUN_TRIGGERS.map((tr) => (
+              <Chip
+                key={tr}
+                compact
+                icon={RUN_TRIGGER_ICONS[tr]}
+                selected={trigger === tr}
+                onPress={() => setTrigger(trigger === tr ? null : tr)}
+              >
+                {t(`pipelineRun.trigger_${tr}`)}
+              </Chip>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={runs}
+          keyExtractor={(item) => item._id}
+          renderItem={renderRun}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                load();
+              }}
+            />
+          }
+          ListEmptyComponent={
+            <Text style={styles.empty}>
+              {error ||
+                (status || trigger
+                  ? t("pipelineRun.noMatchingRuns")
+                  : t("pipelineRun.noRuns"))}
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    centered: { flex: 1, justifyContent: "center", alignItems: "center" },
+    filters: {
+      gap: 8,
+      paddingVertical: 10,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    chips: { flexDirection: "row", gap: 6, paddingHorizontal: 16 },
+    list: { padding: 16, gap: 8 },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      padding: 12,
+      borderRadius: 10,
+      backgroundColor: colors.surface,
+    },
+    statusBar: { width: 4, alignSelf: "stretch", borderRadius: 2 },
+    rowHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    status: { fontWeight: "bold", fontSize: 14 },
+    rowMeta: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+      marginTop: 4,
+    },
+    meta: { fontSize: 12, color: colors.textSecondary, flexShrink: 1 },
+    empty: {
+      textAlign: "center",
+      color: colors.textSecondary,
+      marginTop: 40,
+    },
+  });
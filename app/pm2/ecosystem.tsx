@@ -0,0 +1,955 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Platform,
+  Alert,
+  Pressable,
+} from "react-native";
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  IconButton,
+  SegmentedButtons,
+  TextInput,
+  HelperText,
+  Switch,
+  Chip,
+  Menu,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import {
+  getErrorMessage,
+  pm2Api,
+  PM2Ecosystem,
+  PM2EcosystemFile,
+  PM2Process,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import InputDialog from "../../components/InputDialog";
+import {
+  appToDraft,
+  draftToApp,
+  EcosystemAppDraft,
+  EcosystemDriftKind,
+  ecosystemDrift,
+  ecosystemEnvironments,
+  isScriptEcosystem,
+  newAppDraft,
+  serializeEcosystem,
+  validateApps,
+} from "../../utils/pm2";
+
+type Tab = "apps" | "drift" | "source";
+
+const DRIFT_ICONS: Record<EcosystemDriftKind, string> = {
+  missing: "help-circle-outline",
+  stopped: "stop-circle-outline",
+  instances: "numeric",
+  mode: "call-split",
+  script: "file-code-outline",
+};
+
+const baseName = (path: string) => path.split("/").pop() || path;
+
+export default function PM2EcosystemScreen() {
+  const { serverId, path } = useLocalSearchParams<{
+    serverId: string;
+    path?: string;
+  }>();
+  if (!serverId) return null;
+  return path ? (
+    <EcosystemEditor serverId={serverId} path={path} />
+  ) : (
+    <EcosystemFiles serverId={serverId} />
+  );
+}
+
+// ── File list ──
+
+function EcosystemFiles({ serverId }: { serverId: string }) {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [files, setFiles] = useState<PM2EcosystemFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pathDialogVisible, setPathDialogVisible] = useState(false);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      setFiles(await pm2Api.ecosystems(serverId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("ecosystem.scanFailed")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, t]);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles]);
+
+  const openFile = (filePath: string) =>
+    router.push({
+      pathname: "/pm2/ecosystem",
+      params: { serverId, path: filePath },
+    });
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: t("ecosystem.title"),
+          headerRight: () => (
+            <IconButton
+              icon="folder-open-outline"
+              iconColor={colors.primary}
+              onPress={() => setPathDialogVisible(true)}
+            />
+          ),
+        }}
+      />
+      {loading ? (
+        <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadFiles();
+              }}
+              tintColor={colors.primary}
+            />
+          }
+        >
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          {files.length === 0 && !error ? (
+            <View style={styles.empty}>
+              <MaterialCommunityIcons
+                name="file-search-outline"
+                size={56}
+                color={colors.textSecondary}
+              />
+              <Text style={styles.emptyText}>{t("ecosystem.noFiles")}</Text>
+              <Button
+                mode="outlined"
+                onPress={() => setPathDialogVisible(true)}
+                style={{ marginTop: 16 }}
+              >
+                {t("ecosystem.openPath")}
+              </Button>
+            </View>
+          ) : (
+            files.map((file) => (
+              <Card
+                key={file.path}
+                style={styles.card}
+                onPress={() => openFile(file.path)}
+              >
+                <Card.Content style={styles.fileRow}>
+                  <MaterialCommunityIcons
+                    name="file-cog-outline"
+                    size={24}
+                    color={colors.primary}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.fileName}>{baseName(file.path)}</Text>
+                    <Text style={styles.meta} numberOfLines={1}>
+                      {file.path}
+                    </Text>
+                    <Text style={styles.meta} numberOfLines={1}>
+                      {file.apps.length
+                        ? file.apps.join(", ")
+                        : t("ecosystem.notLoaded")}
+                    </Text>
+                  </View>
+                  <MaterialCommunityIcons
+                    name="chevron-right"
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                </Card.Content>
+              </Card>
+            ))
+          )}
+        </ScrollView>
+      )}
+      <InputDialog
+        visible={pathDialogVisible}
+        onDismiss={() => setPathDialogVisible(false)}
+        title={t("ecosystem.openPath")}
+        label={t("ecosystem.path")}
+        initialValue="/var/www/"
+        onConfirm={(value) => {
+          setPathDialogVisible(false);
+          if (value.trim()) openFile(value.trim());
+        }}
+      />
+    </View>
+  );
+}
+
+// ── Editor ──
+
+function EcosystemEditor({
+  serverId,
+  path,
+}: {
+  serverId: string;
+  path: string;
+}) {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const readOnly = isScriptEcosystem(path);
+
+  const [tab, setTab] = useState<Tab>("apps");
+  const [ecosystem, setEcosystem] = useState<PM2Ecosystem | null>(null);
+  const [drafts, setDrafts] = useState<EcosystemAppDraft[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [processes, setProcesses] = useState<PM2Process[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [applyMenuVisible, setApplyMenuVisible] = useState(false);
+
+  const [expanded, setExpanded] = useState<number | null>(0);
+  // Which environment block each app is showing, by app index
+  const [envIndex, setEnvIndex] = useState<Record<number, number>>({});
+  const [newEnvFor, setNewEnvFor] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [file, procs] = await Promise.all([
+        pm2Api.ecosystem(serverId, path),
+        pm2Api.processes(serverId).catch(() => []),
+      ]);
+      setEcosystem(file);
+      setDrafts(file.apps.map(appToDraft));
+      setProcesses(procs);
+      setDirty(false);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t("ecosystem.loadFailed")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, path, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const refreshProcesses = useCallback(async () => {
+    try {
+      setProcesses(await pm2Api.processes(serverId));
+    } catch {
+      // Drift keeps showing the last known state
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    const interval = setInterval(refreshProcesses, 10000);
+    return () => clearInterval(interval);
+  }, [refreshProcesses]);
+
+  const apps = useMemo(() => drafts.map(draftToApp), [drafts]);
+  const errors = useMemo(() => validateApps(drafts), [drafts]);
+  const content = useMemo(() => serializeEcosystem(apps, path), [apps, path]);
+  const environments = useMemo(() => ecosystemEnvironments(apps), [apps]);
+  // Drift is against the file as saved, which is what apply would start
+  const drift = useMemo(
+    () => (ecosystem ? ecosystemDrift(ecosystem.apps, processes) : []),
+    [ecosystem, processes],
+  );
+
+  const updateDraft = (
+    index: number,
+    fn: (draft: EcosystemAppDraft) => EcosystemAppDraft,
+  ) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? fn(d) : d)));
+    setDirty(true);
+  };
+
+  const updateEnvVars = (
+    appIndex: number,
+    env: number,
+    fn: (
+      vars: EcosystemAppDraft["envs"][number]["vars"],
+    ) => EcosystemAppDraft["envs"][number]["vars"],
+  ) =>
+    updateDraft(appIndex, (d) => ({
+      ...d,
+      envs: d.envs.map((e, i) => (i === env ? { ...e, vars: fn(e.vars) } : e)),
+    }));
+
+  const addApp = () => {
+    setDrafts((prev) => [...prev, newAppDraft(prev.length)]);
+    setExpanded(drafts.length);
+    setDirty(true);
+  };
+
+  const removeApp = (index: number) =>
+    Alert.alert(
+      t("ecosystem.removeApp"),
+      t("ecosystem.removeAppConfirm", { name: drafts[index].name }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("common.delete"),
+          style: "destructive",
+          onPress: () => {
+            setDrafts((prev) => prev.filter((_, i) => i !== index));
+            setExpanded(null);
+            setEnvIndex({});
+            setDirty(true);
+          },
+        },
+      ],
+    );
+
+  const save = async () => {
+    await pm2Api.saveEcosystem(serverId, path, content);
+    // Reload so drift and the source view reflect what the server now has
+    const file = await pm2Api.ecosystem(serverId, path);
+    setEcosystem(file);
+    setDrafts(file.apps.map(appToDraft));
+    setDirty(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await save();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      Alert.alert(
+        t("common.error"),
+        getErrorMessage(err, t("ecosystem.saveFailed")),
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = (env?: string) => {
+    setApplyMenuVisible(false);
+    Alert.alert(
+      t("ecosystem.applyTitle"),
+      t(dirty ? "ecosystem.applyConfirmDirty" : "ecosystem.applyConfirm", {
+        env: env || t("ecosystem.defaultEnv"),
+      }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("ecosystem.apply"),
+          onPress: async () => {
+            setApplying(true);
+            try {
+              if (dirty) await save();
+              const result = await pm2Api.applyEcosystem(serverId, {
+                path,
+                env,
+              });
+              if (result.success) {
+                Haptics.notificationAsync(
+                  Haptics.NotificationFeedbackType.Success,
+                );
+                Alert.alert(
+                  t("common.success"),
+                  result.output || t("ecosystem.applied"),
+                );
+              } else {
+                Alert.alert(
+                  t("common.error"),
+                  result.output || t("ecosystem.applyFailed"),
+                );
+              }
+              refreshProcesses();
+            } catch (err) {
+              Alert.alert(
+                t("common.error"),
+                getErrorMessage(err, t("ecosystem.applyFailed")),
+              );
+            } finally {
+              setApplying(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const driftMessage = (kind: EcosystemDriftKind, item: (typeof drift)[0]) =>
+    t(`ecosystem.drift.${kind}`, {
+      expected: item.expected,
+      actual: item.actual,
+    });
+
+  const renderField = (
+    index: number,
+    label: string,
+    key: "name" | "script" | "cwd" | "args" | "interpreter",
+    placeholder?: string,
+  ) => (
+    <TextInput
+      label={label}
+      value={drafts[index][key]}
+      onChangeText={(text) =>
+        updateDraft(index, (d) => ({ ...d, [key]: text }))
+      }
+      mode="outlined"
+      dense
+      placeholder={placeholder}
+      autoCapitalize="none"
+      autoCorrect={false}
+      style={styles.input}
+    />
+  );
+
+  const renderEnvs = (index: number) => {
+    const draft = drafts[index];
+    const selected = Math.min(envIndex[index] || 0, draft.envs.length - 1);
+    const env = draft.envs[selected];
+    return (
+      <View style={styles.envSection}>
+        <Text style={styles.label}>{t("ecosystem.environments")}</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.envChips}>
+            {draft.envs.map((e, i) => (
+              <Chip
+                key={`${e.name}-${i}`}
+                compact
+                selected={i === selected}
+                onPress={() => setEnvIndex({ ...envIndex, [index]: i })}
+                onClose={
+                  e.name
+                    ? () => {
+                        updateDraft(index, (d) => ({
+                          ...d,
+                          envs: d.envs.filter((_, k) => k !== i),
+                        }));
+                        setEnvIndex({ ...envIndex, [index]: 0 });
+                      }
+                    : undefined
+                }
+              >
+                {e.name || t("ecosystem.defaultEnv")}
+              </Chip>
+            ))}
+            <Chip compact icon="plus" onPress={() => setNewEnvFor(index)}>
+              {t("ecosystem.addEnv")}
+            </Chip>
+          </View>
+        </ScrollView>
+        {env.vars.map((v, i) => (
+          <View key={i} style={styles.varRow}>
+            <TextInput
+              value={v.key}
+              placeholder="KEY"
+              onChangeText={(text) =>
+                updateEnvVars(index, selected, (vars) =>
+                  vars.map((x, k) => (k === i ? { ...x, key: text } : x)),
+                )
+              }
+              mode="outlined"
+              dense
+              autoCapitalize="characters"
+              autoCorrect={false}
+              style={[styles.input, { flex: 1 }]}
+            />
+            <TextInput
+              value={v.value}
+              placeholder="value"
+              onChangeText={(text) =>
+                updateEnvVars(index, selected, (vars) =>
+                  vars.map((x, k) => (k === i ? { ...x, value: text } : x)),
+                )
+              }
+              mode="outlined"
+              dense
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[styles.input, { flex: 1.4 }]}
+            />
+            <IconButton
+              icon="close"
+              size={18}
+              onPress={() =>
+                updateEnvVars(index, selected, (vars) =>
+                  vars.filter((_, k) => k !== i),
+                )
+              }
+            />
+          </View>
+        ))}
+        <Button
+          icon="plus"
+          compact
+          onPress={() =>
+            updateEnvVars(index, selected, (vars) => [
+              ...vars,
+              { key: "", value: "" },
+            ])
+          }
+          style={{ alignSelf: "flex-start" }}
+        >
+          {t("ecosystem.addVar")}
+        </Button>
+      </View>
+    );
+  };
+
+  const renderApp = (draft: EcosystemAppDraft, index: number) => {
+    const open = expanded === index;
+    const appDrift = drift.filter((d) => d.app === draft.name);
+    return (
+      <Card key={index} style={styles.card}>
+        <Pressable
+          style={styles.appHeader}
+          onPress={() => setExpanded(open ? null : index)}
+        >
+          <MaterialCommunityIcons
+            name={draft.execMode === "cluster" ? "sitemap" : "application"}
+            size={20}
+            color={colors.primary}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.fileName}>
+              {draft.name || t("ecosystem.unnamed")}
+            </Text>
+            <Text style={styles.meta} numberOfLines={1}>
+              {[
+                draft.script,
+                `${draft.execMode} × ${draft.instances || 1}`,
+                draft.maxMemoryRestart && `≤ ${draft.maxMemoryRestart}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          </View>
+          {appDrift.length > 0 && (
+            <MaterialCommunityIcons
+              name="alert-circle-outline"
+              size={18}
+              color={colors.warning}
+            />
+          )}
+          <MaterialCommunityIcons
+            name={open ? "chevron-up" : "chevron-down"}
+            size={20}
+            color={colors.textSecondary}
+          />
+        </Pressable>
+        {open && (
+          <Card.Content pointerEvents={readOnly ? "none" : "auto"}>
+            {renderField(index, t("ecosystem.name"), "name")}
+            {renderField(
+              index,
+              t("ecosystem.script"),
+              "script",
+              "dist/server.js",
+            )}
+            {renderField(index, t("ecosystem.cwd"), "cwd", "/var/www/app")}
+            {renderField(index, t("ecosystem.args"), "args")}
+            {renderField(
+              index,
+              t("ecosystem.interpreter"),
+              "interpreter",
+              "node",
+            )}
+            <Text style={styles.label}>{t("ecosystem.execMode")}</Text>
+            <SegmentedButtons
+              value={draft.execMode}
+              onValueChange={(value) =>
+                updateDraft(index, (d) => ({
+                  ...d,
+                  execMode: value as EcosystemAppDraft["execMode"],
+                }))
+              }
+              buttons={[
+                { value: "fork", label: "fork" },
+                { value: "cluster", label: "cluster" },
+              ]}
+              style={{ marginBottom: 8 }}
+            />
+            <View style={styles.varRow}>
+              <TextInput
+                label={t("ecosystem.instances")}
+                value={draft.instances}
+                onChangeText={(text) =>
+                  updateDraft(index, (d) => ({ ...d, instances: text }))
+                }
+                mode="outlined"
+                dense
+                placeholder="1 / max"
+                autoCapitalize="none"
+                style={[styles.input, { flex: 1 }]}
+              />
+              <TextInput
+                label={t("ecosystem.maxMemory")}
+                value={draft.maxMemoryRestart}
+                onChangeText={(text) =>
+                  updateDraft(index, (d) => ({ ...d, maxMemoryRestart: text }))
+                }
+                mode="outlined"
+                dense
+                placeholder="500M"
+                autoCapitalize="characters"
+                style={[styles.input, { flex: 1 }]}
+              />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={styles.label}>{t("ecosystem.watch")}</Text>
+              <Switch
+                value={draft.watch}
+                onValueChange={(watch) =>
+                  updateDraft(index, (d) => ({ ...d, watch }))
+                }
+              />
+            </View>
+            {renderEnvs(index)}
+            {Object.keys(draft.extra).length > 0 && (
+              <HelperText type="info" visible>
+                {t("ecosystem.extraKeys", {
+                  keys: Object.keys(draft.extra).join(", "),
+                })}
+              </HelperText>
+            )}
+            <Button
+              icon="delete-outline"
+              textColor={colors.error}
+              onPress={() => removeApp(index)}
+              style={{ alignSelf: "flex-end" }}
+            >
+              {t("ecosystem.removeApp")}
+            </Button>
+          </Card.Content>
+        )}
+      </Card>
+    );
+  };
+
+  const renderDrift = () => {
+    if (!ecosystem) return null;
+    return (
+      <>
+        {dirty && (
+          <HelperText type="info" visible>
+            {t("ecosystem.driftSavedOnly")}
+          </HelperText>
+        )}
+        {ecosystem.apps.map((app) => {
+          const items = drift.filter((d) => d.app === app.name);
+          return (
+            <Card key={app.name} style={styles.card}>
+              <Card.Content>
+                <View style={styles.driftHeader}>
+                  <MaterialCommunityIcons
+                    name={items.length ? "alert-circle" : "check-circle"}
+                    size={18}
+                    color={items.length ? colors.warning : colors.success}
+                  />
+                  <Text style={styles.fileName}>{app.name}</Text>
+                </View>
+                {items.length === 0 ? (
+                  <Text style={styles.meta}>{t("ecosystem.inSync")}</Text>
+                ) : (
+                  items.map((item) => (
+                    <View key={item.kind} style={styles.driftRow}>
+                      <MaterialCommunityIcons
+                        name={DRIFT_ICONS[item.kind] as any}
+                        size={14}
+                        color={colors.textSecondary}
+                      />
+                      <Text style={[styles.meta, { flex: 1 }]}>
+                        {driftMessage(item.kind, item)}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+          );
+        })}
+      </>
+    );
+  };
+
+  const renderSource = () => (
+    <>
+      <HelperText type="info" visible>
+        {dirty ? t("ecosystem.sourcePending") : t("ecosystem.sourceSaved")}
+      </HelperText>
+      <View style={styles.codeBox}>
+        <ScrollView horizontal>
+          <Text style={styles.code} selectable>
+            {dirty ? content : ecosystem?.content}
+          </Text>
+        </ScrollView>
+      </View>
+    </>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: baseName(path) }} />
+        <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: baseName(path) }} />
+      <View style={styles.tabs}>
+        <SegmentedButtons
+          value={tab}
+          onValueChange={(value) => setTab(value as Tab)}
+          buttons={[
+            { value: "apps", label: t("ecosystem.apps") },
+            {
+              value: "drift",
+              label: drift.length
+                ? t("ecosystem.driftCount", { count: drift.length })
+                : t("ecosystem.driftTab"),
+            },
+            { value: "source", label: t("ecosystem.source") },
+          ]}
+        />
+      </View>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              if (dirty) {
+                setRefreshing(false);
+                refreshProcesses();
+                return;
+              }
+              setRefreshing(true);
+              load();
+            }}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        <Text style={styles.meta} numberOfLines={1}>
+          {path}
+        </Text>
+        {readOnly && (
+          <View style={styles.notice}>
+            <MaterialCommunityIcons
+              name="lock-outline"
+              size={16}
+              color={colors.warning}
+            />
+            <Text style={styles.noticeText}>
+              {t("ecosystem.scriptReadOnly")}
+            </Text>
+          </View>
+        )}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {tab === "apps" && (
+          <>
+            {errors.map((message) => (
+              <HelperText key={message} type="error" visible>
+                {message}
+              </HelperText>
+            ))}
+            {drafts.map(renderApp)}
+            {!readOnly && (
+              <Button mode="outlined" icon="plus" onPress={addApp}>
+                {t("ecosystem.addApp")}
+              </Button>
+            )}
+          </>
+        )}
+        {tab === "drift" && renderDrift()}
+        {tab === "source" && renderSource()}
+      </ScrollView>
+      <View style={styles.footer}>
+        <Button
+          mode="outlined"
+          icon="content-save-outline"
+          onPress={handleSave}
+          loading={saving}
+          disabled={
+            readOnly || !dirty || saving || applying || errors.length > 0
+          }
+          style={{ flex: 1 }}
+        >
+          {t("common.save")}
+        </Button>
+        <Menu
+          visible={applyMenuVisible}
+          onDismiss={() => setApplyMenuVisible(false)}
+          anchor={
+            <Button
+              mode="contained"
+              icon="rocket-launch-outline"
+              onPress={() =>
+                environments.length
+                  ? setApplyMenuVisible(true)
+                  : handleApply(undefined)
+              }
+              loading={applying}
+              disabled={
+                saving || applying || errors.length > 0 || !drafts.length
+              }
+            >
+              {t("ecosystem.apply")}
+            </Button>
+          }
+        >
+          <Menu.Item
+            onPress={() => handleApply(undefined)}
+            title={t("ecosystem.defaultEnv")}
+          />
+          {environments.map((env) => (
+            <Menu.Item
+              key={env}
+              onPress={() => handleApply(env)}
+              title={`--env ${env}`}
+            />
+          ))}
+        </Menu>
+      </View>
+      <InputDialog
+        visible={newEnvFor !== null}
+        onDismiss={() => setNewEnvFor(null)}
+        title={t("ecosystem.addEnv")}
+        label={t("ecosystem.envName")}
+        initialValue="production"
+        onConfirm={(value) => {
+          const name = value.trim();
+          if (newEnvFor !== null && name) {
+            const index = newEnvFor;
+            updateDraft(index, (d) => ({
+              ...d,
+              envs: [...d.envs, { name, vars: [] }],
+            }));
+            setEnvIndex({ ...envIndex, [index]: drafts[index].envs.length });
+          }
+          setNewEnvFor(null);
+        }}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    content: { padding: 12, paddingBottom: 40, gap: 4 },
+    tabs: {
+      padding: 12,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    empty: { alignItems: "center", padding: 40, marginTop: 20 },
+    emptyText: {
+      marginTop: 10,
+      color: colors.textSecondary,
+      fontSize: 15,
+      textAlign: "center",
+    },
+    errorText: { color: colors.error, marginVertical: 8 },
+    notice: {
+      flexDirection: "row",
+      alignItems: "flex-start",
+      gap: 8,
+      padding: 10,
+      marginVertical: 6,
+      borderRadius: 10,
+      backgroundColor: colors.warning + "1a",
+    },
+    noticeText: { flex: 1, fontSize: 12, color: colors.text },
+    fileRow: { flexDirection: "row", alignItems: "center", gap: 12 },
+    fileName: { fontSize: 15, fontWeight: "700", color: colors.text },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    label: {
+      fontSize: 12,
+      fontWeight: "600",
+      color: colors.textSecondary,
+      marginTop: 6,
+      marginBottom: 4,
+    },
+    appHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      padding: 14,
+    },
+    input: { backgroundColor: colors.surface, marginBottom: 8 },
+    varRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+    switchRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    envSection: { marginTop: 8 },
+    envChips: { flexDirection: "row", gap: 6, marginBottom: 8 },
+    driftHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      marginBottom: 4,
+    },
+    driftRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      paddingVertical: 2,
+    },
+    codeBox: {
+      borderRadius: 12,
+      padding: 12,
+      backgroundColor: "#0d1117",
+    },
+    code: {
+      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+      fontSize: 12,
+      lineHeight: 18,
+      color: "#e6edf3",
+    },
+    footer: {
+      flexDirection: "row",
+      gap: 12,
+      padding: 12,
+      backgroundColor: colors.surface,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+  });
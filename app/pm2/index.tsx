@@ -33,28 +33,24 @@ import {
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  ActionResult,
+  getErrorMessage,
+  pm2Api,
+  PM2BulkAction,
+  PM2Process,
+  PM2ProcessAction,
+} from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { useServer } from "../../contexts/ServerContext";
-
-interface PM2Process {
-  pm_id: number;
-  name: string;
-  status: string;
-  cpu: number;
-  memory: number;
-  uptime: number;
-  restarts: number;
-  mode: string;
-  pid: number;
-  interpreter: string;
-  script: string;
-  cwd: string;
-  watching: boolean;
-  instances: number;
-}
+import { runOrQueue } from "../../services/outbox";
+import {
+  activeRestartLoop,
+  RestartPoint,
+  trackRestarts,
+} from "../../utils/pm2";
 
 const statusColors: Record<string, string> = {
   online: "#22c55e",
@@ -121,12 +117,9 @@ export default function PM2ManagerScreen() {
   });
   const [startLoading, setStartLoading] = useState(false);
 
-  // Log Viewer
-  const [logVisible, setLogVisible] = useState(false);
-  const [logContent, setLogContent] = useState("");
-  const [logLoading, setLogLoading] = useState(false);
-  const [currentLogProc, setCurrentLogProc] = useState<string>("");
-  const [autoRefreshLogs, setAutoRefreshLogs] = useState(false);
+  // Restart counters from recent polls, to flag processes stuck restarting
+  const restartHistory = useRef<Record<number, RestartPoint[]>>({});
+  const [looping, setLooping] = useState<Set<number>>(new Set());
 
   // Menu visible state per process (using map for simplicity or single tracking)
   const [menuVisible, setMenuVisible] = useState<number | null>(null);
@@ -136,9 +129,21 @@ export default function PM2ManagerScreen() {
   const fetchProcesses = useCallback(async () => {
     if (!serverId) return;
     try {
-      const { data } = await api.get(`/pm2/${serverId}/processes`);
-      setProcesses(data);
-    } catch (err: any) {
+      const list = await pm2Api.processes(serverId);
+      setProcesses(list);
+      const now = Date.now();
+      const next = new Set<number>();
+      list.forEach((proc) => {
+        const points = trackRestarts(
+          restartHistory.current[proc.pm_id] || [],
+          proc.restarts,
+          now,
+        );
+        restartHistory.current[proc.pm_id] = points;
+        if (activeRestartLoop(points, now)) next.add(proc.pm_id);
+      });
+      setLooping(next);
+    } catch (err) {
       console.error(err);
       // alert only on manual refresh?
     } finally {
@@ -153,42 +158,36 @@ export default function PM2ManagerScreen() {
     return () => clearInterval(interval);
   }, [fetchProcesses]);
 
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (logVisible && autoRefreshLogs && currentLogProc) {
-      interval = setInterval(() => {
-        handleViewLogs(currentLogProc, false);
-      }, 3000);
-    }
-    return () => clearInterval(interval);
-  }, [logVisible, autoRefreshLogs, currentLogProc]);
-
-  const logScrollRef = useRef<ScrollView>(null);
-
-  useEffect(() => {
-    if (logVisible && logContent && logScrollRef.current) {
-      setTimeout(() => {
-        logScrollRef.current?.scrollToEnd({ animated: false });
-      }, 100);
-    }
-  }, [logVisible, logContent]);
-
   const onRefresh = () => {
     setRefreshing(true);
     fetchProcesses();
   };
 
-  const handleAction = async (
-    name: string,
-    action: "stop" | "restart" | "reload" | "delete",
-  ) => {
+  const handleAction = async (name: string, action: PM2ProcessAction) => {
     if (!serverId) return;
 
     const performAction = async () => {
       setActionLoading(`${name}-${action}`);
       setMenuVisible(null);
       try {
-        const { data } = await api.post(`/pm2/${serverId}/${name}/${action}`);
+        // Restarts are queued when offline; the other actions need a live answer
+        let data: ActionResult;
+        if (action === "restart") {
+          const result = await runOrQueue<ActionResult>(
+            { kind: "pm2-restart", serverId, name },
+            t("outbox.restartLabel", { name }),
+          );
+          if (result.queued) {
+            dialogRef.current?.show(
+              t("outbox.queuedTitle"),
+              t("outbox.queuedMessage"),
+            );
+            return;
+          }
+          data = result.data;
+        } else {
+          data = await pm2Api.processAction(serverId, name, action);
+        }
         if (data.success) {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
           fetchProcesses();
@@ -198,10 +197,10 @@ export default function PM2ManagerScreen() {
             data.output || t("pm2.actionFailed"),
           );
         }
-      } catch (err: any) {
+      } catch (err) {
         dialogRef.current?.show(
           t("common.error"),
-          err.response?.data?.message || t("pm2.actionFailed"),
+          getErrorMessage(err, t("pm2.actionFailed")),
         );
       } finally {
         setActionLoading(null);
@@ -226,13 +225,11 @@ export default function PM2ManagerScreen() {
     }
   };
 
-  const handleBulkAction = async (
-    action: "restart-all" | "stop-all" | "save" | "startup" | "flush",
-  ) => {
+  const handleBulkAction = async (action: PM2BulkAction) => {
     if (!serverId) return;
     setActionLoading(`bulk-${action}`);
     try {
-      const { data } = await api.post(`/pm2/${serverId}/${action}`);
+      const data = await pm2Api.bulkAction(serverId, action);
       if (data.success) {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         dialogRef.current?.show(
@@ -246,10 +243,10 @@ export default function PM2ManagerScreen() {
           data.output || t("pm2.actionFailed"),
         );
       }
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         t("common.error"),
-        err.response?.data?.message || t("pm2.actionFailed"),
+        getErrorMessage(err, t("pm2.actionFailed")),
       );
     } finally {
       setActionLoading(null);
@@ -260,7 +257,7 @@ export default function PM2ManagerScreen() {
     if (!serverId || !startForm.script.trim()) return;
     setStartLoading(true);
     try {
-      const { data } = await api.post(`/pm2/${serverId}/start`, {
+      const data = await pm2Api.start(serverId, {
         script: startForm.script,
         name: startForm.name || undefined,
         interpreter: startForm.interpreter || undefined,
@@ -290,37 +287,22 @@ export default function PM2ManagerScreen() {
           data.output || t("pm2.actionFailed"),
         );
       }
-    } catch (err: any) {
+    } catch (err) {
       dialogRef.current?.show(
         t("common.error"),
-        err.response?.data?.message || t("pm2.actionFailed"),
+        getErrorMessage(err, t("pm2.actionFailed")),
       );
     } finally {
       setStartLoading(false);
     }
   };
 
-  const handleViewLogs = async (name: string, showLoading = true) => {
-    if (!serverId) return;
-    if (name !== currentLogProc) {
-      setCurrentLogProc(name);
-      setLogContent("");
-    }
+  const openProcess = (name: string, tab: "logs" | "metrics") => {
     setMenuVisible(null);
-    if (!logVisible) setLogVisible(true);
-
-    if (showLoading) setLogLoading(true);
-    try {
-      // Fetch logs
-      const { data } = await api.get(`/pm2/${serverId}/${name}/logs?lines=200`);
-      setLogContent(data.out || data.err || "No logs available");
-    } catch (err: any) {
-      if (showLoading) {
-        setLogContent(err.response?.data?.message || t("deploy.noLogs"));
-      }
-    } finally {
-      if (showLoading) setLogLoading(false);
-    }
+    router.push({
+      pathname: "/pm2/process",
+      params: { serverId, name, tab },
+    });
   };
 
   // Helper to open bulk menu
@@ -392,6 +374,17 @@ export default function PM2ManagerScreen() {
                 title={t("pm2.generateStartup")}
                 leadingIcon="power"
               />
+              <Menu.Item
+                onPress={() => {
+                  setBulkMenuVisible(false);
+                  router.push({
+                    pathname: "/pm2/ecosystem",
+                    params: { serverId },
+                  });
+                }}
+                title={t("pm2.ecosystemFiles")}
+                leadingIcon="file-cog-outline"
+              />
             </Menu>
           ),
         }}
@@ -477,7 +470,11 @@ export default function PM2ManagerScreen() {
                 statusColors[proc.status] || statusColors.stopped;
 
               return (
-                <Card key={proc.pm_id} style={styles.card}>
+                <Card
+                  key={proc.pm_id}
+                  style={styles.card}
+                  onPress={() => openProcess(proc.name, "logs")}
+                >
                   <Card.Content>
                     <View style={styles.cardHeader}>
                       <View
@@ -506,6 +503,17 @@ export default function PM2ManagerScreen() {
                             ID: {proc.pm_id} • PID: {proc.pid} • {proc.mode}
                           </Text>
                         </View>
+                        {looping.has(proc.pm_id) && (
+                          <Chip
+                            compact
+                            icon="sync-alert"
+                            textStyle={{ color: colors.error, fontSize: 11 }}
+                            style={{ backgroundColor: colors.error + "1a" }}
+                            onPress={() => openProcess(proc.name, "metrics")}
+                          >
+                            {t("pm2.restartLoop")}
+                          </Chip>
+                        )}
                       </View>
 
                       <Menu
@@ -520,10 +528,15 @@ export default function PM2ManagerScreen() {
                         }
                       >
                         <Menu.Item
-                          onPress={() => handleViewLogs(proc.name)}
+                          onPress={() => openProcess(proc.name, "logs")}
                           title={t("pm2.viewLogs")}
                           leadingIcon="text-box-outline"
                         />
+                        <Menu.Item
+                          onPress={() => openProcess(proc.name, "metrics")}
+                          title={t("pm2.metricsHistory")}
+                          leadingIcon="chart-line"
+                        />
                         <Divider />
                         {proc.status === "online" ? (
                           <Menu.Item
@@ -761,74 +774,6 @@ export default function PM2ManagerScreen() {
         </SafeAreaView>
       </Modal>
 
-      {/* Logs Modal - Full Screen */}
-      <Modal
-        visible={logVisible}
-        onRequestClose={() => setLogVisible(false)}
-        animationType="slide"
-        presentationStyle="pageSheet"
-      >
-        <SafeAreaView style={{ flex: 1, backgroundColor: "#0d1117" }}>
-          <View style={styles.logHeader}>
-            <View style={{ flex: 1 }}>
-              <Text style={styles.logTitle}>{currentLogProc}</Text>
-              <Text style={{ fontSize: 11, color: "#8b949e" }}>
-                Showing last 200 lines
-              </Text>
-            </View>
-
-            <View
-              style={{ flexDirection: "row", alignItems: "center", gap: 8 }}
-            >
-              <View
-                style={{ flexDirection: "row", alignItems: "center", gap: 4 }}
-              >
-                <Text style={{ color: "#c9d1d9", fontSize: 12 }}>
-                  {t("pm2.autoRefresh")}
-                </Text>
-                <Switch
-                  value={autoRefreshLogs}
-                  onValueChange={setAutoRefreshLogs}
-                  color={colors.primary}
-                  style={{ transform: [{ scaleX: 0.8 }, { scaleY: 0.8 }] }}
-                />
-              </View>
-              <IconButton
-                icon="close"
-                iconColor="#fff"
-                size={20}
-                onPress={() => setLogVisible(false)}
-              />
-            </View>
-          </View>
-
-          {logLoading && !logContent ? (
-            <View style={styles.centered}>
-              <ActivityIndicator color="#fff" />
-            </View>
-          ) : (
-            <ScrollView style={styles.logScroll} ref={logScrollRef}>
-              <Text style={styles.logText}>
-                {logContent || "No logs found."}
-              </Text>
-              <View style={{ height: 40 }} />
-            </ScrollView>
-          )}
-
-          <View style={styles.logFooter}>
-            <Button
-              mode="contained"
-              buttonColor="#21262d"
-              textColor="#58a6ff"
-              onPress={() => handleViewLogs(currentLogProc, true)}
-              icon="refresh"
-              loading={logLoading}
-            >
-              {t("common.refresh")}
-            </Button>
-          </View>
-        </SafeAreaView>
-      </Modal>
       <CustomAlertDialog ref={dialogRef} />
     </>
   );
@@ -883,25 +828,4 @@ const createStyles = (colors: any) =>
       justifyContent: "center",
       alignItems: "center",
     },
-    logContainer: { flex: 1 },
-    logHeader: {
-      flexDirection: "row",
-      justifyContent: "space-between",
-      alignItems: "center",
-      padding: 16,
-      borderBottomWidth: 1,
-      borderBottomColor: "#30363d",
-    },
-    logTitle: { color: "#fff", fontSize: 16, fontWeight: "bold" },
-    logScroll: { flex: 1, padding: 16 },
-    logText: {
-      color: "#c9d1d9",
-      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
-      fontSize: 12,
-    },
-    logFooter: {
-      padding: 16,
-      borderTopWidth: 1,
-      borderTopColor: "#30363d",
-    },
   });
@@ -0,0 +1,612 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  FlatList,
+  RefreshControl,
+  Platform,
+} from "react-native";
+import {
+  Text,
+  Card,
+  ActivityIndicator,
+  IconButton,
+  SegmentedButtons,
+  Chip,
+} from "react-native-paper";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { format } from "date-fns";
+import {
+  getErrorMessage,
+  pm2Api,
+  PM2MetricSample,
+  PM2MetricsRange,
+  PM2Process,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import Sparkline from "../../components/Sparkline";
+import { useLogStream } from "../../hooks/useLogStream";
+import { formatBytes } from "../../utils/docker";
+import {
+  activeRestartLoop,
+  METRIC_RANGES,
+  RestartPoint,
+  restartIncrements,
+  restartLoops,
+  restartPoints,
+  trackRestarts,
+} from "../../utils/pm2";
+
+type Tab = "logs" | "metrics";
+type LogStream = "out" | "err";
+
+const PROCESS_INTERVAL = 5000;
+const LOG_TAIL = 200;
+const MAX_LOG_LINES = 500;
+const MONO = Platform.OS === "ios" ? "Menlo" : "monospace";
+
+const statusColor = (status: string | undefined, colors: any) =>
+  status === "online"
+    ? colors.success
+    : status === "launching" || status === "stopping"
+      ? colors.warning
+      : status === "errored"
+        ? colors.error
+        : colors.textSecondary;
+
+const splitLines = (text: string) => text.split("\n").filter(Boolean);
+
+export default function PM2ProcessScreen() {
+  const {
+    serverId,
+    name,
+    tab: initialTab,
+  } = useLocalSearchParams<{
+    serverId: string;
+    name: string;
+    tab?: Tab;
+  }>();
+  const { t } = useTranslation();
+  const { colors, isDark } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors, isDark), [colors, isDark]);
+
+  const [tab, setTab] = useState<Tab>(initialTab || "logs");
+  const [processes, setProcesses] = useState<PM2Process[]>([]);
+  // Restart counters seen while the screen is open, for the loop banner
+  const [livePoints, setLivePoints] = useState<RestartPoint[]>([]);
+
+  const [logs, setLogs] = useState<Record<LogStream, string[]>>({
+    out: [],
+    err: [],
+  });
+  const [stream, setStream] = useState<LogStream>("out");
+  const [unseen, setUnseen] = useState<Record<LogStream, number>>({
+    out: 0,
+    err: 0,
+  });
+  const [logsLoading, setLogsLoading] = useState(false);
+  const [follow, setFollow] = useState(false);
+  const [logNotice, setLogNotice] = useState<string | null>(null);
+  const logListRef = useRef<FlatList<string>>(null);
+  const streamRef = useRef(stream);
+  streamRef.current = stream;
+
+  const [range, setRange] = useState<PM2MetricsRange>("1h");
+  const [samples, setSamples] = useState<PM2MetricSample[]>([]);
+  const [metricsLoading, setMetricsLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [metricsError, setMetricsError] = useState<string | null>(null);
+
+  // ── Live snapshot ──
+
+  useEffect(() => {
+    if (!serverId || !name) return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const all = await pm2Api.processes(serverId);
+        if (cancelled) return;
+        const mine = all.filter((p) => p.name === name);
+        setProcesses(mine);
+        if (mine.length) {
+          const restarts = mine.reduce((sum, p) => sum + p.restarts, 0);
+          setLivePoints((prev) => trackRestarts(prev, restarts, Date.now()));
+        }
+      } catch {
+        // The header keeps its last snapshot
+      }
+    };
+    poll();
+    const interval = setInterval(poll, PROCESS_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [serverId, name]);
+
+  const status = processes[0]?.status;
+  const cpu = processes.reduce((sum, p) => sum + (p.cpu || 0), 0);
+  const memory = processes.reduce((sum, p) => sum + (p.memory || 0), 0);
+  const restarts = processes.reduce((sum, p) => sum + p.restarts, 0);
+
+  // ── Logs: PM2 keeps stdout and stderr in separate files ──
+
+  const loadLogs = useCallback(async () => {
+    if (!serverId || !name) return;
+    setLogsLoading(true);
+    try {
+      const data = await pm2Api.logs(serverId, name, LOG_TAIL);
+      setLogs({
+        out: splitLines(data.out || ""),
+        err: splitLines(data.err || ""),
+      });
+      setUnseen({ out: 0, err: 0 });
+      setLogNotice(null);
+    } catch (err) {
+      setLogNotice(getErrorMessage(err, t("pm2Process.logsFailed")));
+    } finally {
+      setLogsLoading(false);
+    }
+  }, [serverId, name, t]);
+
+  const logsFetched = useRef(false);
+  useEffect(() => {
+    // Only the first visit loads by itself; refreshes are explicit
+    if (tab !== "logs" || logsFetched.current) return;
+    logsFetched.current = true;
+    loadLogs();
+  }, [tab, loadLogs]);
+
+  const append = (target: LogStream, lines: string[]) => {
+    if (!lines.length) return;
+    setLogs((prev) => ({
+      ...prev,
+      [target]: [...prev[target], ...lines].slice(-MAX_LOG_LINES),
+    }));
+    if (target !== streamRef.current) {
+      setUnseen((prev) => ({
+        ...prev,
+        [target]: prev[target] + lines.length,
+      }));
+    }
+  };
+
+  useLogStream(
+    tab === "logs" && follow && serverId && name
+      ? { serverId, type: "pm2", target: name }
+      : null,
+    {
+      onOpen: () => setLogNotice(null),
+      // Chunks say which file they came from; untagged ones are stdout
+      onChunk: (content, from) =>
+        append(from === "err" ? "err" : "out", splitLines(content)),
+      onFail: (failure) => {
+        setLogNotice(
+          failure.kind === "ticket"
+            ? getErrorMessage(failure.error, t("pm2Process.followFailed"))
+            : failure.kind === "server"
+              ? failure.message
+              : t("pm2Process.streamLost"),
+        );
+        setFollow(false);
+      },
+    },
+  );
+
+  const switchStream = (value: LogStream) => {
+    setStream(value);
+    setUnseen((prev) => ({ ...prev, [value]: 0 }));
+  };
+
+  // ── Metrics history ──
+
+  const loadMetrics = useCallback(async () => {
+    if (!serverId || !name) return;
+    setMetricsLoading(true);
+    try {
+      setSamples(await pm2Api.metrics(serverId, name, range));
+      setMetricsError(null);
+    } catch (err) {
+      setSamples([]);
+      setMetricsError(getErrorMessage(err, t("pm2Process.metricsFailed")));
+    } finally {
+      setMetricsLoading(false);
+      setRefreshing(false);
+    }
+  }, [serverId, name, range, t]);
+
+  useEffect(() => {
+    if (tab === "metrics") loadMetrics();
+  }, [tab, loadMetrics]);
+
+  const points = useMemo(() => restartPoints(samples), [samples]);
+  const increments = useMemo(() => restartIncrements(points), [points]);
+  const loops = useMemo(() => restartLoops(points), [points]);
+  const latencies = samples
+    .map((s) => s.eventLoopLatency)
+    .filter((v): v is number => v !== undefined);
+
+  // History first, then what the screen has seen since it loaded
+  const activeLoop = useMemo(() => {
+    const last = points[points.length - 1]?.time ?? 0;
+    return activeRestartLoop(
+      [...points, ...livePoints.filter((p) => p.time > last)],
+      Date.now(),
+    );
+  }, [points, livePoints]);
+
+  const formatPoint = (time: number) =>
+    format(new Date(time), range === "1h" ? "HH:mm" : "MMM d HH:mm");
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.statusRow}>
+        <View
+          style={[styles.dot, { backgroundColor: statusColor(status, colors) }]}
+        />
+        <Text style={styles.statusText}>
+          {status || t("pm2Process.notRunning")}
+        </Text>
+        {processes.length > 1 && (
+          <Text style={styles.meta}>
+            {t("pm2Process.instances", { count: processes.length })}
+          </Text>
+        )}
+      </View>
+      <View style={styles.statsRow}>
+        <Text style={styles.meta}>CPU {cpu.toFixed(1)}%</Text>
+        <Text style={styles.meta}>RAM {formatBytes(memory)}</Text>
+        <Text style={styles.meta}>
+          {t("pm2Process.restarts")}: {restarts}
+        </Text>
+      </View>
+      {activeLoop && (
+        <View style={styles.loopBanner}>
+          <MaterialCommunityIcons
+            name="sync-alert"
+            size={16}
+            color={colors.error}
+          />
+          <Text style={styles.loopText}>
+            {t("pm2Process.loopActive", {
+              count: activeLoop.restarts,
+              since: format(new Date(activeLoop.start), "HH:mm"),
+            })}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderLogs = () => {
+    const lines = logs[stream];
+    return (
+      <View style={{ flex: 1 }}>
+        <View style={styles.logToolbar}>
+          <SegmentedButtons
+            value={stream}
+            onValueChange={(value) => switchStream(value as LogStream)}
+            density="small"
+            style={{ flex: 1 }}
+            buttons={[
+              {
+                value: "out",
+                label: unseen.out ? `stdout (${unseen.out})` : "stdout",
+              },
+              {
+                value: "err",
+                label: unseen.err ? `stderr (${unseen.err})` : "stderr",
+              },
+            ]}
+          />
+          <Chip
+            compact
+            icon={follow ? "pause" : "play"}
+            selected={follow}
+            onPress={() => setFollow(!follow)}
+          >
+            {follow ? t("pm2Process.following") : t("pm2Process.follow")}
+          </Chip>
+          <IconButton
+            icon="refresh"
+            size={18}
+            disabled={logsLoading || follow}
+            onPress={loadLogs}
+          />
+        </View>
+        {logNotice && <Text style={styles.warning}>{logNotice}</Text>}
+        <View style={styles.logBox}>
+          {logsLoading && lines.length === 0 ? (
+            <ActivityIndicator style={{ marginTop: 40 }} color="#fff" />
+          ) : (
+            <FlatList
+              ref={logListRef}
+              data={lines}
+              keyExtractor={(_, i) => String(i)}
+              contentContainerStyle={{ padding: 10 }}
+              onContentSizeChange={() => {
+                if (follow)
+                  logListRef.current?.scrollToEnd({ animated: false });
+              }}
+              renderItem={({ item }) => (
+                <Text
+                  style={[styles.logLine, stream === "err" && styles.errLine]}
+                  selectable
+                >
+                  {item}
+                </Text>
+              )}
+              ListEmptyComponent={
+                <Text style={styles.logEmpty}>{t("pm2Process.noLogs")}</Text>
+              }
+            />
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderChart = (
+    title: string,
+    value: string,
+    color: string,
+    values: number[],
+    max: number,
+  ) => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.chartHeader}>
+          <Text style={styles.sectionTitle}>{title}</Text>
+          <Text style={[styles.chartValue, { color }]}>{value}</Text>
+        </View>
+        <Sparkline series={[{ values, color }]} max={max} />
+        <View style={styles.axis}>
+          <Text style={styles.meta}>{formatPoint(points[0].time)}</Text>
+          <Text style={styles.meta}>
+            {formatPoint(points[points.length - 1].time)}
+          </Text>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  const renderMetrics = () => {
+    const peakCpu = Math.max(0, ...samples.map((s) => s.cpu));
+    const peakMemory = Math.max(0, ...samples.map((s) => s.memory));
+    const totalRestarts = increments.reduce((sum, n) => sum + n, 0);
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadMetrics();
+            }}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        <SegmentedButtons
+          value={range}
+          onValueChange={(value) => setRange(value as PM2MetricsRange)}
+          buttons={METRIC_RANGES.map((value) => ({ value, label: value }))}
+          style={{ marginBottom: 12 }}
+        />
+        {metricsError && <Text style={styles.warning}>{metricsError}</Text>}
+        {metricsLoading && samples.length === 0 ? (
+          <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+        ) : points.length < 2 ? (
+          <Text style={styles.empty}>{t("pm2Process.noMetrics")}</Text>
+        ) : (
+          <>
+            {renderChart(
+              "CPU",
+              t("pm2Process.peak", { value: `${peakCpu.toFixed(1)}%` }),
+              colors.primary,
+              samples.map((s) => s.cpu),
+              // Cluster apps can pass 100% across cores
+              Math.max(100, peakCpu),
+            )}
+            {renderChart(
+              t("pm2Process.memory"),
+              t("pm2Process.peak", { value: formatBytes(peakMemory) }),
+              colors.warning,
+              samples.map((s) => s.memory),
+              peakMemory * 1.1,
+            )}
+            {renderChart(
+              t("pm2Process.restarts"),
+              String(totalRestarts),
+              colors.error,
+              increments,
+              Math.max(1, ...increments),
+            )}
+            {latencies.length > 1 &&
+              renderChart(
+                t("pm2Process.eventLoop"),
+                t("pm2Process.peak", {
+                  value: `${Math.max(...latencies).toFixed(1)} ms`,
+                }),
+                colors.info,
+                latencies,
+                Math.max(...latencies) * 1.1,
+              )}
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.sectionTitle}>
+                  {t("pm2Process.restartLoops")}
+                </Text>
+                {loops.length === 0 ? (
+                  <Text style={styles.meta}>{t("pm2Process.noLoops")}</Text>
+                ) : (
+                  loops.map((loop) => (
+                    <View key={loop.start} style={styles.loopRow}>
+                      <MaterialCommunityIcons
+                        name="sync-alert"
+                        size={14}
+                        color={colors.error}
+                      />
+                      <Text style={[styles.meta, { flex: 1 }]}>
+                        {loop.start === loop.end
+                          ? formatPoint(loop.start)
+                          : `${formatPoint(loop.start)} – ${formatPoint(loop.end)}`}
+                      </Text>
+                      <Text style={styles.loopCount}>
+                        {t("pm2Process.loopRestarts", { count: loop.restarts })}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+            {latencies.length === 0 && (
+              <Text style={styles.hint}>{t("pm2Process.eventLoopHint")}</Text>
+            )}
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
+  if (!serverId || !name) return null;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: name }} />
+      {renderHeader()}
+      <View style={styles.tabs}>
+        <SegmentedButtons
+          value={tab}
+          onValueChange={(value) => setTab(value as Tab)}
+          buttons={[
+            {
+              value: "logs",
+              label: t("pm2Process.logs"),
+              icon: "text-box-outline",
+            },
+            {
+              value: "metrics",
+              label: t("pm2Process.metrics"),
+              icon: "chart-line",
+            },
+          ]}
+        />
+      </View>
+      {tab === "logs" ? renderLogs() : renderMetrics()}
+    </View>
+  );
+}
+
+const createStyles = (colors: any, isDark: boolean) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    header: {
+      padding: 12,
+      gap: 6,
+      backgroundColor: colors.surface,
+    },
+    statusRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+    dot: { width: 10, height: 10, borderRadius: 5 },
+    statusText: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+      textTransform: "capitalize",
+    },
+    statsRow: { flexDirection: "row", gap: 16 },
+    loopBanner: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      padding: 8,
+      borderRadius: 8,
+      backgroundColor: colors.error + "1a",
+    },
+    loopText: { flex: 1, fontSize: 12, color: colors.error },
+    tabs: {
+      padding: 12,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    content: { padding: 12, paddingBottom: 40 },
+    card: {
+      marginBottom: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    sectionTitle: {
+      fontSize: 15,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 6,
+    },
+    meta: { fontSize: 12, color: colors.textSecondary },
+    chartHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    chartValue: { fontSize: 14, fontWeight: "700" },
+    axis: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      marginTop: 4,
+    },
+    loopRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 3,
+    },
+    loopCount: { fontSize: 12, fontWeight: "600", color: colors.error },
+    hint: { textAlign: "center", fontSize: 11, color: colors.textSecondary },
+    empty: {
+      textAlign: "center",
+      color: colors.textSecondary,
+      marginTop: 40,
+      paddingHorizontal: 20,
+    },
+    warning: {
+      color: colors.warning,
+      fontSize: 12,
+      paddingHorizontal: 12,
+      paddingBottom: 6,
+    },
+    logToolbar: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    logBox: {
+      flex: 1,
+      marginHorizontal: 12,
+      marginBottom: 12,
+      borderRadius: 12,
+      overflow: "hidden",
+      backgroundColor: isDark ? "#0d1117" : "#161b22",
+    },
+    logLine: {
+      fontFamily: MONO,
+      fontSize: 11,
+      lineHeight: 16,
+      color: "#e6edf3",
+    },
+    errLine: { color: "#ff7b72" },
+    logEmpty: { fontFamily: MONO, fontSize: 11, color: "#8b949e" },
+  });
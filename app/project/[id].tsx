@@ -19,14 +19,21 @@ import {
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  Deployment,
+  deploymentsApi,
+  getErrorMessage,
+  Project,
+  projectsApi,
+} from "../../services/client";
 import { Colors, statusColor } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import * as Clipboard from "expo-clipboard";
 import { useIsFocused } from "@react-navigation/native";
-import { connectSocket } from "../../services/socket";
+import { useRoom, useSocketEvent } from "../../hooks/useRealtime";
+import { runOrQueue } from "../../services/outbox";
 
 export default function ProjectDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -35,7 +42,7 @@ export default function ProjectDetailScreen() {
   const { colors } = useAppTheme();
   const Colors = colors;
   const styles = createStyles(colors);
-  const [project, setProject] = useState<any>(null);
+  const [project, setProject] = useState<Project | null>(null);
   const [history, setHistory] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -46,14 +53,14 @@ export default function ProjectDetailScreen() {
   const fetchData = async (background = false) => {
     try {
       if (!background) setLoading(true);
-      const [projRes, histRes, whRes] = await Promise.all([
-        api.get(`/projects/${id}`),
-        api.get(`/deployments/${id}/history`).catch(() => ({ data: [] })),
-        api.get(`/projects/${id}/webhook-url`).catch(() => ({ data: null })),
+      const [projectData, historyData, hookUrl] = await Promise.all([
+        projectsApi.get(id),
+        deploymentsApi.history(id).catch((): Deployment[] => []),
+        projectsApi.webhookUrl(id).catch(() => null),
       ]);
-      setProject(projRes.data);
-      setHistory(histRes.data?.deployments || histRes.data || []);
-      if (whRes.data?.url) setWebhookUrl(whRes.data.url);
+      setProject(projectData);
+      setHistory(historyData);
+      if (hookUrl) setWebhookUrl(hookUrl);
     } catch (err) {
       console.error(err);
     } finally {
@@ -94,107 +101,81 @@ export default function ProjectDetailScreen() {
     }
   }, [project?.status]);
 
-  // Socket for realtime status updates
-  useEffect(() => {
-    if (!project) return;
-
-    // Only join socket if we have potential activity or just initially to be safe
-    const setupSocket = async () => {
-      try {
-        const socket = await connectSocket();
+  // Realtime status updates: the project room, plus the latest deployment's
+  // room while it is still in progress
+  const latestDep = history[0];
+  useRoom("project", project ? id : null);
+  useRoom(
+    "deployment",
+    latestDep &&
+      [
+        "pending",
+        "cloning",
+        "building",
+        "installing",
+        "deploying",
+        "starting",
+      ].includes(latestDep.status)
+      ? latestDep._id
+      : null,
+  );
 
-        // Listen for deployment status changes
-        const handleStatus = (data: any) => {
-          // If this project is affected
-          if (data.projectId === id) {
-            console.log("[ProjectDetail] Realtime status update:", data.status);
-            // Update local project state immediately
-            setProject((prev: any) =>
-              prev ? { ...prev, status: data.status } : prev,
+  useSocketEvent(
+    "deployment:status",
+    (data) => {
+      // If this project is affected
+      if (data.projectId !== id) return;
+      console.log("[ProjectDetail] Realtime status update:", data.status);
+      // Update local project state immediately
+      setProject((prev) => (prev ? { ...prev, status: data.status } : prev));
+
+      // Update history list immediately
+      if (data.deploymentId) {
+        setHistory((prev) => {
+          const exists = prev.find((d) => d._id === data.deploymentId);
+          if (exists) {
+            return prev.map((d) =>
+              d._id === data.deploymentId ? { ...d, status: data.status } : d,
             );
-
-            // Update history list immediately
-            if (data.deploymentId) {
-              setHistory((prev) => {
-                const exists = prev.find((d) => d._id === data.deploymentId);
-                if (exists) {
-                  return prev.map((d) =>
-                    d._id === data.deploymentId
-                      ? { ...d, status: data.status }
-                      : d,
-                  );
-                } else {
-                  // New deployment, prepend it
-                  // We might need to fetch full details later, but for now add a placeholder
-                  // or just rely on fetchData to fill it in shortly.
-                  // Ideally we want to show it immediately.
-                  const newDep = {
-                    _id: data.deploymentId,
-                    status: data.status,
-                    createdAt: data.timestamp || new Date().toISOString(),
-                    version: "new", // Placeholder
-                  };
-                  return [newDep, ...prev];
-                }
-              });
-            }
-
-            // Update deploying state based on status
-            const BUSY_STATUSES = [
-              "pending",
-              "cloning",
-              "installing",
-              "building",
-              "starting",
-              "deploying",
-            ];
-
-            if (BUSY_STATUSES.includes(data.status)) {
-              setDeploying(true);
-            } else if (
-              ["running", "success", "failed", "stopped"].includes(data.status)
-            ) {
-              setDeploying(false);
-            }
-
-            // Also refresh full data to get consistent state
-            fetchData(true);
+          } else {
+            // New deployment, prepend it
+            // We might need to fetch full details later, but for now add a placeholder
+            // or just rely on fetchData to fill it in shortly.
+            // Ideally we want to show it immediately.
+            const newDep = {
+              _id: data.deploymentId,
+              status: data.status,
+              createdAt: data.timestamp || new Date().toISOString(),
+              version: "new", // Placeholder
+            };
+            return [newDep, ...prev];
           }
-        };
-
-        socket.on("deployment:status", handleStatus);
-
-        // Join the active deployment room if we know it?
-        // Actually deployment:status might be broadcasted to user room or we need to join specific rooms.
-        // Join project room to get status updates
-        socket.emit("join:project", id);
+        });
+      }
 
-        // We need to join the *latest* deployment room if it's active.
-        const latestDep = history[0];
-        if (
-          latestDep &&
-          [
-            "pending",
-            "cloning",
-            "building",
-            "installing",
-            "deploying",
-            "starting",
-          ].includes(latestDep.status)
-        ) {
-          socket.emit("join:deployment", latestDep._id);
-        }
+      // Update deploying state based on status
+      const BUSY_STATUSES = [
+        "pending",
+        "cloning",
+        "installing",
+        "building",
+        "starting",
+        "deploying",
+      ];
 
-        return () => {
-          socket.off("deployment:status", handleStatus);
-        };
-      } catch (e) {
-        console.log("Socket setup failed", e);
+      if (BUSY_STATUSES.includes(data.status)) {
+        setDeploying(true);
+      } else if (
+        ["running", "success", "failed", "stopped"].includes(data.status)
+      ) {
+        setDeploying(false);
       }
-    };
 
-    setupSocket();
-  }, [project?._id, history[0]?._id, history[0]?.status]); // Re-run if latest deployment changes state
+      // Also refresh full data to get consistent state
+      fetchData(true);
+    },
+    !!project,
+  );
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
@@ -204,15 +185,22 @@ export default function ProjectDetailScreen() {
   const handleDeploy = async () => {
     setDeploying(true);
     try {
-      await api.post(`/deployments/${id}/deploy`);
+      const result = await runOrQueue(
+        { kind: "deploy", projectId: id },
+        t("outbox.deployLabel", { name: project?.name || id }),
+      );
+      if (result.queued) {
+        Alert.alert(t("outbox.queuedTitle"), t("outbox.queuedMessage"));
+        return;
+      }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       // Let polling/socket handle the update, but also force one now
       fetchData(true);
       router.push(`/deployment/${id}`);
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("deploy.deployFailed"),
+        getErrorMessage(err, t("deploy.deployFailed")),
       );
     } finally {
       setDeploying(false);
@@ -221,27 +209,21 @@ export default function ProjectDetailScreen() {
 
   const handleStop = async () => {
     try {
-      await api.post(`/deployments/${id}/stop`);
+      await deploymentsApi.stop(id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       fetchData();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
   const handleRestart = async () => {
     try {
-      await api.post(`/deployments/${id}/restart`);
+      await deploymentsApi.restart(id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       fetchData();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     }
   };
 
@@ -256,12 +238,12 @@ export default function ProjectDetailScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              await api.delete(`/projects/${id}`);
+              await projectsApi.remove(id);
               router.back();
-            } catch (err: any) {
+            } catch (err) {
               Alert.alert(
                 t("common.error"),
-                err.response?.data?.message || t("common.failed"),
+                getErrorMessage(err, t("common.failed")),
               );
             }
           },
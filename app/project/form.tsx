@@ -24,6 +24,11 @@ import {
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
 import api from "../../services/api";
+import {
+  getErrorMessage,
+  projectsApi,
+  serversApi,
+} from "../../services/client";
 import { Colors, inputTheme } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import * as Haptics from "expo-haptics";
@@ -82,16 +87,14 @@ export default function ProjectFormScreen() {
   useEffect(() => {
     const init = async () => {
       try {
-        const serversRes = await api.get("/servers");
-        setServers(serversRes.data);
+        setServers(await serversApi.list());
 
         if (isEditing) {
-          const res = await api.get(`/projects/${id}`);
-          const p = res.data;
+          const p = await projectsApi.get(id);
           setName(p.name);
           setRepoUrl(p.repoUrl);
           setBranch(p.branch);
-          setServerId(p.server?._id || p.server);
+          setServerId(typeof p.server === "string" ? p.server : p.server?._id);
           setDeployPath(p.deployPath);
           setBuildCommand(p.buildCommand || "");
           setInstallCommand(p.installCommand || "npm install");
@@ -223,13 +226,12 @@ export default function ProjectFormScreen() {
     if (!repoUrl.trim()) return;
     setDetecting(true);
     try {
-      const res = await api.post("/projects/detect-branch", { repoUrl });
-      setBranch(res.data.branch || "main");
+      setBranch(await projectsApi.detectBranch(repoUrl));
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("projects.detectBranchFailed"),
+        getErrorMessage(err, t("projects.detectBranchFailed")),
       );
     } finally {
       setDetecting(false);
@@ -277,9 +279,9 @@ export default function ProjectFormScreen() {
       };
 
       if (isEditing) {
-        await api.put(`/projects/${id}`, payload);
+        await projectsApi.update(id, payload);
       } else {
-        const { data: newProject } = await api.post("/projects", payload);
+        const newProject = await projectsApi.create(payload);
 
         // Auto-setup webhook if created via GitHub Integration
         if (activeTab === "github" && selectedRepo) {
@@ -299,11 +301,8 @@ export default function ProjectFormScreen() {
       }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.back();
-    } catch (err: any) {
-      Alert.alert(
-        t("common.error"),
-        err.response?.data?.message || t("common.failed"),
-      );
+    } catch (err) {
+      Alert.alert(t("common.error"), getErrorMessage(err, t("common.failed")));
     } finally {
       setLoading(false);
     }
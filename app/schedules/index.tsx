@@ -0,0 +1,383 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Pressable,
+} from "react-native";
+import { Text, ActivityIndicator, Button } from "react-native-paper";
+import { Stack, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { addDays, format, isSameDay, startOfDay } from "date-fns";
+import { vi } from "date-fns/locale";
+import * as Haptics from "expo-haptics";
+import {
+  DeployCalendar,
+  deploymentsApi,
+  EntityRef,
+  getErrorMessage,
+  MaintenancePolicy,
+} from "../../services/client";
+import { useAppTheme } from "../../contexts/ThemeContext";
+import { describeDays } from "../../components/DeploySchedulePanel";
+import {
+  isDeployAllowed,
+  scheduleOccurrences,
+  windowsOn,
+} from "../../utils/schedules";
+
+const DAYS_AHEAD = 14;
+
+type EventKind = "once" | "recurring" | "window";
+
+interface CalendarEvent {
+  key: string;
+  kind: EventKind;
+  start: Date;
+  end?: Date;
+  projectId: string;
+  projectName: string;
+  detail?: string;
+  // Deploy lands outside the project's maintenance windows
+  outsideWindow?: MaintenancePolicy["mode"];
+}
+
+const EVENT_ICONS: Record<EventKind, string> = {
+  once: "clock-outline",
+  recurring: "repeat",
+  window: "calendar-lock-outline",
+};
+
+const projectRef = (project: EntityRef | string | undefined) =>
+  typeof project === "string"
+    ? { _id: project, name: project }
+    : project || { _id: "", name: "" };
+
+export default function ScheduleCalendarScreen() {
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+  const locale = i18n.language === "vi" ? vi : undefined;
+
+  const [range] = useState(() => {
+    const from = startOfDay(new Date());
+    return { from, to: addDays(from, DAYS_AHEAD) };
+  });
+  const [selectedDay, setSelectedDay] = useState(range.from);
+  const [calendar, setCalendar] = useState<DeployCalendar | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setError("");
+      setCalendar(await deploymentsApi.calendar(range.from, range.to));
+    } catch (err) {
+      setError(getErrorMessage(err, t("common.failedLoad")));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [range, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const events = useMemo(() => {
+    if (!calendar) return [];
+    const policies = new Map<string, MaintenancePolicy>();
+    calendar.maintenance.forEach((m) => policies.set(m.project._id, m.policy));
+    const outside = (projectId: string, at: Date) => {
+      const policy = policies.get(projectId) || null;
+      return isDeployAllowed(policy, at) ? undefined : policy?.mode;
+    };
+
+    const list: CalendarEvent[] = [];
+    for (const dep of calendar.scheduled) {
+      if (!dep.scheduledFor) continue;
+      const project = projectRef(dep.project);
+      const start = new Date(dep.scheduledFor);
+      list.push({
+        key: `once-${dep._id}`,
+        kind: "once",
+        start,
+        projectId: project._id,
+        projectName: project.name,
+        outsideWindow: outside(project._id, start),
+      });
+    }
+    for (const schedule of calendar.schedules) {
+      const project = projectRef(schedule.project);
+      for (const start of scheduleOccurrences(schedule, range.from, range.to)) {
+        list.push({
+          key: `recurring-${schedule._id}-${start.getTime()}`,
+          kind: "recurring",
+          start,
+          projectId: project._id,
+          projectName: project.name,
+          detail: describeDays(schedule.days, t),
+          outsideWindow: outside(project._id, start),
+        });
+      }
+    }
+    for (const { project, policy } of calendar.maintenance) {
+      for (let i = 0; i < DAYS_AHEAD; i++) {
+        const day = addDays(range.from, i);
+        windowsOn(policy, day).forEach((w, j) =>
+          list.push({
+            key: `window-${project._id}-${i}-${j}`,
+            kind: "window",
+            start: w.start,
+            end: w.end,
+            projectId: project._id,
+            projectName: project.name,
+          }),
+        );
+      }
+    }
+    return list.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }, [calendar, range, t]);
+
+  const days = useMemo(
+    () =>
+      Array.from({ length: DAYS_AHEAD }, (_, i) => {
+        const day = addDays(range.from, i);
+        return {
+          day,
+          deploys: events.filter(
+            (e) => e.kind !== "window" && isSameDay(e.start, day),
+          ).length,
+        };
+      }),
+    [events, range],
+  );
+
+  const dayEvents = events.filter((e) => isSameDay(e.start, selectedDay));
+
+  const kindColor = (kind: EventKind) =>
+    kind === "window"
+      ? colors.success
+      : kind === "recurring"
+        ? colors.info
+        : colors.primary;
+
+  const renderEvent = (event: CalendarEvent) => (
+    <Pressable
+      key={event.key}
+      onPress={() => router.push(`/deployment/${event.projectId}`)}
+      style={({ pressed }) => [
+        styles.event,
+        pressed && { backgroundColor: colors.surfaceVariant },
+      ]}
+    >
+      <View
+        style={[styles.eventBar, { backgroundColor: kindColor(event.kind) }]}
+      />
+      <Text style={styles.eventTime}>
+        {format(event.start, "HH:mm")}
+        {event.end ? `\n${format(event.end, "HH:mm")}` : ""}
+      </Text>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.eventProject} numberOfLines={1}>
+          {event.projectName}
+        </Text>
+        <View style={styles.eventMetaRow}>
+          <MaterialCommunityIcons
+            name={EVENT_ICONS[event.kind] as any}
+            size={13}
+            color={kindColor(event.kind)}
+          />
+          <Text style={styles.eventMeta} numberOfLines={1}>
+            {t(`calendar.kind_${event.kind}`)}
+            {event.detail ? ` · ${event.detail}` : ""}
+          </Text>
+        </View>
+        {event.outsideWindow ? (
+          <Text style={[styles.eventMeta, { color: colors.warning }]}>
+            {t(`calendar.outside_${event.outsideWindow}`)}
+          </Text>
+        ) : null}
+      </View>
+    </Pressable>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: t("calendar.title") }} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: t("calendar.title") }} />
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.strip}
+        contentContainerStyle={styles.stripContent}
+      >
+        {days.map(({ day, deploys }) => {
+          const selected = isSameDay(day, selectedDay);
+          return (
+            <Pressable
+              key={day.getTime()}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSelectedDay(day);
+              }}
+              style={[styles.dayPill, selected && styles.dayPillSelected]}
+            >
+              <Text
+                style={[styles.dayName, selected && { color: colors.primary }]}
+              >
+                {format(day, "EEE", { locale })}
+              </Text>
+              <Text
+                style={[
+                  styles.dayNumber,
+                  selected && { color: colors.primary },
+                ]}
+              >
+                {format(day, "d")}
+              </Text>
+              <View
+                style={[
+                  styles.dayDot,
+                  { opacity: deploys > 0 ? 1 : 0 },
+                  selected && { backgroundColor: colors.primary },
+                ]}
+              />
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              load();
+            }}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        <Text style={styles.dayTitle}>
+          {format(selectedDay, "EEEE, d MMMM", { locale })}
+        </Text>
+        {error ? (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Button mode="outlined" onPress={load} textColor={colors.primary}>
+              {t("common.retry")}
+            </Button>
+          </View>
+        ) : dayEvents.length === 0 ? (
+          <View style={styles.empty}>
+            <MaterialCommunityIcons
+              name="calendar-blank-outline"
+              size={40}
+              color={colors.textSecondary}
+            />
+            <Text style={styles.emptyText}>{t("calendar.empty")}</Text>
+          </View>
+        ) : (
+          dayEvents.map(renderEvent)
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    centered: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.background,
+    },
+    strip: {
+      flexGrow: 0,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    stripContent: { paddingHorizontal: 8, paddingVertical: 10, gap: 6 },
+    dayPill: {
+      width: 48,
+      alignItems: "center",
+      paddingVertical: 8,
+      borderRadius: 12,
+      gap: 2,
+    },
+    dayPillSelected: { backgroundColor: colors.primary + "18" },
+    dayName: {
+      fontSize: 11,
+      fontWeight: "600",
+      color: colors.textSecondary,
+      textTransform: "uppercase",
+    },
+    dayNumber: { fontSize: 18, fontWeight: "800", color: colors.text },
+    dayDot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: colors.textSecondary,
+    },
+    content: { padding: 12, paddingBottom: 40 },
+    dayTitle: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+      marginBottom: 10,
+    },
+    event: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 8,
+      overflow: "hidden",
+    },
+    eventBar: {
+      position: "absolute",
+      left: 0,
+      top: 0,
+      bottom: 0,
+      width: 4,
+    },
+    eventTime: {
+      width: 44,
+      fontSize: 13,
+      fontWeight: "700",
+      color: colors.text,
+      fontVariant: ["tabular-nums"],
+    },
+    eventProject: { fontSize: 14, fontWeight: "600", color: colors.text },
+    eventMetaRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+      marginTop: 2,
+    },
+    eventMeta: { fontSize: 12, color: colors.textSecondary },
+    empty: { alignItems: "center", gap: 8, paddingVertical: 48 },
+    emptyText: { fontSize: 14, color: colors.textSecondary },
+    errorBox: { alignItems: "center", gap: 12, paddingVertical: 40 },
+    errorText: { fontSize: 14, color: colors.error, textAlign: "center" },
+  });
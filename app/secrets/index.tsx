@@ -21,33 +21,21 @@ import {
   Menu,
   Appbar,
   Searchbar,
+  HelperText,
 } from "react-native-paper";
 import { Stack, useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import { getErrorMessage, Secret, secretsApi } from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import * as Clipboard from "expo-clipboard";
 
-interface SecretItem {
-  _id: string;
-  name: string;
-  type: string;
-  description?: string;
-  project?: { _id: string; name: string };
-  server?: { _id: string; name: string };
-  tags: string[];
-  lastAccessedAt?: string;
-  lastRotatedAt?: string;
-  expiresAt?: string;
-  createdAt: string;
-}
-
 const typeIcons: Record<string, string> = {
   env: "wrench",
   key: "key",
   token: "ticket",
   password: "lock",
   certificate: "certificate",
+  registry: "docker",
   other: "package-variant",
 };
 
@@ -58,7 +46,7 @@ export default function SecretsScreen() {
 
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [secrets, setSecrets] = useState<SecretItem[]>([]);
+  const [secrets, setSecrets] = useState<Secret[]>([]);
 
   // Filters
   const [search, setSearch] = useState("");
@@ -82,9 +70,9 @@ export default function SecretsScreen() {
 
   const fetchSecrets = useCallback(async () => {
     try {
-      const params = typeFilter !== "all" ? `?type=${typeFilter}` : "";
-      const { data } = await api.get(`/secrets${params}`);
-      setSecrets(data.secrets || []);
+      setSecrets(
+        await secretsApi.list(typeFilter !== "all" ? typeFilter : undefined),
+      );
     } catch (error) {
       console.error("Failed to load secrets", error);
       Alert.alert(
@@ -110,7 +98,7 @@ export default function SecretsScreen() {
   const handleCreate = async () => {
     if (!newSecret.name || !newSecret.value) return;
     try {
-      await api.post("/secrets", {
+      await secretsApi.create({
         ...newSecret,
         tags: newSecret.tags
           .split(",")
@@ -127,8 +115,8 @@ export default function SecretsScreen() {
       });
       fetchSecrets();
       Alert.alert(t("common.success"), "Secret created successfully");
-    } catch (error: any) {
-      Alert.alert(t("common.error"), error.response?.data?.message || "Failed");
+    } catch (error) {
+      Alert.alert(t("common.error"), getErrorMessage(error, "Failed"));
     }
   };
 
@@ -145,8 +133,8 @@ export default function SecretsScreen() {
 
     setRevealLoading(id);
     try {
-      const { data } = await api.get(`/secrets/${id}/reveal`);
-      setRevealedValues((prev) => ({ ...prev, [id]: data.value }));
+      const value = await secretsApi.reveal(id);
+      setRevealedValues((prev) => ({ ...prev, [id]: value }));
 
       // Auto-hide after 30s
       setTimeout(() => {
@@ -183,12 +171,12 @@ export default function SecretsScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              await api.delete(`/secrets/${id}`);
+              await secretsApi.remove(id);
               fetchSecrets();
-            } catch (error: any) {
+            } catch (error) {
               Alert.alert(
                 t("common.error"),
-                error.response?.data?.message || "Failed",
+                getErrorMessage(error, "Failed"),
               );
             }
           },
@@ -269,6 +257,13 @@ export default function SecretsScreen() {
                 }}
                 title="Certificate"
               />
+              <Menu.Item
+                onPress={() => {
+                  setTypeFilter("registry");
+                  setFilterMenuVisible(false);
+                }}
+                title="Registry"
+              />
               <Menu.Item
                 onPress={() => {
                   setTypeFilter("other");
@@ -509,6 +504,13 @@ export default function SecretsScreen() {
                       }}
                       title="Certificate"
                     />
+                    <Menu.Item
+                      onPress={() => {
+                        setNewSecret((p) => ({ ...p, type: "registry" }));
+                        setTypeMenuVisible(false);
+                      }}
+                      title="Registry"
+                    />
                     <Menu.Item
                       onPress={() => {
                         setNewSecret((p) => ({ ...p, type: "other" }));
@@ -518,6 +520,11 @@ export default function SecretsScreen() {
                     />
                   </Menu>
                 </View>
+                {newSecret.type === "registry" && (
+                  <HelperText type="info" visible>
+                    {t("secrets.registryHint")}
+                  </HelperText>
+                )}
 
                 <TextInput
                   label="Description (Optional)"
@@ -23,7 +23,7 @@ import {
   Button,
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
-import api from "../../../services/api";
+import { ftpApi, getErrorMessage } from "../../../services/client";
 import { useAppTheme } from "../../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
@@ -81,10 +81,8 @@ export default function FTPScreen() {
   const fetchFiles = async (path: string) => {
     setLoading(true);
     try {
-      const res = await api.get(`/ftp/${id}/list`, {
-        params: { path },
-      });
-      let sorted = res.data.entries || (res.data as FileEntry[]);
+      const listing = await ftpApi.list(id, path);
+      let sorted = listing.entries;
 
       // Basic sorting logic
       sorted = sorted.sort((a: FileEntry, b: FileEntry) => {
@@ -102,11 +100,11 @@ export default function FTPScreen() {
       });
 
       setFiles(sorted);
-      setCurrentPath(res.data.path || path);
-    } catch (err: any) {
+      setCurrentPath(listing.path);
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("files.loadFailed"),
+        getErrorMessage(err, t("files.loadFailed")),
       );
       // If path invalid, fallback logic
       if (history.length > 0) {
@@ -179,13 +177,13 @@ export default function FTPScreen() {
       const oldPath =
         (currentPath === "/" ? "" : currentPath) + "/" + selectedFile.name;
       const newPath = (currentPath === "/" ? "" : currentPath) + "/" + newName;
-      await api.post(`/ftp/${id}/rename`, { oldPath, newPath });
+      await ftpApi.rename(id, oldPath, newPath);
       setRenameVisible(false);
       fetchFiles(currentPath);
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("files.renameFailed"),
+        getErrorMessage(err, t("files.renameFailed")),
       );
     }
   };
@@ -203,14 +201,16 @@ export default function FTPScreen() {
             try {
               const path =
                 (currentPath === "/" ? "" : currentPath) + "/" + item.name;
-              await api.delete(`/ftp/${id}/file`, {
-                data: { path, type: item.type === "d" ? "directory" : "file" },
-              });
+              await ftpApi.remove(
+                id,
+                path,
+                item.type === "d" ? "directory" : "file",
+              );
               fetchFiles(currentPath);
-            } catch (err: any) {
+            } catch (err) {
               Alert.alert(
                 t("common.error"),
-                err.response?.data?.message || t("common.failed"),
+                getErrorMessage(err, t("common.failed")),
               );
             }
           },
@@ -222,13 +222,13 @@ export default function FTPScreen() {
   const handleMkdir = async (name: string) => {
     try {
       const path = (currentPath === "/" ? "" : currentPath) + "/" + name;
-      await api.post(`/ftp/${id}/mkdir`, { path });
+      await ftpApi.mkdir(id, path);
       setMkdirVisible(false);
       fetchFiles(currentPath);
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("files.createFolderFailed"),
+        getErrorMessage(err, t("files.createFolderFailed")),
       );
     }
   };
@@ -238,13 +238,13 @@ export default function FTPScreen() {
     try {
       const path =
         (currentPath === "/" ? "" : currentPath) + "/" + selectedFile.name;
-      await api.post(`/ftp/${id}/chmod`, { path, mode });
+      await ftpApi.chmod(id, path, mode);
       setChmodVisible(false);
       fetchFiles(currentPath);
-    } catch (err: any) {
+    } catch (err) {
       Alert.alert(
         t("common.error"),
-        err.response?.data?.message || t("files.chmodFailed"),
+        getErrorMessage(err, t("files.chmodFailed")),
       );
     }
   };
@@ -268,12 +268,10 @@ export default function FTPScreen() {
       formData.append("path", currentPath);
 
       setLoading(true); // crude loading state
-      await api.post(`/ftp/${id}/upload`, formData, {
-        headers: { "Content-Type": "multipart/form-data" },
-      });
+      await ftpApi.upload(id, formData);
       fetchFiles(currentPath);
-    } catch (err: any) {
-      Alert.alert("Error", err.response?.data?.message || "Upload failed");
+    } catch (err) {
+      Alert.alert("Error", getErrorMessage(err, "Upload failed"));
       setLoading(false);
     }
   };
@@ -20,7 +20,15 @@ import {
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../../services/api";
+import {
+  ExecResult,
+  getErrorMessage,
+  isApiError,
+  Project,
+  Server,
+  serversApi,
+  ServerStats,
+} from "../../../services/client";
 import { Colors, statusColor } from "../../../constants/theme";
 import { useAppTheme } from "../../../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
@@ -30,6 +38,7 @@ import { useServer } from "../../../contexts/ServerContext";
 import CustomAlertDialog, {
   CustomAlertDialogRef,
 } from "../../../components/CustomAlertDialog";
+import SnippetPicker from "../../../components/SnippetPicker";
 
 export default function ServerDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -39,29 +48,30 @@ export default function ServerDetailScreen() {
   const Colors = colors;
   const styles = createStyles(colors);
   const { setSelectedServer } = useServer();
-  const [server, setServer] = useState<any>(null);
-  const [stats, setStats] = useState<any>(null);
-  const [projects, setProjects] = useState<any[]>([]);
+  const [server, setServer] = useState<Server | null>(null);
+  const [stats, setStats] = useState<ServerStats | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [testing, setTesting] = useState(false);
   const [command, setCommand] = useState("");
   const [cmdOutput, setCmdOutput] = useState("");
   const [executing, setExecuting] = useState(false);
+  const [snippetsVisible, setSnippetsVisible] = useState(false);
 
   const dialogRef = useRef<CustomAlertDialogRef>(null);
 
   const fetchData = async () => {
     try {
-      const [serverRes, statsRes, projRes] = await Promise.all([
-        api.get(`/servers/${id}`),
-        api.get(`/servers/${id}/stats`).catch(() => ({ data: null })),
-        api.get(`/servers/${id}/projects`).catch(() => ({ data: [] })),
+      const [serverData, statsData, projectList] = await Promise.all([
+        serversApi.get(id),
+        serversApi.stats(id).catch(() => null),
+        serversApi.projects(id).catch((): Project[] => []),
       ]);
-      setServer(serverRes.data);
-      setSelectedServer(serverRes.data);
-      setStats(statsRes.data?.stats || statsRes.data);
-      setProjects(projRes.data || []);
+      setServer(serverData);
+      setSelectedServer(serverData);
+      setStats(statsData);
+      setProjects(projectList || []);
     } catch (err) {
       console.error("Failed to fetch server", err);
     } finally {
@@ -82,18 +92,18 @@ export default function ServerDetailScreen() {
   const testConnection = async () => {
     setTesting(true);
     try {
-      await api.post(`/servers/${id}/test`);
+      await serversApi.testConnection(id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       dialogRef.current?.show(
         t("common.success") || "Success",
         t("servers.connectionSuccess"),
       );
       fetchData();
-    } catch (err: any) {
+    } catch (err) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       dialogRef.current?.show(
         t("common.error"),
-        err.response?.data?.message || t("servers.connectionFailed"),
+        getErrorMessage(err, t("servers.connectionFailed")),
       );
     } finally {
       setTesting(false);
@@ -106,13 +116,13 @@ export default function ServerDetailScreen() {
       t("servers.deleteConfirm"),
       async () => {
         try {
-          await api.delete(`/servers/${id}`);
+          await serversApi.remove(id);
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
           router.back();
-        } catch (err: any) {
+        } catch (err) {
           dialogRef.current?.show(
             t("common.error"),
-            err.response?.data?.message || t("common.failed"),
+            getErrorMessage(err, t("common.failed")),
           );
         }
       },
@@ -126,16 +136,13 @@ export default function ServerDetailScreen() {
     setExecuting(true);
     setCmdOutput("");
     try {
-      const res = await api.post(`/servers/${id}/exec`, {
-        command: command.trim(),
-      });
-      setCmdOutput(res.data.output || res.data.stdout || t("common.done"));
-    } catch (err: any) {
-      setCmdOutput(
-        err.response?.data?.message ||
-          err.response?.data?.stderr ||
-          t("common.error"),
-      );
+      const res = await serversApi.exec(id, command.trim());
+      setCmdOutput(res.output || res.stdout || t("common.done"));
+    } catch (err) {
+      const stderr = isApiError(err)
+        ? (err.data as ExecResult | undefined)?.stderr
+        : undefined;
+      setCmdOutput(getErrorMessage(err, stderr || t("common.error")));
     } finally {
       setExecuting(false);
     }
@@ -589,6 +596,13 @@ export default function ServerDetailScreen() {
               </Text>
             </View>
             <View style={styles.cmdRow}>
+              <IconButton
+                icon="lightning-bolt"
+                iconColor={Colors.warning}
+                size={20}
+                style={{ margin: 0 }}
+                onPress={() => setSnippetsVisible(true)}
+              />
               <RNTextInput
                 value={command}
                 onChangeText={setCommand}
@@ -619,6 +633,13 @@ export default function ServerDetailScreen() {
           </Card.Content>
         </Card>
       </ScrollView>
+      <SnippetPicker
+        visible={snippetsVisible}
+        onDismiss={() => setSnippetsVisible(false)}
+        serverId={id}
+        initialCommand={command}
+        onSelect={setCommand}
+      />
       <CustomAlertDialog ref={dialogRef} />
     </>
   );
@@ -1,166 +1,189 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, {
+  useEffect,
+  useState,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   View,
   StyleSheet,
-  ScrollView,
   KeyboardAvoidingView,
   Platform,
   TextInput,
   Text,
+  ScrollView,
+  TouchableOpacity,
 } from "react-native";
-import { Stack, useLocalSearchParams } from "expo-router";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
 import { useAppTheme } from "../../../contexts/ThemeContext";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { io, Socket } from "socket.io-client";
-import { IconButton, Surface } from "react-native-paper";
+import {
+  useTerminalSessions,
+  TerminalSession,
+  TerminalSessionStatus,
+} from "../../../contexts/TerminalSessionContext";
+import { Button, IconButton, Surface } from "react-native-paper";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import TerminalView from "../../../components/TerminalView";
+import InputDialog from "../../../components/InputDialog";
+import TerminalKeyBar from "../../../components/TerminalKeyBar";
+import SnippetPicker from "../../../components/SnippetPicker";
+import { KeyModifiers, modifyChar } from "../../../utils/terminalKeys";
 
-const API_URL = (
-  process.env.EXPO_PUBLIC_API_URL || "http://192.168.1.8:5012/api"
-).replace("/api", "");
+const statusColors: Record<TerminalSessionStatus, string> = {
+  attached: "#22c55e",
+  connecting: "#eab308",
+  detached: "#6b7280",
+  exited: "#ef4444",
+};
 
 export default function TerminalScreen() {
-  const { id, path } = useLocalSearchParams<{ id: string; path: string }>();
+  const { id, path, container, name } = useLocalSearchParams<{
+    id: string;
+    path?: string;
+    container?: string;
+    name?: string;
+  }>();
+  const router = useRouter();
+  const { t } = useTranslation();
   const { colors } = useAppTheme();
-  const [token, setToken] = useState<string | null>(null);
-  const [output, setOutput] = useState<string[]>([]);
+  const {
+    connected,
+    getServerSessions,
+    openSession,
+    closeSession,
+    renameSession,
+    restartSession,
+    getEmulator,
+    subscribe,
+    sendData,
+    resizeSession,
+    lastActive,
+    setLastActive,
+  } = useTerminalSessions();
+
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [version, setVersion] = useState(0);
   const [command, setCommand] = useState("");
-  const [connected, setConnected] = useState(false);
-  const [termTitle, setTermTitle] = useState("");
-  const socketRef = useRef<Socket | null>(null);
-  const scrollViewRef = useRef<ScrollView>(null);
-  // Generate a unique ID for this session
-  const termId = useRef(Math.floor(Math.random() * 1000000)).current;
+  const [renameTarget, setRenameTarget] = useState<TerminalSession | null>(
+    null,
+  );
+  const [modifiers, setModifiers] = useState<KeyModifiers>({});
+  const [snippetsVisible, setSnippetsVisible] = useState(false);
+  const renderScheduled = useRef(false);
+  const openedPath = useRef(false);
 
-  useEffect(() => {
-    AsyncStorage.getItem("accessToken").then(setToken);
-  }, []);
+  const serverSessions = useMemo(
+    () => (id ? getServerSessions(id) : []),
+    [id, getServerSessions],
+  );
+  const active = serverSessions.find((s) => s.termId === activeId) || null;
+  const emulator = activeId !== null ? getEmulator(activeId) : undefined;
 
+  // Pick a tab on entry: a new shell for "open terminal here" and container
+  // exec links, otherwise the tab used last on this server
   useEffect(() => {
-    if (!token || !id) return;
-
-    // Initialize socket
-    // Handle subpath deployments (e.g. example.com/backend)
-    let socketUrl = API_URL;
-    let socketPath = "/socket.io"; // Default
-
-    try {
-      const parsedUrl = new URL(API_URL);
-      if (parsedUrl.pathname && parsedUrl.pathname !== "/") {
-        socketPath = parsedUrl.pathname.replace(/\/$/, "") + "/socket.io";
-        socketUrl = parsedUrl.origin;
-      }
-    } catch (e) {
-      console.warn("Failed to parse API_URL for socket config", e);
+    if (!id || activeId !== null) return;
+    if ((path || container) && !openedPath.current) {
+      openedPath.current = true;
+      setActiveId(openSession(id, { path, container, name }).termId);
+      return;
     }
+    const existing =
+      serverSessions.find((s) => s.termId === lastActive[id]) ||
+      serverSessions[serverSessions.length - 1];
+    setActiveId(existing ? existing.termId : openSession(id).termId);
+  }, [
+    id,
+    path,
+    container,
+    name,
+    activeId,
+    serverSessions,
+    lastActive,
+    openSession,
+  ]);
 
-    const socket = io(socketUrl, {
-      path: socketPath,
-      auth: { token },
-      transports: ["websocket"],
-      reconnection: true,
-    });
+  useEffect(() => {
+    if (id && activeId !== null) setLastActive(id, activeId);
+  }, [id, activeId, setLastActive]);
 
-    socketRef.current = socket;
-
-    socket.on("connect", () => {
-      setConnected(true);
-      setOutput((prev) => [...prev, "Connected to server..."]);
-      // Start terminal session with unique ID
-      socket.emit("terminal:start", {
-        serverId: id,
-        termId,
-        rows: 24,
-        cols: 80,
+  // Batch redraws to one per frame while output is streaming in
+  useEffect(() => {
+    if (activeId === null) return;
+    setVersion((v) => v + 1);
+    return subscribe(activeId, () => {
+      if (renderScheduled.current) return;
+      renderScheduled.current = true;
+      requestAnimationFrame(() => {
+        renderScheduled.current = false;
+        setVersion((v) => v + 1);
       });
     });
+  }, [activeId, subscribe]);
 
-    socket.on("terminal:ready", (data: { termId: number }) => {
-      if (data.termId === termId && path) {
-        socket.emit("terminal:data", {
-          termId,
-          data: `cd "${path}"\n`,
-        });
-      }
-    });
+  const handleResize = useCallback(
+    (rows: number, cols: number) => {
+      if (activeId === null) return;
+      resizeSession(activeId, rows, cols);
+      setVersion((v) => v + 1);
+    },
+    [activeId, resizeSession],
+  );
 
-    socket.on("disconnect", () => {
-      setConnected(false);
-      setOutput((prev) => [...prev, "Disconnected from server."]);
-    });
+  const handleNewTab = () => {
+    if (!id) return;
+    setActiveId(openSession(id).termId);
+  };
 
-    socket.on(
-      "terminal:output",
-      (data: { termId: number; data: string } | string) => {
-        // Handle both formats (though backend sends object now)
-        let text = "";
-        if (typeof data === "string") {
-          text = data;
-        } else if (data.termId === termId) {
-          text = data.data;
-        } else {
-          return; // Ignore data from other terms
-        }
-
-        // 1. Check for OSC 0 title sequence
-        const titleMatch = text.match(/\x1b\]0;(.*?)\x07/);
-        if (titleMatch) {
-          setTermTitle(titleMatch[1]);
-        }
-
-        // Simple splitting
-        const lines = text.split(/\r?\n/);
-        setOutput((prev) => {
-          const check = [...prev, ...lines].slice(-100);
-          return check;
-        });
-      },
-    );
-
-    return () => {
-      // Clean up specific session
-      if (socket.connected) {
-        socket.emit("terminal:close", { termId });
-      }
-      socket.disconnect();
-    };
-  }, [token, id, path]); // Added path to dependency to ensure it captures it
+  const handleCloseTab = (termId: number) => {
+    const remaining = serverSessions.filter((s) => s.termId !== termId);
+    closeSession(termId);
+    if (termId !== activeId) return;
+    if (remaining.length === 0) {
+      router.back();
+    } else {
+      setActiveId(remaining[remaining.length - 1].termId);
+    }
+  };
 
-  useEffect(() => {
-    // Auto-scroll
-    setTimeout(
-      () => scrollViewRef.current?.scrollToEnd({ animated: true }),
-      100,
-    );
-  }, [output]);
+  const sendRaw = (data: string) => {
+    if (activeId !== null && data) sendData(activeId, data);
+  };
 
   const sendCommand = () => {
-    if (!command || !socketRef.current) return;
-    // Emit with termId
-    socketRef.current.emit("terminal:data", {
-      termId: termId,
-      data: command + "\n",
-    });
+    if (activeId === null) return;
+    // An empty line still sends Enter, which full-screen apps need
+    sendData(activeId, command ? command + "\n" : "\r");
     setCommand("");
   };
 
-  // Helper to remove ANSI codes for display
-  // Supports:
-  // - CSI: \x1b[ ...
-  // - OSC: \x1b] ... \x07
-  const stripAnsi = (str: string) => {
-    return str
-      .replace(/\x1b\][0-9];.*?(?:\x07|\x1b\\)/g, "") // Strip OSC sequences
-      .replace(/\x1b\[[?]?[0-9;]*[a-zA-Z]/g, ""); // Strip CSI sequences
+  // With Ctrl/Alt armed, the next typed character goes straight to the PTY
+  const handleChangeText = (text: string) => {
+    if (
+      (modifiers.ctrl || modifiers.alt) &&
+      text.length === command.length + 1 &&
+      text.startsWith(command)
+    ) {
+      sendRaw(modifyChar(text.slice(-1), modifiers));
+      setModifiers({});
+      return;
+    }
+    setCommand(text);
   };
 
-  if (!token) return <View style={{ flex: 1, backgroundColor: "#1e1e1e" }} />;
+  // Backspace on an empty input is forwarded so readline/TUIs can use it
+  const handleKeyPress = (key: string) => {
+    if (key === "Backspace" && command === "") sendRaw("\x7f");
+  };
 
   return (
     <>
       <Stack.Screen
         options={{
           // Use parsed title or default
-          title: termTitle || "Terminal",
+          title: active?.title || active?.name || t("terminal.title"),
           headerStyle: { backgroundColor: colors.background },
           headerTintColor: colors.text,
           headerTitleStyle: {
@@ -170,44 +193,141 @@ export default function TerminalScreen() {
         }}
       />
       <View style={styles.container}>
-        <ScrollView
-          ref={scrollViewRef}
-          style={styles.outputContainer}
-          contentContainerStyle={{ padding: 10, paddingBottom: 20 }}
-        >
-          {output.map((line, i) => (
-            <Text key={i} style={styles.outputText}>
-              {stripAnsi(line)}
-            </Text>
-          ))}
-          {!connected && <Text style={{ color: "#666" }}>Connecting...</Text>}
-        </ScrollView>
+        <View style={styles.tabBar}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.tabs}
+          >
+            {serverSessions.map((session) => {
+              const isActive = session.termId === activeId;
+              return (
+                <TouchableOpacity
+                  key={session.termId}
+                  style={[styles.tab, isActive && styles.tabActive]}
+                  onPress={() => setActiveId(session.termId)}
+                  onLongPress={() => setRenameTarget(session)}
+                >
+                  <View
+                    style={[
+                      styles.statusDot,
+                      { backgroundColor: statusColors[session.status] },
+                    ]}
+                  />
+                  {session.container && (
+                    <MaterialCommunityIcons
+                      name="docker"
+                      size={14}
+                      color="#d4d4d4"
+                    />
+                  )}
+                  <Text
+                    style={[styles.tabText, isActive && styles.tabTextActive]}
+                    numberOfLines={1}
+                  >
+                    {session.name}
+                  </Text>
+                  <TouchableOpacity
+                    hitSlop={8}
+                    onPress={() => handleCloseTab(session.termId)}
+                  >
+                    <Text style={styles.tabClose}>×</Text>
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <IconButton
+            icon="plus"
+            iconColor="#d4d4d4"
+            size={18}
+            onPress={handleNewTab}
+          />
+        </View>
+
+        {emulator ? (
+          <TerminalView
+            emulator={emulator}
+            version={version}
+            onResize={handleResize}
+          />
+        ) : (
+          <View style={{ flex: 1 }} />
+        )}
+        {!connected && (
+          <Text style={styles.status}>{t("terminal.connecting")}</Text>
+        )}
 
         <KeyboardAvoidingView
           behavior={Platform.OS === "ios" ? "padding" : undefined}
           keyboardVerticalOffset={Platform.OS === "ios" ? 100 : 0}
         >
-          <Surface style={styles.inputContainer}>
-            <Text style={styles.prompt}>$</Text>
-            <TextInput
-              style={styles.input}
-              value={command}
-              onChangeText={setCommand}
-              onSubmitEditing={sendCommand}
-              autoCapitalize="none"
-              autoCorrect={false}
-              placeholder="Enter command..."
-              placeholderTextColor="#666"
+          {active?.status === "exited" ? (
+            <Surface style={styles.inputContainer}>
+              <Text style={[styles.status, { flex: 1 }]}>
+                {t("terminal.exited")}
+              </Text>
+              <Button
+                icon="restart"
+                textColor={colors.primary}
+                onPress={() => restartSession(active.termId)}
+              >
+                {t("terminal.restart")}
+              </Button>
+            </Surface>
+          ) : (
+            <TerminalKeyBar
+              modifiers={modifiers}
+              onModifiersChange={setModifiers}
+              onSend={sendRaw}
+              appCursorKeys={emulator?.appCursorKeys}
+              onOpenSnippets={() => setSnippetsVisible(true)}
             />
-            <IconButton
-              icon="send"
-              iconColor={colors.primary}
-              size={20}
-              onPress={sendCommand}
-            />
-          </Surface>
+          )}
+          {active?.status !== "exited" && (
+            <Surface style={styles.inputContainer}>
+              <Text style={styles.prompt}>$</Text>
+              <TextInput
+                style={styles.input}
+                value={command}
+                onChangeText={handleChangeText}
+                onKeyPress={(e) => handleKeyPress(e.nativeEvent.key)}
+                onSubmitEditing={sendCommand}
+                blurOnSubmit={false}
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholder={t("terminal.placeholder")}
+                placeholderTextColor="#666"
+              />
+              <IconButton
+                icon="send"
+                iconColor={colors.primary}
+                size={20}
+                onPress={sendCommand}
+              />
+            </Surface>
+          )}
         </KeyboardAvoidingView>
       </View>
+
+      <SnippetPicker
+        visible={snippetsVisible}
+        onDismiss={() => setSnippetsVisible(false)}
+        serverId={id}
+        initialCommand={command}
+        onSelect={setCommand}
+      />
+      <InputDialog
+        visible={!!renameTarget}
+        onDismiss={() => setRenameTarget(null)}
+        title={t("terminal.renameTab")}
+        label={t("terminal.tabName")}
+        initialValue={renameTarget?.name || ""}
+        onConfirm={(value) => {
+          if (renameTarget) renameSession(renameTarget.termId, value);
+          setRenameTarget(null);
+        }}
+      />
     </>
   );
 }
@@ -217,13 +337,53 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: "#1e1e1e",
   },
-  outputContainer: {
-    flex: 1,
+  tabBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#252526",
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+  },
+  tabs: {
+    paddingHorizontal: 6,
+    gap: 4,
+    alignItems: "center",
+  },
+  tab: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    maxWidth: 160,
   },
-  outputText: {
-    color: "#d4d4d4",
+  tabActive: {
+    backgroundColor: "#1e1e1e",
+  },
+  tabText: {
+    color: "#8b949e",
+    fontSize: 12,
     fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
-    fontSize: 13,
+    flexShrink: 1,
+  },
+  tabTextActive: {
+    color: "#fff",
+  },
+  tabClose: {
+    color: "#8b949e",
+    fontSize: 16,
+    lineHeight: 16,
+  },
+  statusDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  status: {
+    color: "#666",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
   },
   inputContainer: {
     flexDirection: "row",
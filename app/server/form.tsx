@@ -16,7 +16,11 @@ import {
 } from "react-native-paper";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  getErrorMessage,
+  ServerInput,
+  serversApi,
+} from "../../services/client";
 import { Colors, inputTheme } from "../../constants/theme";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import * as Haptics from "expo-haptics";
@@ -35,7 +39,7 @@ export default function ServerFormScreen() {
   const [host, setHost] = useState("");
   const [port, setPort] = useState("22");
   const [username, setUsername] = useState("root");
-  const [authType, setAuthType] = useState<string>("password");
+  const [authType, setAuthType] = useState<ServerInput["authType"]>("password");
   const [password, setPassword] = useState("");
   const [privateKey, setPrivateKey] = useState("");
   const [loading, setLoading] = useState(false);
@@ -43,14 +47,14 @@ export default function ServerFormScreen() {
 
   useEffect(() => {
     if (isEditing) {
-      api
-        .get(`/servers/${id}`)
-        .then((res) => {
-          setName(res.data.name);
-          setHost(res.data.host);
-          setPort(String(res.data.port || 22));
-          setUsername(res.data.username || "root");
-          setAuthType(res.data.authType || "password");
+      serversApi
+        .get(id)
+        .then((server) => {
+          setName(server.name);
+          setHost(server.host);
+          setPort(String(server.port || 22));
+          setUsername(server.username || "root");
+          setAuthType(server.authType || "password");
         })
         .catch(() => Alert.alert(t("common.error"), t("common.failed")))
         .finally(() => setFetching(false));
@@ -73,17 +77,14 @@ export default function ServerFormScreen() {
         ...(authType === "password" ? { password } : { privateKey }),
       };
       if (isEditing) {
-        await api.put(`/servers/${id}`, payload);
+        await serversApi.update(id, payload);
       } else {
-        await api.post("/servers", payload);
+        await serversApi.create(payload);
       }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.back();
-    } catch (err: any) {
-      Alert.alert(
-        "Error",
-        err.response?.data?.message || t("servers.saveFailed"),
-      );
+    } catch (err) {
+      Alert.alert("Error", getErrorMessage(err, t("servers.saveFailed")));
     } finally {
       setLoading(false);
     }
@@ -167,7 +168,9 @@ export default function ServerFormScreen() {
           <Text style={styles.label}>{t("servers.authType")}</Text>
           <SegmentedButtons
             value={authType}
-            onValueChange={setAuthType}
+            onValueChange={(value) =>
+              setAuthType(value as ServerInput["authType"])
+            }
             buttons={[
               { value: "password", label: t("servers.password"), icon: "key" },
               { value: "key", label: t("servers.sshKey"), icon: "file-key" },
@@ -22,6 +22,9 @@ import {
 import { Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
 import api from "../../services/api";
+import { projectsApi } from "../../services/client";
+import { getAccessToken } from "../../services/authTokens";
+import { getApiUrl } from "../../services/backends";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import EventSource from "react-native-sse";
 
@@ -73,7 +76,7 @@ export default function TestRunnerScreen() {
 
   const fetchProjects = async () => {
     try {
-      const { data } = await api.get("/projects");
+      const data = await projectsApi.list();
       setProjects(data || []);
       if (data && data.length > 0) {
         setProjectId(data[0]._id);
@@ -105,20 +108,10 @@ export default function TestRunnerScreen() {
     setSummary(null);
     setCanDeploy(null);
 
-    const API_URL = process.env.EXPO_PUBLIC_API_URL || "http://10.0.2.2:5000";
-
-    // We must manually fetch the token from localStorage/SecureStore if required
-    // Assuming backend takes session cookie or token via URL/header.
-    // react-native-sse allows custom headers:
-    let token = "";
-    if (typeof localStorage !== "undefined") {
-      token = localStorage.getItem("accessToken") || "";
-    } else {
-      // On native, might need SecureStore or similar.
-      // Fallback logic, modify as needed if not logged in
-    }
+    // react-native-sse allows custom headers, so the bearer token goes there
+    const token = await getAccessToken();
 
-    const es = new EventSource(`${API_URL}/api/test-runner/${projectId}/run`, {
+    const es = new EventSource(`${getApiUrl()}/test-runner/${projectId}/run`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
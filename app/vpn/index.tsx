@@ -22,21 +22,21 @@ import {
 } from "react-native-paper";
 import { Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
-import api from "../../services/api";
+import {
+  getErrorMessage,
+  isApiError,
+  Server,
+  serversApi,
+  vpnApi,
+  VpnAction,
+  VpnStatus,
+} from "../../services/client";
+import { getAccessToken } from "../../services/authTokens";
+import { getApiUrl } from "../../services/backends";
 import { useAppTheme } from "../../contexts/ThemeContext";
 import EventSource from "react-native-sse";
 import * as Clipboard from "expo-clipboard";
 
-interface VpnClient {
-  id: string;
-  name: string;
-  enabled: boolean;
-  address: string;
-  publicKey: string;
-  transferRx: number;
-  transferTx: number;
-}
-
 const formatBytes = (bytes: number) => {
   if (!bytes || bytes === 0) return "0 B";
   const k = 1024;
@@ -51,15 +51,11 @@ export default function VpnManagerScreen() {
   const styles = createStyles(colors, isDark);
 
   const [loading, setLoading] = useState(true);
-  const [servers, setServers] = useState<any[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
   const [serverId, setServerId] = useState<string>("");
   const [serverMenuVisible, setServerMenuVisible] = useState(false);
 
-  const [status, setStatus] = useState<{
-    installed: boolean;
-    status: string;
-    clients: VpnClient[];
-  } | null>(null);
+  const [status, setStatus] = useState<VpnStatus | null>(null);
 
   const [installDialogOpen, setInstallDialogOpen] = useState(false);
   const [installing, setInstalling] = useState(false);
@@ -90,7 +86,7 @@ export default function VpnManagerScreen() {
 
   const fetchServers = async () => {
     try {
-      const { data } = await api.get("/servers");
+      const data = await serversApi.list();
       setServers(data || []);
       if (data && data.length > 0) {
         setServerId(data[0]._id);
@@ -106,10 +102,9 @@ export default function VpnManagerScreen() {
     if (!serverId) return;
     if (!silent) setLoading(true);
     try {
-      const { data } = await api.get(`/vpn/${serverId}/status`);
-      setStatus(data);
-    } catch (error: any) {
-      if (error.response?.status !== 404) {
+      setStatus(await vpnApi.status(serverId));
+    } catch (error) {
+      if (!isApiError(error) || error.status !== 404) {
         if (!silent)
           Alert.alert(t("common.error"), "Failed to load VPN status");
       } else {
@@ -124,13 +119,9 @@ export default function VpnManagerScreen() {
     if (!serverId) return;
     setInstalling(true);
     setInstallSteps([]);
-    const API_URL = process.env.EXPO_PUBLIC_API_URL || "http://10.0.2.2:5000";
-    let token = "";
-    if (typeof localStorage !== "undefined") {
-      token = localStorage.getItem("accessToken") || "";
-    }
+    const token = await getAccessToken();
 
-    const es = new EventSource(`${API_URL}/api/vpn/${serverId}/install`, {
+    const es = new EventSource(`${getApiUrl()}/vpn/${serverId}/install`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -169,9 +160,7 @@ export default function VpnManagerScreen() {
     });
   };
 
-  const executeAction = async (
-    action: "start" | "stop" | "restart" | "remove",
-  ) => {
+  const executeAction = async (action: VpnAction) => {
     if (action === "remove") {
       Alert.alert(
         "Confirm Remove",
@@ -184,13 +173,13 @@ export default function VpnManagerScreen() {
             onPress: async () => {
               setActionLoading(action);
               try {
-                await api.post(`/vpn/${serverId}/action`, { action });
+                await vpnApi.action(serverId, action);
                 Alert.alert(t("common.success"), "Action successful");
                 fetchStatus();
-              } catch (error: any) {
+              } catch (error) {
                 Alert.alert(
                   "Error",
-                  error.response?.data?.message || "Action failed",
+                  getErrorMessage(error, "Action failed"),
                 );
               } finally {
                 setActionLoading(null);
@@ -204,11 +193,11 @@ export default function VpnManagerScreen() {
 
     setActionLoading(action);
     try {
-      await api.post(`/vpn/${serverId}/action`, { action });
+      await vpnApi.action(serverId, action);
       Alert.alert(t("common.success"), "Action successful");
       fetchStatus();
-    } catch (error: any) {
-      Alert.alert("Error", error.response?.data?.message || "Action failed");
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error, "Action failed"));
     } finally {
       setActionLoading(null);
     }
@@ -218,15 +207,15 @@ export default function VpnManagerScreen() {
     if (!newClientName.trim()) return;
     setCreating(true);
     try {
-      await api.post(`/vpn/${serverId}/clients`, { name: newClientName });
+      await vpnApi.createClient(serverId, newClientName);
       Alert.alert(t("common.success"), "Client created");
       setCreateDialogOpen(false);
       setNewClientName("");
       fetchStatus();
-    } catch (error: any) {
+    } catch (error) {
       Alert.alert(
         "Error",
-        error.response?.data?.message || "Failed to create client",
+        getErrorMessage(error, "Failed to create client"),
       );
     } finally {
       setCreating(false);
@@ -241,11 +230,11 @@ export default function VpnManagerScreen() {
         style: "destructive",
         onPress: async () => {
           try {
-            await api.delete(`/vpn/${serverId}/clients/${clientId}`);
+            await vpnApi.deleteClient(serverId, clientId);
             Alert.alert(t("common.success"), "Client deleted");
             fetchStatus();
-          } catch (error: any) {
-            Alert.alert("Error", error.response?.data?.message || "Failed");
+          } catch (error) {
+            Alert.alert("Error", getErrorMessage(error, "Failed"));
           }
         },
       },
@@ -265,8 +254,8 @@ export default function VpnManagerScreen() {
             }
           : null,
       );
-      await api.patch(`/vpn/${serverId}/clients/${clientId}`, { enabled });
-    } catch (error: any) {
+      await vpnApi.setClientEnabled(serverId, clientId, enabled);
+    } catch (error) {
       Alert.alert("Error", "Failed to update client");
       fetchStatus(); // Revert
     }
@@ -274,10 +263,10 @@ export default function VpnManagerScreen() {
 
   const handleViewQr = async (clientId: string, name: string) => {
     try {
-      const { data } = await api.get(`/vpn/${serverId}/clients/${clientId}/qr`);
-      setQrData({ name, config: data.config });
+      const config = await vpnApi.clientConfig(serverId, clientId);
+      setQrData({ name, config });
       setQrDialogOpen(true);
-    } catch (error: any) {
+    } catch (error) {
       Alert.alert("Error", "Failed to get client configuration");
     }
   };
@@ -20,6 +20,7 @@ import {
 import { Stack } from "expo-router";
 import { useTranslation } from "react-i18next";
 import api from "../../services/api";
+import { projectsApi } from "../../services/client";
 import { useAppTheme } from "../../contexts/ThemeContext";
 
 interface WebhookEvent {
@@ -58,7 +59,7 @@ export default function WebhookDebuggerScreen() {
 
   const fetchProjects = async () => {
     try {
-      const { data } = await api.get("/projects");
+      const data = await projectsApi.list();
       setProjects(data || []);
       if (data && data.length > 0) {
         // We do NOT auto-select the first project in WebhookDebugger usually, but it saves an extra tap if we do
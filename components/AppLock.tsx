@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { AppState, Modal, StyleSheet, View } from "react-native";
+import { Button, Text } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as LocalAuthentication from "expo-local-authentication";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  getAppLockSettings,
+  idleFor,
+  isUnlocked,
+  loadAppLockSettings,
+  markActivity,
+  markUnlocked,
+  subscribeAppLock,
+} from "../services/appLock";
+
+// Full-screen biometric gate shown over everything once the app has been idle
+// past the configured timeout. Mounted once for signed-in users.
+export default function AppLock() {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+  const { logout } = useAuth();
+  const [lockSettings, setLockSettings] = useState(getAppLockSettings);
+  const [locked, setLocked] = useState(false);
+  const [error, setError] = useState("");
+  const authenticating = useRef(false);
+
+  // A restored session on cold start counts as coming back after the timeout
+  useEffect(() => {
+    loadAppLockSettings().then((loaded) => {
+      setLockSettings(loaded);
+      if (loaded.enabled && !isUnlocked()) setLocked(true);
+    });
+    return subscribeAppLock(setLockSettings);
+  }, []);
+
+  useEffect(() => {
+    if (!lockSettings.enabled) return;
+    const timeoutMs = lockSettings.timeoutMinutes * 60 * 1000;
+    // Only coming back from "background" counts: the biometric prompt itself
+    // moves iOS through "inactive" and back to "active"
+    let backgrounded = false;
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        backgrounded = true;
+        markActivity();
+      } else if (state === "active" && backgrounded) {
+        backgrounded = false;
+        if (idleFor() >= timeoutMs) setLocked(true);
+      }
+    });
+    // Idle in the foreground; a zero timeout only applies to backgrounding
+    const timer =
+      timeoutMs > 0
+        ? setInterval(() => {
+            if (idleFor() >= timeoutMs) setLocked(true);
+          }, 15000)
+        : null;
+    return () => {
+      subscription.remove();
+      if (timer) clearInterval(timer);
+    };
+  }, [lockSettings]);
+
+  const unlock = useCallback(async () => {
+    if (authenticating.current) return;
+    authenticating.current = true;
+    setError("");
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: t("appLock.prompt"),
+        cancelLabel: t("common.cancel"),
+      });
+      if (result.success) {
+        markUnlocked();
+        setLocked(false);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } else {
+        setError(t("appLock.failed"));
+      }
+    } catch {
+      setError(t("appLock.failed"));
+    } finally {
+      authenticating.current = false;
+    }
+  }, [t]);
+
+  // Prompt straight away instead of making the user tap first
+  useEffect(() => {
+    if (locked && AppState.currentState === "active") unlock();
+  }, [locked, unlock]);
+
+  if (!locked) return null;
+
+  return (
+    <Modal visible animationType="fade" onRequestClose={() => {}}>
+      <View style={styles.container}>
+        <MaterialCommunityIcons
+          name="shield-lock-outline"
+          size={64}
+          color={colors.primary}
+        />
+        <Text style={styles.title}>{t("appLock.title")}</Text>
+        <Text style={styles.subtitle}>{t("appLock.subtitle")}</Text>
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+        <Button
+          mode="contained"
+          icon="fingerprint"
+          onPress={unlock}
+          buttonColor={colors.primary}
+          style={styles.button}
+        >
+          {t("appLock.unlock")}
+        </Button>
+        <Button
+          onPress={() => {
+            setLocked(false);
+            logout();
+          }}
+          textColor={colors.textSecondary}
+        >
+          {t("appLock.signOut")}
+        </Button>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      padding: 32,
+      gap: 12,
+      backgroundColor: colors.background,
+    },
+    title: { fontSize: 22, fontWeight: "800", color: colors.text },
+    subtitle: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: "center",
+    },
+    error: { fontSize: 13, color: colors.error },
+    button: { marginTop: 12, borderRadius: 12, alignSelf: "stretch" },
+  });
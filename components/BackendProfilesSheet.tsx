@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, StyleSheet, FlatList, Pressable } from "react-native";
+import {
+  Modal,
+  Portal,
+  Text,
+  Button,
+  IconButton,
+  TextInput,
+  HelperText,
+} from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import { useAuth } from "../contexts/AuthContext";
+import { clearTokens } from "../services/authTokens";
+import {
+  BackendProfile,
+  DEFAULT_PROFILE_ID,
+  PROFILE_COLORS,
+  deleteBackendProfile,
+  getActiveProfile,
+  getBackendProfiles,
+  normalizeUrl,
+  saveBackendProfile,
+  subscribeActiveProfile,
+} from "../services/backends";
+import CustomAlertDialog, { CustomAlertDialogRef } from "./CustomAlertDialog";
+
+interface Draft {
+  id?: string;
+  name: string;
+  url: string;
+  color: string;
+}
+
+const emptyDraft = (): Draft => ({
+  name: "",
+  url: "",
+  color: PROFILE_COLORS[getBackendProfiles().length % PROFILE_COLORS.length],
+});
+
+// Lists the saved backends and lets the user add, edit, remove and switch
+// between them. Used from both the login screen and settings.
+export default function BackendProfilesSheet({
+  visible,
+  onDismiss,
+}: {
+  visible: boolean;
+  onDismiss: () => void;
+}) {
+  const { t } = useTranslation();
+  const { colors, inputTheme } = useAppTheme();
+  const styles = createStyles(colors);
+  const { switchProfile } = useAuth();
+  const dialogRef = useRef<CustomAlertDialogRef>(null);
+  const [profiles, setProfiles] = useState(getBackendProfiles);
+  const [activeId, setActiveId] = useState(() => getActiveProfile().id);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = () => {
+    setProfiles(getBackendProfiles());
+    setActiveId(getActiveProfile().id);
+  };
+
+  useEffect(() => {
+    if (visible) refresh();
+    else setDraft(null);
+  }, [visible]);
+
+  useEffect(() => subscribeActiveProfile(refresh), []);
+
+  const urlValid = (url: string) => /^https?:\/\/[^\s/]+/.test(url.trim());
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim() || !urlValid(draft.url)) return;
+    setSaving(true);
+    try {
+      await saveBackendProfile(draft);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setDraft(null);
+      refresh();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSwitch = async (profile: BackendProfile) => {
+    if (profile.id === activeId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onDismiss();
+    await switchProfile(profile.id);
+  };
+
+  const handleDelete = (profile: BackendProfile) => {
+    dialogRef.current?.confirm(
+      t("backends.deleteTitle"),
+      t("backends.deleteMessage", { name: profile.name }),
+      async () => {
+        // Its tokens would otherwise linger in SecureStore
+        await clearTokens(profile.id);
+        await deleteBackendProfile(profile.id);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        refresh();
+      },
+      t("common.delete"),
+      true,
+    );
+  };
+
+  const renderProfile = ({ item }: { item: BackendProfile }) => {
+    const active = item.id === activeId;
+    return (
+      <Pressable
+        style={({ pressed }) => [styles.item, pressed && { opacity: 0.7 }]}
+        onPress={() => handleSwitch(item)}
+      >
+        <View style={[styles.dot, { backgroundColor: item.color }]} />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.itemName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={styles.itemUrl} numberOfLines={1}>
+            {item.url}
+          </Text>
+        </View>
+        {active && (
+          <MaterialCommunityIcons
+            name="check-circle"
+            size={20}
+            color={colors.success}
+          />
+        )}
+        <IconButton
+          icon="pencil-outline"
+          size={18}
+          onPress={() =>
+            setDraft({
+              id: item.id,
+              name: item.name,
+              url: item.url,
+              color: item.color,
+            })
+          }
+        />
+        {!active && item.id !== DEFAULT_PROFILE_ID && (
+          <IconButton
+            icon="delete-outline"
+            size={18}
+            iconColor={colors.error}
+            onPress={() => handleDelete(item)}
+          />
+        )}
+      </Pressable>
+    );
+  };
+
+  const renderForm = (d: Draft) => {
+    const showUrlError = d.url.trim().length > 0 && !urlValid(d.url);
+    return (
+      <View style={styles.form}>
+        <TextInput
+          label={t("backends.name")}
+          value={d.name}
+          onChangeText={(name) => setDraft({ ...d, name })}
+          mode="outlined"
+          style={styles.input}
+          outlineColor={colors.border}
+          activeOutlineColor={colors.primary}
+          textColor={colors.text}
+          theme={inputTheme}
+        />
+        <TextInput
+          label={t("backends.url")}
+          value={d.url}
+          onChangeText={(url) => setDraft({ ...d, url })}
+          onBlur={() => d.url && setDraft({ ...d, url: normalizeUrl(d.url) })}
+          placeholder="https://pulse.example.com"
+          mode="outlined"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          style={styles.input}
+          outlineColor={colors.border}
+          activeOutlineColor={colors.primary}
+          textColor={colors.text}
+          theme={inputTheme}
+        />
+        <HelperText type="error" visible={showUrlError}>
+          {t("backends.invalidUrl")}
+        </HelperText>
+        <View style={styles.colors}>
+          {PROFILE_COLORS.map((color) => (
+            <Pressable
+              key={color}
+              onPress={() => setDraft({ ...d, color })}
+              style={[
+                styles.swatch,
+                { backgroundColor: color },
+                d.color === color && styles.swatchSelected,
+              ]}
+            />
+          ))}
+        </View>
+        <View style={styles.formActions}>
+          <Button onPress={() => setDraft(null)}>{t("common.cancel")}</Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={saving}
+            disabled={saving || !d.name.trim() || !urlValid(d.url)}
+            buttonColor={colors.primary}
+          >
+            {t("common.save")}
+          </Button>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.sheet}
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {draft
+              ? draft.id
+                ? t("backends.editTitle")
+                : t("backends.addTitle")
+              : t("backends.title")}
+          </Text>
+          {!draft && (
+            <Button compact icon="plus" onPress={() => setDraft(emptyDraft())}>
+              {t("backends.add")}
+            </Button>
+          )}
+        </View>
+        {draft ? (
+          renderForm(draft)
+        ) : (
+          <>
+            <Text style={styles.hint}>{t("backends.hint")}</Text>
+            <FlatList
+              data={profiles}
+              keyExtractor={(item) => item.id}
+              renderItem={renderProfile}
+              style={{ maxHeight: 420 }}
+            />
+          </>
+        )}
+      </Modal>
+      <CustomAlertDialog ref={dialogRef} />
+    </Portal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    sheet: {
+      backgroundColor: colors.surface,
+      margin: 16,
+      padding: 16,
+      borderRadius: 12,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: { fontSize: 18, fontWeight: "bold", color: colors.text },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 6,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    dot: { width: 12, height: 12, borderRadius: 6 },
+    itemName: { fontSize: 14, fontWeight: "600", color: colors.text },
+    itemUrl: { fontSize: 12, color: colors.textSecondary },
+    form: { marginTop: 12, gap: 4 },
+    input: { backgroundColor: colors.surface },
+    colors: { flexDirection: "row", gap: 10, marginVertical: 8 },
+    swatch: { width: 28, height: 28, borderRadius: 14 },
+    swatchSelected: { borderWidth: 3, borderColor: colors.text },
+    formActions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      gap: 8,
+      marginTop: 8,
+    },
+  });
@@ -14,7 +14,7 @@ import { useRouter } from "expo-router";
 import { useTranslation } from "react-i18next";
 import { useAppTheme } from "../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import api from "../services/api";
+import { Project, projectsApi, Server, serversApi } from "../services/client";
 
 interface CommandPaletteProps {
   visible: boolean;
@@ -41,8 +41,8 @@ export default function CommandPalette({
   const styles = createStyles(colors, isDark);
 
   const [query, setQuery] = useState("");
-  const [servers, setServers] = useState<any[]>([]);
-  const [projects, setProjects] = useState<any[]>([]);
+  const [servers, setServers] = useState<Server[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
 
   const inputRef = useRef<TextInput>(null);
 
@@ -56,12 +56,12 @@ export default function CommandPalette({
 
       const fetchData = async () => {
         try {
-          const [serversRes, projectsRes] = await Promise.all([
-            api.get("/servers"),
-            api.get("/projects"),
+          const [serverList, projectList] = await Promise.all([
+            serversApi.list(),
+            projectsApi.list(),
           ]);
-          setServers(serversRes.data || []);
-          setProjects(projectsRes.data || []);
+          setServers(serverList || []);
+          setProjects(projectList || []);
         } catch (error) {
           console.error("Failed to fetch data for command palette", error);
         }
@@ -0,0 +1,516 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  Platform,
+  TextInput,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleProp,
+  ViewStyle,
+} from "react-native";
+import { Text, IconButton } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { AnsiSpan, styleToTextStyle } from "../utils/ansi";
+import {
+  DeployLogEntry,
+  LogLine,
+  LogMatch,
+  LogPhase,
+  buildDeployLog,
+  compileLogSearch,
+  findLogMatches,
+  firstErrorLine,
+} from "../utils/deployLogs";
+import type { DeploymentLogType } from "../services/client";
+
+type TypeFilter = DeploymentLogType | "all";
+
+type Row =
+  | { kind: "phase"; phase: LogPhase; index: number }
+  | { kind: "line"; line: LogLine };
+
+const MONO = Platform.OS === "ios" ? "Menlo" : "monospace";
+const FILTERS: TypeFilter[] = ["all", "info", "warning", "error", "success"];
+
+// Default foreground per log type; ANSI colors from the tool win
+const TYPE_COLORS: Record<DeploymentLogType, string> = {
+  info: "#c9d1d9",
+  error: "#f85149",
+  success: "#3fb950",
+  warning: "#eab308",
+};
+
+const PHASE_ICONS: Record<LogPhase["key"], string> = {
+  setup: "cog-outline",
+  clone: "source-branch",
+  install: "package-variant",
+  build: "hammer-wrench",
+  start: "rocket-launch-outline",
+};
+
+// Cuts styled spans at the match boundaries so matches can be highlighted
+// without losing the ANSI colors around them
+const highlightSpans = (spans: AnsiSpan[], matches: LogMatch[]) => {
+  if (matches.length === 0) {
+    return spans.map((span) => ({ ...span, match: -1 }));
+  }
+  const out: (AnsiSpan & { match: number })[] = [];
+  let offset = 0;
+  for (const span of spans) {
+    const spanEnd = offset + span.text.length;
+    let cursor = offset;
+    matches.forEach((m, i) => {
+      const start = Math.max(m.start, cursor);
+      const end = Math.min(m.end, spanEnd);
+      if (start >= end) return;
+      if (start > cursor) {
+        out.push({
+          ...span,
+          text: span.text.slice(cursor - offset, start - offset),
+          match: -1,
+        });
+      }
+      out.push({
+        ...span,
+        text: span.text.slice(start - offset, end - offset),
+        match: i,
+      });
+      cursor = end;
+    });
+    if (cursor < spanEnd) {
+      out.push({ ...span, text: span.text.slice(cursor - offset), match: -1 });
+    }
+    offset = spanEnd;
+  }
+  return out;
+};
+
+const formatTime = (timestamp: string) => {
+  const d = new Date(timestamp);
+  return isNaN(d.getTime())
+    ? "--:--:--"
+    : d.toLocaleTimeString([], { hour12: false });
+};
+
+// Virtualized, xterm-colored deployment log with regex search, type filters
+// and collapsible build phases
+export default function DeployLogViewer({
+  entries,
+  streaming = false,
+  style,
+}: {
+  entries: DeployLogEntry[];
+  streaming?: boolean;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const { t } = useTranslation();
+  const listRef = useRef<FlatList<Row>>(null);
+  const followRef = useRef(true);
+  const [query, setQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [current, setCurrent] = useState(0);
+  const [scrollTarget, setScrollTarget] = useState<number | null>(null);
+
+  const { lines, phases } = useMemo(() => buildDeployLog(entries), [entries]);
+
+  const filtered = useMemo(
+    () =>
+      typeFilter === "all"
+        ? lines
+        : lines.filter((l) => l.type === typeFilter || l.isStep),
+    [lines, typeFilter],
+  );
+
+  const { regex, invalid } = useMemo(() => compileLogSearch(query), [query]);
+  const matches = useMemo(
+    () => findLogMatches(filtered, regex),
+    [filtered, regex],
+  );
+
+  const matchesByLine = useMemo(() => {
+    const map = new Map<number, LogMatch[]>();
+    matches.forEach((m) => {
+      const list = map.get(m.line) || [];
+      list.push(m);
+      map.set(m.line, list);
+    });
+    return map;
+  }, [matches]);
+
+  // One phase only is noise, so headers show up once the build has steps
+  const showPhases = phases.length > 1;
+
+  const rows = useMemo(() => {
+    const out: Row[] = [];
+    let lastPhase = -1;
+    for (const line of filtered) {
+      if (showPhases && line.phase !== lastPhase) {
+        out.push({
+          kind: "phase",
+          phase: phases[line.phase],
+          index: line.phase,
+        });
+        lastPhase = line.phase;
+      }
+      if (!showPhases || !collapsed.has(line.phase)) {
+        out.push({ kind: "line", line });
+      }
+    }
+    return out;
+  }, [filtered, phases, collapsed, showPhases]);
+
+  const counts = useMemo(() => {
+    const c: Record<TypeFilter, number> = {
+      all: lines.length,
+      info: 0,
+      warning: 0,
+      error: 0,
+      success: 0,
+    };
+    lines.forEach((l) => c[l.type]++);
+    return c;
+  }, [lines]);
+
+  useEffect(() => {
+    setCurrent(0);
+  }, [regex, typeFilter]);
+
+  // Scroll once the target line is actually among the rows (its phase may
+  // have just been expanded)
+  useEffect(() => {
+    if (scrollTarget === null) return;
+    const index = rows.findIndex(
+      (r) => r.kind === "line" && r.line.index === scrollTarget,
+    );
+    if (index === -1) return;
+    followRef.current = false;
+    listRef.current?.scrollToIndex({ index, viewPosition: 0.3 });
+    setScrollTarget(null);
+  }, [rows, scrollTarget]);
+
+  const revealLine = (lineIndex: number) => {
+    const phase = lines[lineIndex]?.phase;
+    if (phase !== undefined && collapsed.has(phase)) {
+      setCollapsed((prev) => {
+        const next = new Set(prev);
+        next.delete(phase);
+        return next;
+      });
+    }
+    setScrollTarget(lineIndex);
+  };
+
+  const goToMatch = (delta: number) => {
+    if (matches.length === 0) return;
+    Haptics.selectionAsync();
+    const next = (current + delta + matches.length) % matches.length;
+    setCurrent(next);
+    revealLine(matches[next].line);
+  };
+
+  const jumpToError = () => {
+    const index = firstErrorLine(lines);
+    if (index === -1) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (typeFilter !== "all" && lines[index].type !== typeFilter) {
+      setTypeFilter("all");
+    }
+    revealLine(index);
+  };
+
+  const togglePhase = (index: number) => {
+    Haptics.selectionAsync();
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  // Keep following new output only while the user is at the bottom
+  const handleScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, layoutMeasurement, contentSize } = e.nativeEvent;
+    followRef.current =
+      contentOffset.y + layoutMeasurement.height >= contentSize.height - 40;
+  };
+
+  const currentMatch = matches[current];
+
+  const renderLine = (line: LogLine) => {
+    const baseColor = TYPE_COLORS[line.type] || TYPE_COLORS.info;
+    const lineMatches = matchesByLine.get(line.index) || [];
+    const parts = highlightSpans(line.spans, lineMatches);
+    return (
+      <View style={styles.line}>
+        <Text style={styles.lineNum}>{line.index + 1}</Text>
+        <Text style={styles.time}>{formatTime(line.timestamp)}</Text>
+        <Text
+          style={[
+            styles.text,
+            { color: baseColor },
+            line.isStep && styles.stepText,
+          ]}
+        >
+          {parts.map((part, i) => {
+            const ansi = styleToTextStyle(part.style);
+            const isCurrent =
+              part.match !== -1 && lineMatches[part.match] === currentMatch;
+            return (
+              <Text
+                key={i}
+                style={[
+                  ansi,
+                  // Unstyled text keeps the color of its log type
+                  part.style.fg === null &&
+                    !part.style.inverse && { color: baseColor },
+                  part.match !== -1 && styles.match,
+                  isCurrent && styles.currentMatch,
+                ]}
+              >
+                {part.text}
+              </Text>
+            );
+          })}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderPhase = (phase: LogPhase, index: number) => {
+    const isCollapsed = collapsed.has(index);
+    return (
+      <Pressable style={styles.phase} onPress={() => togglePhase(index)}>
+        <MaterialCommunityIcons
+          name={isCollapsed ? "chevron-right" : "chevron-down"}
+          size={16}
+          color="#8b949e"
+        />
+        <MaterialCommunityIcons
+          name={PHASE_ICONS[phase.key] as any}
+          size={14}
+          color={phase.hasError ? TYPE_COLORS.error : "#58a6ff"}
+        />
+        <Text style={styles.phaseTitle}>
+          {t(`deployLog.phase.${phase.key}`)}
+        </Text>
+        <Text style={styles.phaseMeta} numberOfLines={1}>
+          {t("deployLog.lineCount", { count: phase.end - phase.start })}
+        </Text>
+        {phase.hasError && (
+          <MaterialCommunityIcons
+            name="alert-circle"
+            size={14}
+            color={TYPE_COLORS.error}
+          />
+        )}
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      {/* Search */}
+      <View style={styles.searchRow}>
+        <MaterialCommunityIcons name="magnify" size={16} color="#8b949e" />
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t("deployLog.searchPlaceholder")}
+          placeholderTextColor="#6e7681"
+          style={[
+            styles.searchInput,
+            invalid && { color: TYPE_COLORS.warning },
+          ]}
+          autoCapitalize="none"
+          autoCorrect={false}
+          onSubmitEditing={() => goToMatch(1)}
+        />
+        {query ? (
+          <Text style={styles.matchCount}>
+            {matches.length ? `${current + 1}/${matches.length}` : "0/0"}
+          </Text>
+        ) : null}
+        <IconButton
+          icon="chevron-up"
+          size={16}
+          iconColor="#c9d1d9"
+          disabled={matches.length === 0}
+          onPress={() => goToMatch(-1)}
+          style={styles.iconBtn}
+        />
+        <IconButton
+          icon="chevron-down"
+          size={16}
+          iconColor="#c9d1d9"
+          disabled={matches.length === 0}
+          onPress={() => goToMatch(1)}
+          style={styles.iconBtn}
+        />
+        <IconButton
+          icon="alert-octagon-outline"
+          size={16}
+          iconColor={TYPE_COLORS.error}
+          disabled={counts.error === 0 && firstErrorLine(lines) === -1}
+          onPress={jumpToError}
+          style={styles.iconBtn}
+          accessibilityLabel={t("deployLog.jumpToError")}
+        />
+      </View>
+
+      {/* Type filter */}
+      <View style={styles.filterRow}>
+        {FILTERS.map((f) => (
+          <Pressable
+            key={f}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setTypeFilter(f);
+            }}
+            style={[styles.filter, typeFilter === f && styles.filterActive]}
+          >
+            <Text
+              style={[
+                styles.filterText,
+                f !== "all" && { color: TYPE_COLORS[f] },
+              ]}
+            >
+              {t(`deployLog.filter.${f}`)} {counts[f]}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <FlatList
+        ref={listRef}
+        data={rows}
+        keyExtractor={(row) =>
+          row.kind === "phase" ? `phase-${row.index}` : `line-${row.line.index}`
+        }
+        renderItem={({ item }) =>
+          item.kind === "phase"
+            ? renderPhase(item.phase, item.index)
+            : renderLine(item.line)
+        }
+        style={styles.list}
+        contentContainerStyle={{ padding: 10, paddingBottom: 30 }}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
+        onContentSizeChange={() => {
+          if (followRef.current && streaming) {
+            listRef.current?.scrollToEnd({ animated: false });
+          }
+        }}
+        onScrollToIndexFailed={(info) => {
+          // Rows vary in height; land near it, then try again once measured
+          listRef.current?.scrollToOffset({
+            offset: info.averageItemLength * info.index,
+            animated: false,
+          });
+          setTimeout(
+            () =>
+              listRef.current?.scrollToIndex({
+                index: info.index,
+                viewPosition: 0.3,
+              }),
+            50,
+          );
+        }}
+        initialNumToRender={40}
+        windowSize={11}
+        nestedScrollEnabled
+        ListEmptyComponent={
+          <Text style={styles.empty}>
+            {lines.length === 0
+              ? t("deploy.noLogsYet")
+              : t("deployLog.noMatchingLines")}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "#0d1117" },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingLeft: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#21262d",
+  },
+  searchInput: {
+    flex: 1,
+    color: "#c9d1d9",
+    fontFamily: MONO,
+    fontSize: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  matchCount: { color: "#8b949e", fontSize: 11, fontFamily: MONO },
+  iconBtn: { margin: 0 },
+  filterRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#21262d",
+  },
+  filter: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#30363d",
+  },
+  filterActive: { backgroundColor: "#21262d", borderColor: "#58a6ff" },
+  filterText: { color: "#c9d1d9", fontSize: 11, fontWeight: "600" },
+  list: { flex: 1 },
+  line: { flexDirection: "row", marginBottom: 1 },
+  lineNum: {
+    color: "#484f58",
+    fontFamily: MONO,
+    fontSize: 10,
+    width: 34,
+    textAlign: "right",
+    marginRight: 8,
+    lineHeight: 17,
+  },
+  time: {
+    color: "#6b7280",
+    fontFamily: MONO,
+    fontSize: 10,
+    marginRight: 8,
+    lineHeight: 17,
+  },
+  text: { flex: 1, fontFamily: MONO, fontSize: 11, lineHeight: 17 },
+  stepText: { fontWeight: "bold", fontSize: 12 },
+  match: { backgroundColor: "#9e6a03", color: "#ffffff" },
+  currentMatch: { backgroundColor: "#f2cc60", color: "#0d1117" },
+  phase: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 6,
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: "#21262d",
+  },
+  phaseTitle: { color: "#e6edf3", fontSize: 12, fontWeight: "700" },
+  phaseMeta: { color: "#8b949e", fontSize: 11, flex: 1 },
+  empty: {
+    color: "#484f58",
+    fontFamily: MONO,
+    fontSize: 11,
+    fontStyle: "italic",
+  },
+});
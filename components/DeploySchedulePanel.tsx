@@ -0,0 +1,630 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { View, StyleSheet, Pressable, Platform } from "react-native";
+import {
+  Modal,
+  Portal,
+  Text,
+  Button,
+  Chip,
+  Divider,
+  IconButton,
+  SegmentedButtons,
+  Switch,
+} from "react-native-paper";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import {
+  deploymentsApi,
+  DeploySchedule,
+  getErrorMessage,
+  MaintenanceMode,
+  MaintenancePolicy,
+  MaintenanceWindow,
+} from "../services/client";
+import {
+  DAY_PRESETS,
+  EVERY_DAY,
+  WEEKDAYS,
+  dateWithTime,
+  dayPresetFor,
+  timeFromDate,
+} from "../utils/schedules";
+import { deviceTimezone } from "../utils/timezone";
+import CustomAlertDialog, { CustomAlertDialogRef } from "./CustomAlertDialog";
+
+type TFunction = ReturnType<typeof useTranslation>["t"];
+
+// "Weekdays", "Every day" or "Mon, Wed, Fri"
+export const describeDays = (days: number[], t: TFunction) => {
+  const preset = dayPresetFor(days);
+  if (preset) return t(`schedule.preset_${preset}`);
+  return [...days]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((d) => t(`schedule.day_${d}`))
+    .join(", ");
+};
+
+// Monday first, as in most calendars the app is used with
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface ScheduleDraft {
+  id?: string;
+  days: number[];
+  time: string;
+}
+
+interface TimeTarget {
+  kind: "schedule" | "windowStart" | "windowEnd";
+  index?: number;
+  value: string;
+}
+
+function DayPicker({
+  days,
+  onChange,
+}: {
+  days: number[];
+  onChange: (days: number[]) => void;
+}) {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+  return (
+    <View style={styles.days}>
+      {DAY_ORDER.map((d) => {
+        const selected = days.includes(d);
+        return (
+          <Pressable
+            key={d}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onChange(
+                selected ? days.filter((x) => x !== d) : [...days, d].sort(),
+              );
+            }}
+            style={[styles.day, selected && styles.daySelected]}
+          >
+            <Text
+              style={[styles.dayText, selected && { color: colors.primary }]}
+            >
+              {t(`schedule.day_${d}`)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+// Recurring deploys and maintenance windows for one project, shown under the
+// one-shot schedule on the deployment screen.
+export default function DeploySchedulePanel({
+  projectId,
+}: {
+  projectId: string;
+}) {
+  const { t } = useTranslation();
+  const { colors, isDark } = useAppTheme();
+  const styles = createStyles(colors);
+  const dialogRef = useRef<CustomAlertDialogRef>(null);
+
+  const [schedules, setSchedules] = useState<DeploySchedule[]>([]);
+  const [policy, setPolicy] = useState<MaintenancePolicy | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft | null>(
+    null,
+  );
+  const [policyDraft, setPolicyDraft] = useState<MaintenancePolicy | null>(
+    null,
+  );
+  const [timeTarget, setTimeTarget] = useState<TimeTarget | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [list, maintenance] = await Promise.all([
+        deploymentsApi.recurringSchedules(projectId),
+        deploymentsApi.maintenance(projectId),
+      ]);
+      setSchedules(list);
+      setPolicy(maintenance);
+    } catch {}
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const fail = (err: unknown) =>
+    dialogRef.current?.show(
+      t("common.error"),
+      getErrorMessage(err, t("common.failed")),
+    );
+
+  const saveSchedule = async () => {
+    if (!scheduleDraft || scheduleDraft.days.length === 0) return;
+    setSaving(true);
+    try {
+      const payload = {
+        days: scheduleDraft.days,
+        time: scheduleDraft.time,
+        timezone: deviceTimezone(),
+        enabled: true,
+      };
+      if (scheduleDraft.id) {
+        await deploymentsApi.updateRecurringSchedule(
+          projectId,
+          scheduleDraft.id,
+          payload,
+        );
+      } else {
+        await deploymentsApi.createRecurringSchedule(projectId, payload);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setScheduleDraft(null);
+      load();
+    } catch (err) {
+      fail(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSchedule = async (schedule: DeploySchedule) => {
+    const enabled = !schedule.enabled;
+    setSchedules((prev) =>
+      prev.map((s) => (s._id === schedule._id ? { ...s, enabled } : s)),
+    );
+    try {
+      await deploymentsApi.updateRecurringSchedule(projectId, schedule._id, {
+        enabled,
+      });
+    } catch (err) {
+      setSchedules((prev) =>
+        prev.map((s) =>
+          s._id === schedule._id ? { ...s, enabled: !enabled } : s,
+        ),
+      );
+      fail(err);
+    }
+  };
+
+  const deleteSchedule = (schedule: DeploySchedule) => {
+    dialogRef.current?.confirm(
+      t("schedule.deleteTitle"),
+      t("schedule.deleteMessage", {
+        when: t("schedule.summary", {
+          days: describeDays(schedule.days, t),
+          time: schedule.time,
+        }),
+      }),
+      async () => {
+        try {
+          await deploymentsApi.deleteRecurringSchedule(projectId, schedule._id);
+          setSchedules((prev) => prev.filter((s) => s._id !== schedule._id));
+        } catch (err) {
+          fail(err);
+        }
+      },
+      t("common.delete"),
+      true,
+    );
+  };
+
+  const savePolicy = async () => {
+    if (!policyDraft) return;
+    const windows = policyDraft.windows.filter(
+      (w) => w.days.length > 0 && w.start !== w.end,
+    );
+    // Saving with no windows left removes the restriction entirely
+    const next = windows.length
+      ? { ...policyDraft, windows, timezone: deviceTimezone() }
+      : null;
+    setSaving(true);
+    try {
+      await deploymentsApi.setMaintenance(projectId, next);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPolicy(next);
+      setPolicyDraft(null);
+    } catch (err) {
+      fail(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateWindow = (index: number, patch: Partial<MaintenanceWindow>) =>
+    setPolicyDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            windows: prev.windows.map((w, i) =>
+              i === index ? { ...w, ...patch } : w,
+            ),
+          }
+        : prev,
+    );
+
+  const applyTime = (date: Date) => {
+    if (!timeTarget) return;
+    const value = timeFromDate(date);
+    if (timeTarget.kind === "schedule") {
+      setScheduleDraft((prev) => (prev ? { ...prev, time: value } : prev));
+    } else if (timeTarget.index !== undefined) {
+      updateWindow(
+        timeTarget.index,
+        timeTarget.kind === "windowStart" ? { start: value } : { end: value },
+      );
+    }
+    setTimeTarget((prev) => (prev ? { ...prev, value } : prev));
+  };
+
+  const renderTimeButton = (target: TimeTarget) => (
+    <Pressable onPress={() => setTimeTarget(target)} style={styles.timeBtn}>
+      <MaterialCommunityIcons
+        name="clock-outline"
+        size={16}
+        color={colors.primary}
+      />
+      <Text style={styles.timeText}>{target.value}</Text>
+    </Pressable>
+  );
+
+  const renderScheduleEditor = (draft: ScheduleDraft) => (
+    <>
+      <Text style={styles.sheetTitle}>
+        {draft.id ? t("schedule.editTitle") : t("schedule.addTitle")}
+      </Text>
+      <View style={styles.presets}>
+        {(Object.keys(DAY_PRESETS) as (keyof typeof DAY_PRESETS)[]).map(
+          (key) => (
+            <Chip
+              key={key}
+              compact
+              selected={dayPresetFor(draft.days) === key}
+              onPress={() =>
+                setScheduleDraft({ ...draft, days: DAY_PRESETS[key] })
+              }
+            >
+              {t(`schedule.preset_${key}`)}
+            </Chip>
+          ),
+        )}
+      </View>
+      <DayPicker
+        days={draft.days}
+        onChange={(days) => setScheduleDraft({ ...draft, days })}
+      />
+      <View style={styles.row}>
+        <Text style={styles.label}>{t("schedule.at")}</Text>
+        {renderTimeButton({ kind: "schedule", value: draft.time })}
+      </View>
+      <Text style={styles.hint}>
+        {t("schedule.timezoneHint", { timezone: deviceTimezone() })}
+      </Text>
+      <View style={styles.sheetActions}>
+        <Button
+          onPress={() => setScheduleDraft(null)}
+          textColor={colors.textSecondary}
+        >
+          {t("common.cancel")}
+        </Button>
+        <Button
+          mode="contained"
+          onPress={saveSchedule}
+          loading={saving}
+          disabled={saving || draft.days.length === 0}
+          buttonColor={colors.primary}
+        >
+          {t("common.save")}
+        </Button>
+      </View>
+    </>
+  );
+
+  const renderPolicyEditor = (draft: MaintenancePolicy) => (
+    <>
+      <Text style={styles.sheetTitle}>{t("schedule.windowsTitle")}</Text>
+      <Text style={styles.hint}>{t("schedule.windowsHint")}</Text>
+      {draft.windows.map((w, i) => (
+        <View key={i} style={styles.windowEditor}>
+          <DayPicker
+            days={w.days}
+            onChange={(days) => updateWindow(i, { days })}
+          />
+          <View style={styles.row}>
+            {renderTimeButton({
+              kind: "windowStart",
+              index: i,
+              value: w.start,
+            })}
+            <Text style={styles.label}>–</Text>
+            {renderTimeButton({ kind: "windowEnd", index: i, value: w.end })}
+            <View style={{ flex: 1 }} />
+            <IconButton
+              icon="delete-outline"
+              iconColor={colors.error}
+              size={18}
+              onPress={() =>
+                setPolicyDraft({
+                  ...draft,
+                  windows: draft.windows.filter((_, j) => j !== i),
+                })
+              }
+            />
+          </View>
+        </View>
+      ))}
+      <Button
+        icon="plus"
+        compact
+        onPress={() =>
+          setPolicyDraft({
+            ...draft,
+            windows: [
+              ...draft.windows,
+              { days: WEEKDAYS, start: "22:00", end: "06:00" },
+            ],
+          })
+        }
+        style={{ alignSelf: "flex-start" }}
+      >
+        {t("schedule.addWindow")}
+      </Button>
+      <Text style={[styles.label, { marginTop: 12 }]}>
+        {t("schedule.outsideWindows")}
+      </Text>
+      <SegmentedButtons
+        value={draft.mode}
+        onValueChange={(mode) =>
+          setPolicyDraft({ ...draft, mode: mode as MaintenanceMode })
+        }
+        buttons={[
+          { value: "queue", label: t("schedule.mode_queue") },
+          { value: "block", label: t("schedule.mode_block") },
+        ]}
+        style={{ marginTop: 6 }}
+      />
+      <View style={styles.sheetActions}>
+        <Button
+          onPress={() => setPolicyDraft(null)}
+          textColor={colors.textSecondary}
+        >
+          {t("common.cancel")}
+        </Button>
+        <Button
+          mode="contained"
+          onPress={savePolicy}
+          loading={saving}
+          disabled={saving}
+          buttonColor={colors.primary}
+        >
+          {t("common.save")}
+        </Button>
+      </View>
+    </>
+  );
+
+  return (
+    <>
+      <Divider style={styles.divider} />
+      <View style={styles.sectionHeader}>
+        <MaterialCommunityIcons
+          name="repeat"
+          size={16}
+          color={colors.primary}
+        />
+        <Text style={styles.sectionTitle}>{t("schedule.recurring")}</Text>
+        <Button
+          compact
+          icon="plus"
+          onPress={() => setScheduleDraft({ days: WEEKDAYS, time: "02:00" })}
+        >
+          {t("common.add")}
+        </Button>
+      </View>
+      {schedules.length === 0 ? (
+        <Text style={styles.hint}>{t("schedule.noRecurring")}</Text>
+      ) : (
+        schedules.map((s) => (
+          <View key={s._id} style={styles.item}>
+            <Pressable
+              style={{ flex: 1 }}
+              onPress={() =>
+                setScheduleDraft({ id: s._id, days: s.days, time: s.time })
+              }
+              onLongPress={() => deleteSchedule(s)}
+            >
+              <Text
+                style={[
+                  styles.itemTitle,
+                  !s.enabled && { color: colors.textSecondary },
+                ]}
+              >
+                {t("schedule.summary", {
+                  days: describeDays(s.days, t),
+                  time: s.time,
+                })}
+              </Text>
+              {s.enabled && s.nextRunAt ? (
+                <Text style={styles.itemMeta}>
+                  {t("schedule.nextRun", {
+                    time: new Date(s.nextRunAt).toLocaleString(),
+                  })}
+                </Text>
+              ) : null}
+            </Pressable>
+            <Switch
+              value={s.enabled}
+              onValueChange={() => toggleSchedule(s)}
+              color={colors.primary}
+            />
+          </View>
+        ))
+      )}
+
+      <Divider style={styles.divider} />
+      <View style={styles.sectionHeader}>
+        <MaterialCommunityIcons
+          name="calendar-lock-outline"
+          size={16}
+          color={colors.primary}
+        />
+        <Text style={styles.sectionTitle}>{t("schedule.windowsTitle")}</Text>
+        <Button
+          compact
+          icon={policy ? "pencil" : "plus"}
+          onPress={() =>
+            setPolicyDraft(
+              policy || {
+                windows: [{ days: EVERY_DAY, start: "22:00", end: "06:00" }],
+                mode: "queue",
+                timezone: deviceTimezone(),
+              },
+            )
+          }
+        >
+          {policy ? t("common.edit") : t("common.add")}
+        </Button>
+      </View>
+      {policy ? (
+        <>
+          {policy.windows.map((w, i) => (
+            <Text key={i} style={styles.itemTitle}>
+              {t("schedule.windowSummary", {
+                days: describeDays(w.days, t),
+                start: w.start,
+                end: w.end,
+              })}
+            </Text>
+          ))}
+          <Text style={styles.itemMeta}>
+            {t(`schedule.modeHint_${policy.mode}`)}
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.hint}>{t("schedule.noWindows")}</Text>
+      )}
+
+      <Portal>
+        <Modal
+          visible={!!scheduleDraft || !!policyDraft}
+          onDismiss={() => {
+            if (saving) return;
+            setScheduleDraft(null);
+            setPolicyDraft(null);
+          }}
+          contentContainerStyle={styles.sheet}
+        >
+          {scheduleDraft
+            ? renderScheduleEditor(scheduleDraft)
+            : policyDraft
+              ? renderPolicyEditor(policyDraft)
+              : null}
+          {timeTarget && (
+            <DateTimePicker
+              value={dateWithTime(new Date(), timeTarget.value)}
+              mode="time"
+              is24Hour
+              display={Platform.OS === "ios" ? "spinner" : "default"}
+              themeVariant={isDark ? "dark" : "light"}
+              onChange={(event, date) => {
+                if (Platform.OS === "android") setTimeTarget(null);
+                if (date && event.type !== "dismissed") applyTime(date);
+              }}
+              style={{ height: 180 }}
+            />
+          )}
+          {timeTarget && Platform.OS === "ios" && (
+            <Button onPress={() => setTimeTarget(null)}>
+              {t("common.done")}
+            </Button>
+          )}
+        </Modal>
+      </Portal>
+      <CustomAlertDialog ref={dialogRef} />
+    </>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    divider: { backgroundColor: colors.border, marginVertical: 14 },
+    sectionHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      marginBottom: 6,
+    },
+    sectionTitle: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: "700",
+      color: colors.text,
+    },
+    hint: { fontSize: 12, color: colors.textSecondary, marginVertical: 4 },
+    item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 8,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    itemTitle: { fontSize: 14, fontWeight: "600", color: colors.text },
+    itemMeta: { fontSize: 12, color: colors.textSecondary, marginTop: 2 },
+    sheet: {
+      backgroundColor: colors.surface,
+      margin: 16,
+      padding: 16,
+      borderRadius: 12,
+    },
+    sheetTitle: {
+      fontSize: 18,
+      fontWeight: "bold",
+      color: colors.text,
+      marginBottom: 8,
+    },
+    sheetActions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      gap: 8,
+      marginTop: 16,
+    },
+    presets: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+    days: { flexDirection: "row", gap: 4, marginVertical: 10 },
+    day: {
+      flex: 1,
+      alignItems: "center",
+      paddingVertical: 8,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    daySelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + "15",
+    },
+    dayText: { fontSize: 12, fontWeight: "600", color: colors.textSecondary },
+    row: { flexDirection: "row", alignItems: "center", gap: 8 },
+    label: { fontSize: 13, fontWeight: "600", color: colors.text },
+    timeBtn: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      backgroundColor: colors.surfaceVariant,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    timeText: { fontSize: 14, fontWeight: "600", color: colors.text },
+    windowEditor: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 10,
+      marginBottom: 8,
+    },
+  });
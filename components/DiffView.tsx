@@ -0,0 +1,293 @@
+import React, { memo, useMemo, useState } from "react";
+import {
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Text } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import {
+  DiffFile,
+  DiffFileStatus,
+  DiffLine,
+  diffFilePath,
+} from "../utils/diff";
+import {
+  SyntaxLanguage,
+  TokenKind,
+  highlightCode,
+  languageForPath,
+} from "../utils/syntax";
+
+// Files bigger than this start collapsed so one lockfile doesn't bury the rest
+const AUTO_COLLAPSE_LINES = 300;
+
+const MONO = Platform.OS === "ios" ? "Menlo" : "monospace";
+
+const STATUS_ICONS: Record<DiffFileStatus, string> = {
+  added: "file-plus-outline",
+  deleted: "file-remove-outline",
+  renamed: "file-move-outline",
+  modified: "file-edit-outline",
+  binary: "file-outline",
+};
+
+const TOKEN_COLORS: Record<TokenKind, string | undefined> = {
+  plain: undefined,
+  keyword: "#c678dd",
+  string: "#98c379",
+  comment: "#7f848e",
+  number: "#d19a66",
+};
+
+const fileLineCount = (file: DiffFile) =>
+  file.hunks.reduce((n, h) => n + h.lines.length, 0);
+
+export default function DiffView({ files }: { files: DiffFile[] }) {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+
+  if (files.length === 0) {
+    return <Text style={styles.empty}>{t("diff.noChanges")}</Text>;
+  }
+
+  return (
+    <View style={{ gap: 10 }}>
+      {files.map((file, i) => (
+        <DiffFileCard key={`${diffFilePath(file)}-${i}`} file={file} />
+      ))}
+    </View>
+  );
+}
+
+function DiffFileCard({ file }: { file: DiffFile }) {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+  const lineCount = useMemo(() => fileLineCount(file), [file]);
+  const [expanded, setExpanded] = useState(lineCount <= AUTO_COLLAPSE_LINES);
+  const path = diffFilePath(file);
+  const language = useMemo(() => languageForPath(path), [path]);
+  const gutterWidth = useMemo(() => {
+    let max = 0;
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        max = Math.max(max, line.oldNumber || 0, line.newNumber || 0);
+      }
+    }
+    return Math.max(2, String(max).length) * 8 + 8;
+  }, [file]);
+
+  return (
+    <View style={styles.file}>
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          setExpanded((v) => !v);
+        }}
+        style={styles.fileHeader}
+      >
+        <MaterialCommunityIcons
+          name={expanded ? "chevron-down" : "chevron-right"}
+          size={18}
+          color={colors.textSecondary}
+        />
+        <MaterialCommunityIcons
+          name={STATUS_ICONS[file.status] as any}
+          size={16}
+          color={
+            file.status === "added"
+              ? colors.success
+              : file.status === "deleted"
+                ? colors.error
+                : colors.info
+          }
+        />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.filePath} numberOfLines={2}>
+            {path}
+          </Text>
+          {file.status === "renamed" && (
+            <Text style={styles.fileRename} numberOfLines={1}>
+              {t("diff.renamedFrom", { path: file.oldPath })}
+            </Text>
+          )}
+        </View>
+        <Text style={[styles.count, { color: colors.success }]}>
+          +{file.additions}
+        </Text>
+        <Text style={[styles.count, { color: colors.error }]}>
+          −{file.deletions}
+        </Text>
+      </Pressable>
+
+      {expanded &&
+        (file.status === "binary" ? (
+          <Text style={styles.note}>{t("diff.binary")}</Text>
+        ) : file.hunks.length === 0 ? (
+          <Text style={styles.note}>{t("diff.noContent")}</Text>
+        ) : (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.code}>
+              {file.hunks.map((hunk, h) => (
+                <View key={h}>
+                  <Text style={styles.hunkHeader}>
+                    @@ -{hunk.oldStart} +{hunk.newStart} @@ {hunk.header}
+                  </Text>
+                  {hunk.lines.map((line, l) => (
+                    <DiffLineRow
+                      key={l}
+                      line={line}
+                      language={language}
+                      gutterWidth={gutterWidth}
+                    />
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        ))}
+    </View>
+  );
+}
+
+const DiffLineRow = memo(function DiffLineRow({
+  line,
+  language,
+  gutterWidth,
+}: {
+  line: DiffLine;
+  language: SyntaxLanguage;
+  gutterWidth: number;
+}) {
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+  const tokens = useMemo(
+    () =>
+      line.kind === "meta"
+        ? [{ text: line.content, kind: "comment" as TokenKind }]
+        : highlightCode(line.content, language),
+    [line, language],
+  );
+  const sign = line.kind === "add" ? "+" : line.kind === "del" ? "-" : " ";
+
+  return (
+    <View
+      style={[
+        styles.line,
+        line.kind === "add" && { backgroundColor: colors.success + "22" },
+        line.kind === "del" && { backgroundColor: colors.error + "22" },
+      ]}
+    >
+      <Text style={[styles.gutter, { width: gutterWidth }]}>
+        {line.oldNumber ?? ""}
+      </Text>
+      <Text style={[styles.gutter, { width: gutterWidth }]}>
+        {line.newNumber ?? ""}
+      </Text>
+      <Text
+        style={[
+          styles.sign,
+          line.kind === "add" && { color: colors.success },
+          line.kind === "del" && { color: colors.error },
+        ]}
+      >
+        {sign}
+      </Text>
+      <Text style={styles.content}>
+        {tokens.map((token, i) => (
+          <Text
+            key={i}
+            style={
+              TOKEN_COLORS[token.kind]
+                ? { color: TOKEN_COLORS[token.kind] }
+                : undefined
+            }
+          >
+            {token.text}
+          </Text>
+        ))}
+      </Text>
+    </View>
+  );
+});
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    empty: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      textAlign: "center",
+      paddingVertical: 24,
+    },
+    file: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.card,
+      overflow: "hidden",
+    },
+    fileHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      paddingHorizontal: 10,
+      paddingVertical: 10,
+    },
+    filePath: {
+      fontSize: 12,
+      fontFamily: MONO,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    fileRename: { fontSize: 11, color: colors.textSecondary, marginTop: 2 },
+    count: { fontSize: 12, fontWeight: "700", fontFamily: MONO },
+    note: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      paddingHorizontal: 12,
+      paddingBottom: 12,
+    },
+    code: {
+      backgroundColor: "#0d1117",
+      paddingVertical: 4,
+      minWidth: "100%",
+    },
+    hunkHeader: {
+      fontSize: 11,
+      fontFamily: MONO,
+      color: "#58a6ff",
+      backgroundColor: "#161b22",
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    line: { flexDirection: "row" },
+    gutter: {
+      fontSize: 11,
+      lineHeight: 17,
+      fontFamily: MONO,
+      color: "#6e7681",
+      textAlign: "right",
+      paddingRight: 6,
+    },
+    sign: {
+      fontSize: 12,
+      lineHeight: 17,
+      fontFamily: MONO,
+      color: "#6e7681",
+      width: 14,
+    },
+    content: {
+      fontSize: 12,
+      lineHeight: 17,
+      fontFamily: MONO,
+      color: "#c9d1d9",
+      paddingRight: 12,
+    },
+  });
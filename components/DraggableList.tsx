@@ -0,0 +1,161 @@
+import React, { useRef, useState } from "react";
+import {
+  Animated,
+  PanResponder,
+  PanResponderInstance,
+  View,
+  ViewStyle,
+} from "react-native";
+import * as Haptics from "expo-haptics";
+
+// Vertical list whose rows are reordered by dragging a handle. Rows render
+// their own handle and spread `dragHandlers` onto it, so taps and scrolling
+// anywhere else keep working (including a nested DraggableList).
+
+export interface DragHandleProps {
+  dragHandlers: PanResponderInstance["panHandlers"];
+  dragging: boolean;
+}
+
+interface Props<T> {
+  data: T[];
+  keyExtractor: (item: T, index: number) => string;
+  renderItem: (
+    item: T,
+    index: number,
+    handle: DragHandleProps,
+  ) => React.ReactNode;
+  onReorder: (from: number, to: number) => void;
+  // Lets the parent lock its ScrollView while a row is held
+  onDragStateChange?: (dragging: boolean) => void;
+  style?: ViewStyle;
+  gap?: number;
+}
+
+interface DragState {
+  from: number;
+  to: number;
+}
+
+export default function DraggableList<T>({
+  data,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  onDragStateChange,
+  style,
+  gap = 0,
+}: Props<T>) {
+  const heights = useRef<number[]>([]);
+  const offset = useRef(new Animated.Value(0)).current;
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const latest = useRef({ onReorder, onDragStateChange, count: data.length });
+  latest.current = { onReorder, onDragStateChange, count: data.length };
+
+  // Index the held row would land on if released with this offset
+  const targetFor = (from: number, dy: number) => {
+    const sizes = heights.current;
+    let top = 0;
+    const tops = sizes.map((h) => {
+      const t = top;
+      top += h + gap;
+      return t;
+    });
+    const center = (tops[from] ?? 0) + (sizes[from] ?? 0) / 2 + dy;
+    let to = 0;
+    for (let i = 0; i < latest.current.count; i++) {
+      if (i === from) continue;
+      if (center > (tops[i] ?? 0) + (sizes[i] ?? 0) / 2) to++;
+    }
+    return to;
+  };
+
+  const update = (next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const responders = useRef(new Map<number, PanResponderInstance>());
+  const responderFor = (index: number) => {
+    let responder = responders.current.get(index);
+    if (responder) return responder;
+    responder = PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        offset.setValue(0);
+        update({ from: index, to: index });
+        latest.current.onDragStateChange?.(true);
+      },
+      onPanResponderMove: (_, g) => {
+        offset.setValue(g.dy);
+        const to = targetFor(index, g.dy);
+        if (dragRef.current && dragRef.current.to !== to) {
+          Haptics.selectionAsync();
+          update({ from: index, to });
+        }
+      },
+      onPanResponderRelease: () => finish(),
+      onPanResponderTerminate: () => finish(),
+    });
+    responders.current.set(index, responder);
+    return responder;
+  };
+
+  const finish = () => {
+    const state = dragRef.current;
+    offset.setValue(0);
+    update(null);
+    latest.current.onDragStateChange?.(false);
+    if (state && state.from !== state.to) {
+      latest.current.onReorder(state.from, state.to);
+    }
+  };
+
+  // Rows between the held one and its target slide over to make room
+  const shiftFor = (index: number) => {
+    if (!drag || index === drag.from) return 0;
+    const size = (heights.current[drag.from] ?? 0) + gap;
+    if (drag.from < drag.to && index > drag.from && index <= drag.to) {
+      return -size;
+    }
+    if (drag.to < drag.from && index >= drag.to && index < drag.from) {
+      return size;
+    }
+    return 0;
+  };
+
+  return (
+    <View style={[{ gap }, style]}>
+      {data.map((item, index) => {
+        const held = drag?.from === index;
+        return (
+          <Animated.View
+            key={keyExtractor(item, index)}
+            onLayout={(e) => {
+              heights.current[index] = e.nativeEvent.layout.height;
+            }}
+            style={
+              held
+                ? {
+                    zIndex: 10,
+                    elevation: 6,
+                    opacity: 0.92,
+                    transform: [{ translateY: offset }, { scale: 1.02 }],
+                  }
+                : { transform: [{ translateY: shiftFor(index) }] }
+            }
+          >
+            {renderItem(item, index, {
+              dragHandlers: responderFor(index).panHandlers,
+              dragging: held,
+            })}
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
@@ -11,7 +11,7 @@ import {
 } from "react-native";
 import { Appbar, useTheme, Snackbar, Button } from "react-native-paper";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import api from "../services/api";
+import { ftpApi, getErrorMessage } from "../services/client";
 
 interface EditorModalProps {
   visible: boolean;
@@ -46,12 +46,9 @@ export default function EditorModal({
     setLoading(true);
     setError(null);
     try {
-      const { data } = await api.get(`/ftp/${serverId}/read`, {
-        params: { path: filePath },
-      });
-      setContent(data.content);
-    } catch (err: any) {
-      setError(err.response?.data?.message || "Failed to load file");
+      setContent(await ftpApi.read(serverId, filePath));
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load file"));
     } finally {
       setLoading(false);
     }
@@ -60,14 +57,11 @@ export default function EditorModal({
   const handleSave = async () => {
     setSaving(true);
     try {
-      await api.post(`/ftp/${serverId}/write`, {
-        path: filePath,
-        content: content,
-      });
+      await ftpApi.write(serverId, filePath, content);
       onSaveSuccess();
       onDismiss();
-    } catch (err: any) {
-      setError(err.response?.data?.message || "Failed to save file");
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to save file"));
       setSaving(false);
     }
   };
@@ -17,7 +17,7 @@ import {
 } from "react-native-paper";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import api from "../services/api";
+import { FileEntry, ftpApi } from "../services/client";
 import { useAppTheme } from "../contexts/ThemeContext";
 
 interface FolderPickerProps {
@@ -30,11 +30,6 @@ interface FolderPickerProps {
   actionLabel?: string;
 }
 
-interface FileEntry {
-  name: string;
-  type: "directory" | "file" | "symlink" | "d" | "-" | "l";
-}
-
 export default function FolderPicker({
   visible,
   onDismiss,
@@ -63,19 +58,16 @@ export default function FolderPicker({
   const fetchFolders = async (path: string) => {
     setLoading(true);
     try {
-      const res = await api.get(`/ftp/${serverId}/list`, {
-        params: { path },
-      });
+      const listing = await ftpApi.list(serverId, path);
       // Filter only directories
-      const allEntries: FileEntry[] = res.data.entries || res.data;
-      const dirs = allEntries.filter(
+      const dirs = listing.entries.filter(
         (e) => e.type === "directory" || e.type === "d",
       );
       // Sort: . always first (current), .. second (parent), then alphabetical
       dirs.sort((a, b) => a.name.localeCompare(b.name));
 
       setFolders(dirs);
-      setCurrentPath(res.data.path || path);
+      setCurrentPath(listing.path);
     } catch (err) {
       console.error("Failed to load folders", err);
     } finally {
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, FlatList, Pressable } from "react-native";
+import {
+  Modal,
+  Portal,
+  Text,
+  Button,
+  Searchbar,
+  ActivityIndicator,
+} from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import { dockerApi, getErrorMessage, ImageTag } from "../services/client";
+import { formatBytes } from "../utils/docker";
+import { formatImageRef, parseImageRef, shortDigest } from "../utils/registry";
+
+// Lists the registry's tags for an image so one can be picked by digest and
+// size rather than typed from memory.
+export default function ImageTagSheet({
+  visible,
+  onDismiss,
+  image,
+  credentialId,
+  onSelect,
+}: {
+  visible: boolean;
+  onDismiss: () => void;
+  // Any reference to the image; its own tag is marked as current
+  image: string;
+  credentialId?: string;
+  onSelect: (tag: ImageTag) => void;
+}) {
+  const { t, i18n } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [tags, setTags] = useState<ImageTag[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [filter, setFilter] = useState("");
+
+  const ref = useMemo(() => parseImageRef(image), [image]);
+  const repository = formatImageRef({ ...ref, tag: undefined });
+
+  useEffect(() => {
+    if (!visible || !repository) return;
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    setFilter("");
+    dockerApi
+      .tags(repository, credentialId)
+      .then((result) => {
+        if (!cancelled) setTags(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setTags([]);
+          setError(getErrorMessage(err, t("imageTags.loadFailed")));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, repository, credentialId, t]);
+
+  const filtered = filter
+    ? tags.filter((tag) =>
+        tag.name.toLowerCase().includes(filter.trim().toLowerCase()),
+      )
+    : tags;
+
+  const renderTag = ({ item }: { item: ImageTag }) => {
+    const current = item.name === (ref.tag || "latest");
+    return (
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          onSelect(item);
+        }}
+        style={({ pressed }) => [
+          styles.item,
+          pressed && { backgroundColor: colors.surfaceVariant },
+        ]}
+      >
+        <View style={{ flex: 1 }}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemName}>{item.name}</Text>
+            {current && (
+              <Text style={styles.current}>{t("imageTags.current")}</Text>
+            )}
+          </View>
+          <Text style={styles.itemMeta} numberOfLines={1}>
+            {[
+              item.digest && shortDigest(item.digest),
+              item.size !== undefined && formatBytes(item.size),
+              item.updatedAt &&
+                formatDistanceToNow(new Date(item.updatedAt), {
+                  addSuffix: true,
+                  locale: i18n.language === "vi" ? vi : undefined,
+                }),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </Text>
+          {item.architectures && item.architectures.length > 0 && (
+            <Text style={styles.itemMeta} numberOfLines={1}>
+              {item.architectures.join(", ")}
+            </Text>
+          )}
+        </View>
+        <MaterialCommunityIcons
+          name="chevron-right"
+          size={20}
+          color={colors.textSecondary}
+        />
+      </Pressable>
+    );
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.sheet}
+      >
+        <Text style={styles.title}>{t("imageTags.title")}</Text>
+        <Text style={styles.hint} numberOfLines={1}>
+          {repository}
+        </Text>
+        <Searchbar
+          placeholder={t("imageTags.filter")}
+          value={filter}
+          onChangeText={setFilter}
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.search}
+          inputStyle={{ minHeight: 0 }}
+          elevation={0}
+        />
+        {loading ? (
+          <ActivityIndicator color={colors.primary} style={{ margin: 24 }} />
+        ) : error ? (
+          <Text style={styles.error}>{error}</Text>
+        ) : filtered.length === 0 ? (
+          <Text style={styles.empty}>{t("imageTags.empty")}</Text>
+        ) : (
+          <FlatList
+            data={filtered}
+            keyExtractor={(item) => item.name}
+            renderItem={renderTag}
+            style={{ maxHeight: 420 }}
+            keyboardShouldPersistTaps="handled"
+          />
+        )}
+        <View style={styles.actions}>
+          <Button onPress={onDismiss} textColor={colors.textSecondary}>
+            {t("common.cancel")}
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    sheet: {
+      backgroundColor: colors.surface,
+      margin: 16,
+      padding: 16,
+      borderRadius: 12,
+    },
+    title: { fontSize: 18, fontWeight: "bold", color: colors.text },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    search: {
+      height: 40,
+      marginBottom: 8,
+      backgroundColor: colors.surfaceVariant,
+    },
+    empty: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      textAlign: "center",
+      paddingVertical: 24,
+    },
+    error: { fontSize: 13, color: colors.error, marginVertical: 8 },
+    item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 10,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    itemHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+    itemName: { fontSize: 14, fontWeight: "700", color: colors.text },
+    current: {
+      fontSize: 10,
+      fontWeight: "700",
+      color: colors.primary,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: 4,
+      paddingHorizontal: 4,
+    },
+    itemMeta: {
+      fontSize: 11,
+      fontFamily: "monospace",
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    actions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      gap: 8,
+      marginTop: 8,
+    },
+  });
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { Text, ActivityIndicator } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { useAppTheme } from "../contexts/ThemeContext";
+
+interface LastUpdatedProps {
+  updatedAt: number | null;
+  fetching?: boolean;
+  offline?: boolean;
+  // The last background refresh failed, so what's shown may be old
+  failed?: boolean;
+}
+
+// Small "Updated 3 minutes ago" line for screens backed by the query cache
+export default function LastUpdated({
+  updatedAt,
+  fetching,
+  offline,
+  failed,
+}: LastUpdatedProps) {
+  const { t, i18n } = useTranslation();
+  const { colors } = useAppTheme();
+  const [, setTick] = useState(0);
+
+  // Keep the relative time moving while the screen stays open
+  useEffect(() => {
+    const timer = setInterval(() => setTick((n) => n + 1), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!updatedAt && !offline) return null;
+
+  const time = updatedAt
+    ? formatDistanceToNow(updatedAt, {
+        addSuffix: true,
+        locale: i18n.language === "vi" ? vi : undefined,
+      })
+    : null;
+  const warn = offline || failed;
+  const color = warn ? colors.warning : colors.textSecondary;
+
+  return (
+    <View style={styles.row}>
+      {fetching && !offline ? (
+        <ActivityIndicator size={10} color={colors.textSecondary} />
+      ) : (
+        <MaterialCommunityIcons
+          name={offline ? "cloud-off-outline" : failed ? "sync-alert" : "check"}
+          size={12}
+          color={color}
+        />
+      )}
+      <Text style={[styles.text, { color }]}>
+        {time ? t("cache.updated", { time }) : t("cache.neverLoaded")}
+        {offline ? ` · ${t("cache.offline")}` : ""}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  text: {
+    fontSize: 11,
+  },
+});
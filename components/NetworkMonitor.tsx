@@ -3,6 +3,7 @@ import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
 import { Snackbar, Portal } from "react-native-paper";
 import { StyleSheet, View } from "react-native";
 import { useAppTheme } from "../contexts/ThemeContext";
+import { setOnline } from "../services/queryCache";
 
 export default function NetworkMonitor() {
   const [visible, setVisible] = useState(false);
@@ -14,6 +15,8 @@ export default function NetworkMonitor() {
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
       const offline = state.isConnected === false;
+      // Cached queries stop refetching while offline and catch up after
+      setOnline(!offline);
 
       if (offline && !isOffline) {
         // Went offline
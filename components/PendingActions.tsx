@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, FlatList, Pressable } from "react-native";
+import { Modal, Portal, Text, Button, IconButton } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { formatDistanceToNow } from "date-fns";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import {
+  OutboxEntry,
+  OutboxStatus,
+  confirmOutboxEntry,
+  discardOutboxEntry,
+  flushOutbox,
+  getOutbox,
+  retryOutboxEntry,
+  startOutbox,
+  subscribeOutbox,
+} from "../services/outbox";
+
+const kindIcons: Record<OutboxEntry["action"]["kind"], string> = {
+  deploy: "rocket-launch-outline",
+  "pm2-restart": "restart",
+  "cron-save": "clock-edit-outline",
+};
+
+// Floating badge plus the sheet listing queued offline actions. Mounted once
+// for signed-in users; it also starts the replay-on-reconnect listener.
+export default function PendingActions() {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutbox);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => subscribeOutbox(setEntries), []);
+  useEffect(() => startOutbox(), []);
+
+  useEffect(() => {
+    if (entries.length === 0) setVisible(false);
+  }, [entries.length]);
+
+  if (entries.length === 0) return null;
+
+  const needsAttention = entries.some(
+    (e) => e.status === "needs-confirmation" || e.status === "failed",
+  );
+
+  const statusColor = (status: OutboxStatus) =>
+    status === "failed"
+      ? colors.error
+      : status === "needs-confirmation"
+        ? colors.warning
+        : colors.textSecondary;
+
+  const renderEntry = ({ item }: { item: OutboxEntry }) => (
+    <View style={styles.item}>
+      <MaterialCommunityIcons
+        name={kindIcons[item.action.kind] as any}
+        size={20}
+        color={colors.primary}
+      />
+      <View style={{ flex: 1 }}>
+        <Text style={styles.itemLabel} numberOfLines={1}>
+          {item.label}
+        </Text>
+        <Text style={[styles.itemMeta, { color: statusColor(item.status) }]}>
+          {t(`outbox.status.${item.status}`)} ·{" "}
+          {formatDistanceToNow(item.createdAt, { addSuffix: true })}
+        </Text>
+        {item.error ? (
+          <Text style={styles.itemError} numberOfLines={2}>
+            {item.error}
+          </Text>
+        ) : null}
+      </View>
+      {item.status === "needs-confirmation" && (
+        <Button
+          compact
+          mode="contained"
+          buttonColor={colors.warning}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+            confirmOutboxEntry(item.id);
+          }}
+        >
+          {t("outbox.runNow")}
+        </Button>
+      )}
+      {item.status === "failed" && (
+        <IconButton
+          icon="refresh"
+          size={18}
+          onPress={() => retryOutboxEntry(item.id)}
+        />
+      )}
+      {item.status !== "running" && (
+        <IconButton
+          icon="close"
+          size={18}
+          iconColor={colors.error}
+          onPress={() => discardOutboxEntry(item.id)}
+        />
+      )}
+    </View>
+  );
+
+  return (
+    <Portal>
+      <Pressable
+        style={[
+          styles.badge,
+          { backgroundColor: needsAttention ? colors.warning : colors.primary },
+        ]}
+        onPress={() => {
+          Haptics.selectionAsync();
+          setVisible(true);
+        }}
+      >
+        <MaterialCommunityIcons name="tray-full" size={16} color="#fff" />
+        <Text style={styles.badgeText}>
+          {t("outbox.pendingCount", { count: entries.length })}
+        </Text>
+      </Pressable>
+
+      <Modal
+        visible={visible}
+        onDismiss={() => setVisible(false)}
+        contentContainerStyle={styles.sheet}
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>{t("outbox.title")}</Text>
+          <Button compact onPress={() => flushOutbox()}>
+            {t("outbox.syncNow")}
+          </Button>
+        </View>
+        <Text style={styles.hint}>{t("outbox.hint")}</Text>
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={renderEntry}
+          style={{ maxHeight: 420 }}
+        />
+      </Modal>
+    </Portal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    badge: {
+      position: "absolute",
+      left: 16,
+      bottom: 96,
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 20,
+      elevation: 4,
+      shadowColor: "#000",
+      shadowOpacity: 0.2,
+      shadowRadius: 4,
+      shadowOffset: { width: 0, height: 2 },
+    },
+    badgeText: { color: "#fff", fontSize: 12, fontWeight: "700" },
+    sheet: {
+      backgroundColor: colors.surface,
+      margin: 16,
+      padding: 16,
+      borderRadius: 12,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: { fontSize: 18, fontWeight: "bold", color: colors.text },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 8,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    itemLabel: { fontSize: 14, fontWeight: "600", color: colors.text },
+    itemMeta: { fontSize: 12 },
+    itemError: { fontSize: 12, color: colors.error, marginTop: 2 },
+  });
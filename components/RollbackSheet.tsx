@@ -0,0 +1,332 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  ScrollView,
+} from "react-native";
+import {
+  Modal,
+  Portal,
+  Text,
+  Button,
+  TextInput,
+  ActivityIndicator,
+  HelperText,
+} from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import * as Haptics from "expo-haptics";
+import { useAppTheme } from "../contexts/ThemeContext";
+import {
+  Deployment,
+  DeploymentComparison,
+  deploymentsApi,
+  getErrorMessage,
+} from "../services/client";
+import { diffTotals, parseUnifiedDiff } from "../utils/diff";
+import { deploymentDurationMs, formatDuration } from "../utils/duration";
+import DiffView from "./DiffView";
+
+const versionLabel = (dep: Deployment) =>
+  `#${dep.version || dep._id.slice(-6)}`;
+
+// Two steps: pick an earlier successful deployment, then review what the
+// rollback would revert and give a reason before confirming.
+export default function RollbackSheet({
+  visible,
+  onDismiss,
+  history,
+  onConfirm,
+}: {
+  visible: boolean;
+  onDismiss: () => void;
+  // Newest first, as returned by the history endpoint
+  history: Deployment[];
+  onConfirm: (target: Deployment, reason: string) => Promise<void>;
+}) {
+  const { t, i18n } = useTranslation();
+  const { colors, inputTheme } = useAppTheme();
+  const styles = createStyles(colors);
+  const [target, setTarget] = useState<Deployment | null>(null);
+  const [preview, setPreview] = useState<DeploymentComparison | null>(null);
+  const [previewError, setPreviewError] = useState("");
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // What's live now is the newest successful deployment; only older
+  // successful ones are worth rolling back to
+  const { live, candidates } = useMemo(() => {
+    const successful = history.filter((d) => d.status === "success");
+    return { live: successful[0] || null, candidates: successful.slice(1) };
+  }, [history]);
+
+  useEffect(() => {
+    if (!visible) {
+      setTarget(null);
+      setPreview(null);
+      setPreviewError("");
+      setReason("");
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!target || !live) return;
+    let cancelled = false;
+    setLoadingPreview(true);
+    setPreview(null);
+    setPreviewError("");
+    // Base is the target, so the diff reads as what the rollback removes
+    deploymentsApi
+      .compare(target._id, live._id)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setPreviewError(getErrorMessage(err, t("rollback.previewFailed")));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [target, live, t]);
+
+  const files = useMemo(
+    () => parseUnifiedDiff(preview?.diff || ""),
+    [preview?.diff],
+  );
+  const totals = useMemo(() => diffTotals(files), [files]);
+
+  const confirm = async () => {
+    if (!target || !reason.trim()) return;
+    setSubmitting(true);
+    try {
+      await onConfirm(target, reason.trim());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderCandidate = ({ item }: { item: Deployment }) => {
+    const ms = deploymentDurationMs(item);
+    const at = item.finishedAt || item.startedAt || item.createdAt;
+    return (
+      <Pressable
+        onPress={() => {
+          Haptics.selectionAsync();
+          setTarget(item);
+        }}
+        style={({ pressed }) => [
+          styles.item,
+          pressed && { backgroundColor: colors.surfaceVariant },
+        ]}
+      >
+        <View style={{ flex: 1 }}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemVersion}>{versionLabel(item)}</Text>
+            {item.commitHash ? (
+              <Text style={styles.itemHash}>{item.commitHash.slice(0, 7)}</Text>
+            ) : null}
+          </View>
+          <Text style={styles.itemMessage} numberOfLines={2}>
+            {item.commitMessage || t("rollback.noMessage")}
+          </Text>
+          <Text style={styles.itemMeta} numberOfLines={1}>
+            {[
+              item.commitAuthor,
+              formatDistanceToNow(new Date(at), {
+                addSuffix: true,
+                locale: i18n.language === "vi" ? vi : undefined,
+              }),
+              ms === null ? null : formatDuration(ms),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </Text>
+        </View>
+        <MaterialCommunityIcons
+          name="chevron-right"
+          size={20}
+          color={colors.textSecondary}
+        />
+      </Pressable>
+    );
+  };
+
+  const renderPicker = () => (
+    <>
+      <Text style={styles.hint}>{t("rollback.pickHint")}</Text>
+      {candidates.length === 0 ? (
+        <Text style={styles.empty}>{t("rollback.noCandidates")}</Text>
+      ) : (
+        <FlatList
+          data={candidates}
+          keyExtractor={(item) => item._id}
+          renderItem={renderCandidate}
+          style={{ maxHeight: 420 }}
+        />
+      )}
+      <View style={styles.actions}>
+        <Button onPress={onDismiss} textColor={colors.textSecondary}>
+          {t("common.cancel")}
+        </Button>
+      </View>
+    </>
+  );
+
+  const renderReview = (chosen: Deployment) => (
+    <>
+      <ScrollView style={{ maxHeight: 460 }}>
+        <Text style={styles.hint}>
+          {t("rollback.reviewHint", {
+            from: live ? versionLabel(live) : "—",
+            to: versionLabel(chosen),
+          })}
+        </Text>
+        {loadingPreview ? (
+          <ActivityIndicator color={colors.primary} style={{ margin: 20 }} />
+        ) : previewError ? (
+          <Text style={styles.error}>{previewError}</Text>
+        ) : preview ? (
+          <>
+            <View style={styles.impact}>
+              <Text style={styles.impactText}>
+                {t("rollback.revertsCommits", {
+                  count: preview.commits.length,
+                })}
+              </Text>
+              <Text style={styles.impactText}>
+                {t("rollback.envChanges", {
+                  count: preview.envChanges.length,
+                })}
+              </Text>
+              {files.length > 0 && (
+                <Text style={styles.impactText}>
+                  {t("diff.filesChanged", { count: files.length })}{" "}
+                  <Text style={{ color: colors.success }}>
+                    +{totals.additions}
+                  </Text>{" "}
+                  <Text style={{ color: colors.error }}>
+                    −{totals.deletions}
+                  </Text>
+                </Text>
+              )}
+            </View>
+            {files.length > 0 && <DiffView files={files} />}
+          </>
+        ) : null}
+      </ScrollView>
+      <TextInput
+        mode="outlined"
+        label={t("rollback.reason")}
+        placeholder={t("rollback.reasonPlaceholder")}
+        value={reason}
+        onChangeText={setReason}
+        multiline
+        style={styles.input}
+        theme={inputTheme}
+      />
+      <HelperText type="info" visible>
+        {t("rollback.reasonHint")}
+      </HelperText>
+      <View style={styles.actions}>
+        <Button
+          onPress={() => setTarget(null)}
+          textColor={colors.textSecondary}
+          disabled={submitting}
+        >
+          {t("common.back")}
+        </Button>
+        <Button
+          mode="contained"
+          icon="history"
+          buttonColor={colors.warning}
+          onPress={confirm}
+          loading={submitting}
+          disabled={submitting || !reason.trim()}
+        >
+          {t("rollback.confirm", { version: versionLabel(chosen) })}
+        </Button>
+      </View>
+    </>
+  );
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={submitting ? undefined : onDismiss}
+        contentContainerStyle={styles.sheet}
+      >
+        <Text style={styles.title}>
+          {target ? t("rollback.reviewTitle") : t("rollback.title")}
+        </Text>
+        {target ? renderReview(target) : renderPicker()}
+      </Modal>
+    </Portal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    sheet: {
+      backgroundColor: colors.surface,
+      margin: 16,
+      padding: 16,
+      borderRadius: 12,
+    },
+    title: { fontSize: 18, fontWeight: "bold", color: colors.text },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    empty: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      textAlign: "center",
+      paddingVertical: 24,
+    },
+    error: { fontSize: 13, color: colors.error, marginVertical: 8 },
+    item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 10,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    itemHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+    itemVersion: { fontSize: 14, fontWeight: "700", color: colors.text },
+    itemHash: {
+      fontSize: 12,
+      fontFamily: "monospace",
+      color: colors.primary,
+    },
+    itemMessage: { fontSize: 13, color: colors.text, marginTop: 2 },
+    itemMeta: { fontSize: 11, color: colors.textSecondary, marginTop: 2 },
+    impact: {
+      backgroundColor: colors.surfaceVariant,
+      borderRadius: 10,
+      padding: 10,
+      gap: 4,
+      marginBottom: 10,
+    },
+    impactText: { fontSize: 13, color: colors.text },
+    input: { backgroundColor: colors.surface, marginTop: 12 },
+    actions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      gap: 8,
+      marginTop: 8,
+    },
+  });
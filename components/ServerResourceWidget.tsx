@@ -11,7 +11,7 @@ import {
 import { useServer } from "../contexts/ServerContext";
 import { useAppTheme } from "../contexts/ThemeContext";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import api from "../services/api";
+import { serversApi } from "../services/client";
 import Svg, { Path, Defs, LinearGradient, Stop } from "react-native-svg";
 
 interface ServerStats {
@@ -34,8 +34,7 @@ export default function ServerResourceWidget() {
   const fetchStats = async () => {
     if (!selectedServer) return;
     try {
-      const res = await api.get(`/servers/${selectedServer._id}/stats`);
-      const data = res.data?.stats || res.data; // Handle potential nesting
+      const data = await serversApi.stats(selectedServer._id);
 
       setStats({
         cpuUsage: data.cpuUsage || 0,
@@ -62,11 +61,11 @@ export default function ServerResourceWidget() {
   // Fetch initial history
   useEffect(() => {
     if (selectedServer) {
-      api
-        .get(`/servers/${selectedServer._id}/stats/history`)
-        .then((res) => {
-          if (res.data && Array.isArray(res.data)) {
-            const hist = res.data.map((item: any) => ({
+      serversApi
+        .statsHistory(selectedServer._id)
+        .then((points) => {
+          if (points.length > 0) {
+            const hist = points.map((item) => ({
               cpu: item.cpu,
               mem: item.memory,
             }));
@@ -80,11 +79,11 @@ export default function ServerResourceWidget() {
   // Fetch initial history
   useEffect(() => {
     if (selectedServer) {
-      api
-        .get(`/servers/${selectedServer._id}/stats/history`)
-        .then((res) => {
-          if (res.data && Array.isArray(res.data)) {
-            const hist = res.data.map((item: any) => ({
+      serversApi
+        .statsHistory(selectedServer._id)
+        .then((points) => {
+          if (points.length > 0) {
+            const hist = points.map((item) => ({
               cpu: item.cpu,
               mem: item.memory,
             }));
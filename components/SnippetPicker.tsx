@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Platform,
+  Alert,
+} from "react-native";
+import {
+  Modal,
+  Portal,
+  Text,
+  Button,
+  TextInput,
+  IconButton,
+  SegmentedButtons,
+  Searchbar,
+} from "react-native-paper";
+import { useTranslation } from "react-i18next";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useAppTheme } from "../contexts/ThemeContext";
+import {
+  Snippet,
+  getSnippetsForServer,
+  saveSnippet,
+  deleteSnippet,
+  parsePlaceholders,
+  fillPlaceholders,
+} from "../services/snippets";
+
+interface SnippetPickerProps {
+  visible: boolean;
+  onDismiss: () => void;
+  serverId?: string | null;
+  // Called with the final command once placeholders are filled in
+  onSelect: (command: string) => void;
+  // Prefills the "new snippet" form, e.g. with the current input
+  initialCommand?: string;
+}
+
+type Mode = "list" | "edit" | "fill";
+
+export default function SnippetPicker({
+  visible,
+  onDismiss,
+  serverId,
+  onSelect,
+  initialCommand = "",
+}: SnippetPickerProps) {
+  const { t } = useTranslation();
+  const { colors } = useAppTheme();
+  const styles = createStyles(colors);
+
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<Mode>("list");
+  const [form, setForm] = useState({
+    id: undefined as string | undefined,
+    name: "",
+    command: "",
+    scope: "server" as "server" | "global",
+  });
+  const [selected, setSelected] = useState<Snippet | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const load = useCallback(async () => {
+    setSnippets(await getSnippetsForServer(serverId));
+  }, [serverId]);
+
+  useEffect(() => {
+    if (visible) {
+      setMode("list");
+      setQuery("");
+      load();
+    }
+  }, [visible, load]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const list = q
+      ? snippets.filter(
+          (s) =>
+            s.name.toLowerCase().includes(q) ||
+            s.command.toLowerCase().includes(q),
+        )
+      : snippets;
+    // Server-specific snippets first
+    return [...list].sort(
+      (a, b) =>
+        Number(a.serverId === null) - Number(b.serverId === null) ||
+        a.name.localeCompare(b.name),
+    );
+  }, [snippets, query]);
+
+  const openEditor = (snippet?: Snippet) => {
+    setForm({
+      id: snippet?.id,
+      name: snippet?.name || "",
+      command: snippet?.command ?? initialCommand,
+      scope: snippet && snippet.serverId === null ? "global" : "server",
+    });
+    setMode("edit");
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.command.trim()) return;
+    await saveSnippet({
+      id: form.id,
+      name: form.name,
+      command: form.command,
+      serverId: form.scope === "global" || !serverId ? null : serverId,
+    });
+    await load();
+    setMode("list");
+  };
+
+  const handleDelete = (snippet: Snippet) => {
+    Alert.alert(t("snippets.deleteTitle"), snippet.name, [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("common.delete"),
+        style: "destructive",
+        onPress: async () => {
+          await deleteSnippet(snippet.id);
+          load();
+        },
+      },
+    ]);
+  };
+
+  const handlePick = (snippet: Snippet) => {
+    const placeholders = parsePlaceholders(snippet.command);
+    if (placeholders.length === 0) {
+      onSelect(snippet.command);
+      onDismiss();
+      return;
+    }
+    setSelected(snippet);
+    setValues(
+      Object.fromEntries(placeholders.map((p) => [p.name, p.defaultValue])),
+    );
+    setMode("fill");
+  };
+
+  const handleFill = () => {
+    if (!selected) return;
+    onSelect(fillPlaceholders(selected.command, values));
+    onDismiss();
+  };
+
+  const renderList = () => (
+    <>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t("snippets.title")}</Text>
+        <IconButton
+          icon="plus"
+          iconColor={colors.primary}
+          onPress={() => openEditor()}
+        />
+      </View>
+      <Searchbar
+        value={query}
+        onChangeText={setQuery}
+        placeholder={t("common.search")}
+        style={styles.search}
+        inputStyle={{ minHeight: 0 }}
+      />
+      <FlatList
+        data={filtered}
+        keyExtractor={(item) => item.id}
+        style={{ maxHeight: 360 }}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.empty}>{t("snippets.empty")}</Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.item}
+            onPress={() => handlePick(item)}
+            onLongPress={() => openEditor(item)}
+          >
+            <MaterialCommunityIcons
+              name={item.serverId === null ? "earth" : "server"}
+              size={16}
+              color={colors.textSecondary}
+            />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.itemName}>{item.name}</Text>
+              <Text style={styles.itemCommand} numberOfLines={2}>
+                {item.command}
+              </Text>
+            </View>
+            <IconButton
+              icon="pencil-outline"
+              size={16}
+              onPress={() => openEditor(item)}
+            />
+            <IconButton
+              icon="delete-outline"
+              size={16}
+              iconColor={colors.error}
+              onPress={() => handleDelete(item)}
+            />
+          </TouchableOpacity>
+        )}
+      />
+    </>
+  );
+
+  const renderEditor = () => (
+    <>
+      <Text style={styles.title}>
+        {form.id ? t("snippets.edit") : t("snippets.new")}
+      </Text>
+      <TextInput
+        label={t("common.name")}
+        value={form.name}
+        onChangeText={(name) => setForm({ ...form, name })}
+        mode="outlined"
+        style={styles.input}
+      />
+      <TextInput
+        label={t("snippets.command")}
+        value={form.command}
+        onChangeText={(command) => setForm({ ...form, command })}
+        mode="outlined"
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={[styles.input, styles.mono]}
+      />
+      <Text style={styles.hint}>
+        {t("snippets.placeholderHint", {
+          example: "{{branch}}",
+          exampleDefault: "{{branch:main}}",
+        })}
+      </Text>
+      {serverId ? (
+        <SegmentedButtons
+          value={form.scope}
+          onValueChange={(scope) =>
+            setForm({ ...form, scope: scope as "server" | "global" })
+          }
+          buttons={[
+            { value: "server", label: t("snippets.thisServer") },
+            { value: "global", label: t("snippets.global") },
+          ]}
+          style={styles.input}
+        />
+      ) : null}
+      <View style={styles.actions}>
+        <Button onPress={() => setMode("list")}>{t("common.back")}</Button>
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          disabled={!form.name.trim() || !form.command.trim()}
+        >
+          {t("common.save")}
+        </Button>
+      </View>
+    </>
+  );
+
+  const renderFill = () => (
+    <>
+      <Text style={styles.title}>{selected?.name}</Text>
+      {Object.keys(values).map((name) => (
+        <TextInput
+          key={name}
+          label={name}
+          value={values[name]}
+          onChangeText={(v) => setValues({ ...values, [name]: v })}
+          mode="outlined"
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.input}
+        />
+      ))}
+      <Text style={[styles.itemCommand, styles.preview]}>
+        {selected ? fillPlaceholders(selected.command, values) : ""}
+      </Text>
+      <View style={styles.actions}>
+        <Button onPress={() => setMode("list")}>{t("common.back")}</Button>
+        <Button mode="contained" onPress={handleFill}>
+          {t("snippets.use")}
+        </Button>
+      </View>
+    </>
+  );
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modal}
+      >
+        {mode === "list" && renderList()}
+        {mode === "edit" && renderEditor()}
+        {mode === "fill" && renderFill()}
+      </Modal>
+    </Portal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    modal: {
+      backgroundColor: colors.surface,
+      margin: 16,
+      padding: 16,
+      borderRadius: 12,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: "bold",
+      color: colors.text,
+      marginBottom: 12,
+    },
+    search: {
+      marginBottom: 8,
+      height: 40,
+      backgroundColor: colors.surfaceVariant,
+    },
+    empty: {
+      textAlign: "center",
+      color: colors.textSecondary,
+      paddingVertical: 24,
+    },
+    item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 6,
+      borderBottomWidth: 0.5,
+      borderBottomColor: colors.border,
+    },
+    itemName: { fontSize: 14, fontWeight: "600", color: colors.text },
+    itemCommand: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    },
+    input: { marginBottom: 12 },
+    mono: { fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace" },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: -6,
+      marginBottom: 12,
+    },
+    preview: {
+      backgroundColor: colors.surfaceVariant,
+      padding: 10,
+      borderRadius: 8,
+      marginBottom: 12,
+    },
+    actions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      gap: 12,
+    },
+  });
@@ -0,0 +1,62 @@
+import React, { useState } from "react";
+import { View } from "react-native";
+import Svg, { Defs, LinearGradient, Path, Stop } from "react-native-svg";
+
+// Line chart of one or more series sharing a y-axis; the first is filled
+export default function Sparkline({
+  series,
+  max,
+  height = 90,
+}: {
+  series: { values: number[]; color: string }[];
+  max: number;
+  height?: number;
+}) {
+  const [width, setWidth] = useState(0);
+  const count = Math.max(...series.map((s) => s.values.length));
+  const top = Math.max(max, 0.0001);
+
+  const pathFor = (values: number[], area: boolean) => {
+    const step = width / Math.max(values.length - 1, 1);
+    const y = (v: number) => height - (Math.min(v, top) / top) * (height - 4);
+    let d = `M 0 ${y(values[0])}`;
+    values.slice(1).forEach((v, i) => {
+      d += ` L ${(i + 1) * step} ${y(v)}`;
+    });
+    if (area) d += ` L ${(values.length - 1) * step} ${height} L 0 ${height} Z`;
+    return d;
+  };
+
+  return (
+    <View
+      style={{ height }}
+      onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+    >
+      {width > 0 && count > 1 && (
+        <Svg width={width} height={height}>
+          <Defs>
+            <LinearGradient id="fill" x1="0" y1="0" x2="0" y2="1">
+              <Stop offset="5%" stopColor={series[0].color} stopOpacity="0.3" />
+              <Stop offset="95%" stopColor={series[0].color} stopOpacity="0" />
+            </LinearGradient>
+          </Defs>
+          {series[0].values.length > 1 && (
+            <Path d={pathFor(series[0].values, true)} fill="url(#fill)" />
+          )}
+          {series.map(
+            (s, i) =>
+              s.values.length > 1 && (
+                <Path
+                  key={i}
+                  d={pathFor(s.values, false)}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth="2"
+                />
+              ),
+          )}
+        </Svg>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,162 @@
+import React from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import {
+  KeyModifiers,
+  TerminalKey,
+  ctrlChar,
+  keySequence,
+} from "../utils/terminalKeys";
+
+interface TerminalKeyBarProps {
+  modifiers: KeyModifiers;
+  onModifiersChange: (modifiers: KeyModifiers) => void;
+  onSend: (data: string) => void;
+  appCursorKeys?: boolean;
+  onOpenSnippets?: () => void;
+}
+
+type IconName = keyof typeof MaterialCommunityIcons.glyphMap;
+
+const KEYS: { key: TerminalKey; label?: string; icon?: IconName }[] = [
+  { key: "esc", label: "Esc" },
+  { key: "tab", label: "Tab" },
+  { key: "up", icon: "arrow-up" },
+  { key: "down", icon: "arrow-down" },
+  { key: "left", icon: "arrow-left" },
+  { key: "right", icon: "arrow-right" },
+  { key: "home", label: "Home" },
+  { key: "end", label: "End" },
+  { key: "pageUp", label: "PgUp" },
+  { key: "pageDown", label: "PgDn" },
+];
+
+// Common Ctrl combos get their own button so they're one tap away
+const COMBOS = ["c", "d", "z", "r", "l", "a", "e"];
+
+export default function TerminalKeyBar({
+  modifiers,
+  onModifiersChange,
+  onSend,
+  appCursorKeys = false,
+  onOpenSnippets,
+}: TerminalKeyBarProps) {
+  const tap = () => Haptics.selectionAsync().catch(() => {});
+
+  const sendKey = (key: TerminalKey) => {
+    tap();
+    onSend(keySequence(key, modifiers, appCursorKeys));
+    // Modifiers are one-shot, like a sticky key
+    if (modifiers.ctrl || modifiers.alt) onModifiersChange({});
+  };
+
+  const toggle = (name: "ctrl" | "alt") => {
+    tap();
+    onModifiersChange({ ...modifiers, [name]: !modifiers[name] });
+  };
+
+  return (
+    <View style={styles.bar}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="always"
+        contentContainerStyle={styles.keys}
+      >
+        {onOpenSnippets && (
+          <TouchableOpacity style={styles.key} onPress={onOpenSnippets}>
+            <MaterialCommunityIcons
+              name="lightning-bolt"
+              size={16}
+              color="#eab308"
+            />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.key, modifiers.ctrl && styles.keyActive]}
+          onPress={() => toggle("ctrl")}
+        >
+          <Text style={[styles.label, modifiers.ctrl && styles.labelActive]}>
+            Ctrl
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.key, modifiers.alt && styles.keyActive]}
+          onPress={() => toggle("alt")}
+        >
+          <Text style={[styles.label, modifiers.alt && styles.labelActive]}>
+            Alt
+          </Text>
+        </TouchableOpacity>
+        {KEYS.map(({ key, label, icon }) => (
+          <TouchableOpacity
+            key={key}
+            style={styles.key}
+            onPress={() => sendKey(key)}
+          >
+            {icon ? (
+              <MaterialCommunityIcons name={icon} size={16} color="#d4d4d4" />
+            ) : (
+              <Text style={styles.label}>{label}</Text>
+            )}
+          </TouchableOpacity>
+        ))}
+        {COMBOS.map((ch) => (
+          <TouchableOpacity
+            key={ch}
+            style={styles.key}
+            onPress={() => {
+              tap();
+              onSend(ctrlChar(ch));
+            }}
+          >
+            <Text style={styles.label}>^{ch.toUpperCase()}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    backgroundColor: "#252526",
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+  },
+  keys: {
+    paddingHorizontal: 6,
+    paddingVertical: 5,
+    gap: 5,
+    alignItems: "center",
+  },
+  key: {
+    minWidth: 40,
+    height: 32,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    backgroundColor: "#3c3c3c",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  keyActive: {
+    backgroundColor: "#6366f1",
+  },
+  label: {
+    color: "#d4d4d4",
+    fontSize: 12,
+    fontWeight: "600",
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+  },
+  labelActive: {
+    color: "#fff",
+  },
+});
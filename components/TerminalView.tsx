@@ -0,0 +1,218 @@
+import React, { memo, useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  Platform,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ViewStyle,
+} from "react-native";
+import {
+  TerminalEmulator,
+  TermLine,
+  lineToSpans,
+} from "../utils/terminalEmulator";
+import { DEFAULT_BG, DEFAULT_FG, styleToTextStyle } from "../utils/ansi";
+
+const FONT_FAMILY = Platform.OS === "ios" ? "Menlo" : "monospace";
+const MEASURE_TEXT = "MMMMMMMMMM";
+// Matches styles.content's padding
+const PADDING = 4;
+
+interface TerminalViewProps {
+  emulator: TerminalEmulator;
+  // Bumped by the owner whenever the emulator received output
+  version: number;
+  fontSize?: number;
+  style?: ViewStyle;
+  onResize?: (rows: number, cols: number) => void;
+}
+
+interface RowProps {
+  line: TermLine;
+  rev: number;
+  cursorX: number;
+  fontSize: number;
+  lineHeight: number;
+}
+
+const TerminalRow = memo(
+  ({ line, cursorX, fontSize, lineHeight }: RowProps) => {
+    const spans = lineToSpans(line, cursorX);
+    return (
+      <Text
+        style={[styles.row, { fontSize, lineHeight, height: lineHeight }]}
+        numberOfLines={1}
+      >
+        {spans.length === 0
+          ? " "
+          : spans.map((span, i) => {
+              const textStyle = styleToTextStyle(span.style);
+              return (
+                <Text
+                  key={i}
+                  style={[
+                    textStyle,
+                    span.cursor && {
+                      backgroundColor: textStyle.color,
+                      color: textStyle.backgroundColor || DEFAULT_BG,
+                    },
+                  ]}
+                >
+                  {span.text}
+                </Text>
+              );
+            })}
+      </Text>
+    );
+  },
+  (prev, next) =>
+    prev.line === next.line &&
+    prev.rev === next.rev &&
+    prev.cursorX === next.cursorX &&
+    prev.fontSize === next.fontSize,
+);
+TerminalRow.displayName = "TerminalRow";
+
+export default function TerminalView({
+  emulator,
+  version,
+  fontSize = 13,
+  style,
+  onResize,
+}: TerminalViewProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const [charSize, setCharSize] = useState<{ w: number; h: number } | null>(
+    null,
+  );
+  const [viewport, setViewport] = useState<{ w: number; h: number } | null>(
+    null,
+  );
+  const [scrollY, setScrollY] = useState(0);
+  // Following new output until the user scrolls up into the scrollback
+  const [atBottom, setAtBottom] = useState(true);
+  const lineHeight = Math.round(fontSize * 1.35);
+
+  // Fit the grid to the available space once both sizes are known
+  useEffect(() => {
+    if (!charSize || !viewport) return;
+    const cols = Math.max(20, Math.floor((viewport.w - 8) / charSize.w));
+    const rows = Math.max(5, Math.floor((viewport.h - 8) / lineHeight));
+    if (rows !== emulator.rows || cols !== emulator.cols) {
+      emulator.resize(rows, cols);
+      onResize?.(rows, cols);
+    }
+  }, [charSize, viewport, lineHeight, emulator, onResize]);
+
+  useEffect(() => {
+    if (!emulator.isAlternateScreen && atBottom) {
+      requestAnimationFrame(() =>
+        scrollRef.current?.scrollToEnd({ animated: false }),
+      );
+    }
+  }, [version, emulator, atBottom]);
+
+  const onScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = e.nativeEvent;
+    setScrollY(contentOffset.y);
+    setAtBottom(
+      contentOffset.y + layoutMeasurement.height >=
+        contentSize.height - lineHeight,
+    );
+  };
+
+  const onMeasure = (e: LayoutChangeEvent) => {
+    const { width } = e.nativeEvent.layout;
+    if (width > 0) {
+      setCharSize({ w: width / MEASURE_TEXT.length, h: lineHeight });
+    }
+  };
+
+  const onLayout = (e: LayoutChangeEvent) => {
+    const { width, height } = e.nativeEvent.layout;
+    setViewport({ w: width, h: height });
+  };
+
+  const lines = emulator.getLines();
+  const offset = emulator.scrollbackLength;
+  const cursor = emulator.cursor;
+  const showCursor = emulator.cursorVisible;
+
+  // Rows have a fixed height, so only the visible window of the scrollback
+  // plus a screen either side is rendered, between spacers
+  const screenRows =
+    Math.ceil((viewport?.h || 0) / lineHeight) || emulator.rows;
+  const windowStart = emulator.isAlternateScreen
+    ? 0
+    : Math.max(
+        0,
+        atBottom
+          ? lines.length - screenRows * 2
+          : Math.floor((scrollY - PADDING) / lineHeight) - screenRows,
+      );
+  const windowEnd = emulator.isAlternateScreen
+    ? lines.length
+    : Math.min(lines.length, windowStart + screenRows * 3);
+
+  const rows = lines.slice(windowStart, windowEnd).map((line, n) => {
+    const i = windowStart + n;
+    return (
+      <TerminalRow
+        key={i}
+        line={line}
+        rev={line.rev}
+        cursorX={showCursor && i === offset + cursor.y ? cursor.x : -1}
+        fontSize={fontSize}
+        lineHeight={lineHeight}
+      />
+    );
+  });
+
+  return (
+    <View style={[styles.container, style]} onLayout={onLayout}>
+      <Text
+        style={[styles.measure, { fontSize, lineHeight }]}
+        onLayout={onMeasure}
+      >
+        {MEASURE_TEXT}
+      </Text>
+      {emulator.isAlternateScreen ? (
+        <View style={styles.content}>{rows}</View>
+      ) : (
+        <ScrollView
+          ref={scrollRef}
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          onScroll={onScroll}
+          scrollEventThrottle={32}
+        >
+          <View style={{ height: windowStart * lineHeight }} />
+          {rows}
+          <View style={{ height: (lines.length - windowEnd) * lineHeight }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: DEFAULT_BG,
+  },
+  content: {
+    padding: PADDING,
+  },
+  row: {
+    color: DEFAULT_FG,
+    fontFamily: FONT_FAMILY,
+  },
+  measure: {
+    position: "absolute",
+    opacity: 0,
+    fontFamily: FONT_FAMILY,
+  },
+});
@@ -6,9 +6,29 @@ import React, {
   useCallback,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { isAxiosError } from "axios";
 import * as LocalAuthentication from "expo-local-authentication";
 import * as SecureStore from "expo-secure-store";
 import api, { setForceLogoutHandler } from "../services/api";
+import { clearQueryCache } from "../services/queryCache";
+import { clearOutbox } from "../services/outbox";
+import { disconnectSocket } from "../services/socket";
+import { markUnlocked } from "../services/appLock";
+import {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  getTrustedDeviceToken,
+  setTokens,
+  setTrustedDeviceToken,
+} from "../services/authTokens";
+import {
+  getActiveProfile,
+  loadBackendProfiles,
+  profileKey,
+  rememberEmail,
+  setActiveProfile,
+} from "../services/backends";
 
 interface User {
   id: string;
@@ -19,18 +39,45 @@ interface User {
   activeServer?: string;
 }
 
+// Set after a correct password on an account with 2FA; the session only
+// starts once the second factor is verified
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  email: string;
+}
+
+export interface TwoFactorOptions {
+  // The code is one of the account's single-use recovery codes
+  recovery?: boolean;
+  // Skip the challenge on this device for the next 30 days
+  trustDevice?: boolean;
+}
+
+interface SessionResponse {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+  trustedDeviceToken?: string;
+}
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   biometricEnabled: boolean;
   biometricAvailable: boolean;
+  twoFactorChallenge: TwoFactorChallenge | null;
   login: (email: string, password: string) => Promise<void>;
+  verifyTwoFactor: (code: string, options?: TwoFactorOptions) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (
     username: string,
     email: string,
     password: string,
   ) => Promise<void>;
   logout: () => void;
+  // Signs out of the UI and re-points everything at another backend profile;
+  // that profile's own session is restored if it still has valid tokens
+  switchProfile: (profileId: string) => Promise<void>;
   loginWithBiometric: () => Promise<void>;
   enableBiometric: (email: string, password: string) => Promise<void>;
   disableBiometric: () => Promise<void>;
@@ -38,6 +85,22 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// The last signed-in user, so a session can be restored while offline
+const cacheUser = (user: User | null) =>
+  (user
+    ? AsyncStorage.setItem(profileKey("cachedUser"), JSON.stringify(user))
+    : AsyncStorage.removeItem(profileKey("cachedUser"))
+  ).catch((e) => console.error("[Auth] Failed to cache user", e));
+
+const getCachedUser = async (): Promise<User | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(profileKey("cachedUser"));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
 export const useAuth = (): AuthContextType => {
   const context = useContext(AuthContext);
   if (!context) throw new Error("useAuth must be used within AuthProvider");
@@ -51,11 +114,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   const [loading, setLoading] = useState(true);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] =
+    useState<TwoFactorChallenge | null>(null);
 
   const logout = useCallback(async () => {
     // Set flag so login screen won't auto-trigger biometric after intentional logout
     await AsyncStorage.setItem("skipBiometricOnce", "true");
-    await AsyncStorage.multiRemove(["accessToken", "refreshToken"]);
+    await clearTokens();
+    await cacheUser(null);
+    await clearQueryCache();
+    await clearOutbox();
+    disconnectSocket();
     setUser(null);
   }, []);
 
@@ -63,6 +132,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setForceLogoutHandler(logout);
   }, [logout]);
 
+  // Biometric login is set up per backend profile
+  const loadBiometricSetting = useCallback(async () => {
+    const bioEnabled = await AsyncStorage.getItem(
+      profileKey("biometricEnabled"),
+    );
+    setBiometricEnabled(bioEnabled === "true");
+  }, []);
+
   // Check biometric availability and status on mount
   useEffect(() => {
     const init = async () => {
@@ -72,35 +149,61 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       setBiometricAvailable(compatible && enrolled);
 
       // Check if biometric is enabled by user
-      const bioEnabled = await AsyncStorage.getItem("biometricEnabled");
-      setBiometricEnabled(bioEnabled === "true");
+      await loadBackendProfiles();
+      await loadBiometricSetting();
     };
     init();
+  }, [loadBiometricSetting]);
+
+  const restoreSession = useCallback(async () => {
+    try {
+      await loadBackendProfiles();
+      const token = await getAccessToken();
+      const refreshToken = await getRefreshToken();
+
+      if (token && refreshToken) {
+        const { data } = await api.get("/auth/me");
+        setUser(data);
+        cacheUser(data);
+      } else {
+        // If one is missing, clear both to ensure clean state
+        await clearTokens();
+      }
+    } catch (err) {
+      const status = isAxiosError(err) ? err.response?.status : undefined;
+      if (status && status >= 400 && status < 500) {
+        // The server rejected the session
+        await clearTokens();
+        await cacheUser(null);
+      } else {
+        // Offline or the server is down: keep the session so the cached
+        // data and pending actions stay reachable
+        setUser(await getCachedUser());
+      }
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
   // Restore session on mount
   useEffect(() => {
-    const restore = async () => {
-      try {
-        const token = await AsyncStorage.getItem("accessToken");
-        const refreshToken = await AsyncStorage.getItem("refreshToken");
+    restoreSession();
+  }, [restoreSession]);
 
-        if (token && refreshToken) {
-          const { data } = await api.get("/auth/me");
-          setUser(data);
-        } else {
-          // If one is missing, clear both to ensure clean state
-          await AsyncStorage.multiRemove(["accessToken", "refreshToken"]);
-        }
-      } catch {
-        await AsyncStorage.multiRemove(["accessToken", "refreshToken"]);
-      } finally {
-        setLoading(false);
-      }
-    };
-    restore();
-    restore();
-  }, []);
+  const switchProfile = useCallback(
+    async (profileId: string) => {
+      if (profileId === getActiveProfile().id) return;
+      setLoading(true);
+      // Drop the old backend's live state; its tokens stay for switching back
+      disconnectSocket();
+      setUser(null);
+      setTwoFactorChallenge(null);
+      await setActiveProfile(profileId);
+      await loadBiometricSetting();
+      await restoreSession();
+    },
+    [loadBiometricSetting, restoreSession],
+  );
 
   // Proactive Token Refresh (Every 5 minutes)
   // Proactive Token Refresh (Disabled to prevent race conditions)
@@ -133,13 +236,49 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   }, [user]);
   */
 
-  const login = async (email: string, password: string) => {
-    const { data } = await api.post("/auth/login", { email, password });
-    await AsyncStorage.setItem("accessToken", data.accessToken);
-    await AsyncStorage.setItem("refreshToken", data.refreshToken);
+  const startSession = async (data: SessionResponse, email: string) => {
+    await setTokens(data.accessToken, data.refreshToken);
+    if (data.trustedDeviceToken) {
+      await setTrustedDeviceToken(data.trustedDeviceToken);
+    }
+    await rememberEmail(email);
+    markUnlocked();
+    setTwoFactorChallenge(null);
     setUser(data.user);
+    cacheUser(data.user);
   };
 
+  const login = async (email: string, password: string) => {
+    const trustedDeviceToken = await getTrustedDeviceToken();
+    const { data } = await api.post("/auth/login", {
+      email,
+      password,
+      trustedDeviceToken: trustedDeviceToken || undefined,
+    });
+    if (data.requires2FA) {
+      setTwoFactorChallenge({ challengeToken: data.challengeToken, email });
+      return;
+    }
+    await startSession(data, email);
+  };
+
+  const verifyTwoFactor = async (
+    code: string,
+    { recovery = false, trustDevice = false }: TwoFactorOptions = {},
+  ) => {
+    if (!twoFactorChallenge) throw new Error("No two-factor login pending");
+    const { data } = await api.post("/auth/2fa/challenge", {
+      challengeToken: twoFactorChallenge.challengeToken,
+      ...(recovery
+        ? { recoveryCode: code.trim() }
+        : { token: code.replace(/\s/g, "") }),
+      trustDevice,
+    });
+    await startSession(data, twoFactorChallenge.email);
+  };
+
+  const cancelTwoFactor = () => setTwoFactorChallenge(null);
+
   const register = async (
     username: string,
     email: string,
@@ -150,9 +289,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       email,
       password,
     });
-    await AsyncStorage.setItem("accessToken", data.accessToken);
-    await AsyncStorage.setItem("refreshToken", data.refreshToken);
-    setUser(data.user);
+    await startSession(data, email);
   };
 
   // Save credentials to SecureStore and enable biometric
@@ -169,9 +306,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
 
     // Save credentials securely
-    await SecureStore.setItemAsync("bio_email", email);
-    await SecureStore.setItemAsync("bio_password", password);
-    await AsyncStorage.setItem("biometricEnabled", "true");
+    await SecureStore.setItemAsync(profileKey("bio_email"), email);
+    await SecureStore.setItemAsync(profileKey("bio_password"), password);
+    await AsyncStorage.setItem(profileKey("biometricEnabled"), "true");
     setBiometricEnabled(true);
   };
 
@@ -187,26 +324,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       throw new Error("Biometric authentication cancelled");
     }
 
-    const email = await SecureStore.getItemAsync("bio_email");
-    const password = await SecureStore.getItemAsync("bio_password");
+    const email = await SecureStore.getItemAsync(profileKey("bio_email"));
+    const password = await SecureStore.getItemAsync(profileKey("bio_password"));
 
     if (!email || !password) {
       // Credentials were cleared, disable biometric
-      await AsyncStorage.removeItem("biometricEnabled");
+      await AsyncStorage.removeItem(profileKey("biometricEnabled"));
       setBiometricEnabled(false);
       throw new Error(
         "Saved credentials not found. Please login with password.",
       );
     }
 
+    // Accounts with 2FA still get the challenge unless this device is trusted
     await login(email, password);
   };
 
   // Disable biometric and clear saved credentials
   const disableBiometric = async () => {
-    await SecureStore.deleteItemAsync("bio_email");
-    await SecureStore.deleteItemAsync("bio_password");
-    await AsyncStorage.removeItem("biometricEnabled");
+    await SecureStore.deleteItemAsync(profileKey("bio_email"));
+    await SecureStore.deleteItemAsync(profileKey("bio_password"));
+    await AsyncStorage.removeItem(profileKey("biometricEnabled"));
     setBiometricEnabled(false);
   };
 
@@ -221,9 +359,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         loading,
         biometricEnabled,
         biometricAvailable,
+        twoFactorChallenge,
         login,
+        verifyTwoFactor,
+        cancelTwoFactor,
         register,
         logout,
+        switchProfile,
         loginWithBiometric,
         enableBiometric,
         disableBiometric,
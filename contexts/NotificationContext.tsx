@@ -4,27 +4,15 @@ import React, {
   useEffect,
   useState,
   useCallback,
-  useRef,
 } from "react";
 import * as Notifications from "expo-notifications";
 import { Platform } from "react-native";
 import api from "../services/api";
-import { getSocket } from "../services/socket";
+import type { Notification } from "../services/client";
+import { useSocketEvent } from "../hooks/useRealtime";
 import { useAuth } from "./AuthContext";
 
-export interface Notification {
-  _id: string;
-  type: "deploy_success" | "deploy_failed" | "deploy_started" | "health_alert";
-  title: string;
-  message: string;
-  read: boolean;
-  link?: string;
-  createdAt: string;
-  projectId?: {
-    _id: string;
-    name: string;
-  };
-}
+export type { Notification };
 
 interface NotificationContextType {
   notifications: Notification[];
@@ -63,7 +51,6 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
-  const socketRef = useRef<any>(null);
 
   const fetchNotifications = useCallback(async () => {
     if (!user) {
@@ -148,42 +135,32 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     })();
   }, []);
 
-  // Socket Listener
   useEffect(() => {
-    if (!user) return;
-
-    fetchNotifications();
-
-    const socket = getSocket();
-    if (socket) {
-      socketRef.current = socket;
-
-      // Listen for new notifications
-      socket.on("notification:new", async (newNotification: Notification) => {
-        console.log("New Notification received:", newNotification);
-
-        // Add to state
-        setNotifications((prev) => [newNotification, ...prev]);
-        setUnreadCount((prev) => prev + 1);
-
-        // Trigger local push notification
-        await Notifications.scheduleNotificationAsync({
-          content: {
-            title: newNotification.title,
-            body: newNotification.message,
-            data: { link: newNotification.link },
-          },
-          trigger: null, // Immediate
-        });
-      });
-    }
+    if (user) fetchNotifications();
+  }, [user, fetchNotifications]);
 
-    return () => {
-      if (socketRef.current) {
-        socketRef.current.off("notification:new");
-      }
-    };
-  }, [user]);
+  // Socket Listener
+  useSocketEvent(
+    "notification:new",
+    async (newNotification) => {
+      console.log("New Notification received:", newNotification);
+
+      // Add to state
+      setNotifications((prev) => [newNotification, ...prev]);
+      setUnreadCount((prev) => prev + 1);
+
+      // Trigger local push notification
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: newNotification.title,
+          body: newNotification.message,
+          data: { link: newNotification.link },
+        },
+        trigger: null, // Immediate
+      });
+    },
+    !!user,
+  );
 
   return (
     <NotificationContext.Provider
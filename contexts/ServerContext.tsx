@@ -7,15 +7,11 @@ import React, {
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import api from "../services/api";
+import { Server, serversApi } from "../services/client";
 import { Alert } from "react-native";
 import { useAuth } from "./AuthContext";
 
-export interface Server {
-  _id: string;
-  name: string;
-  host: string;
-  status: "online" | "offline" | "unknown";
-}
+export type { Server };
 
 interface ServerContextType {
   servers: Server[];
@@ -44,7 +40,7 @@ export const ServerProvider: React.FC<{ children: React.ReactNode }> = ({
       return;
     }
     try {
-      const { data } = await api.get("/servers");
+      const data = await serversApi.list();
       setServers(data);
 
       if (data.length > 0) {
@@ -0,0 +1,460 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useAuth } from "./AuthContext";
+import { TerminalEmulator } from "../utils/terminalEmulator";
+import {
+  connectSocket,
+  emitSocket,
+  isSocketConnected,
+  onConnectionChange,
+  onSocketEvent,
+} from "../services/socket";
+import { authApi, getErrorMessage } from "../services/client";
+
+const STORAGE_KEY = "terminalSessions";
+
+export type TerminalSessionStatus =
+  "connecting" | "attached" | "detached" | "exited";
+
+export interface TerminalSession {
+  termId: number;
+  serverId: string;
+  name: string;
+  title: string;
+  status: TerminalSessionStatus;
+  createdAt: number;
+  // Set for shells exec'd into a Docker container
+  container?: string;
+}
+
+// Live state that must not trigger React renders on every output chunk
+interface SessionRuntime {
+  emulator: TerminalEmulator;
+  rows: number;
+  cols: number;
+  // True once the backend has created the PTY, so reconnects reattach
+  started: boolean;
+  initialPath?: string;
+  listeners: Set<() => void>;
+}
+
+interface PersistedSession {
+  termId: number;
+  serverId: string;
+  name: string;
+  createdAt: number;
+  container?: string;
+}
+
+interface TerminalSessionContextType {
+  sessions: TerminalSession[];
+  connected: boolean;
+  getServerSessions: (serverId: string) => TerminalSession[];
+  openSession: (
+    serverId: string,
+    options?: { name?: string; path?: string; container?: string },
+  ) => TerminalSession;
+  closeSession: (termId: number) => void;
+  renameSession: (termId: number, name: string) => void;
+  restartSession: (termId: number) => void;
+  getEmulator: (termId: number) => TerminalEmulator | undefined;
+  subscribe: (termId: number, listener: () => void) => () => void;
+  sendData: (termId: number, data: string) => void;
+  resizeSession: (termId: number, rows: number, cols: number) => void;
+  lastActive: Record<string, number>;
+  setLastActive: (serverId: string, termId: number) => void;
+}
+
+const TerminalSessionContext = createContext<
+  TerminalSessionContextType | undefined
+>(undefined);
+
+const createTermId = () =>
+  (Date.now() % 1000000000) + Math.floor(Math.random() * 1000);
+
+export const TerminalSessionProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<TerminalSession[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [lastActive, setLastActiveState] = useState<Record<string, number>>({});
+  const runtimes = useRef(new Map<number, SessionRuntime>());
+  const sessionsRef = useRef<TerminalSession[]>([]);
+  const loadedRef = useRef(false);
+
+  const updateSessions = useCallback(
+    (updater: (prev: TerminalSession[]) => TerminalSession[]) => {
+      sessionsRef.current = updater(sessionsRef.current);
+      setSessions(sessionsRef.current);
+    },
+    [],
+  );
+
+  const patchSession = useCallback(
+    (termId: number, patch: Partial<TerminalSession>) => {
+      updateSessions((prev) =>
+        prev.map((s) => (s.termId === termId ? { ...s, ...patch } : s)),
+      );
+    },
+    [updateSessions],
+  );
+
+  const notify = useCallback((termId: number) => {
+    runtimes.current.get(termId)?.listeners.forEach((l) => l());
+  }, []);
+
+  const writeTo = useCallback(
+    (termId: number, data: string) => {
+      const runtime = runtimes.current.get(termId);
+      if (!runtime) return;
+      runtime.emulator.write(data);
+      notify(termId);
+    },
+    [notify],
+  );
+
+  const writeStatus = useCallback(
+    (termId: number, message: string) => {
+      writeTo(termId, `\r\n\x1b[90m${message}\x1b[0m\r\n`);
+    },
+    [writeTo],
+  );
+
+  const createRuntime = useCallback(
+    (termId: number, started: boolean, initialPath?: string) => {
+      const runtime: SessionRuntime = {
+        emulator: new TerminalEmulator({
+          onTitleChange: (title) => patchSession(termId, { title }),
+          // Answer cursor position / device attribute queries from the host
+          onResponse: (data) => emitSocket("terminal:data", { termId, data }),
+        }),
+        rows: 24,
+        cols: 80,
+        started,
+        initialPath,
+        listeners: new Set(),
+      };
+      runtimes.current.set(termId, runtime);
+      return runtime;
+    },
+    [patchSession],
+  );
+
+  // Start a fresh PTY, or reattach to one the backend still holds. Each
+  // start/attach redeems its own single-use ticket for that server.
+  const attach = useCallback(
+    async (termId: number) => {
+      const runtime = runtimes.current.get(termId);
+      const session = sessionsRef.current.find((s) => s.termId === termId);
+      if (!isSocketConnected() || !runtime || !session) return;
+      if (session.status === "exited") return;
+
+      patchSession(termId, { status: "connecting" });
+      let ticket: string;
+      try {
+        ({ ticket } = await authApi.ticket("terminal", session.serverId));
+      } catch (err) {
+        writeStatus(
+          termId,
+          getErrorMessage(err, "Could not authorize the terminal session"),
+        );
+        patchSession(termId, { status: "detached" });
+        return;
+      }
+      // Closed or disconnected while waiting for the ticket
+      if (!isSocketConnected() || !runtimes.current.has(termId)) return;
+
+      const payload = {
+        serverId: session.serverId,
+        termId,
+        rows: runtime.rows,
+        cols: runtime.cols,
+        ticket,
+        container: session.container,
+      };
+      emitSocket(
+        runtime.started ? "terminal:attach" : "terminal:start",
+        payload,
+      );
+    },
+    [patchSession, writeStatus],
+  );
+
+  // Persist session metadata so tabs survive an app restart
+  useEffect(() => {
+    if (!loadedRef.current) return;
+    const persisted: PersistedSession[] = sessions
+      .filter((s) => s.status !== "exited")
+      .map(({ termId, serverId, name, createdAt, container }) => ({
+        termId,
+        serverId,
+        name,
+        createdAt,
+        container,
+      }));
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(persisted)).catch(
+      console.error,
+    );
+  }, [sessions]);
+
+  // Restore persisted sessions as detached tabs
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        if (cancelled) return;
+        const saved: PersistedSession[] = raw ? JSON.parse(raw) : [];
+        saved.forEach((s) => {
+          if (!runtimes.current.has(s.termId)) createRuntime(s.termId, true);
+        });
+        updateSessions((prev) => [
+          ...prev,
+          ...saved
+            .filter((s) => !prev.some((p) => p.termId === s.termId))
+            .map((s) => ({ ...s, title: "", status: "detached" as const })),
+        ]);
+      })
+      .catch(console.error)
+      .finally(() => {
+        loadedRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, createRuntime, updateSessions]);
+
+  const hasSessions = sessions.length > 0;
+
+  // Terminal traffic rides on the shared app socket while any session exists
+  useEffect(() => {
+    if (!user || !hasSessions) return;
+    connectSocket();
+
+    const handleConnection = (isConnected: boolean) => {
+      setConnected(isConnected);
+      if (isConnected) {
+        sessionsRef.current.forEach((s) => attach(s.termId));
+        return;
+      }
+      sessionsRef.current.forEach((s) => {
+        if (s.status === "exited") return;
+        writeStatus(s.termId, "Connection lost. Reconnecting...");
+        patchSession(s.termId, { status: "detached" });
+      });
+    };
+
+    const unsubscribers = [
+      onConnectionChange(handleConnection),
+
+      onSocketEvent("terminal:ready", (data) => {
+        const runtime = runtimes.current.get(data.termId);
+        if (!runtime) return;
+        runtime.started = true;
+        patchSession(data.termId, { status: "attached" });
+        if (runtime.initialPath) {
+          emitSocket("terminal:data", {
+            termId: data.termId,
+            data: `cd "${runtime.initialPath}"\n`,
+          });
+          runtime.initialPath = undefined;
+        }
+      }),
+
+      onSocketEvent("terminal:attached", (data) => {
+        const runtime = runtimes.current.get(data.termId);
+        if (!runtime) return;
+        if (data.scrollback) {
+          runtime.emulator.reset();
+          runtime.emulator.write(data.scrollback);
+        }
+        patchSession(data.termId, { status: "attached" });
+        notify(data.termId);
+      }),
+
+      // The PTY is gone (backend restarted or idle timeout): start over
+      onSocketEvent("terminal:gone", (data) => {
+        const runtime = runtimes.current.get(data.termId);
+        if (!runtime) return;
+        writeStatus(data.termId, "Session expired. Starting a new shell...");
+        runtime.started = false;
+        attach(data.termId);
+      }),
+
+      onSocketEvent("terminal:exit", (data) => {
+        if (!runtimes.current.has(data.termId)) return;
+        writeStatus(
+          data.termId,
+          `[Process exited${data.code !== undefined ? ` with code ${data.code}` : ""}]`,
+        );
+        patchSession(data.termId, { status: "exited" });
+      }),
+
+      onSocketEvent("terminal:output", (data) => {
+        // Legacy payloads without a termId can't be routed
+        if (typeof data === "string") return;
+        writeTo(data.termId, data.data);
+      }),
+    ];
+
+    // Already connected for another screen: attach right away
+    if (isSocketConnected()) handleConnection(true);
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      setConnected(false);
+    };
+  }, [user, hasSessions, attach, patchSession, notify, writeTo, writeStatus]);
+
+  // Drop everything on logout
+  useEffect(() => {
+    if (user) return;
+    runtimes.current.clear();
+    updateSessions(() => []);
+    setLastActiveState({});
+    if (loadedRef.current) {
+      AsyncStorage.removeItem(STORAGE_KEY).catch(console.error);
+    }
+    loadedRef.current = false;
+  }, [user, updateSessions]);
+
+  const getServerSessions = useCallback(
+    (serverId: string) => sessions.filter((s) => s.serverId === serverId),
+    [sessions],
+  );
+
+  const openSession = useCallback(
+    (
+      serverId: string,
+      options: { name?: string; path?: string; container?: string } = {},
+    ) => {
+      const termId = createTermId();
+      createRuntime(termId, false, options.path);
+      const count = sessionsRef.current.filter(
+        (s) => s.serverId === serverId,
+      ).length;
+      const session: TerminalSession = {
+        termId,
+        serverId,
+        name: options.name || `Terminal ${count + 1}`,
+        title: "",
+        status: "connecting",
+        createdAt: Date.now(),
+        container: options.container,
+      };
+      updateSessions((prev) => [...prev, session]);
+      // If the socket is already up, start right away; otherwise the
+      // connect handler picks the new session up
+      attach(termId);
+      return session;
+    },
+    [createRuntime, updateSessions, attach],
+  );
+
+  const closeSession = useCallback(
+    (termId: number) => {
+      emitSocket("terminal:close", { termId });
+      runtimes.current.delete(termId);
+      updateSessions((prev) => prev.filter((s) => s.termId !== termId));
+    },
+    [updateSessions],
+  );
+
+  const renameSession = useCallback(
+    (termId: number, name: string) => {
+      if (name.trim()) patchSession(termId, { name: name.trim() });
+    },
+    [patchSession],
+  );
+
+  // Replace an exited shell with a new PTY in the same tab
+  const restartSession = useCallback(
+    (termId: number) => {
+      const runtime = runtimes.current.get(termId);
+      if (!runtime) return;
+      runtime.started = false;
+      runtime.emulator.reset();
+      patchSession(termId, { status: "connecting" });
+      notify(termId);
+      attach(termId);
+    },
+    [patchSession, attach, notify],
+  );
+
+  const getEmulator = useCallback(
+    (termId: number) => runtimes.current.get(termId)?.emulator,
+    [],
+  );
+
+  const subscribe = useCallback((termId: number, listener: () => void) => {
+    const runtime = runtimes.current.get(termId);
+    runtime?.listeners.add(listener);
+    return () => {
+      runtime?.listeners.delete(listener);
+    };
+  }, []);
+
+  const sendData = useCallback((termId: number, data: string) => {
+    emitSocket("terminal:data", { termId, data });
+  }, []);
+
+  const resizeSession = useCallback(
+    (termId: number, rows: number, cols: number) => {
+      const runtime = runtimes.current.get(termId);
+      if (!runtime) return;
+      runtime.rows = rows;
+      runtime.cols = cols;
+      // Before the PTY exists, the size goes out with terminal:start instead
+      if (runtime.started) {
+        emitSocket("terminal:resize", { termId, rows, cols });
+      }
+    },
+    [],
+  );
+
+  const setLastActive = useCallback((serverId: string, termId: number) => {
+    setLastActiveState((prev) =>
+      prev[serverId] === termId ? prev : { ...prev, [serverId]: termId },
+    );
+  }, []);
+
+  return (
+    <TerminalSessionContext.Provider
+      value={{
+        sessions,
+        connected,
+        getServerSessions,
+        openSession,
+        closeSession,
+        renameSession,
+        restartSession,
+        getEmulator,
+        subscribe,
+        sendData,
+        resizeSession,
+        lastActive,
+        setLastActive,
+      }}
+    >
+      {children}
+    </TerminalSessionContext.Provider>
+  );
+};
+
+export const useTerminalSessions = () => {
+  const context = useContext(TerminalSessionContext);
+  if (context === undefined) {
+    throw new Error(
+      "useTerminalSessions must be used within a TerminalSessionProvider",
+    );
+  }
+  return context;
+};
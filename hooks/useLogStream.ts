@@ -0,0 +1,90 @@
+import { useEffect, useRef } from "react";
+import EventSource from "react-native-sse";
+import { authApi } from "../services/client";
+import { getApiUrl } from "../services/backends";
+
+export interface LogStreamSource {
+  serverId: string;
+  type: "docker" | "pm2";
+  target: string;
+  // Extra query parameters, e.g. { timestamps: "1" }
+  params?: Record<string, string>;
+}
+
+export type LogStreamFailure =
+  | { kind: "ticket"; error: unknown }
+  | { kind: "server"; message: string }
+  | { kind: "lost" };
+
+interface LogStreamHandlers {
+  onOpen?: () => void;
+  // `stream` says which file a PM2 chunk came from, when the server tags it
+  onChunk: (content: string, stream?: string) => void;
+  // The stream is closed by then; callers usually turn following off
+  onFail: (failure: LogStreamFailure) => void;
+}
+
+// Follows /logs/stream from now on (tail=0) while `source` is set. Handlers
+// may change on every render without reconnecting.
+export function useLogStream(
+  source: LogStreamSource | null,
+  handlers: LogStreamHandlers,
+) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const serverId = source?.serverId;
+  const type = source?.type;
+  const target = source?.target;
+  const query = Object.entries(source?.params || {})
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+
+  useEffect(() => {
+    if (!serverId || !type || !target) return;
+    let es: EventSource | null = null;
+    let closed = false;
+
+    (async () => {
+      // The URL carries a single-use ticket so the long-lived JWT stays out
+      // of it, and out of any proxy or access log that records URLs
+      let ticket: string;
+      try {
+        ({ ticket } = await authApi.ticket("logs", serverId));
+      } catch (error) {
+        if (!closed) handlersRef.current.onFail({ kind: "ticket", error });
+        return;
+      }
+      if (closed) return;
+      es = new EventSource(
+        `${getApiUrl()}/logs/stream?serverId=${serverId}&type=${type}&target=${encodeURIComponent(target)}&tail=0${query ? `&${query}` : ""}&ticket=${encodeURIComponent(ticket)}`,
+      );
+      handlersRef.current.onOpen?.();
+      es.addEventListener("message", (event: any) => {
+        try {
+          const data = JSON.parse(event.data);
+          if (data.error) {
+            es?.close();
+            handlersRef.current.onFail({
+              kind: "server",
+              message: String(data.error),
+            });
+          } else if (data.content !== undefined) {
+            handlersRef.current.onChunk(String(data.content), data.stream);
+          }
+        } catch {
+          handlersRef.current.onChunk(String(event.data));
+        }
+      });
+      es.addEventListener("error", () => {
+        es?.close();
+        handlersRef.current.onFail({ kind: "lost" });
+      });
+    })();
+
+    return () => {
+      closed = true;
+      es?.close();
+    };
+  }, [serverId, type, target, query]);
+}
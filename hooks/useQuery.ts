@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ApiError } from "../services/client";
+import {
+  CacheEntry,
+  QueryKey,
+  fetchQuery,
+  getQueryData,
+  hashKey,
+  hydrateQuery,
+  isOnline,
+  setQueryData,
+  subscribeNetwork,
+  subscribeQuery,
+} from "../services/queryCache";
+
+export interface UseQueryOptions {
+  enabled?: boolean;
+  // How long cached data counts as fresh before a mount triggers a refetch
+  staleTime?: number;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  updatedAt: number | null;
+  error: ApiError | null;
+  // Nothing to show yet: no cached copy and the first request is in flight
+  loading: boolean;
+  // A request is in flight, with or without cached data on screen
+  fetching: boolean;
+  offline: boolean;
+  refetch: () => Promise<void>;
+  setData: (updater: T | ((prev: T | undefined) => T)) => void;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+// Shows the cached copy straight away and revalidates in the background.
+// While offline the cached copy is kept and requests wait for the network.
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME }: UseQueryOptions = {},
+): UseQueryResult<T> {
+  const hash = hashKey(key);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const [entry, setEntry] = useState<CacheEntry<T> | undefined>(() =>
+    getQueryData<T>(key),
+  );
+  const [hydrating, setHydrating] = useState(() => !getQueryData(key));
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [online, setOnlineState] = useState(isOnline);
+
+  const refetch = useCallback(async () => {
+    if (!isOnline()) return;
+    setFetching(true);
+    try {
+      await fetchQuery(keyRef.current, () => fetcherRef.current());
+      setError(null);
+    } catch (err) {
+      setError(ApiError.from(err));
+    } finally {
+      setFetching(false);
+    }
+  }, []);
+
+  const isStale = useCallback(
+    (cached: CacheEntry<T> | undefined) =>
+      !cached ||
+      !!cached.invalidated ||
+      Date.now() - cached.updatedAt > staleTime,
+    [staleTime],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntry(getQueryData<T>(keyRef.current));
+    setHydrating(!getQueryData(keyRef.current));
+    setError(null);
+
+    const unsubscribe = subscribeQuery(keyRef.current, () => {
+      const next = getQueryData<T>(keyRef.current);
+      setEntry(next);
+      if (enabled && next?.invalidated) refetch();
+    });
+    if (!enabled) return unsubscribe;
+
+    hydrateQuery<T>(keyRef.current).then((cached) => {
+      if (cancelled) return;
+      setEntry(cached);
+      // Start the request first so there is no empty frame in between
+      if (isStale(cached)) refetch();
+      setHydrating(false);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [hash, enabled, isStale, refetch]);
+
+  // Pick up where we left off once the connection comes back
+  useEffect(
+    () =>
+      subscribeNetwork((value) => {
+        setOnlineState(value);
+        if (value && enabled && isStale(getQueryData<T>(keyRef.current))) {
+          refetch();
+        }
+      }),
+    [enabled, isStale, refetch],
+  );
+
+  const setData = useCallback(
+    (updater: T | ((prev: T | undefined) => T)) =>
+      setQueryData(keyRef.current, updater),
+    [],
+  );
+
+  return {
+    data: entry?.data,
+    updatedAt: entry?.updatedAt ?? null,
+    error,
+    loading: enabled && !entry && (hydrating || (fetching && online)),
+    fetching,
+    offline: !online,
+    refetch,
+    setData,
+  };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  RealtimeEvent,
+  RoomKind,
+  ServerToClientEvents,
+  connectSocket,
+  isSocketConnected,
+  joinRoom,
+  onConnectionChange,
+  onSocketEvent,
+} from "../services/socket";
+
+// Calls the latest `handler` for every `event`; the handler may change on
+// every render without resubscribing
+export function useSocketEvent<E extends RealtimeEvent>(
+  event: E,
+  handler: ServerToClientEvents[E],
+  enabled = true,
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    connectSocket();
+    const listener = ((...args: unknown[]) =>
+      (handlerRef.current as (...a: unknown[]) => void)(
+        ...args,
+      )) as ServerToClientEvents[E];
+    return onSocketEvent(event, listener);
+  }, [event, enabled]);
+}
+
+// Keeps this screen in the given rooms while mounted; nullish ids are skipped
+export function useRooms(kind: RoomKind, ids: (string | null | undefined)[]) {
+  const key = ids.filter(Boolean).sort().join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    connectSocket();
+    const leaves = key.split(",").map((id) => joinRoom(kind, id));
+    return () => leaves.forEach((leave) => leave());
+  }, [kind, key]);
+}
+
+export function useRoom(kind: RoomKind, id: string | null | undefined) {
+  useRooms(kind, [id]);
+}
+
+export function useSocketConnected() {
+  const [connected, setConnected] = useState(isSocketConnected);
+
+  useEffect(() => {
+    connectSocket();
+    setConnected(isSocketConnected());
+    return onConnectionChange(setConnected);
+  }, []);
+
+  return connected;
+}
@@ -1,5 +1,16 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getApiUrl,
+  getServerUrl,
+  loadBackendProfiles,
+  subscribeActiveProfile,
+} from "./backends";
+import {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  setTokens,
+} from "./authTokens";
 
 // Force logout handler
 type AuthListener = () => void;
@@ -8,18 +19,24 @@ export const setForceLogoutHandler = (handler: AuthListener) => {
   onForceLogout = handler;
 };
 
-const BASE_URL = process.env.EXPO_PUBLIC_API_URL || "http://192.168.1.100:5000";
-
 const api = axios.create({
-  baseURL: `${BASE_URL}/api`,
+  baseURL: getApiUrl(),
   headers: { "Content-Type": "application/json" },
   timeout: 30000,
 });
 
+// Follow the active backend profile; code that builds URLs by hand reads
+// api.defaults.baseURL
+subscribeActiveProfile(() => {
+  api.defaults.baseURL = getApiUrl();
+});
+
 // Request interceptor — attach JWT
 api.interceptors.request.use(
   async (config) => {
-    const token = await AsyncStorage.getItem("accessToken");
+    await loadBackendProfiles();
+    config.baseURL = getApiUrl();
+    const token = await getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -53,6 +70,7 @@ api.interceptors.response.use(
       originalRequest._retry ||
       originalRequest.url?.includes("/auth/login") ||
       originalRequest.url?.includes("/auth/register") ||
+      originalRequest.url?.includes("/auth/2fa/challenge") ||
       originalRequest.url?.includes("/auth/refresh") ||
       originalRequest.url?.includes("/auth/logout")
     ) {
@@ -74,19 +92,20 @@ api.interceptors.response.use(
     isRefreshing = true;
 
     try {
-      const refreshToken = await AsyncStorage.getItem("refreshToken");
+      const refreshToken = await getRefreshToken();
       if (!refreshToken) {
         throw new Error("No refresh token stored");
       }
 
       console.log("[API] Refreshing token...");
-      const { data } = await axios.post(`${BASE_URL}/auth/refresh`, {
-        refreshToken,
-      });
+      const { data } = await axios.post(
+        `${getServerUrl()}/auth/refresh`,
+        { refreshToken },
+        { timeout: 15000 },
+      );
 
       console.log("[API] Token refreshed successfully");
-      await AsyncStorage.setItem("accessToken", data.accessToken);
-      await AsyncStorage.setItem("refreshToken", data.refreshToken);
+      await setTokens(data.accessToken, data.refreshToken);
 
       processQueue(null, data.accessToken);
 
@@ -96,8 +115,13 @@ api.interceptors.response.use(
     } catch (refreshError: any) {
       console.log("[API] Refresh failed:", refreshError.message);
       processQueue(refreshError, null);
-      await AsyncStorage.multiRemove(["accessToken", "refreshToken"]);
-      if (onForceLogout) onForceLogout();
+      // Only a refresh the server turned down ends the session; a dropped
+      // connection or a 5xx keeps the tokens for the next attempt
+      const status = refreshError.response?.status;
+      if (!refreshError.isAxiosError || (status && status < 500)) {
+        await clearTokens();
+        if (onForceLogout) onForceLogout();
+      }
       return Promise.reject(refreshError);
     } finally {
       isRefreshing = false;
@@ -0,0 +1,81 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Optional biometric lock over the whole app. The lock engages once the app
+// has been idle (no touches, or in the background) for the chosen timeout.
+
+const ENABLED_KEY = "appLockEnabled";
+const TIMEOUT_KEY = "appLockTimeoutMinutes";
+export const DEFAULT_APP_LOCK_TIMEOUT_MINUTES = 5;
+// 0 locks every time the app leaves the foreground
+export const APP_LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15];
+
+export interface AppLockSettings {
+  enabled: boolean;
+  timeoutMinutes: number;
+}
+
+let settings: AppLockSettings = {
+  enabled: false,
+  timeoutMinutes: DEFAULT_APP_LOCK_TIMEOUT_MINUTES,
+};
+let loaded: Promise<AppLockSettings> | null = null;
+let lastActivity = Date.now();
+// A fresh process starts locked until the user proves who they are; signing
+// in with a password counts
+let unlocked = false;
+const listeners = new Set<(settings: AppLockSettings) => void>();
+
+export const loadAppLockSettings = () => {
+  if (!loaded) {
+    loaded = AsyncStorage.multiGet([ENABLED_KEY, TIMEOUT_KEY])
+      .then(([[, enabled], [, timeout]]) => {
+        const minutes = timeout ? parseInt(timeout, 10) : NaN;
+        settings = {
+          enabled: enabled === "true",
+          timeoutMinutes: isNaN(minutes)
+            ? DEFAULT_APP_LOCK_TIMEOUT_MINUTES
+            : minutes,
+        };
+        return settings;
+      })
+      .catch((e) => {
+        console.error("[AppLock] Failed to load settings", e);
+        return settings;
+      });
+  }
+  return loaded;
+};
+
+export const getAppLockSettings = () => settings;
+
+export const setAppLockSettings = async (changes: Partial<AppLockSettings>) => {
+  await loadAppLockSettings();
+  settings = { ...settings, ...changes };
+  listeners.forEach((l) => l(settings));
+  await AsyncStorage.multiSet([
+    [ENABLED_KEY, String(settings.enabled)],
+    [TIMEOUT_KEY, String(settings.timeoutMinutes)],
+  ]);
+};
+
+export const subscribeAppLock = (
+  listener: (settings: AppLockSettings) => void,
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const markActivity = () => {
+  lastActivity = Date.now();
+};
+
+export const idleFor = () => Date.now() - lastActivity;
+
+export const markUnlocked = () => {
+  unlocked = true;
+  markActivity();
+};
+
+export const isUnlocked = () => unlocked;
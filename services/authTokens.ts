@@ -0,0 +1,105 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  loadBackendProfiles,
+  profileKey,
+} from "./backends";
+
+// Access/refresh tokens live in SecureStore, one pair per backend profile.
+// Reads go through a small in-memory cache since every request needs the
+// access token and SecureStore is comparatively slow.
+
+const ACCESS_KEY = "accessToken";
+const REFRESH_KEY = "refreshToken";
+const TRUSTED_DEVICE_KEY = "trustedDevice";
+
+interface TokenPair {
+  accessToken: string | null;
+  refreshToken: string | null;
+}
+
+const cache = new Map<string, TokenPair>();
+let migrated: Promise<void> | null = null;
+
+// Older builds kept the tokens in AsyncStorage; move them over once
+const migrateLegacyTokens = () => {
+  if (!migrated) {
+    migrated = (async () => {
+      try {
+        const [[, access], [, refresh]] = await AsyncStorage.multiGet([
+          ACCESS_KEY,
+          REFRESH_KEY,
+        ]);
+        if (access && refresh) {
+          await SecureStore.setItemAsync(
+            profileKey(ACCESS_KEY, DEFAULT_PROFILE_ID),
+            access,
+          );
+          await SecureStore.setItemAsync(
+            profileKey(REFRESH_KEY, DEFAULT_PROFILE_ID),
+            refresh,
+          );
+        }
+        if (access || refresh) {
+          await AsyncStorage.multiRemove([ACCESS_KEY, REFRESH_KEY]);
+        }
+      } catch (e) {
+        console.error("[Tokens] Failed to migrate legacy tokens", e);
+      }
+    })();
+  }
+  return migrated;
+};
+
+const readTokens = async (): Promise<TokenPair> => {
+  await loadBackendProfiles();
+  await migrateLegacyTokens();
+  const { id } = getActiveProfile();
+  const cached = cache.get(id);
+  if (cached) return cached;
+  const [accessToken, refreshToken] = await Promise.all([
+    SecureStore.getItemAsync(profileKey(ACCESS_KEY, id)),
+    SecureStore.getItemAsync(profileKey(REFRESH_KEY, id)),
+  ]);
+  const pair = { accessToken, refreshToken };
+  cache.set(id, pair);
+  return pair;
+};
+
+export const getAccessToken = async () => (await readTokens()).accessToken;
+
+export const getRefreshToken = async () => (await readTokens()).refreshToken;
+
+export const setTokens = async (accessToken: string, refreshToken: string) => {
+  await loadBackendProfiles();
+  const { id } = getActiveProfile();
+  cache.set(id, { accessToken, refreshToken });
+  await Promise.all([
+    SecureStore.setItemAsync(profileKey(ACCESS_KEY, id), accessToken),
+    SecureStore.setItemAsync(profileKey(REFRESH_KEY, id), refreshToken),
+  ]);
+};
+
+export const clearTokens = async (profileId?: string) => {
+  await loadBackendProfiles();
+  const id = profileId || getActiveProfile().id;
+  cache.set(id, { accessToken: null, refreshToken: null });
+  await Promise.all([
+    SecureStore.deleteItemAsync(profileKey(ACCESS_KEY, id)),
+    SecureStore.deleteItemAsync(profileKey(REFRESH_KEY, id)),
+  ]);
+};
+
+// Issued when the user ticks "trust this device" at the 2FA step; the server
+// skips the challenge while it is valid
+export const getTrustedDeviceToken = async () => {
+  await loadBackendProfiles();
+  return SecureStore.getItemAsync(profileKey(TRUSTED_DEVICE_KEY));
+};
+
+export const setTrustedDeviceToken = async (token: string) => {
+  await loadBackendProfiles();
+  await SecureStore.setItemAsync(profileKey(TRUSTED_DEVICE_KEY), token);
+};
@@ -0,0 +1,146 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Backend profiles let one install talk to several Pulse servers (e.g.
+// staging and production). Everything that builds a URL asks this module for
+// the active profile instead of reading EXPO_PUBLIC_API_URL directly.
+
+const PROFILES_KEY = "backendProfiles";
+const ACTIVE_KEY = "activeBackendProfile";
+export const DEFAULT_PROFILE_ID = "default";
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  // Server root, without the trailing /api
+  url: string;
+  color: string;
+  // Prefilled on the login screen after switching
+  lastEmail?: string;
+}
+
+export const PROFILE_COLORS = [
+  "#6366f1",
+  "#22c55e",
+  "#f59e0b",
+  "#ef4444",
+  "#06b6d4",
+  "#ec4899",
+];
+
+export const normalizeUrl = (url: string) =>
+  url
+    .trim()
+    .replace(/\/+$/, "")
+    .replace(/\/api$/, "");
+
+const defaultProfile = (): BackendProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: "Default",
+  url: normalizeUrl(
+    process.env.EXPO_PUBLIC_API_URL || "http://192.168.1.100:5000",
+  ),
+  color: PROFILE_COLORS[0],
+});
+
+let profiles: BackendProfile[] = [defaultProfile()];
+let activeId = DEFAULT_PROFILE_ID;
+let loaded: Promise<void> | null = null;
+const listeners = new Set<(profile: BackendProfile) => void>();
+
+const persist = () =>
+  AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+
+export const loadBackendProfiles = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const [raw, active] = await Promise.all([
+          AsyncStorage.getItem(PROFILES_KEY),
+          AsyncStorage.getItem(ACTIVE_KEY),
+        ]);
+        const stored: BackendProfile[] = raw ? JSON.parse(raw) : [];
+        // The build-time default always exists so a fresh install works
+        profiles = stored.some((p) => p.id === DEFAULT_PROFILE_ID)
+          ? stored
+          : [defaultProfile(), ...stored];
+        if (active && profiles.some((p) => p.id === active)) {
+          activeId = active;
+          listeners.forEach((l) => l(getActiveProfile()));
+        }
+      } catch (e) {
+        console.error("[Backends] Failed to load profiles", e);
+      }
+    })();
+  }
+  return loaded;
+};
+
+export const getBackendProfiles = () => profiles;
+
+export const getActiveProfile = (): BackendProfile =>
+  profiles.find((p) => p.id === activeId) || profiles[0];
+
+export const getServerUrl = () => getActiveProfile().url;
+
+export const getApiUrl = () => `${getActiveProfile().url}/api`;
+
+// Storage keys for per-profile data. The default profile keeps the original
+// unsuffixed keys so existing installs don't lose anything.
+export const profileKey = (base: string, profileId = activeId) =>
+  profileId === DEFAULT_PROFILE_ID ? base : `${base}_${profileId}`;
+
+export const subscribeActiveProfile = (
+  listener: (profile: BackendProfile) => void,
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setActiveProfile = async (id: string) => {
+  await loadBackendProfiles();
+  if (!profiles.some((p) => p.id === id) || id === activeId) return;
+  activeId = id;
+  await AsyncStorage.setItem(ACTIVE_KEY, id);
+  listeners.forEach((l) => l(getActiveProfile()));
+};
+
+export const saveBackendProfile = async (
+  input: Omit<BackendProfile, "id"> & { id?: string },
+): Promise<BackendProfile> => {
+  await loadBackendProfiles();
+  const existing = input.id ? profiles.find((p) => p.id === input.id) : null;
+  const saved: BackendProfile = {
+    ...existing,
+    ...input,
+    // SecureStore keys only allow [A-Za-z0-9._-]
+    id:
+      existing?.id ||
+      `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: input.name.trim(),
+    url: normalizeUrl(input.url),
+  };
+  profiles = existing
+    ? profiles.map((p) => (p.id === saved.id ? saved : p))
+    : [...profiles, saved];
+  await persist();
+  if (saved.id === activeId) listeners.forEach((l) => l(saved));
+  return saved;
+};
+
+export const deleteBackendProfile = async (id: string) => {
+  await loadBackendProfiles();
+  if (id === DEFAULT_PROFILE_ID || id === activeId) return;
+  profiles = profiles.filter((p) => p.id !== id);
+  await persist();
+};
+
+export const rememberEmail = async (email: string) => {
+  const active = getActiveProfile();
+  if (active.lastEmail === email) return;
+  profiles = profiles.map((p) =>
+    p.id === active.id ? { ...p, lastEmail: email } : p,
+  );
+  await persist();
+};
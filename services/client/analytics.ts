@@ -0,0 +1,43 @@
+import { http, RequestOptions } from "./http";
+import type {
+  DoraMetrics,
+  ProjectStat,
+  ServerBandwidth,
+  TrendDay,
+} from "./types";
+
+export const analyticsApi = {
+  dora: (days: number, options?: RequestOptions) =>
+    http.get<DoraMetrics>("/analytics/dora", { days }, options),
+
+  trends: async (days: number, options?: RequestOptions) => {
+    const data = await http.get<{ trends?: TrendDay[] }>(
+      "/analytics/trends",
+      { days },
+      options,
+    );
+    return data.trends || [];
+  },
+
+  // 7 rows (weekday) x 24 columns (hour) of deploy counts
+  heatmap: async (days: number, options?: RequestOptions) => {
+    const data = await http.get<{ heatmap?: number[][] }>(
+      "/analytics/heatmap",
+      { days },
+      options,
+    );
+    return data.heatmap || [];
+  },
+
+  projects: async (days: number, options?: RequestOptions) => {
+    const data = await http.get<{ stats?: ProjectStat[] }>(
+      "/analytics/projects",
+      { days },
+      options,
+    );
+    return data.stats || [];
+  },
+
+  bandwidth: (options?: RequestOptions) =>
+    http.get<ServerBandwidth[]>("/analytics/bandwidth", undefined, options),
+};
@@ -0,0 +1,25 @@
+import { endpoint, http, RequestOptions } from "./http";
+import type {
+  Approval,
+  ApprovalDecision,
+  ApprovalInput,
+  ApprovalStatus,
+} from "./types";
+
+export const approvalsApi = {
+  list: async (status: ApprovalStatus | "all", options?: RequestOptions) => {
+    const data = await http.get<{ approvals?: Approval[] }>(
+      "/approvals",
+      { status },
+      options,
+    );
+    return data.approvals || [];
+  },
+
+  create: (input: ApprovalInput) => http.post<Approval>("/approvals", input),
+
+  review: (id: string, action: ApprovalDecision, comment: string) =>
+    http.post<Approval>(endpoint`/approvals/${id}/review`, { action, comment }),
+
+  remove: (id: string) => http.delete<void>(endpoint`/approvals/${id}`),
+};
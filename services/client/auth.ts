@@ -0,0 +1,9 @@
+import { http } from "./http";
+import type { StreamTicket, TicketScope } from "./types";
+
+export const authApi = {
+  // The backend binds the ticket to the calling session and, when given, to
+  // one server
+  ticket: (scope: TicketScope, serverId?: string) =>
+    http.post<StreamTicket>("/auth/ticket", { scope, serverId }),
+};
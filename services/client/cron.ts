@@ -0,0 +1,36 @@
+import { endpoint, http, RequestOptions, unwrapList } from "./http";
+import type { CronJobRun, CronJobRunFilters, Crontab } from "./types";
+
+// The backend reads and writes the user's crontab as raw text
+export const cronApi = {
+  get: async (serverId: string, options?: RequestOptions): Promise<Crontab> => {
+    const data = await http.get<{ jobs?: string; timezone?: string }>(
+      endpoint`/cron/${serverId}`,
+      undefined,
+      options,
+    );
+    return { jobs: data.jobs || "", timezone: data.timezone };
+  },
+
+  save: (serverId: string, jobs: string, options?: RequestOptions) =>
+    http.post<void>(endpoint`/cron/${serverId}`, { jobs }, options),
+
+  // Installs (or updates) the run wrapper on the server and returns its path
+  installMonitor: (serverId: string, options?: RequestOptions) =>
+    http.post<{ wrapper: string }>(
+      endpoint`/cron/${serverId}/monitor`,
+      undefined,
+      options,
+    ),
+
+  // Newest first; without `job`, the latest runs of every monitored job
+  runs: async (
+    serverId: string,
+    { job, limit }: CronJobRunFilters = {},
+    options?: RequestOptions,
+  ) =>
+    unwrapList<CronJobRun>(
+      await http.get(endpoint`/cron/${serverId}/runs`, { job, limit }, options),
+      "runs",
+    ),
+};
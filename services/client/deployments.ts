@@ -0,0 +1,152 @@
+import { endpoint, http, RequestOptions, unwrapList } from "./http";
+import type {
+  DeployCalendar,
+  DeploySchedule,
+  DeploySchedulePayload,
+  Deployment,
+  DeploymentComparison,
+  MaintenancePolicy,
+  RawDeploymentLog,
+  RollbackRequest,
+  RollbackResult,
+} from "./types";
+
+// Most deployment endpoints are keyed by project id, not deployment id
+export const deploymentsApi = {
+  recent: async (limit: number, options?: RequestOptions) =>
+    unwrapList<Deployment>(
+      await http.get("/deployments", { limit }, options),
+      "deployments",
+    ),
+
+  get: (deploymentId: string, options?: RequestOptions) =>
+    http.get<Deployment>(
+      endpoint`/deployments/${deploymentId}`,
+      undefined,
+      options,
+    ),
+
+  history: async (projectId: string, options?: RequestOptions) =>
+    unwrapList<Deployment>(
+      await http.get(
+        endpoint`/deployments/${projectId}/history`,
+        undefined,
+        options,
+      ),
+      "deployments",
+    ),
+
+  logs: async (deploymentId: string, options?: RequestOptions) => {
+    const data = await http.get<{ logs?: RawDeploymentLog[] }>(
+      endpoint`/deployments/${deploymentId}/logs`,
+      undefined,
+      options,
+    );
+    return data.logs || [];
+  },
+
+  deploy: (projectId: string, options?: RequestOptions) =>
+    http.post<void>(
+      endpoint`/deployments/${projectId}/deploy`,
+      undefined,
+      options,
+    ),
+
+  stop: (projectId: string) =>
+    http.post<void>(endpoint`/deployments/${projectId}/stop`),
+
+  restart: (projectId: string) =>
+    http.post<void>(endpoint`/deployments/${projectId}/restart`),
+
+  // Without a target the backend picks the previous successful deployment
+  rollback: (projectId: string, request?: RollbackRequest) =>
+    http.post<RollbackResult | undefined>(
+      endpoint`/deployments/${projectId}/rollback`,
+      request,
+    ),
+
+  cancel: (projectId: string) =>
+    http.post<void>(endpoint`/deployments/${projectId}/cancel`),
+
+  schedule: (projectId: string, scheduledFor: Date) =>
+    http.post<void>(endpoint`/deployments/${projectId}/schedule`, {
+      scheduledFor: scheduledFor.toISOString(),
+    }),
+
+  cancelSchedule: (projectId: string) =>
+    http.delete<void>(endpoint`/deployments/${projectId}/schedule`),
+
+  recurringSchedules: async (projectId: string, options?: RequestOptions) =>
+    unwrapList<DeploySchedule>(
+      await http.get(
+        endpoint`/deployments/${projectId}/schedules`,
+        undefined,
+        options,
+      ),
+      "schedules",
+    ),
+
+  createRecurringSchedule: (
+    projectId: string,
+    payload: DeploySchedulePayload,
+  ) =>
+    http.post<DeploySchedule>(
+      endpoint`/deployments/${projectId}/schedules`,
+      payload,
+    ),
+
+  updateRecurringSchedule: (
+    projectId: string,
+    scheduleId: string,
+    payload: Partial<DeploySchedulePayload>,
+  ) =>
+    http.patch<DeploySchedule>(
+      endpoint`/deployments/${projectId}/schedules/${scheduleId}`,
+      payload,
+    ),
+
+  deleteRecurringSchedule: (projectId: string, scheduleId: string) =>
+    http.delete<void>(
+      endpoint`/deployments/${projectId}/schedules/${scheduleId}`,
+    ),
+
+  // Resolves to null when the project has no windows configured
+  maintenance: async (projectId: string, options?: RequestOptions) => {
+    const data = await http.get<{ policy?: MaintenancePolicy | null }>(
+      endpoint`/deployments/${projectId}/maintenance`,
+      undefined,
+      options,
+    );
+    return data?.policy || null;
+  },
+
+  setMaintenance: (projectId: string, policy: MaintenancePolicy | null) =>
+    http.put<void>(endpoint`/deployments/${projectId}/maintenance`, {
+      policy,
+    }),
+
+  // Everything scheduled across all projects between the two dates
+  calendar: (from: Date, to: Date, options?: RequestOptions) =>
+    http.get<DeployCalendar>(
+      "/deployments/calendar",
+      { from: from.toISOString(), to: to.toISOString() },
+      options,
+    ),
+
+  diff: async (projectId: string, options?: RequestOptions) => {
+    const data = await http.get<{ diff?: string }>(
+      endpoint`/deployments/${projectId}/diff`,
+      undefined,
+      options,
+    );
+    return data?.diff || "";
+  },
+
+  // Both ids are deployment ids; base should be the older one
+  compare: (baseId: string, headId: string, options?: RequestOptions) =>
+    http.get<DeploymentComparison>(
+      "/deployments/compare",
+      { base: baseId, head: headId },
+      options,
+    ),
+};
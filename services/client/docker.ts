@@ -0,0 +1,306 @@
+import { endpoint, http, RequestOptions, unwrapList } from "./http";
+import type {
+  ActionResult,
+  ComposeAction,
+  ComposeActionInput,
+  ComposeFile,
+  ComposeProject,
+  ContainerAction,
+  ContainerLogQuery,
+  ContainerStats,
+  CreateNetworkInput,
+  CreateVolumeInput,
+  DiskUsageEntry,
+  DockerContainer,
+  DockerImage,
+  DockerInfo,
+  DockerNetwork,
+  DockerSearchResult,
+  DockerVolume,
+  ImageTag,
+  PrunePreview,
+  PruneResult,
+  PruneSelection,
+  PruneTarget,
+  PullImageInput,
+  RunContainerInput,
+  UpdateContainerInput,
+} from "./types";
+
+// Pruning build cache or many images can take minutes
+const PRUNE_TIMEOUT = 5 * 60 * 1000;
+// Updating waits for the pull and the recreate to finish
+const UPDATE_TIMEOUT = 10 * 60 * 1000;
+
+export const dockerApi = {
+  info: (serverId: string, options?: RequestOptions) =>
+    http.get<DockerInfo>(
+      endpoint`/docker/${serverId}/info`,
+      undefined,
+      options,
+    ),
+
+  containers: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<DockerContainer>(
+      await http.get(
+        endpoint`/docker/${serverId}/containers`,
+        undefined,
+        options,
+      ),
+      "containers",
+    ),
+
+  images: async (serverId: string, options?: RequestOptions) => {
+    const data = await http.get<{ images?: DockerImage[] }>(
+      endpoint`/docker/${serverId}/images`,
+      undefined,
+      options,
+    );
+    return data.images || [];
+  },
+
+  stats: async (serverId: string, options?: RequestOptions) => {
+    const data = await http.get<{ stats?: ContainerStats[] }>(
+      endpoint`/docker/${serverId}/stats`,
+      undefined,
+      options,
+    );
+    return data.stats || [];
+  },
+
+  // Docker Hub search, not tied to a server
+  search: async (query: string, options?: RequestOptions) => {
+    const data = await http.get<{ results?: DockerSearchResult[] }>(
+      "/docker/search",
+      { query },
+      options,
+    );
+    return data.results || [];
+  },
+
+  // Tags of an image on its registry, newest first; private registries need
+  // a credential
+  tags: async (
+    image: string,
+    credentialId?: string,
+    options?: RequestOptions,
+  ) =>
+    unwrapList<ImageTag>(
+      await http.get("/docker/tags", { image, credentialId }, options),
+      "tags",
+    ),
+
+  pull: (serverId: string, input: PullImageInput) =>
+    http.post<void>(endpoint`/docker/${serverId}/pull`, input),
+
+  run: (serverId: string, input: RunContainerInput) =>
+    http.post<void>(endpoint`/docker/${serverId}/containers/run`, input),
+
+  containerAction: (
+    serverId: string,
+    containerId: string,
+    action: ContainerAction,
+  ) =>
+    http.post<void>(
+      endpoint`/docker/${serverId}/containers/${containerId}/${action}`,
+    ),
+
+  updateContainer: (
+    serverId: string,
+    containerId: string,
+    input: UpdateContainerInput,
+  ) =>
+    http.post<void>(
+      endpoint`/docker/${serverId}/containers/${containerId}/update`,
+      input,
+      { timeout: UPDATE_TIMEOUT },
+    ),
+
+  // ── Compose ──
+
+  composeProjects: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<ComposeProject>(
+      await http.get(endpoint`/docker/${serverId}/compose`, undefined, options),
+      "projects",
+    ),
+
+  composeFile: (serverId: string, project: string, options?: RequestOptions) =>
+    http.get<ComposeFile>(
+      endpoint`/docker/${serverId}/compose/${project}/file`,
+      undefined,
+      options,
+    ),
+
+  saveComposeFile: (serverId: string, project: string, content: string) =>
+    http.put<void>(endpoint`/docker/${serverId}/compose/${project}/file`, {
+      content,
+    }),
+
+  // `docker compose config -q` against the given content, without saving it
+  validateCompose: (serverId: string, project: string, content: string) =>
+    http.post<ActionResult>(
+      endpoint`/docker/${serverId}/compose/${project}/validate`,
+      { content },
+    ),
+
+  // Returns once the command has started: pulls can outlast any request
+  // timeout, so output streams as compose:output and the exit code arrives
+  // as compose:done
+  composeAction: (
+    serverId: string,
+    project: string,
+    action: ComposeAction,
+    input: ComposeActionInput,
+  ) =>
+    http.post<void>(
+      endpoint`/docker/${serverId}/compose/${project}/${action}`,
+      input,
+    ),
+
+  // ── Volumes & networks ──
+
+  volumes: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<DockerVolume>(
+      await http.get(endpoint`/docker/${serverId}/volumes`, undefined, options),
+      "volumes",
+    ),
+
+  createVolume: (serverId: string, input: CreateVolumeInput) =>
+    http.post<void>(endpoint`/docker/${serverId}/volumes`, input),
+
+  removeVolume: (serverId: string, name: string) =>
+    http.delete<void>(endpoint`/docker/${serverId}/volumes/${name}`),
+
+  inspectVolume: async (
+    serverId: string,
+    name: string,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ data: unknown }>(
+      endpoint`/docker/${serverId}/volumes/${name}/inspect`,
+      undefined,
+      options,
+    );
+    return data.data;
+  },
+
+  networks: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<DockerNetwork>(
+      await http.get(
+        endpoint`/docker/${serverId}/networks`,
+        undefined,
+        options,
+      ),
+      "networks",
+    ),
+
+  createNetwork: (serverId: string, input: CreateNetworkInput) =>
+    http.post<void>(endpoint`/docker/${serverId}/networks`, input),
+
+  removeNetwork: (serverId: string, networkId: string) =>
+    http.delete<void>(endpoint`/docker/${serverId}/networks/${networkId}`),
+
+  inspectNetwork: async (
+    serverId: string,
+    networkId: string,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ data: unknown }>(
+      endpoint`/docker/${serverId}/networks/${networkId}/inspect`,
+      undefined,
+      options,
+    );
+    return data.data;
+  },
+
+  // ── Disk usage ──
+
+  diskUsage: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<DiskUsageEntry>(
+      await http.get(endpoint`/docker/${serverId}/df`, undefined, options),
+      "usage",
+    ),
+
+  // What a prune of each target would delete, without deleting anything
+  prunePreview: async (
+    serverId: string,
+    targets: PruneTarget[],
+    options?: RequestOptions,
+  ) =>
+    unwrapList<PrunePreview>(
+      await http.post(
+        endpoint`/docker/${serverId}/prune/preview`,
+        { targets },
+        options,
+      ),
+      "previews",
+    ),
+
+  prune: async (serverId: string, selections: PruneSelection[]) =>
+    unwrapList<PruneResult>(
+      await http.post(
+        endpoint`/docker/${serverId}/prune`,
+        { selections },
+        { timeout: PRUNE_TIMEOUT },
+      ),
+      "results",
+    ),
+
+  removeImage: (serverId: string, imageId: string) =>
+    http.delete<void>(endpoint`/docker/${serverId}/images/${imageId}`),
+
+  containerLogs: async (
+    serverId: string,
+    containerId: string,
+    { tail = 300, timestamps }: ContainerLogQuery = {},
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ logs?: string }>(
+      endpoint`/docker/${serverId}/containers/${containerId}/logs`,
+      { tail, timestamps },
+      options,
+    );
+    return data.logs || "";
+  },
+
+  // One `docker stats --no-stream` sample of a single container
+  containerStats: async (
+    serverId: string,
+    containerId: string,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ stats: ContainerStats }>(
+      endpoint`/docker/${serverId}/containers/${containerId}/stats`,
+      undefined,
+      options,
+    );
+    return data.stats;
+  },
+
+  // Raw `docker inspect` output
+  inspectContainer: async (
+    serverId: string,
+    containerId: string,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ data: unknown }>(
+      endpoint`/docker/${serverId}/containers/${containerId}/inspect`,
+      undefined,
+      options,
+    );
+    return data.data;
+  },
+
+  inspectImage: async (
+    serverId: string,
+    imageId: string,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ data: unknown }>(
+      endpoint`/docker/${serverId}/images/${imageId}/inspect`,
+      undefined,
+      options,
+    );
+    return data.data;
+  },
+};
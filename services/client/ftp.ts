@@ -0,0 +1,84 @@
+import api from "../api";
+import { endpoint, http, request, RequestOptions } from "./http";
+import type { FileEntry, FtpListing } from "./types";
+
+export type FtpEntryType = "file" | "directory";
+
+export const ftpApi = {
+  // Older servers reply with a bare array of entries
+  list: async (
+    serverId: string,
+    path: string,
+    options?: RequestOptions,
+  ): Promise<FtpListing> => {
+    const data = await http.get<FtpListing | FileEntry[]>(
+      endpoint`/ftp/${serverId}/list`,
+      { path },
+      options,
+    );
+    return Array.isArray(data)
+      ? { path, entries: data }
+      : { path: data.path || path, entries: data.entries || [] };
+  },
+
+  read: async (serverId: string, path: string, options?: RequestOptions) => {
+    const data = await http.get<{ content: string }>(
+      endpoint`/ftp/${serverId}/read`,
+      { path },
+      options,
+    );
+    return data.content;
+  },
+
+  write: (serverId: string, path: string, content: string) =>
+    http.post<void>(endpoint`/ftp/${serverId}/write`, { path, content }),
+
+  rename: (serverId: string, oldPath: string, newPath: string) =>
+    http.post<void>(endpoint`/ftp/${serverId}/rename`, { oldPath, newPath }),
+
+  copy: (serverId: string, sourcePath: string, destPath: string) =>
+    http.post<void>(endpoint`/ftp/${serverId}/copy`, { sourcePath, destPath }),
+
+  // Some proxies drop DELETE bodies, so the target goes in the query too
+  remove: (serverId: string, path: string, type: FtpEntryType) =>
+    http.delete<void>(endpoint`/ftp/${serverId}/file`, {
+      params: { path, type },
+      data: { path, type },
+    }),
+
+  mkdir: (serverId: string, path: string) =>
+    http.post<void>(endpoint`/ftp/${serverId}/mkdir`, { path }),
+
+  chmod: (serverId: string, path: string, mode: string) =>
+    http.post<void>(endpoint`/ftp/${serverId}/chmod`, { path, mode }),
+
+  upload: (serverId: string, formData: FormData) =>
+    request<void>({
+      method: "POST",
+      url: endpoint`/ftp/${serverId}/upload`,
+      data: formData,
+      headers: { "Content-Type": "multipart/form-data" },
+    }),
+
+  zip: (
+    serverId: string,
+    basePath: string,
+    items: string[],
+    archiveName: string,
+  ) =>
+    http.post<void>(endpoint`/ftp/${serverId}/zip`, {
+      basePath,
+      items,
+      archiveName,
+    }),
+
+  unzip: (serverId: string, archivePath: string, destPath: string) =>
+    http.post<void>(endpoint`/ftp/${serverId}/unzip`, {
+      archivePath,
+      destPath,
+    }),
+
+  // For FileSystem.downloadAsync, which streams to disk outside axios
+  downloadUrl: (serverId: string, path: string) =>
+    `${api.defaults.baseURL}${endpoint`/ftp/${serverId}/download`}?path=${encodeURIComponent(path)}`,
+};
@@ -0,0 +1,143 @@
+import { AxiosError, AxiosRequestConfig, isAxiosError, isCancel } from "axios";
+import api from "../api";
+
+export type ApiErrorCode =
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "validation"
+  | "server"
+  | "unknown";
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 400 || status === 422) return "validation";
+  if (status >= 500) return "server";
+  return "unknown";
+};
+
+// Every client call rejects with this instead of a raw AxiosError
+export class ApiError extends Error {
+  // null when the request never got a response
+  readonly status: number | null;
+  readonly code: ApiErrorCode;
+  // The backend's own `message`, if it sent one
+  readonly serverMessage: string | null;
+  readonly data: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number | null;
+      code: ApiErrorCode;
+      serverMessage?: string | null;
+      data?: unknown;
+    },
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status ?? null;
+    this.code = options.code;
+    this.serverMessage = options.serverMessage ?? null;
+    this.data = options.data;
+  }
+
+  static from(err: unknown): ApiError {
+    if (err instanceof ApiError) return err;
+    if (isCancel(err)) {
+      return new ApiError("Request cancelled", { code: "cancelled" });
+    }
+    if (isAxiosError(err)) {
+      const axiosErr = err as AxiosError<{ message?: string }>;
+      const response = axiosErr.response;
+      if (!response) {
+        const timedOut =
+          axiosErr.code === "ECONNABORTED" || axiosErr.code === "ETIMEDOUT";
+        return new ApiError(axiosErr.message, {
+          code: timedOut ? "timeout" : "network",
+        });
+      }
+      const serverMessage =
+        typeof response.data?.message === "string"
+          ? response.data.message
+          : null;
+      return new ApiError(serverMessage || axiosErr.message, {
+        status: response.status,
+        code: codeForStatus(response.status),
+        serverMessage,
+        data: response.data,
+      });
+    }
+    return new ApiError(err instanceof Error ? err.message : String(err), {
+      code: "unknown",
+    });
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError =>
+  err instanceof ApiError;
+
+export const isCancelled = (err: unknown): boolean =>
+  isApiError(err) && err.code === "cancelled";
+
+// Backend message when there is one, otherwise the caller's fallback
+export const getErrorMessage = (err: unknown, fallback: string): string =>
+  (isApiError(err) && err.serverMessage) || fallback;
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export const request = async <T>(config: AxiosRequestConfig): Promise<T> => {
+  try {
+    const res = await api.request<T>(config);
+    return res.data;
+  } catch (err) {
+    throw ApiError.from(err);
+  }
+};
+
+export const http = {
+  get: <T>(url: string, params?: QueryParams, options?: RequestOptions) =>
+    request<T>({ method: "GET", url, params, ...options }),
+  post: <T>(url: string, body?: unknown, options?: RequestOptions) =>
+    request<T>({ method: "POST", url, data: body, ...options }),
+  put: <T>(url: string, body?: unknown, options?: RequestOptions) =>
+    request<T>({ method: "PUT", url, data: body, ...options }),
+  patch: <T>(url: string, body?: unknown, options?: RequestOptions) =>
+    request<T>({ method: "PATCH", url, data: body, ...options }),
+  delete: <T>(
+    url: string,
+    options?: RequestOptions & { params?: QueryParams; data?: unknown },
+  ) => request<T>({ method: "DELETE", url, ...options }),
+};
+
+// Builds a URL with every interpolated segment escaped, e.g.
+// endpoint`/pm2/${serverId}/${name}/logs`
+export const endpoint = (
+  strings: TemplateStringsArray,
+  ...segments: (string | number)[]
+): string =>
+  strings.reduce(
+    (acc, part, i) =>
+      acc + part + (i < segments.length ? encodeURIComponent(segments[i]) : ""),
+    "",
+  );
+
+// Some endpoints return a bare array, others wrap it in an object
+export const unwrapList = <T>(data: unknown, key: string): T[] => {
+  if (Array.isArray(data)) return data as T[];
+  const inner = (data as Record<string, unknown> | null)?.[key];
+  return Array.isArray(inner) ? (inner as T[]) : [];
+};
@@ -0,0 +1,17 @@
+export * from "./http";
+export * from "./types";
+export { serversApi } from "./servers";
+export { projectsApi } from "./projects";
+export { deploymentsApi } from "./deployments";
+export { dockerApi } from "./docker";
+export { pm2Api } from "./pm2";
+export { ftpApi } from "./ftp";
+export type { FtpEntryType } from "./ftp";
+export { nginxApi } from "./nginx";
+export { vpnApi } from "./vpn";
+export { cronApi } from "./cron";
+export { secretsApi } from "./secrets";
+export { approvalsApi } from "./approvals";
+export { pipelinesApi } from "./pipelines";
+export { analyticsApi } from "./analytics";
+export { authApi } from "./auth";
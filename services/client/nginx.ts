@@ -0,0 +1,72 @@
+import { endpoint, http, RequestOptions } from "./http";
+import type {
+  ActionResult,
+  NginxConfig,
+  NginxLogType,
+  NginxStatus,
+} from "./types";
+
+export const nginxApi = {
+  configs: (serverId: string, options?: RequestOptions) =>
+    http.get<NginxConfig[]>(
+      endpoint`/nginx/${serverId}/configs`,
+      undefined,
+      options,
+    ),
+
+  status: (serverId: string, options?: RequestOptions) =>
+    http.get<NginxStatus>(
+      endpoint`/nginx/${serverId}/status`,
+      undefined,
+      options,
+    ),
+
+  // `nginx -t`
+  test: (serverId: string) =>
+    http.post<ActionResult>(endpoint`/nginx/${serverId}/test`),
+
+  reload: (serverId: string) =>
+    http.post<ActionResult>(endpoint`/nginx/${serverId}/reload`),
+
+  setEnabled: (serverId: string, name: string, enabled: boolean) =>
+    http.post<void>(
+      enabled
+        ? endpoint`/nginx/${serverId}/configs/${name}/enable`
+        : endpoint`/nginx/${serverId}/configs/${name}/disable`,
+    ),
+
+  remove: (serverId: string, name: string) =>
+    http.delete<void>(endpoint`/nginx/${serverId}/configs/${name}`),
+
+  read: async (serverId: string, name: string, options?: RequestOptions) => {
+    const data = await http.get<{ content: string }>(
+      endpoint`/nginx/${serverId}/configs/${name}`,
+      undefined,
+      options,
+    );
+    return data.content;
+  },
+
+  save: (serverId: string, name: string, content: string) =>
+    http.post<void>(endpoint`/nginx/${serverId}/configs/${name}`, { content }),
+
+  saveAndReload: (serverId: string, name: string, content: string) =>
+    http.post<ActionResult>(
+      endpoint`/nginx/${serverId}/configs/${name}/save-reload`,
+      { content },
+    ),
+
+  logs: async (
+    serverId: string,
+    type: NginxLogType,
+    lines = 100,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ content: string }>(
+      endpoint`/nginx/${serverId}/logs/${type}`,
+      { lines },
+      options,
+    );
+    return data.content;
+  },
+};
@@ -0,0 +1,80 @@
+import { endpoint, http, RequestOptions, unwrapList } from "./http";
+import type {
+  Pipeline,
+  PipelineInput,
+  PipelineRun,
+  PipelineRunFilters,
+  PipelineRunResult,
+  PipelineStepLog,
+} from "./types";
+
+export const pipelinesApi = {
+  list: async (options?: RequestOptions) => {
+    const data = await http.get<{ pipelines?: Pipeline[] }>(
+      "/pipelines",
+      undefined,
+      options,
+    );
+    return data.pipelines || [];
+  },
+
+  get: (id: string, options?: RequestOptions) =>
+    http.get<Pipeline>(endpoint`/pipelines/${id}`, undefined, options),
+
+  create: (input: PipelineInput) => http.post<Pipeline>("/pipelines", input),
+
+  update: (id: string, input: PipelineInput) =>
+    http.put<Pipeline>(endpoint`/pipelines/${id}`, input),
+
+  remove: (id: string) => http.delete<void>(endpoint`/pipelines/${id}`),
+
+  run: (id: string) =>
+    http.post<PipelineRunResult>(endpoint`/pipelines/${id}/run`),
+
+  // ── Runs ──
+
+  runs: async (
+    id: string,
+    { status, trigger, limit }: PipelineRunFilters = {},
+    options?: RequestOptions,
+  ) =>
+    unwrapList<PipelineRun>(
+      await http.get(
+        endpoint`/pipelines/${id}/runs`,
+        { status, trigger, limit },
+        options,
+      ),
+      "runs",
+    ),
+
+  getRun: (runId: string, options?: RequestOptions) =>
+    http.get<PipelineRun>(
+      endpoint`/pipelines/runs/${runId}`,
+      undefined,
+      options,
+    ),
+
+  // Steps are addressed by position: stage index, then step index in it
+  stepLogs: async (
+    runId: string,
+    stage: number,
+    step: number,
+    options?: RequestOptions,
+  ) =>
+    unwrapList<PipelineStepLog>(
+      await http.get(
+        endpoint`/pipelines/runs/${runId}/stages/${stage}/steps/${step}/logs`,
+        undefined,
+        options,
+      ),
+      "logs",
+    ),
+
+  retryStep: (runId: string, stage: number, step: number) =>
+    http.post<PipelineRun>(
+      endpoint`/pipelines/runs/${runId}/stages/${stage}/steps/${step}/retry`,
+    ),
+
+  cancelRun: (runId: string) =>
+    http.post<PipelineRun>(endpoint`/pipelines/runs/${runId}/cancel`),
+};
@@ -0,0 +1,90 @@
+import { endpoint, http, RequestOptions, unwrapList } from "./http";
+import type {
+  ActionResult,
+  PM2BulkAction,
+  PM2Ecosystem,
+  PM2EcosystemApplyInput,
+  PM2EcosystemFile,
+  PM2Logs,
+  PM2MetricSample,
+  PM2MetricsRange,
+  PM2Process,
+  PM2ProcessAction,
+  PM2StartInput,
+} from "./types";
+
+export const pm2Api = {
+  processes: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<PM2Process>(
+      await http.get(endpoint`/pm2/${serverId}/processes`, undefined, options),
+      "processes",
+    ),
+
+  processAction: (
+    serverId: string,
+    name: string,
+    action: PM2ProcessAction,
+    options?: RequestOptions,
+  ) =>
+    http.post<ActionResult>(
+      endpoint`/pm2/${serverId}/${name}/${action}`,
+      undefined,
+      options,
+    ),
+
+  bulkAction: (serverId: string, action: PM2BulkAction) =>
+    http.post<ActionResult>(endpoint`/pm2/${serverId}/${action}`),
+
+  start: (serverId: string, input: PM2StartInput) =>
+    http.post<ActionResult>(endpoint`/pm2/${serverId}/start`, input),
+
+  // ── Ecosystem files ──
+
+  // ecosystem.config.{js,cjs,json} files found under the usual app roots
+  ecosystems: async (serverId: string, options?: RequestOptions) =>
+    unwrapList<PM2EcosystemFile>(
+      await http.get(endpoint`/pm2/${serverId}/ecosystems`, undefined, options),
+      "files",
+    ),
+
+  ecosystem: (serverId: string, path: string, options?: RequestOptions) =>
+    http.get<PM2Ecosystem>(
+      endpoint`/pm2/${serverId}/ecosystem`,
+      { path },
+      options,
+    ),
+
+  saveEcosystem: (serverId: string, path: string, content: string) =>
+    http.put<void>(endpoint`/pm2/${serverId}/ecosystem`, { path, content }),
+
+  // `pm2 startOrReload <path> [--env <env>]`
+  applyEcosystem: (serverId: string, input: PM2EcosystemApplyInput) =>
+    http.post<ActionResult>(endpoint`/pm2/${serverId}/ecosystem/apply`, input),
+
+  logs: (
+    serverId: string,
+    name: string,
+    lines = 200,
+    options?: RequestOptions,
+  ) =>
+    http.get<PM2Logs>(
+      endpoint`/pm2/${serverId}/${name}/logs`,
+      { lines },
+      options,
+    ),
+
+  metrics: async (
+    serverId: string,
+    name: string,
+    range: PM2MetricsRange,
+    options?: RequestOptions,
+  ) =>
+    unwrapList<PM2MetricSample>(
+      await http.get(
+        endpoint`/pm2/${serverId}/${name}/metrics`,
+        { range },
+        options,
+      ),
+      "samples",
+    ),
+};
@@ -0,0 +1,35 @@
+import { endpoint, http, RequestOptions } from "./http";
+import type { Project, ProjectInput } from "./types";
+
+export const projectsApi = {
+  list: (options?: RequestOptions) =>
+    http.get<Project[]>("/projects", undefined, options),
+
+  get: (id: string, options?: RequestOptions) =>
+    http.get<Project>(endpoint`/projects/${id}`, undefined, options),
+
+  create: (input: ProjectInput) => http.post<Project>("/projects", input),
+
+  update: (id: string, input: ProjectInput) =>
+    http.put<Project>(endpoint`/projects/${id}`, input),
+
+  remove: (id: string) => http.delete<void>(endpoint`/projects/${id}`),
+
+  // Default branch of a remote repo, looked up by the backend
+  detectBranch: async (repoUrl: string) => {
+    const data = await http.post<{ branch?: string }>(
+      "/projects/detect-branch",
+      { repoUrl },
+    );
+    return data.branch || "main";
+  },
+
+  webhookUrl: async (id: string, options?: RequestOptions) => {
+    const data = await http.get<{ url?: string } | null>(
+      endpoint`/projects/${id}/webhook-url`,
+      undefined,
+      options,
+    );
+    return data?.url || null;
+  },
+};
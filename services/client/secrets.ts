@@ -0,0 +1,26 @@
+import { endpoint, http, RequestOptions } from "./http";
+import type { Secret, SecretInput } from "./types";
+
+export const secretsApi = {
+  list: async (type?: string, options?: RequestOptions) => {
+    const data = await http.get<{ secrets?: Secret[] }>(
+      "/secrets",
+      { type },
+      options,
+    );
+    return data.secrets || [];
+  },
+
+  create: (input: SecretInput) => http.post<Secret>("/secrets", input),
+
+  reveal: async (id: string, options?: RequestOptions) => {
+    const data = await http.get<{ value: string }>(
+      endpoint`/secrets/${id}/reveal`,
+      undefined,
+      options,
+    );
+    return data.value;
+  },
+
+  remove: (id: string) => http.delete<void>(endpoint`/secrets/${id}`),
+};
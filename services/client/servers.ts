@@ -0,0 +1,55 @@
+import { endpoint, http, RequestOptions, unwrapList } from "./http";
+import type {
+  ExecResult,
+  Project,
+  Server,
+  ServerInput,
+  ServerStats,
+  ServerStatsPoint,
+} from "./types";
+
+export const serversApi = {
+  list: (options?: RequestOptions) =>
+    http.get<Server[]>("/servers", undefined, options),
+
+  get: (id: string, options?: RequestOptions) =>
+    http.get<Server>(endpoint`/servers/${id}`, undefined, options),
+
+  create: (input: ServerInput) => http.post<Server>("/servers", input),
+
+  update: (id: string, input: ServerInput) =>
+    http.put<Server>(endpoint`/servers/${id}`, input),
+
+  remove: (id: string) => http.delete<void>(endpoint`/servers/${id}`),
+
+  testConnection: (id: string) =>
+    http.post<{ success: boolean; message?: string }>(
+      endpoint`/servers/${id}/test`,
+    ),
+
+  // The endpoint has returned the stats both bare and nested under `stats`
+  stats: async (id: string, options?: RequestOptions) => {
+    const data = await http.get<ServerStats & { stats?: ServerStats }>(
+      endpoint`/servers/${id}/stats`,
+      undefined,
+      options,
+    );
+    return data.stats || data;
+  },
+
+  statsHistory: async (id: string, options?: RequestOptions) =>
+    unwrapList<ServerStatsPoint>(
+      await http.get(
+        endpoint`/servers/${id}/stats/history`,
+        undefined,
+        options,
+      ),
+      "history",
+    ),
+
+  projects: (id: string, options?: RequestOptions) =>
+    http.get<Project[]>(endpoint`/servers/${id}/projects`, undefined, options),
+
+  exec: (id: string, command: string, options?: RequestOptions) =>
+    http.post<ExecResult>(endpoint`/servers/${id}/exec`, { command }, options),
+};
@@ -0,0 +1,886 @@
+// Request/response shapes shared by the client modules and the screens.
+// Keep these in sync with the backend; a mismatch should fail tsc, not the app.
+
+import type { FileEntry } from "../../constants/types";
+
+export type { FileEntry };
+
+// ── Common ───────────────────────────────────────────────────────────────
+
+export interface ActionResult {
+  success: boolean;
+  output?: string;
+  message?: string;
+}
+
+export interface EntityRef {
+  _id: string;
+  name: string;
+}
+
+// ── Servers ──────────────────────────────────────────────────────────────
+
+export type ServerStatus = "online" | "offline" | "unknown";
+
+export interface Server {
+  _id: string;
+  name: string;
+  host: string;
+  port: number;
+  username: string;
+  authType: "password" | "key";
+  status: ServerStatus;
+  lastCheckedAt?: string;
+  createdAt?: string;
+}
+
+export interface ServerInput {
+  name: string;
+  host: string;
+  port: number;
+  username: string;
+  authType: "password" | "key";
+  password?: string;
+  privateKey?: string;
+}
+
+export interface ResourceUsage {
+  percent?: string;
+  used?: string;
+  total?: string;
+}
+
+// Agents report either the detailed fields or the flat *Usage numbers
+export interface ServerStats {
+  cpu?: string;
+  loadAvg?: string;
+  memory?: ResourceUsage;
+  disk?: ResourceUsage;
+  uptime?: string;
+  cpuUsage?: number;
+  memoryUsage?: number;
+  diskUsage?: number;
+}
+
+export interface ServerStatsPoint {
+  cpu: number;
+  memory: number;
+  disk?: number;
+  timestamp?: string;
+}
+
+export interface ExecResult {
+  output?: string;
+  stdout?: string;
+  stderr?: string;
+  code?: number;
+}
+
+// ── Projects ─────────────────────────────────────────────────────────────
+
+export interface ProjectServer extends EntityRef {
+  host: string;
+  status: string;
+}
+
+export type ProcessManager = "pm2" | "nohup";
+
+export type ProjectEnvironment =
+  "node" | "static" | "python" | "docker-compose";
+
+export interface Project {
+  _id: string;
+  name: string;
+  repoUrl: string;
+  branch: string;
+  server: ProjectServer;
+  deployPath: string;
+  status: string;
+  autoDeploy: boolean;
+  lastDeployedAt?: string;
+  buildCommand?: string;
+  installCommand?: string;
+  startCommand?: string;
+  stopCommand?: string;
+  processManager?: ProcessManager;
+  repoFolder?: string;
+  outputPath?: string;
+  buildOutputDir?: string;
+  environment?: ProjectEnvironment;
+  envVars?: Record<string, string>;
+}
+
+export interface ProjectInput {
+  name: string;
+  repoUrl: string;
+  branch: string;
+  server: string;
+  deployPath: string;
+  buildCommand: string;
+  installCommand: string;
+  startCommand: string;
+  stopCommand: string;
+  autoDeploy: boolean;
+  processManager: ProcessManager;
+  repoFolder: string;
+  outputPath: string;
+  buildOutputDir: string;
+  environment: ProjectEnvironment;
+  envVars: Record<string, string>;
+}
+
+// ── Deployments ──────────────────────────────────────────────────────────
+
+export type DeploymentStatus =
+  | "pending"
+  | "queued"
+  | "running"
+  | "deploying"
+  | "success"
+  | "failed"
+  | "cancelled"
+  | "stopped"
+  | string;
+
+export interface Deployment {
+  _id: string;
+  project: Project | string;
+  server?: EntityRef;
+  status: DeploymentStatus;
+  version?: number;
+  branch?: string;
+  commitHash?: string;
+  commitMessage?: string;
+  commitAuthor?: string;
+  triggeredBy?: string;
+  scheduledFor?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  // Set on deployments started by a rollback: the deployment restored
+  rollbackOf?: string;
+  rollbackReason?: string;
+}
+
+export interface RollbackRequest {
+  targetDeploymentId: string;
+  reason: string;
+}
+
+export interface RollbackResult {
+  deploymentId?: string;
+}
+
+export type DeploymentLogType = "info" | "error" | "success" | "warning";
+
+// Older deployments stored plain strings; newer ones store objects
+export type RawDeploymentLog =
+  | string
+  | {
+      log?: string;
+      message?: string;
+      text?: string;
+      type?: DeploymentLogType;
+      timestamp?: string;
+    };
+
+export interface DeploymentCommit {
+  hash: string;
+  message: string;
+  author?: string;
+  date?: string;
+}
+
+export type EnvVarChangeKind = "added" | "removed" | "changed";
+
+// Values never leave the server; only which keys moved
+export interface EnvVarChange {
+  key: string;
+  change: EnvVarChangeKind;
+}
+
+export interface DeploymentComparison {
+  base: Deployment;
+  head: Deployment;
+  // Oldest first, excluding the base commit itself
+  commits: DeploymentCommit[];
+  envChanges: EnvVarChange[];
+  diff?: string;
+}
+
+// ── Deploy schedules ─────────────────────────────────────────────────────
+
+// Days are 0 (Sunday) to 6; times are "HH:mm" in the schedule's timezone
+export interface DeploySchedule {
+  _id: string;
+  project: EntityRef | string;
+  days: number[];
+  time: string;
+  timezone: string;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+}
+
+export type DeploySchedulePayload = Pick<
+  DeploySchedule,
+  "days" | "time" | "timezone" | "enabled"
+>;
+
+// A window may wrap past midnight (start "22:00", end "04:00"); it then
+// belongs to the day it starts on
+export interface MaintenanceWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+// What happens to a deploy requested outside every window
+export type MaintenanceMode = "block" | "queue";
+
+export interface MaintenancePolicy {
+  windows: MaintenanceWindow[];
+  mode: MaintenanceMode;
+  timezone: string;
+}
+
+export interface DeployCalendar {
+  schedules: DeploySchedule[];
+  // Pending one-shot deployments with scheduledFor set
+  scheduled: Deployment[];
+  maintenance: { project: EntityRef; policy: MaintenancePolicy }[];
+}
+
+// ── Docker ───────────────────────────────────────────────────────────────
+
+export interface DockerInfo {
+  installed: boolean;
+  version?: string;
+}
+
+export interface DockerContainer {
+  id: string;
+  name: string;
+  image: string;
+  status: string;
+  state: string;
+  ports: string;
+  created: string;
+  size: string;
+  networks: string;
+  command: string;
+  // From the com.docker.compose.* labels, for containers started by Compose
+  composeProject?: string;
+  composeService?: string;
+}
+
+export interface DockerImage {
+  id: string;
+  repository: string;
+  tag: string;
+  size: string;
+  created: string;
+}
+
+export interface ContainerStats {
+  containerId: string;
+  name: string;
+  cpuPercent: string;
+  memUsage: string;
+  memPercent: string;
+  netIO: string;
+  blockIO: string;
+  pids: string;
+}
+
+export interface ContainerLogQuery {
+  tail?: number;
+  // Prefix each line with its RFC 3339 time
+  timestamps?: boolean;
+}
+
+export interface DockerSearchResult {
+  repo_name: string;
+  short_description?: string;
+  star_count?: number;
+  is_official?: boolean;
+}
+
+// A tag as the registry lists it
+export interface ImageTag {
+  name: string;
+  digest: string;
+  // Compressed bytes, for the host's platform when the tag is multi-arch
+  size?: number;
+  updatedAt?: string;
+  architectures?: string[];
+}
+
+export interface PullImageInput {
+  image: string;
+  // A "registry" secret from the vault, resolved on the server
+  credentialId?: string;
+}
+
+export type ContainerAction = "start" | "stop" | "restart" | "remove";
+
+export interface RunContainerInput {
+  image: string;
+  name: string;
+  restartPolicy: string;
+  ports: { hostPort: string; containerPort: string }[];
+  env: { key: string; value: string }[];
+}
+
+// Pulls the image, then replaces the container with one on the new image
+// but otherwise the same run config (name, ports, env, mounts, networks)
+export interface UpdateContainerInput {
+  image: string;
+  credentialId?: string;
+}
+
+export interface ComposeProject {
+  name: string;
+  // As `docker compose ls` reports it, e.g. "running(2), exited(1)"
+  status: string;
+  configFiles: string[];
+  workingDir?: string;
+}
+
+export interface ComposeFile {
+  path: string;
+  content: string;
+}
+
+// `down` on a single service stops and removes just that service's containers
+export type ComposeAction = "up" | "down" | "pull" | "restart";
+
+export interface ComposeActionInput {
+  // Whole stack when omitted
+  service?: string;
+  // Picked by the app so output events can be matched before the request
+  // returns
+  opId: string;
+}
+
+export interface DockerVolume {
+  name: string;
+  driver: string;
+  mountpoint: string;
+  createdAt?: string;
+  labels: Record<string, string>;
+  // Bytes; only known once `docker system df -v` has measured it
+  size?: number;
+  // Names of the containers mounting it, stopped ones included
+  containers: string[];
+}
+
+export interface CreateVolumeInput {
+  name: string;
+  driver?: string;
+  labels?: Record<string, string>;
+}
+
+export interface DockerNetwork {
+  id: string;
+  name: string;
+  driver: string;
+  scope: string;
+  internal: boolean;
+  subnet?: string;
+  gateway?: string;
+  // Names of the attached containers
+  containers: string[];
+}
+
+export interface CreateNetworkInput {
+  name: string;
+  driver?: string;
+  subnet?: string;
+  gateway?: string;
+  internal?: boolean;
+}
+
+export type PruneTarget = "images" | "containers" | "volumes" | "buildCache";
+
+// One row of `docker system df`, sizes in bytes
+export interface DiskUsageEntry {
+  type: PruneTarget;
+  total: number;
+  active: number;
+  size: number;
+  reclaimable: number;
+}
+
+export interface PruneItem {
+  id: string;
+  name: string;
+  size: number;
+}
+
+export interface PrunePreview {
+  target: PruneTarget;
+  items: PruneItem[];
+  reclaimable: number;
+}
+
+// What to delete: exactly the items a preview listed, so anything that
+// became unused after the user looked is left alone
+export interface PruneSelection {
+  target: PruneTarget;
+  ids: string[];
+}
+
+export interface PruneResult {
+  target: PruneTarget;
+  deleted: number;
+  reclaimed: number;
+}
+
+// ── PM2 ──────────────────────────────────────────────────────────────────
+
+export interface PM2Process {
+  pm_id: number;
+  name: string;
+  status: string;
+  cpu: number;
+  memory: number;
+  uptime: number;
+  restarts: number;
+  mode: string;
+  pid: number;
+  interpreter: string;
+  script: string;
+  cwd: string;
+  watching: boolean;
+  instances: number;
+}
+
+export type PM2ProcessAction = "stop" | "restart" | "reload" | "delete";
+
+export type PM2BulkAction =
+  "restart-all" | "stop-all" | "save" | "startup" | "flush";
+
+export interface PM2StartInput {
+  script: string;
+  name?: string;
+  interpreter?: string;
+  instances?: number;
+  cwd?: string;
+  args?: string;
+  maxMemory?: string;
+  watch?: boolean;
+}
+
+export interface PM2Logs {
+  out: string;
+  err: string;
+}
+
+export type PM2MetricsRange = "1h" | "24h" | "7d";
+
+// One point of a process's history, averaged over the range's bucket
+export interface PM2MetricSample {
+  time: string;
+  cpu: number;
+  memory: number;
+  // PM2's restart counter at that time, so restarts are the increases
+  restarts: number;
+  // Only reported by apps running @pm2/io
+  eventLoopLatency?: number;
+}
+
+export type PM2ExecMode = "fork" | "cluster";
+
+// One entry of an ecosystem file's `apps`. Keys the editor doesn't know
+// about are kept as they are; env blocks other than the default one are
+// the `env_<name>` keys
+export interface PM2EcosystemApp {
+  name: string;
+  script: string;
+  cwd?: string;
+  args?: string;
+  interpreter?: string;
+  // "max" or 0 for one per CPU, -1 for one less than that
+  instances?: number | "max";
+  exec_mode?: PM2ExecMode;
+  max_memory_restart?: string;
+  watch?: boolean;
+  env?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface PM2EcosystemFile {
+  path: string;
+  // Names of its apps, when the file could be loaded
+  apps: string[];
+  modified?: string;
+}
+
+export interface PM2Ecosystem {
+  path: string;
+  content: string;
+  // What the server got from loading the file
+  apps: PM2EcosystemApp[];
+}
+
+export interface PM2EcosystemApplyInput {
+  path: string;
+  // Which env_<name> block to start with, the default one when unset
+  env?: string;
+}
+
+// ── FTP ──────────────────────────────────────────────────────────────────
+
+export interface FtpListing {
+  path: string;
+  entries: FileEntry[];
+}
+
+// ── Nginx ────────────────────────────────────────────────────────────────
+
+export interface NginxConfig {
+  name: string;
+  enabled: boolean;
+  size: string;
+  modified: string;
+}
+
+export interface NginxStatus {
+  active: boolean;
+  output: string;
+}
+
+export type NginxLogType = "access" | "error";
+
+// ── VPN ──────────────────────────────────────────────────────────────────
+
+export interface VpnClient {
+  id: string;
+  name: string;
+  enabled: boolean;
+  address: string;
+  publicKey: string;
+  transferRx: number;
+  transferTx: number;
+}
+
+export interface VpnStatus {
+  installed: boolean;
+  status: string;
+  clients: VpnClient[];
+}
+
+export type VpnAction = "start" | "stop" | "restart" | "remove";
+
+// ── Secrets ──────────────────────────────────────────────────────────────
+
+export interface Secret {
+  _id: string;
+  name: string;
+  type: string;
+  description?: string;
+  project?: EntityRef;
+  server?: EntityRef;
+  tags: string[];
+  lastAccessedAt?: string;
+  lastRotatedAt?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface SecretInput {
+  name: string;
+  value: string;
+  type: string;
+  description?: string;
+  tags: string[];
+  project?: string;
+  server?: string;
+}
+
+// ── Cron ─────────────────────────────────────────────────────────────────
+
+export interface Crontab {
+  jobs: string;
+  // IANA zone the server's cron daemon runs in; older agents don't report it
+  timezone?: string;
+}
+
+export type CronJobRunStatus = "running" | "success" | "failed" | "missed";
+
+// One run recorded by the cron-monitor wrapper; missed runs are added by the
+// backend when a scheduled run never reported in
+export interface CronJobRun {
+  _id: string;
+  jobKey: string;
+  status: CronJobRunStatus;
+  // For missed runs, when the run was due
+  startedAt: string;
+  finishedAt?: string;
+  exitCode?: number;
+  // Tail of stdout and stderr; `truncated` when the wrapper dropped the head
+  output?: string;
+  truncated?: boolean;
+}
+
+export interface CronJobRunFilters {
+  job?: string;
+  limit?: number;
+}
+
+// ── Approvals ────────────────────────────────────────────────────────────
+
+export type ApprovalStatus = "pending" | "approved" | "rejected";
+
+export interface Approval {
+  _id: string;
+  title: string;
+  description?: string;
+  type: string;
+  status: ApprovalStatus;
+  requestedBy: { _id: string; username: string; email: string };
+  reviewedBy?: { _id: string; username: string };
+  reviewedAt?: string;
+  reviewComment?: string;
+  project: EntityRef;
+  createdAt: string;
+}
+
+export interface ApprovalInput {
+  title: string;
+  description: string;
+  type: string;
+  projectId: string;
+}
+
+export type ApprovalDecision = "approve" | "reject";
+
+// ── Pipelines ────────────────────────────────────────────────────────────
+
+export type PipelineStepType =
+  | "command"
+  | "test"
+  | "deploy"
+  | "approval"
+  | "notify";
+
+export type PipelineFailurePolicy = "stop" | "continue" | "rollback";
+
+// Outcome of the previous stage a step needs in order to run
+export type PipelineRunWhen = "success" | "failure" | "always";
+
+// Every field narrows; an empty condition always runs. Branch patterns may
+// end in * ("release/*").
+export interface PipelineCondition {
+  branches?: string[];
+  environments?: string[];
+  when?: PipelineRunWhen;
+}
+
+export interface PipelineStep {
+  name: string;
+  type: PipelineStepType;
+  command?: string;
+  onFailure?: PipelineFailurePolicy;
+  timeout?: number;
+  condition?: PipelineCondition;
+}
+
+// Steps in a stage run in parallel; stages run one after another
+export interface PipelineStage {
+  name: string;
+  steps: PipelineStep[];
+}
+
+// With fromSecret set, value is the name of a vault secret resolved at run time
+export interface PipelineVariable {
+  key: string;
+  value: string;
+  fromSecret?: boolean;
+}
+
+export interface Pipeline {
+  _id: string;
+  name: string;
+  description?: string;
+  project: EntityRef & { status?: string };
+  stages?: PipelineStage[];
+  // Pipelines saved before stages existed: one step per stage
+  steps?: PipelineStep[];
+  variables?: PipelineVariable[];
+  isActive: boolean;
+  lastRunAt?: string;
+  lastRunStatus?: string;
+  createdAt: string;
+}
+
+export interface PipelineInput {
+  name: string;
+  description?: string;
+  projectId: string;
+  stages: PipelineStage[];
+  variables: PipelineVariable[];
+}
+
+export interface PipelineRunResult {
+  success: boolean;
+  results?: {
+    step: string;
+    status: string;
+    output?: string;
+    error?: string;
+  }[];
+  // Set by backends that record runs; the run screen follows it live
+  runId?: string;
+}
+
+export type PipelineRunStatus =
+  | "queued"
+  | "running"
+  | "waiting_approval"
+  | "success"
+  | "failed"
+  | "cancelled";
+
+export type PipelineRunTrigger = "manual" | "push" | "schedule" | "webhook";
+
+export type PipelineStepRunStatus =
+  | "pending"
+  | "running"
+  | "waiting_approval"
+  | "success"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+export interface PipelineStepRun {
+  name: string;
+  type: PipelineStepType;
+  status: PipelineStepRunStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  exitCode?: number;
+  error?: string;
+  // Why a skipped step didn't run (its condition didn't match)
+  skipReason?: string;
+  attempts?: number;
+  // Approval steps open an Approval that resolves them
+  approvalId?: string;
+}
+
+export interface PipelineStageRun {
+  name: string;
+  steps: PipelineStepRun[];
+}
+
+export interface PipelineRun {
+  _id: string;
+  pipeline: EntityRef;
+  project?: EntityRef;
+  status: PipelineRunStatus;
+  trigger: PipelineRunTrigger;
+  triggeredBy?: { _id: string; username: string };
+  branch?: string;
+  environment?: string;
+  commitHash?: string;
+  stages: PipelineStageRun[];
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+}
+
+export interface PipelineRunFilters {
+  status?: PipelineRunStatus;
+  trigger?: PipelineRunTrigger;
+  limit?: number;
+}
+
+export interface PipelineStepLog {
+  log: string;
+  type: DeploymentLogType;
+  timestamp: string;
+}
+
+// ── Notifications ────────────────────────────────────────────────────────
+
+export type NotificationType =
+  | "deploy_success"
+  | "deploy_failed"
+  | "deploy_started"
+  | "health_alert"
+  | "cron_failed"
+  | "cron_missed";
+
+export interface Notification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  read: boolean;
+  link?: string;
+  createdAt: string;
+  projectId?: EntityRef;
+}
+
+// ── Analytics ────────────────────────────────────────────────────────────
+
+export interface DoraMetrics {
+  period: number;
+  deployFrequency: number;
+  totalDeploys: number;
+  avgLeadTimeMinutes: number;
+  changeFailureRate: number;
+  failedDeploys: number;
+  mttrMinutes: number;
+  recoveryCount: number;
+}
+
+export interface TrendDay {
+  date: string;
+  day: string;
+  success: number;
+  failed: number;
+  total: number;
+  avgDurationSeconds: number;
+}
+
+export interface ProjectStat {
+  projectId: string;
+  name: string;
+  status: string;
+  total: number;
+  success: number;
+  failed: number;
+  successRate: number;
+  avgDurationSeconds: number;
+  lastDeploy: string;
+}
+
+export interface BandwidthPoint {
+  timestamp: string;
+  rxRate: number;
+  txRate: number;
+}
+
+export interface ServerBandwidth {
+  serverId: string;
+  name: string;
+  host: string;
+  status: string;
+  currentRx: number;
+  currentTx: number;
+  history: BandwidthPoint[];
+}
+
+// ── Auth ─────────────────────────────────────────────────────────────────
+
+// What a stream ticket may be redeemed for
+export type TicketScope = "logs" | "terminal";
+
+// Single-use and short-lived; stands in for the JWT where it would otherwise
+// end up in a URL or a long-lived connection payload
+export interface StreamTicket {
+  ticket: string;
+  expiresAt: string;
+}
@@ -0,0 +1,36 @@
+import { endpoint, http, RequestOptions } from "./http";
+import type { VpnAction, VpnClient, VpnStatus } from "./types";
+
+export const vpnApi = {
+  // 404 means WireGuard isn't installed on the server
+  status: (serverId: string, options?: RequestOptions) =>
+    http.get<VpnStatus>(endpoint`/vpn/${serverId}/status`, undefined, options),
+
+  action: (serverId: string, action: VpnAction) =>
+    http.post<void>(endpoint`/vpn/${serverId}/action`, { action }),
+
+  createClient: (serverId: string, name: string) =>
+    http.post<VpnClient>(endpoint`/vpn/${serverId}/clients`, { name }),
+
+  deleteClient: (serverId: string, clientId: string) =>
+    http.delete<void>(endpoint`/vpn/${serverId}/clients/${clientId}`),
+
+  setClientEnabled: (serverId: string, clientId: string, enabled: boolean) =>
+    http.patch<void>(endpoint`/vpn/${serverId}/clients/${clientId}`, {
+      enabled,
+    }),
+
+  // WireGuard config text, rendered as a QR code
+  clientConfig: async (
+    serverId: string,
+    clientId: string,
+    options?: RequestOptions,
+  ) => {
+    const data = await http.get<{ config: string }>(
+      endpoint`/vpn/${serverId}/clients/${clientId}/qr`,
+      undefined,
+      options,
+    );
+    return data.config;
+  },
+};
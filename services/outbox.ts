@@ -0,0 +1,255 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  ActionResult,
+  ApiError,
+  cronApi,
+  deploymentsApi,
+  pm2Api,
+} from "./client";
+import { invalidateQueries, isOnline, subscribeNetwork } from "./queryCache";
+import { profileKey, subscribeActiveProfile } from "./backends";
+
+// Mutations started while offline are queued here and replayed in order once
+// the connection is back. Each entry keeps its id as an Idempotency-Key so a
+// request that reached the server before the connection dropped is not run
+// twice.
+
+const STORAGE_KEY = "mutationOutbox";
+const WINDOW_KEY = "outboxConfirmWindowMinutes";
+export const DEFAULT_CONFIRM_WINDOW_MINUTES = 15;
+
+export type OutboxAction =
+  | { kind: "deploy"; projectId: string }
+  | { kind: "pm2-restart"; serverId: string; name: string }
+  | { kind: "cron-save"; serverId: string; jobs: string };
+
+export type OutboxStatus =
+  | "pending"
+  | "running"
+  // Sat in the queue past the confirm window; waits for the user
+  | "needs-confirmation"
+  | "failed";
+
+export interface OutboxEntry {
+  id: string;
+  action: OutboxAction;
+  // Shown in the pending actions sheet, e.g. "Deploy api-server"
+  label: string;
+  createdAt: number;
+  status: OutboxStatus;
+  confirmed?: boolean;
+  error?: string;
+}
+
+export type OutboxResult<T> = { queued: true } | { queued: false; data: T };
+
+// Each of these can hurt when replayed hours later without a second look,
+// so they wait for the user to confirm once back online
+const DESTRUCTIVE: Record<OutboxAction["kind"], boolean> = {
+  deploy: true,
+  "pm2-restart": true,
+  "cron-save": true,
+};
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let flushing = false;
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+const createId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const load = () => {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(profileKey(STORAGE_KEY))
+      .then((raw) => {
+        const stored: OutboxEntry[] = raw ? JSON.parse(raw) : [];
+        // Anything left "running" was interrupted by the app closing
+        entries = stored.map((e) =>
+          e.status === "running" ? { ...e, status: "pending" } : e,
+        );
+        listeners.forEach((l) => l(entries));
+      })
+      .catch((e) => console.error("[Outbox] Failed to load", e));
+  }
+  return loaded;
+};
+
+const update = (next: OutboxEntry[]) => {
+  entries = next;
+  AsyncStorage.setItem(profileKey(STORAGE_KEY), JSON.stringify(entries)).catch(
+    (e) => console.error("[Outbox] Failed to persist", e),
+  );
+  listeners.forEach((l) => l(entries));
+};
+
+const patch = (id: string, changes: Partial<OutboxEntry>) =>
+  update(entries.map((e) => (e.id === id ? { ...e, ...changes } : e)));
+
+const execute = (action: OutboxAction, idempotencyKey: string) => {
+  const options = { headers: { "Idempotency-Key": idempotencyKey } };
+  switch (action.kind) {
+    case "deploy":
+      return deploymentsApi.deploy(action.projectId, options);
+    case "pm2-restart":
+      return pm2Api.processAction(
+        action.serverId,
+        action.name,
+        "restart",
+        options,
+      );
+    case "cron-save":
+      return cronApi.save(action.serverId, action.jobs, options);
+  }
+};
+
+const afterSuccess = (action: OutboxAction) => {
+  if (action.kind === "deploy") {
+    invalidateQueries(["projects"]);
+    invalidateQueries(["deployments"]);
+  }
+};
+
+const isConnectivityError = (err: ApiError) =>
+  err.code === "network" || err.code === "timeout";
+
+// PM2 reports failures in the body with a 200
+const failedOutput = (data: unknown) => {
+  const result = data as ActionResult | undefined;
+  return result && result.success === false ? result.output || "" : null;
+};
+
+export const getOutbox = () => entries;
+
+export const subscribeOutbox = (listener: (entries: OutboxEntry[]) => void) => {
+  listeners.add(listener);
+  load();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getConfirmWindow = async () => {
+  const raw = await AsyncStorage.getItem(WINDOW_KEY);
+  const minutes = raw ? parseInt(raw, 10) : NaN;
+  return isNaN(minutes) ? DEFAULT_CONFIRM_WINDOW_MINUTES : minutes;
+};
+
+export const setConfirmWindow = (minutes: number) =>
+  AsyncStorage.setItem(WINDOW_KEY, String(minutes));
+
+// Runs the action now when possible. Queues it instead when offline or when
+// the request never reached the server; any other error is thrown as usual.
+export const runOrQueue = async <T = unknown>(
+  action: OutboxAction,
+  label: string,
+): Promise<OutboxResult<T>> => {
+  await load();
+  const id = createId();
+  const enqueue = (): OutboxResult<T> => {
+    update([
+      ...entries,
+      { id, action, label, createdAt: Date.now(), status: "pending" },
+    ]);
+    return { queued: true };
+  };
+
+  // Later actions must not overtake ones still waiting
+  if (!isOnline()) return enqueue();
+  if (entries.some((e) => e.status !== "failed")) {
+    const result = enqueue();
+    flushOutbox();
+    return result;
+  }
+  try {
+    const data = (await execute(action, id)) as T;
+    return { queued: false, data };
+  } catch (err) {
+    const apiErr = ApiError.from(err);
+    if (isConnectivityError(apiErr)) return enqueue();
+    throw apiErr;
+  }
+};
+
+// Replays the queue front to back. Stops at the first entry that needs the
+// user or can't reach the server, so nothing runs out of order.
+export const flushOutbox = async () => {
+  await load();
+  if (flushing || !isOnline()) return;
+  flushing = true;
+  try {
+    const windowMs = (await getConfirmWindow()) * 60 * 1000;
+    // Re-read the queue each time so entries added or discarded mid-flush
+    // are picked up; failed ones stay put until retried or discarded
+    for (;;) {
+      const entry = entries.find((e) => e.status !== "failed");
+      if (!entry || entry.status === "needs-confirmation") break;
+      if (
+        DESTRUCTIVE[entry.action.kind] &&
+        !entry.confirmed &&
+        Date.now() - entry.createdAt > windowMs
+      ) {
+        patch(entry.id, { status: "needs-confirmation" });
+        break;
+      }
+
+      patch(entry.id, { status: "running", error: undefined });
+      try {
+        const output = failedOutput(await execute(entry.action, entry.id));
+        if (output !== null) {
+          patch(entry.id, { status: "failed", error: output });
+          continue;
+        }
+        update(entries.filter((e) => e.id !== entry.id));
+        afterSuccess(entry.action);
+      } catch (err) {
+        const apiErr = ApiError.from(err);
+        if (isConnectivityError(apiErr)) {
+          patch(entry.id, { status: "pending" });
+          break;
+        }
+        patch(entry.id, {
+          status: "failed",
+          error: apiErr.serverMessage || apiErr.message,
+        });
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+};
+
+export const confirmOutboxEntry = (id: string) => {
+  patch(id, { status: "pending", confirmed: true });
+  return flushOutbox();
+};
+
+export const retryOutboxEntry = (id: string) => {
+  patch(id, { status: "pending", error: undefined });
+  return flushOutbox();
+};
+
+export const discardOutboxEntry = (id: string) =>
+  update(entries.filter((e) => e.id !== id));
+
+export const clearOutbox = async () => {
+  entries = [];
+  listeners.forEach((l) => l(entries));
+  await AsyncStorage.removeItem(profileKey(STORAGE_KEY));
+};
+
+// Queued actions belong to the backend they were made against
+subscribeActiveProfile(() => {
+  entries = [];
+  loaded = null;
+  listeners.forEach((l) => l(entries));
+  load();
+});
+
+// Replays whenever NetworkMonitor reports the connection is back
+export const startOutbox = () => {
+  flushOutbox();
+  return subscribeNetwork((online) => {
+    if (online) flushOutbox();
+  });
+};
@@ -0,0 +1,181 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { profileKey, subscribeActiveProfile } from "./backends";
+
+// Small stale-while-revalidate cache for GET-style requests. Entries are kept
+// in memory and mirrored to AsyncStorage so the last known data can be shown
+// immediately on a cold start or while offline.
+
+// Persisted entries older than this are dropped instead of shown
+const MAX_PERSISTED_AGE = 7 * 24 * 60 * 60 * 1000;
+
+export type QueryKey = readonly (
+  string | number | boolean | null | undefined
+)[];
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  updatedAt: number;
+  // Set by invalidateQueries; the next mount or focus refetches regardless of age
+  invalidated?: boolean;
+}
+
+type Listener = () => void;
+
+const entries = new Map<string, CacheEntry>();
+const hydrated = new Set<string>();
+const inflight = new Map<string, Promise<unknown>>();
+const listeners = new Map<string, Set<Listener>>();
+const networkListeners = new Set<(online: boolean) => void>();
+let online = true;
+// Bumped whenever the cache is emptied; fetches started before that belong
+// to another account or backend and are dropped when they land
+let generation = 0;
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+// Each backend profile keeps its own persisted cache
+const storagePrefix = () => `${profileKey("queryCache")}:`;
+
+const notify = (hash: string) => {
+  listeners.get(hash)?.forEach((l) => l());
+};
+
+const persist = (hash: string, entry: CacheEntry) => {
+  AsyncStorage.setItem(storagePrefix() + hash, JSON.stringify(entry)).catch(
+    (e) => console.error("[QueryCache] Failed to persist", hash, e),
+  );
+};
+
+export const getQueryData = <T>(key: QueryKey): CacheEntry<T> | undefined =>
+  entries.get(hashKey(key)) as CacheEntry<T> | undefined;
+
+// Loads the persisted copy once per key; memory always wins if it is newer
+export const hydrateQuery = async <T>(
+  key: QueryKey,
+): Promise<CacheEntry<T> | undefined> => {
+  const hash = hashKey(key);
+  if (hydrated.has(hash)) return getQueryData<T>(key);
+  hydrated.add(hash);
+  const started = generation;
+  try {
+    const raw = await AsyncStorage.getItem(storagePrefix() + hash);
+    if (raw && started === generation) {
+      const stored: CacheEntry<T> = JSON.parse(raw);
+      const current = entries.get(hash);
+      if (Date.now() - stored.updatedAt > MAX_PERSISTED_AGE) {
+        AsyncStorage.removeItem(storagePrefix() + hash);
+      } else if (!current || current.updatedAt < stored.updatedAt) {
+        entries.set(hash, stored);
+        notify(hash);
+      }
+    }
+  } catch (e) {
+    console.error("[QueryCache] Failed to hydrate", hash, e);
+  }
+  return getQueryData<T>(key);
+};
+
+export const setQueryData = <T>(
+  key: QueryKey,
+  updater: T | ((prev: T | undefined) => T),
+) => {
+  const hash = hashKey(key);
+  const prev = entries.get(hash) as CacheEntry<T> | undefined;
+  const data =
+    typeof updater === "function"
+      ? (updater as (prev: T | undefined) => T)(prev?.data)
+      : updater;
+  const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+  entries.set(hash, entry);
+  hydrated.add(hash);
+  persist(hash, entry);
+  notify(hash);
+};
+
+// Concurrent callers for the same key share one request
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+): Promise<T> => {
+  const hash = hashKey(key);
+  const pending = inflight.get(hash);
+  if (pending) return pending as Promise<T>;
+  const started = generation;
+  const promise = fetcher()
+    .then((data) => {
+      if (started === generation) setQueryData(key, data);
+      return data;
+    })
+    .finally(() => {
+      if (inflight.get(hash) === promise) inflight.delete(hash);
+    });
+  inflight.set(hash, promise);
+  return promise;
+};
+
+export const isFetching = (key: QueryKey) => inflight.has(hashKey(key));
+
+export const subscribeQuery = (key: QueryKey, listener: Listener) => {
+  const hash = hashKey(key);
+  let set = listeners.get(hash);
+  if (!set) {
+    set = new Set();
+    listeners.set(hash, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(hash);
+  };
+};
+
+// Marks every entry whose key starts with `prefix` as stale and tells
+// mounted queries to refetch, e.g. invalidateQueries(["projects"])
+export const invalidateQueries = (prefix: QueryKey) => {
+  const start = hashKey(prefix).slice(0, -1);
+  entries.forEach((entry, hash) => {
+    if (hash.startsWith(start)) {
+      entries.set(hash, { ...entry, invalidated: true });
+      notify(hash);
+    }
+  });
+};
+
+const reset = () => {
+  generation++;
+  entries.clear();
+  hydrated.clear();
+  inflight.clear();
+};
+
+// Called on logout so one account never sees another's cached data
+export const clearQueryCache = async () => {
+  reset();
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(
+      keys.filter((k) => k.startsWith(storagePrefix())),
+    );
+  } catch (e) {
+    console.error("[QueryCache] Failed to clear", e);
+  }
+};
+
+// Switching backends starts from that profile's persisted copy
+subscribeActiveProfile(reset);
+
+// Driven by NetworkMonitor; queries don't hit the network while offline
+export const isOnline = () => online;
+
+export const setOnline = (value: boolean) => {
+  if (online === value) return;
+  online = value;
+  networkListeners.forEach((l) => l(value));
+};
+
+export const subscribeNetwork = (listener: (online: boolean) => void) => {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
+};
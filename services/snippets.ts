@@ -0,0 +1,85 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const STORAGE_KEY = "commandSnippets";
+
+export interface Snippet {
+  id: string;
+  name: string;
+  command: string;
+  // null = available on every server
+  serverId: string | null;
+  createdAt: number;
+}
+
+export interface SnippetPlaceholder {
+  name: string;
+  defaultValue: string;
+}
+
+// Placeholders look like {{branch}} or {{branch:main}}
+const PLACEHOLDER_RE = /\{\{\s*([\w.-]+)\s*(?::([^}]*))?\}\}/g;
+
+export const getSnippets = async (): Promise<Snippet[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("[Snippets] Failed to load", e);
+    return [];
+  }
+};
+
+// Global snippets plus the ones scoped to this server
+export const getSnippetsForServer = async (
+  serverId?: string | null,
+): Promise<Snippet[]> => {
+  const all = await getSnippets();
+  return all.filter((s) => s.serverId === null || s.serverId === serverId);
+};
+
+const persist = (snippets: Snippet[]) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(snippets));
+
+export const saveSnippet = async (
+  snippet: Omit<Snippet, "id" | "createdAt"> & { id?: string },
+): Promise<Snippet> => {
+  const all = await getSnippets();
+  const existing = snippet.id ? all.find((s) => s.id === snippet.id) : null;
+  const saved: Snippet = {
+    id: existing?.id || `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    createdAt: existing?.createdAt || Date.now(),
+    name: snippet.name.trim(),
+    command: snippet.command,
+    serverId: snippet.serverId,
+  };
+  await persist(
+    existing
+      ? all.map((s) => (s.id === saved.id ? saved : s))
+      : [...all, saved],
+  );
+  return saved;
+};
+
+export const deleteSnippet = async (id: string) => {
+  const all = await getSnippets();
+  await persist(all.filter((s) => s.id !== id));
+};
+
+export const parsePlaceholders = (command: string): SnippetPlaceholder[] => {
+  const seen = new Map<string, SnippetPlaceholder>();
+  for (const match of command.matchAll(PLACEHOLDER_RE)) {
+    if (!seen.has(match[1])) {
+      seen.set(match[1], { name: match[1], defaultValue: match[2] ?? "" });
+    }
+  }
+  return [...seen.values()];
+};
+
+export const fillPlaceholders = (
+  command: string,
+  values: Record<string, string>,
+): string =>
+  command.replace(
+    PLACEHOLDER_RE,
+    (_, name: string, def?: string) => values[name] ?? def ?? "",
+  );
@@ -1,59 +1,292 @@
 import { io, Socket } from "socket.io-client";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getAccessToken } from "./authTokens";
+import { getServerUrl } from "./backends";
+import type {
+  CronJobRun,
+  DeploymentLogType,
+  DeploymentStatus,
+  Notification,
+  PipelineRunStatus,
+  PipelineStepRun,
+  ServerStats,
+} from "./client/types";
 
-let socket: Socket | null = null;
+// The one Socket.IO connection the app keeps. Screens don't touch it
+// directly: they subscribe to typed events and join rooms through the helpers
+// below (or the hooks in hooks/useRealtime.ts). Rooms are ref-counted so two
+// screens watching the same project share one join, and every active room is
+// rejoined after a reconnect.
 
-const SOCKET_URL = process.env.EXPO_PUBLIC_API_URL || "http://192.168.1.8:5012";
+// ── Event payloads ───────────────────────────────────────────────────────
 
-export const connectSocket = async (): Promise<Socket> => {
-  if (socket?.connected) return socket;
+export interface DeploymentStatusEvent {
+  projectId?: string;
+  deploymentId?: string;
+  status: DeploymentStatus;
+  timestamp?: string;
+}
 
-  const token = await AsyncStorage.getItem("accessToken");
+export interface DeploymentLogEvent {
+  projectId?: string;
+  deploymentId?: string;
+  log?: string;
+  message?: string;
+  text?: string;
+  type?: DeploymentLogType;
+  timestamp?: string;
+}
 
-  let url = SOCKET_URL;
-  let options: any = {
-    auth: { token },
-    transports: ["websocket", "polling"],
-    reconnection: true,
-    reconnectionAttempts: 10,
-    reconnectionDelay: 1000,
-  };
+// Steps are addressed by position in the run: stage index, step index
+export interface PipelineRunEvent {
+  runId: string;
+  pipelineId?: string;
+  status: PipelineRunStatus;
+  timestamp?: string;
+}
 
-  try {
-    // Parse URL to separate origin and path
-    const urlObj = new URL(SOCKET_URL);
-    url = urlObj.origin;
+export interface PipelineStepEvent extends Partial<PipelineStepRun> {
+  runId: string;
+  stage: number;
+  step: number;
+}
+
+export interface PipelineLogEvent {
+  runId: string;
+  stage: number;
+  step: number;
+  log: string;
+  type?: DeploymentLogType;
+  timestamp?: string;
+}
+
+// Sent to the server's room whenever a monitored cron run starts or ends
+export interface CronRunEvent extends CronJobRun {
+  serverId: string;
+}
+
+// Compose commands started from the app, sent to the server's room
+export interface ComposeOutputEvent {
+  serverId: string;
+  opId: string;
+  data: string;
+  stream?: "stdout" | "stderr";
+}
+
+export interface ComposeDoneEvent {
+  serverId: string;
+  opId: string;
+  exitCode: number;
+}
+
+export interface ServerStatsEvent {
+  serverId: string;
+  stats: ServerStats;
+}
+
+export interface TerminalStartPayload {
+  serverId: string;
+  termId: number;
+  rows: number;
+  cols: number;
+  // Single-use ticket from /auth/ticket scoped to this server
+  ticket: string;
+  // Runs the shell inside this container (docker exec) instead of on the host
+  container?: string;
+}
+
+export interface ServerToClientEvents {
+  "deployment:status": (data: DeploymentStatusEvent) => void;
+  "deployment:log": (data: DeploymentLogEvent) => void;
+  "pipeline:run": (data: PipelineRunEvent) => void;
+  "pipeline:step": (data: PipelineStepEvent) => void;
+  "pipeline:log": (data: PipelineLogEvent) => void;
+  "server:stats": (data: ServerStatsEvent) => void;
+  "cron:run": (data: CronRunEvent) => void;
+  "compose:output": (data: ComposeOutputEvent) => void;
+  "compose:done": (data: ComposeDoneEvent) => void;
+  "notification:new": (data: Notification) => void;
+  "terminal:ready": (data: { termId: number }) => void;
+  // Reattached: the backend replays the output it buffered meanwhile
+  "terminal:attached": (data: { termId: number; scrollback?: string }) => void;
+  "terminal:gone": (data: { termId: number }) => void;
+  "terminal:exit": (data: { termId: number; code?: number }) => void;
+  // Legacy payloads are a bare string without a termId
+  "terminal:output": (data: { termId: number; data: string } | string) => void;
+}
+
+export interface ClientToServerEvents {
+  "join:project": (projectId: string) => void;
+  "leave:project": (projectId: string) => void;
+  "join:deployment": (deploymentId: string) => void;
+  "leave:deployment": (deploymentId: string) => void;
+  "join:server": (serverId: string) => void;
+  "leave:server": (serverId: string) => void;
+  "join:pipelineRun": (runId: string) => void;
+  "leave:pipelineRun": (runId: string) => void;
+  "terminal:start": (payload: TerminalStartPayload) => void;
+  "terminal:attach": (payload: TerminalStartPayload) => void;
+  "terminal:data": (payload: { termId: number; data: string }) => void;
+  "terminal:resize": (payload: {
+    termId: number;
+    rows: number;
+    cols: number;
+  }) => void;
+  "terminal:close": (payload: { termId: number }) => void;
+}
+
+export type RealtimeEvent = keyof ServerToClientEvents;
+export type RoomKind = "project" | "deployment" | "server" | "pipelineRun";
+export type RealtimeSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// ── Connection ───────────────────────────────────────────────────────────
+
+let socket: RealtimeSocket | null = null;
+const rooms = new Map<string, number>();
+const handlers = new Map<RealtimeEvent, Set<(...args: any[]) => void>>();
+const connectionListeners = new Set<(connected: boolean) => void>();
+
+const JOIN = {
+  project: "join:project",
+  deployment: "join:deployment",
+  server: "join:server",
+  pipelineRun: "join:pipelineRun",
+} as const;
+
+const LEAVE = {
+  project: "leave:project",
+  deployment: "leave:deployment",
+  server: "leave:server",
+  pipelineRun: "leave:pipelineRun",
+} as const;
+
+const roomKey = (kind: RoomKind, id: string) => `${kind}:${id}`;
+
+const parseRoomKey = (key: string) => {
+  const i = key.indexOf(":");
+  return { kind: key.slice(0, i) as RoomKind, id: key.slice(i + 1) };
+};
+
+const setConnected = (value: boolean) =>
+  connectionListeners.forEach((l) => l(value));
+
+// Idempotent; the hooks call it so whichever screen needs realtime first
+// opens the connection
+export const connectSocket = (): RealtimeSocket => {
+  if (socket) return socket;
 
-    if (urlObj.pathname && urlObj.pathname !== "/") {
-      options.path = `${urlObj.pathname.replace(/\/$/, "")}/socket.io`;
+  // Handle subpath deployments (e.g. example.com/backend)
+  const serverUrl = getServerUrl();
+  let url = serverUrl;
+  let path = "/socket.io";
+  try {
+    const parsed = new URL(serverUrl);
+    url = parsed.origin;
+    if (parsed.pathname && parsed.pathname !== "/") {
+      path = `${parsed.pathname.replace(/\/$/, "")}/socket.io`;
     }
   } catch (e) {
-    console.error("[Socket] Invalid URL:", SOCKET_URL, e);
+    console.error("[Socket] Invalid URL:", serverUrl, e);
   }
 
-  console.log("[Socket] Connecting to:", url, "with options:", options);
-  socket = io(url, options);
+  socket = io(url, {
+    path,
+    // Read on every (re)connect so a rotated token is picked up
+    auth: (cb) => {
+      getAccessToken().then((token) => cb({ token }));
+    },
+    transports: ["websocket", "polling"],
+    reconnection: true,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000,
+  });
 
   socket.on("connect", () => {
     console.log("[Socket] Connected:", socket?.id);
+    rooms.forEach((_, key) => {
+      const { kind, id } = parseRoomKey(key);
+      socket?.emit(JOIN[kind], id);
+    });
+    setConnected(true);
   });
 
-  socket.on("disconnect", () => {
-    console.log("[Socket] Disconnected");
+  socket.on("disconnect", (reason) => {
+    console.log("[Socket] Disconnected:", reason);
+    setConnected(false);
   });
 
   socket.on("connect_error", (err) => {
     console.error("[Socket] Connection error:", err.message);
   });
 
+  socket.onAny((event: RealtimeEvent, ...args: any[]) => {
+    handlers.get(event)?.forEach((h) => h(...args));
+  });
+
   return socket;
 };
 
-export const getSocket = (): Socket | null => socket;
+export const getSocket = (): RealtimeSocket | null => socket;
+
+export const isSocketConnected = () => !!socket?.connected;
 
+// Called on logout; listeners and rooms belong to mounted screens and stay
 export const disconnectSocket = (): void => {
   if (socket) {
     socket.disconnect();
     socket = null;
   }
+  setConnected(false);
+};
+
+// ── Subscriptions ────────────────────────────────────────────────────────
+
+export const onSocketEvent = <E extends RealtimeEvent>(
+  event: E,
+  handler: ServerToClientEvents[E],
+) => {
+  let set = handlers.get(event);
+  if (!set) {
+    set = new Set();
+    handlers.set(event, set);
+  }
+  set.add(handler);
+  return () => {
+    set!.delete(handler);
+  };
+};
+
+export const emitSocket = <E extends keyof ClientToServerEvents>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+) => {
+  if (!socket?.connected) return false;
+  socket.emit(event, ...args);
+  return true;
+};
+
+export const onConnectionChange = (listener: (connected: boolean) => void) => {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+};
+
+export const joinRoom = (kind: RoomKind, id: string) => {
+  const key = roomKey(kind, id);
+  const count = rooms.get(key) || 0;
+  rooms.set(key, count + 1);
+  if (count === 0 && socket?.connected) socket.emit(JOIN[kind], id);
+
+  let left = false;
+  return () => {
+    if (left) return;
+    left = true;
+    const remaining = (rooms.get(key) || 1) - 1;
+    if (remaining > 0) {
+      rooms.set(key, remaining);
+      return;
+    }
+    rooms.delete(key);
+    if (socket?.connected) socket.emit(LEAVE[kind], id);
+  };
 };
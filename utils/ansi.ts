@@ -0,0 +1,225 @@
+// Shared ANSI/SGR helpers used by the terminal emulator and log viewers
+
+// A color is either the terminal default (null), an index into the
+// 256-color palette, or a truecolor hex string
+export type TermColor = number | string | null;
+
+export interface CellStyle {
+  fg: TermColor;
+  bg: TermColor;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  inverse: boolean;
+  strike: boolean;
+}
+
+export const DEFAULT_STYLE: CellStyle = Object.freeze({
+  fg: null,
+  bg: null,
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  inverse: false,
+  strike: false,
+});
+
+export const DEFAULT_FG = "#d4d4d4";
+export const DEFAULT_BG = "#1e1e1e";
+
+// VS Code dark terminal palette for the 16 base colors
+const BASE_COLORS = [
+  "#000000",
+  "#cd3131",
+  "#0dbc79",
+  "#e5e510",
+  "#2472c8",
+  "#bc3fbc",
+  "#11a8cd",
+  "#e5e5e5",
+  "#666666",
+  "#f14c4c",
+  "#23d18b",
+  "#f5f543",
+  "#3b8eea",
+  "#d670d6",
+  "#29b8db",
+  "#ffffff",
+];
+
+const hex = (n: number) => n.toString(16).padStart(2, "0");
+
+const buildPalette = (): string[] => {
+  const palette = [...BASE_COLORS];
+  // 6x6x6 color cube
+  const levels = [0, 95, 135, 175, 215, 255];
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 6; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette.push(`#${hex(levels[r])}${hex(levels[g])}${hex(levels[b])}`);
+      }
+    }
+  }
+  // Grayscale ramp
+  for (let i = 0; i < 24; i++) {
+    const v = 8 + i * 10;
+    palette.push(`#${hex(v)}${hex(v)}${hex(v)}`);
+  }
+  return palette;
+};
+
+export const PALETTE_256 = buildPalette();
+
+export const resolveColor = (color: TermColor, fallback: string): string => {
+  if (color === null) return fallback;
+  if (typeof color === "string") return color;
+  return PALETTE_256[color] || fallback;
+};
+
+// Reads an extended color (38/48 ;5;n or ;2;r;g;b) starting at params[i].
+// Returns the color and how many extra params were consumed.
+const readExtendedColor = (
+  params: number[],
+  i: number,
+): [TermColor | undefined, number] => {
+  const mode = params[i + 1];
+  if (mode === 5 && params.length > i + 2) {
+    return [Math.max(0, Math.min(255, params[i + 2])), 2];
+  }
+  if (mode === 2 && params.length > i + 4) {
+    const [r, g, b] = [params[i + 2], params[i + 3], params[i + 4]].map((v) =>
+      Math.max(0, Math.min(255, v || 0)),
+    );
+    return [`#${hex(r)}${hex(g)}${hex(b)}`, 4];
+  }
+  return [undefined, 1];
+};
+
+// Applies an SGR parameter list to a style and returns the new style.
+// The input is never mutated, so styles can be shared between cells.
+export const applySgr = (style: CellStyle, params: number[]): CellStyle => {
+  if (params.length === 0) return DEFAULT_STYLE;
+  let next: CellStyle = { ...style };
+
+  for (let i = 0; i < params.length; i++) {
+    const p = params[i];
+    if (p === 0) next = { ...DEFAULT_STYLE };
+    else if (p === 1) next.bold = true;
+    else if (p === 2) next.dim = true;
+    else if (p === 3) next.italic = true;
+    else if (p === 4) next.underline = true;
+    else if (p === 7) next.inverse = true;
+    else if (p === 9) next.strike = true;
+    else if (p === 21 || p === 22) {
+      next.bold = false;
+      next.dim = false;
+    } else if (p === 23) next.italic = false;
+    else if (p === 24) next.underline = false;
+    else if (p === 27) next.inverse = false;
+    else if (p === 29) next.strike = false;
+    else if (p >= 30 && p <= 37) next.fg = p - 30;
+    else if (p === 38) {
+      const [color, used] = readExtendedColor(params, i);
+      if (color !== undefined) next.fg = color;
+      i += used;
+    } else if (p === 39) next.fg = null;
+    else if (p >= 40 && p <= 47) next.bg = p - 40;
+    else if (p === 48) {
+      const [color, used] = readExtendedColor(params, i);
+      if (color !== undefined) next.bg = color;
+      i += used;
+    } else if (p === 49) next.bg = null;
+    else if (p >= 90 && p <= 97) next.fg = p - 90 + 8;
+    else if (p >= 100 && p <= 107) next.bg = p - 100 + 8;
+  }
+
+  return next;
+};
+
+// Converts a cell style into React Native text style props
+export const styleToTextStyle = (style: CellStyle) => {
+  // Bold text in the low 8 colors is shown in the bright variant, like xterm
+  const fgColor =
+    style.bold && typeof style.fg === "number" && style.fg < 8
+      ? style.fg + 8
+      : style.fg;
+  let color = resolveColor(fgColor, DEFAULT_FG);
+  let backgroundColor: string | undefined =
+    style.bg === null ? undefined : resolveColor(style.bg, DEFAULT_BG);
+
+  if (style.inverse) {
+    const bg = backgroundColor || DEFAULT_BG;
+    backgroundColor = color;
+    color = bg;
+  }
+
+  const decorations = [
+    style.underline ? "underline" : "",
+    style.strike ? "line-through" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    color,
+    backgroundColor,
+    fontWeight: style.bold ? ("bold" as const) : undefined,
+    fontStyle: style.italic ? ("italic" as const) : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+    textDecorationLine: (decorations || undefined) as
+      "underline" | "line-through" | "underline line-through" | undefined,
+  };
+};
+
+// ── Parsing text with escape sequences ───────────────────────────────────
+
+export interface AnsiSpan {
+  text: string;
+  style: CellStyle;
+}
+
+const ESC = "\x1b";
+// CSI (ESC [ params final), OSC (ESC ] ... BEL or ST) and two-byte escapes
+const ESCAPE_PATTERN = new RegExp(
+  `${ESC}\\[([0-9;?]*)([@-~])|${ESC}\\][^\\x07${ESC}]*(?:\\x07|${ESC}\\\\)|${ESC}[@-Z\\\\-_]`,
+  "g",
+);
+
+export const stripAnsi = (input: string) => input.replace(ESCAPE_PATTERN, "");
+
+// Splits one line into styled spans. Only SGR sequences affect the result;
+// cursor movement and the like are dropped since a log line can't honor them.
+// Returns the style in effect at the end so it can carry into the next line.
+export const parseAnsi = (
+  input: string,
+  initial: CellStyle = DEFAULT_STYLE,
+): { spans: AnsiSpan[]; style: CellStyle } => {
+  const spans: AnsiSpan[] = [];
+  let style = initial;
+  let last = 0;
+
+  const push = (text: string) => {
+    if (!text) return;
+    const prev = spans[spans.length - 1];
+    if (prev && prev.style === style) prev.text += text;
+    else spans.push({ text, style });
+  };
+
+  ESCAPE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ESCAPE_PATTERN.exec(input))) {
+    push(input.slice(last, match.index));
+    last = match.index + match[0].length;
+    if (match[2] === "m") {
+      const params = match[1]
+        ? match[1].split(";").map((p) => parseInt(p, 10) || 0)
+        : [];
+      style = applySgr(style, params);
+    }
+  }
+  push(input.slice(last));
+
+  return { spans, style };
+};
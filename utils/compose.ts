@@ -0,0 +1,190 @@
+import { parse } from "yaml";
+import type { ComposeProject, DockerContainer } from "../services/client/types";
+
+// ── Stacks ──
+
+export interface ComposeStack {
+  project: ComposeProject;
+  containers: DockerContainer[];
+  running: number;
+}
+
+export type StackState = "running" | "partial" | "stopped";
+
+// Stacks `docker compose ls` knows about, plus any a container still points
+// at (its files were moved or deleted since it was started)
+export const groupStacks = (
+  projects: ComposeProject[],
+  containers: DockerContainer[],
+): ComposeStack[] => {
+  const byName = new Map<string, ComposeStack>();
+  projects.forEach((project) =>
+    byName.set(project.name, { project, containers: [], running: 0 }),
+  );
+  containers.forEach((container) => {
+    const name = container.composeProject;
+    if (!name) return;
+    let stack = byName.get(name);
+    if (!stack) {
+      stack = {
+        project: { name, status: "", configFiles: [] },
+        containers: [],
+        running: 0,
+      };
+      byName.set(name, stack);
+    }
+    stack.containers.push(container);
+    if (container.state === "running") stack.running++;
+  });
+  return [...byName.values()].sort((a, b) =>
+    a.project.name.localeCompare(b.project.name),
+  );
+};
+
+export const stackState = (stack: ComposeStack): StackState => {
+  if (stack.running === 0) return "stopped";
+  return stack.running === stack.containers.length ? "running" : "partial";
+};
+
+// Service name to its containers (more than one when scaled)
+export const serviceContainers = (containers: DockerContainer[]) => {
+  const byService = new Map<string, DockerContainer[]>();
+  containers.forEach((container) => {
+    const service = container.composeService || container.name;
+    byService.set(service, [...(byService.get(service) || []), container]);
+  });
+  return byService;
+};
+
+// ── Validation ──
+
+// Catches what `docker compose config` rejects most often while the file is
+// being typed; the server's check covers the rest
+
+export interface ComposeValidation {
+  services: string[];
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// [ip:][host[-range]:]container[-range][/protocol]
+const PORT =
+  /^(?:(?:\[[0-9a-fA-F:]+\]|[\d.]+):)?(?:\d+(?:-\d+)?:)?\d+(?:-\d+)?(?:\/(?:tcp|udp|sctp))?$/;
+
+// Values using ${VAR} are only known after interpolation on the server
+const interpolated = (value: unknown) =>
+  typeof value === "string" && value.includes("$");
+
+const namesOf = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string")
+    : isRecord(value)
+      ? Object.keys(value)
+      : [];
+
+const checkService = (
+  name: string,
+  service: unknown,
+  doc: Record<string, unknown>,
+  services: string[],
+  errors: string[],
+) => {
+  const path = `services.${name}`;
+  if (!isRecord(service)) {
+    errors.push(`${path}: expected a mapping`);
+    return;
+  }
+  // An extended service can supply the image, possibly from another file
+  if (!service.image && !service.build && !service.extends) {
+    errors.push(`${path}: needs an image or a build`);
+  }
+
+  namesOf(service.depends_on).forEach((dep) => {
+    if (dep === name) errors.push(`${path}.depends_on: depends on itself`);
+    else if (!services.includes(dep)) {
+      errors.push(`${path}.depends_on: no service named "${dep}"`);
+    }
+  });
+
+  if (service.ports !== undefined) {
+    if (!Array.isArray(service.ports)) {
+      errors.push(`${path}.ports: expected a list`);
+    } else {
+      service.ports.forEach((port, i) => {
+        if (isRecord(port) || interpolated(port)) return;
+        if (!PORT.test(String(port))) {
+          errors.push(`${path}.ports[${i}]: invalid port "${port}"`);
+        }
+      });
+    }
+  }
+
+  if (service.volumes !== undefined) {
+    if (!Array.isArray(service.volumes)) {
+      errors.push(`${path}.volumes: expected a list`);
+    } else {
+      const declared = namesOf(doc.volumes);
+      service.volumes.forEach((volume, i) => {
+        if (typeof volume !== "string" || interpolated(volume)) return;
+        const [source, target] = volume.split(":");
+        // Paths are bind mounts; bare names must be declared at the top level
+        if (target === undefined || /^[./~]/.test(source)) return;
+        if (!declared.includes(source)) {
+          errors.push(
+            `${path}.volumes[${i}]: volume "${source}" is not declared under volumes`,
+          );
+        }
+      });
+    }
+  }
+
+  const networks = namesOf(doc.networks);
+  namesOf(service.networks).forEach((network) => {
+    if (network !== "default" && !networks.includes(network)) {
+      errors.push(
+        `${path}.networks: network "${network}" is not declared under networks`,
+      );
+    }
+  });
+
+  if (Array.isArray(service.environment)) {
+    service.environment.forEach((entry, i) => {
+      if (typeof entry !== "string" || !/^[^=\s]+(=|$)/.test(entry)) {
+        errors.push(`${path}.environment[${i}]: expected KEY=value`);
+      }
+    });
+  } else if (
+    service.environment !== undefined &&
+    !isRecord(service.environment)
+  ) {
+    errors.push(`${path}.environment: expected a list or a mapping`);
+  }
+};
+
+export const validateCompose = (text: string): ComposeValidation => {
+  let doc: unknown;
+  try {
+    // Compose files commonly share settings through `<<: *anchor`
+    doc = parse(text, { merge: true });
+  } catch (err: any) {
+    return { services: [], errors: [err?.message || String(err)] };
+  }
+  if (!isRecord(doc)) {
+    return { services: [], errors: ["Expected a mapping at the top level"] };
+  }
+  if (!isRecord(doc.services) || Object.keys(doc.services).length === 0) {
+    return {
+      services: [],
+      errors: ["services: at least one service is required"],
+    };
+  }
+
+  const services = Object.keys(doc.services);
+  const errors: string[] = [];
+  for (const [name, service] of Object.entries(doc.services)) {
+    checkService(name, service, doc, services, errors);
+  }
+  return { services, errors };
+};
@@ -0,0 +1,545 @@
+import type { useTranslation } from "react-i18next";
+import type { CronJobRunStatus } from "../services/client/types";
+import {
+  instantFor,
+  resolveTimezone,
+  WallClock,
+  wallClockIn,
+} from "./timezone";
+
+type TFunction = ReturnType<typeof useTranslation>["t"];
+
+// Parsing and evaluating crontab schedules the way Vixie cron does: five
+// fields or an @macro, and when both day fields are restricted a job runs
+// on days matching either of them.
+
+export type CronFieldKey =
+  "minute" | "hour" | "dayOfMonth" | "month" | "dayOfWeek";
+
+interface FieldSpec {
+  key: CronFieldKey;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+export const CRON_FIELDS: FieldSpec[] = [
+  { key: "minute", min: 0, max: 59 },
+  { key: "hour", min: 0, max: 23 },
+  { key: "dayOfMonth", min: 1, max: 31 },
+  // Names are matched from index 0, so months are offset by one below
+  { key: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as another Sunday
+  { key: "dayOfWeek", min: 0, max: 7, names: DAY_NAMES },
+];
+
+export const CRON_MACROS: Record<string, string | null> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+  // Runs once when the cron daemon starts
+  "@reboot": null,
+};
+
+export interface CronError {
+  field: CronFieldKey | "expression";
+  message: string;
+}
+
+export interface CronSchedule {
+  reboot: boolean;
+  minute: number[];
+  hour: number[];
+  dayOfMonth: number[];
+  month: number[];
+  dayOfWeek: number[];
+  // The field starts with *; it then only narrows the other day field
+  dayOfMonthAny: boolean;
+  dayOfWeekAny: boolean;
+  // Kept for describing: "*/15" reads better than the 4 values it expands to
+  steps: Partial<Record<CronFieldKey, number>>;
+}
+
+export interface CronParseResult {
+  schedule: CronSchedule | null;
+  errors: CronError[];
+}
+
+const range = (from: number, to: number, step = 1) => {
+  const out: number[] = [];
+  for (let i = from; i <= to; i += step) out.push(i);
+  return out;
+};
+
+const parseValue = (text: string, spec: FieldSpec) => {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (index < 0) return null;
+  return spec.key === "month" ? index + 1 : index;
+};
+
+export const parseCronField = (
+  text: string,
+  spec: FieldSpec,
+): { values: number[]; step?: number; error?: string } => {
+  if (!text) return { values: [], error: "is empty" };
+  const values = new Set<number>();
+  let wholeStep: number | undefined;
+
+  for (const part of text.split(",")) {
+    const [base, stepText, extra] = part.split("/");
+    if (extra !== undefined || !base) {
+      return { values: [], error: `"${part}" is not a valid value` };
+    }
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        return { values: [], error: `step "${stepText}" must be 1 or more` };
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let from: number;
+    let to: number;
+    if (base === "*") {
+      from = spec.min;
+      to = spec.key === "dayOfWeek" ? 6 : spec.max;
+      if (text === part) wholeStep = step;
+    } else {
+      const [startText, endText, more] = base.split("-");
+      if (more !== undefined) {
+        return { values: [], error: `"${base}" is not a valid range` };
+      }
+      const start = parseValue(startText, spec);
+      const end = endText === undefined ? null : parseValue(endText, spec);
+      if (start === null || (endText !== undefined && end === null)) {
+        return { values: [], error: `"${base}" is not a valid value` };
+      }
+      from = start;
+      // "5/10" means from 5 to the end in steps of 10
+      to = end ?? (stepText !== undefined ? spec.max : start);
+      for (const v of [from, to]) {
+        if (v < spec.min || v > spec.max) {
+          return {
+            values: [],
+            error: `${v} is out of range ${spec.min}-${spec.max}`,
+          };
+        }
+      }
+      if (from > to) {
+        return { values: [], error: `range "${base}" runs backwards` };
+      }
+    }
+    for (const v of range(from, to, step)) {
+      values.add(spec.key === "dayOfWeek" && v === 7 ? 0 : v);
+    }
+  }
+
+  return {
+    values: [...values].sort((a, b) => a - b),
+    step: wholeStep,
+  };
+};
+
+export const parseCron = (expression: string): CronParseResult => {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith("@")) {
+    const macro = trimmed.toLowerCase();
+    if (!(macro in CRON_MACROS)) {
+      return {
+        schedule: null,
+        errors: [{ field: "expression", message: `unknown macro ${trimmed}` }],
+      };
+    }
+    const expanded = CRON_MACROS[macro];
+    if (expanded === null) {
+      return {
+        schedule: {
+          reboot: true,
+          minute: [],
+          hour: [],
+          dayOfMonth: [],
+          month: [],
+          dayOfWeek: [],
+          dayOfMonthAny: true,
+          dayOfWeekAny: true,
+          steps: {},
+        },
+        errors: [],
+      };
+    }
+    return parseCron(expanded);
+  }
+
+  const parts = trimmed.split(/\s+/).filter(Boolean);
+  if (parts.length !== 5) {
+    return {
+      schedule: null,
+      errors: [
+        {
+          field: "expression",
+          message: `expected 5 fields or a macro, got ${parts.length}`,
+        },
+      ],
+    };
+  }
+
+  const errors: CronError[] = [];
+  const schedule: CronSchedule = {
+    reboot: false,
+    minute: [],
+    hour: [],
+    dayOfMonth: [],
+    month: [],
+    dayOfWeek: [],
+    dayOfMonthAny: false,
+    dayOfWeekAny: false,
+    steps: {},
+  };
+  CRON_FIELDS.forEach((spec, i) => {
+    const result = parseCronField(parts[i], spec);
+    if (result.error) {
+      errors.push({ field: spec.key, message: result.error });
+      return;
+    }
+    schedule[spec.key] = result.values;
+    if (result.step !== undefined) schedule.steps[spec.key] = result.step;
+  });
+  if (errors.length) return { schedule: null, errors };
+
+  // Like vixie cron, any field starting with * counts, */2 included: the two
+  // day fields only combine with OR when neither is one
+  schedule.dayOfMonthAny = parts[2].startsWith("*");
+  schedule.dayOfWeekAny = parts[4].startsWith("*");
+  return { schedule, errors };
+};
+
+// Splits a crontab job line into its schedule and command; null when the
+// line doesn't start like one
+export const splitCronLine = (line: string) => {
+  const trimmed = line.trim();
+  if (trimmed.startsWith("@")) {
+    const match = trimmed.match(/^(@\S+)\s+(.+)$/);
+    return match ? { expression: match[1], command: match[2] } : null;
+  }
+  const match = trimmed.match(/^((?:\S+\s+){4}\S+)\s+(.+)$/);
+  if (!match || !/^[\d*]/.test(trimmed)) return null;
+  return { expression: match[1], command: match[2] };
+};
+
+// ── Next runs ──
+
+export interface CronRun {
+  // The actual instant
+  at: Date;
+  // Same wall-clock time in the device's zone, for formatting only
+  wall: Date;
+}
+
+const dayMatches = (schedule: CronSchedule, date: Date) => {
+  if (!schedule.month.includes(date.getUTCMonth() + 1)) return false;
+  const dom = schedule.dayOfMonth.includes(date.getUTCDate());
+  const dow = schedule.dayOfWeek.includes(date.getUTCDay());
+  if (schedule.dayOfMonthAny || schedule.dayOfWeekAny) return dom && dow;
+  return dom || dow;
+};
+
+// Leap-day jobs can be four years apart
+const MAX_DAYS = 366 * 4 + 1;
+
+export const nextCronRuns = (
+  schedule: CronSchedule,
+  count: number,
+  timezone?: string,
+  from = new Date(),
+): CronRun[] => {
+  if (schedule.reboot) return [];
+  const zone = resolveTimezone(timezone);
+  const start = wallClockIn(from, zone);
+  const runs: CronRun[] = [];
+  // Walk wall-clock days in UTC so the day math has no DST of its own
+  const day = new Date(Date.UTC(start.year, start.month - 1, start.day));
+
+  for (let i = 0; i < MAX_DAYS && runs.length < count; i++) {
+    if (dayMatches(schedule, day)) {
+      for (const hour of schedule.hour) {
+        for (const minute of schedule.minute) {
+          if (i === 0 && hour * 60 + minute <= start.hour * 60 + start.minute) {
+            continue;
+          }
+          const wall: WallClock = {
+            year: day.getUTCFullYear(),
+            month: day.getUTCMonth() + 1,
+            day: day.getUTCDate(),
+            hour,
+            minute,
+          };
+          const at = instantFor(wall, zone);
+          runs.push({
+            at,
+            wall: new Date(wall.year, wall.month - 1, wall.day, hour, minute),
+          });
+          if (runs.length === count) return runs;
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return runs;
+};
+
+// ── Describing ──
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// [1,2,3,5] -> [[1,3],[5,5]]
+const runsOf = (values: number[]) => {
+  const out: [number, number][] = [];
+  for (const v of values) {
+    const last = out[out.length - 1];
+    if (last && last[1] === v - 1) last[1] = v;
+    else out.push([v, v]);
+  }
+  return out;
+};
+
+const listOf = (values: number[], label: (v: number) => string) =>
+  runsOf(values)
+    .map(([a, b]) =>
+      a === b
+        ? label(a)
+        : b === a + 1
+          ? `${label(a)}, ${label(b)}`
+          : `${label(a)}–${label(b)}`,
+    )
+    .join(", ");
+
+const describeTime = (s: CronSchedule, t: TFunction) => {
+  const everyHour = s.steps.hour === 1;
+  if (s.steps.minute === 1 && everyHour) return t("cron.describe.everyMinute");
+  if (s.steps.minute && everyHour) {
+    return t("cron.describe.everyNMinutes", { count: s.steps.minute });
+  }
+  if (s.steps.minute && s.steps.minute > 1) {
+    return t("cron.describe.everyNMinutesDuring", {
+      count: s.steps.minute,
+      hours: listOf(s.hour, (h) => `${pad(h)}:00`),
+    });
+  }
+  if (s.steps.minute === 1) {
+    return t("cron.describe.everyMinuteDuring", {
+      hours: listOf(s.hour, (h) => `${pad(h)}:00`),
+    });
+  }
+  if (everyHour) {
+    return t("cron.describe.hourlyAt", {
+      minutes: s.minute.map((m) => `:${pad(m)}`).join(", "),
+    });
+  }
+  if (s.hour.length * s.minute.length <= 4) {
+    const times = s.hour.flatMap((h) =>
+      s.minute.map((m) => `${pad(h)}:${pad(m)}`),
+    );
+    return t("cron.describe.at", { times: times.join(", ") });
+  }
+  if (s.steps.hour) {
+    return t("cron.describe.everyNHoursAt", {
+      count: s.steps.hour,
+      minutes: s.minute.map((m) => `:${pad(m)}`).join(", "),
+    });
+  }
+  return t("cron.describe.minutesOfHours", {
+    minutes: listOf(s.minute, pad),
+    hours: listOf(s.hour, pad),
+  });
+};
+
+const describeDays = (s: CronSchedule, t: TFunction) => {
+  const weekdays = listOf(s.dayOfWeek, (d) => t(`schedule.day_${d}`));
+  const monthDays = listOf(s.dayOfMonth, String);
+  if (!s.dayOfMonthAny && !s.dayOfWeekAny) {
+    return t("cron.describe.onMonthDaysOrWeekdays", {
+      days: monthDays,
+      weekdays,
+    });
+  }
+  // Otherwise both apply: "0 0 */2 * 1" is odd days that are Mondays
+  const parts: string[] = [];
+  if (s.steps.dayOfMonth !== 1) {
+    parts.push(
+      s.steps.dayOfMonth
+        ? t("cron.describe.everyNDays", { count: s.steps.dayOfMonth })
+        : t("cron.describe.onMonthDays", { days: monthDays }),
+    );
+  }
+  if (s.steps.dayOfWeek !== 1) {
+    parts.push(t("cron.describe.onWeekdays", { days: weekdays }));
+  }
+  return parts.length ? parts.join(", ") : null;
+};
+
+export const describeCron = (schedule: CronSchedule, t: TFunction) => {
+  if (schedule.reboot) return t("cron.describe.atReboot");
+  const parts = [describeTime(schedule, t), describeDays(schedule, t)];
+  if (schedule.steps.month !== 1) {
+    parts.push(
+      t("cron.describe.inMonths", {
+        months: listOf(schedule.month, (m) => t(`cron.month_${m}`)),
+      }),
+    );
+  }
+  return parts.filter(Boolean).join(", ");
+};
+
+// ── Crontab files ──
+
+export interface CronJob {
+  id: string;
+  expression: string;
+  // The job's own command; the monitor wrapper is added when serializing
+  command: string;
+  monitor?: CronMonitor;
+}
+
+// Everything in the file, in order; only jobs are edited, the rest is
+// written back exactly as it was read
+export type CrontabEntry =
+  | { kind: "job"; job: CronJob }
+  | { kind: "text"; text: string }
+  | { kind: "invalid"; text: string; line: number; errors: CronError[] };
+
+const ENV_LINE = /^[A-Za-z_][A-Za-z0-9_]*\s*=/;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const parseCrontab = (content: string): CrontabEntry[] =>
+  content
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((text, i): CrontabEntry => {
+      const trimmed = text.trim();
+      if (!trimmed || trimmed.startsWith("#") || ENV_LINE.test(trimmed)) {
+        return { kind: "text", text };
+      }
+      const split = splitCronLine(trimmed);
+      if (!split) {
+        return {
+          kind: "invalid",
+          text,
+          line: i + 1,
+          errors: [{ field: "expression", message: "not a cron job line" }],
+        };
+      }
+      const { errors } = parseCron(split.expression);
+      if (errors.length) return { kind: "invalid", text, line: i + 1, errors };
+      return {
+        kind: "job",
+        job: {
+          id: generateId(),
+          expression: split.expression,
+          ...unwrapCommand(split.command),
+        },
+      };
+    });
+
+export const crontabJobs = (entries: CrontabEntry[]) =>
+  entries.flatMap((e) => (e.kind === "job" ? [e.job] : []));
+
+// Edited jobs stay where they were, new ones go at the end
+export const serializeCrontab = (entries: CrontabEntry[], jobs: CronJob[]) => {
+  const byId = new Map(jobs.map((j) => [j.id, j]));
+  const lines: string[] = [];
+  for (const entry of entries) {
+    if (entry.kind !== "job") {
+      lines.push(entry.text);
+      continue;
+    }
+    const job = byId.get(entry.job.id);
+    if (!job) continue;
+    lines.push(`${job.expression} ${wrapCommand(job)}`);
+    byId.delete(job.id);
+  }
+  byId.forEach((job) => lines.push(`${job.expression} ${wrapCommand(job)}`));
+  return lines.join("\n").replace(/\n+$/, "") + "\n";
+};
+
+export const newCronJob = (expression = "0 0 * * *"): CronJob => ({
+  id: generateId(),
+  expression,
+  command: "",
+});
+
+// ── Run monitoring ──
+
+// Jobs opt in to run history by running through the wrapper the agent
+// installs: `<wrapper> --id <key> [--no-alert] -- <command>`. It records the
+// start and end, exit code and the tail of the output of every run.
+export interface CronMonitor {
+  wrapper: string;
+  // Stable across edits so the history follows the job
+  key: string;
+  // Failed and missed runs raise a notification
+  alert: boolean;
+}
+
+const MONITORED_COMMAND =
+  /^(\S*cron-monitor)\s+--id\s+(\S+)(\s+--no-alert)?\s+--\s+([\s\S]+)$/;
+
+export const unwrapCommand = (
+  command: string,
+): Pick<CronJob, "command" | "monitor"> => {
+  const match = command.match(MONITORED_COMMAND);
+  if (!match) return { command };
+  const [, wrapper, key, noAlert, inner] = match;
+  return { command: inner, monitor: { wrapper, key, alert: !noAlert } };
+};
+
+export const wrapCommand = ({ command, monitor }: CronJob) =>
+  monitor
+    ? `${monitor.wrapper} --id ${monitor.key}${monitor.alert ? "" : " --no-alert"} -- ${command}`
+    : command;
+
+export const newMonitorKey = () => generateId();
+
+export const CRON_RUN_ICONS: Record<CronJobRunStatus, string> = {
+  running: "progress-clock",
+  success: "check-circle",
+  failed: "close-circle",
+  missed: "clock-remove-outline",
+};
+
+export const cronRunColor = (
+  status: CronJobRunStatus,
+  colors: Record<string, string>,
+) => {
+  switch (status) {
+    case "success":
+      return colors.success;
+    case "failed":
+      return colors.error;
+    case "missed":
+      return colors.warning;
+    default:
+      return colors.primary;
+  }
+};
@@ -0,0 +1,205 @@
+import { AnsiSpan, DEFAULT_STYLE, parseAnsi, stripAnsi } from "./ansi";
+import type { DeploymentLogType } from "../services/client/types";
+
+// Turns the raw deployment log entries into display lines: ANSI colors
+// parsed, carriage-return progress updates collapsed, and every line tagged
+// with the build phase it belongs to.
+
+export interface DeployLogEntry {
+  log: string;
+  type: DeploymentLogType;
+  timestamp: string;
+}
+
+export type LogPhaseKey = "setup" | "clone" | "install" | "build" | "start";
+
+export interface LogLine {
+  index: number;
+  spans: AnsiSpan[];
+  plain: string;
+  type: DeploymentLogType;
+  timestamp: string;
+  phase: number;
+  isStep: boolean;
+}
+
+export interface LogPhase {
+  key: LogPhaseKey;
+  title: string;
+  // Line range [start, end)
+  start: number;
+  end: number;
+  hasError: boolean;
+}
+
+export interface DeployLog {
+  lines: LogLine[];
+  phases: LogPhase[];
+}
+
+// The backend prefixes each step with an emoji; "==>" and Docker's
+// "Step 1/7" come from the build tools themselves
+const STEP_MARKER = /^(?:[📥📦🔨🚀⏹🔧📂🎉❌⚙]|={2,}>|Step \d+\/\d+)/u;
+
+// Checked in order against step lines only; a step that matches none stays
+// in the current phase
+const PHASE_PATTERNS: [LogPhaseKey, RegExp][] = [
+  ["clone", /📥|\bclon|\bfetch|\bpull|checkout/iu],
+  ["install", /📦|install|dependenc/iu],
+  ["build", /🔨|\bbuild|compil/iu],
+  ["start", /🚀|\bstart|restart|launch|\bdeploy/iu],
+];
+
+interface ParsedEntry {
+  // Rewrites the previous line instead of adding one (leading \r)
+  overwrite: boolean;
+  lines: { spans: AnsiSpan[]; plain: string }[];
+}
+
+// Entries are appended, never edited, so each one is parsed only once even
+// though the whole log is rebuilt on every new line
+const parsedCache = new WeakMap<DeployLogEntry, ParsedEntry>();
+
+// What a terminal would show after the carriage returns: the last piece
+// that was written. A trailing \r (from \r\n) writes nothing.
+const resolveCarriageReturns = (segment: string) => {
+  if (!segment.includes("\r")) return segment;
+  const pieces = segment.split("\r").filter((p) => stripAnsi(p).length > 0);
+  return pieces.length ? pieces[pieces.length - 1] : "";
+};
+
+const parseEntry = (entry: DeployLogEntry): ParsedEntry => {
+  const cached = parsedCache.get(entry);
+  if (cached) return cached;
+
+  const text = entry.log.replace(/\r\n/g, "\n").replace(/\n$/, "");
+  let style = DEFAULT_STYLE;
+  const lines = text.split("\n").map((segment) => {
+    const parsed = parseAnsi(resolveCarriageReturns(segment), style);
+    style = parsed.style;
+    return {
+      spans: parsed.spans,
+      plain: parsed.spans.map((s) => s.text).join(""),
+    };
+  });
+  const result = { overwrite: text.startsWith("\r"), lines };
+  parsedCache.set(entry, result);
+  return result;
+};
+
+const phaseFor = (plain: string): LogPhaseKey | null => {
+  for (const [key, pattern] of PHASE_PATTERNS) {
+    if (pattern.test(plain)) return key;
+  }
+  return null;
+};
+
+export const buildDeployLog = (entries: DeployLogEntry[]): DeployLog => {
+  const lines: LogLine[] = [];
+  const phases: LogPhase[] = [];
+
+  const currentPhase = () => phases[phases.length - 1];
+  const openPhase = (key: LogPhaseKey, title: string) => {
+    const prev = currentPhase();
+    if (prev) prev.end = lines.length;
+    phases.push({
+      key,
+      title,
+      start: lines.length,
+      end: lines.length,
+      hasError: false,
+    });
+  };
+
+  for (const entry of entries) {
+    const parsed = parseEntry(entry);
+    parsed.lines.forEach((line, i) => {
+      const isStep = STEP_MARKER.test(line.plain.trimStart());
+      if (isStep) {
+        const key = phaseFor(line.plain);
+        if (key && key !== currentPhase()?.key) openPhase(key, line.plain);
+      }
+      if (!currentPhase()) openPhase("setup", "");
+
+      // Progress updates replace the line they belong to
+      if (i === 0 && parsed.overwrite && lines.length > 0 && !isStep) {
+        const prev = lines[lines.length - 1];
+        if (!prev.isStep) {
+          lines[lines.length - 1] = { ...prev, ...line, type: entry.type };
+          return;
+        }
+      }
+
+      lines.push({
+        index: lines.length,
+        spans: line.spans,
+        plain: line.plain,
+        type: entry.type,
+        timestamp: entry.timestamp,
+        phase: phases.length - 1,
+        isStep,
+      });
+    });
+  }
+
+  const last = currentPhase();
+  if (last) last.end = lines.length;
+  lines.forEach((line) => {
+    if (line.type === "error") phases[line.phase].hasError = true;
+  });
+
+  return { lines, phases };
+};
+
+// Falls back to a literal search while the user is mid-way through typing a
+// pattern that doesn't compile yet
+export const compileLogSearch = (query: string) => {
+  if (!query) return { regex: null, invalid: false };
+  try {
+    return { regex: new RegExp(query, "gi"), invalid: false };
+  } catch {
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return { regex: new RegExp(escaped, "gi"), invalid: true };
+  }
+};
+
+export interface LogMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+export const findLogMatches = (lines: LogLine[], regex: RegExp | null) => {
+  const matches: LogMatch[] = [];
+  if (!regex) return matches;
+  for (const line of lines) {
+    regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(line.plain))) {
+      // Zero-width patterns like ^ would otherwise loop forever
+      if (m[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      matches.push({
+        line: line.index,
+        start: m.index,
+        end: m.index + m[0].length,
+      });
+    }
+  }
+  return matches;
+};
+
+const ERROR_TEXT = /\berror\b|\bERR!|\bfailed\b|\bfatal\b/i;
+
+// Prefers lines the backend tagged as errors, then anything that reads like one
+export const firstErrorLine = (lines: LogLine[]) => {
+  const tagged = lines.find((l) => l.type === "error");
+  if (tagged) return tagged.index;
+  const text = lines.find((l) => ERROR_TEXT.test(l.plain));
+  return text ? text.index : -1;
+};
+
+export const deployLogToText = (lines: LogLine[]) =>
+  lines.map((l) => l.plain).join("\n");
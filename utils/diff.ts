@@ -0,0 +1,182 @@
+// Unified diff parsing for the diff and compare screens. Accepts the output
+// of `git diff` / `git show` as-is, including the commit headers around it.
+
+export type DiffFileStatus =
+  "added" | "deleted" | "renamed" | "modified" | "binary";
+
+export type DiffLineKind = "add" | "del" | "context" | "meta";
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  oldPath: string;
+  newPath: string;
+  status: DiffFileStatus;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+// Paths in headers are prefixed with a/ and b/, or /dev/null; `diff -u`
+// follows them with a tab and a timestamp instead
+const stripPrefix = (header: string) => {
+  const path = header.split("\t")[0].trim();
+  return path === "/dev/null" ? path : path.replace(/^[ab]\//, "");
+};
+
+const newFile = (oldPath = "", newPath = ""): DiffFile => ({
+  oldPath,
+  newPath,
+  status: "modified",
+  additions: 0,
+  deletions: 0,
+  hunks: [],
+});
+
+export const parseUnifiedDiff = (input: string): DiffFile[] => {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  // Lines the current hunk still has to cover, from its header; the hunk
+  // ends when both run out so trailing text (the next commit's message in
+  // `git log -p`, the next file in `diff -u`) isn't read as part of it
+  let oldLeft = 0;
+  let newLeft = 0;
+  // The hunk that just ended, for a trailing "\ No newline at end of file"
+  let lastHunk: DiffHunk | null = null;
+
+  for (const raw of input.replace(/\r\n/g, "\n").split("\n")) {
+    const git = raw.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (git) {
+      file = newFile(git[1], git[2]);
+      files.push(file);
+      hunk = lastHunk = null;
+      continue;
+    }
+
+    if (raw.startsWith("--- ") && (!hunk || !file)) {
+      // Plain `diff -u` output has no "diff --git" line
+      if (!file || file.hunks.length > 0) {
+        file = newFile();
+        files.push(file);
+      }
+      file.oldPath = stripPrefix(raw.slice(4).trim());
+      hunk = lastHunk = null;
+      continue;
+    }
+    if (raw.startsWith("+++ ") && file && !hunk) {
+      file.newPath = stripPrefix(raw.slice(4).trim());
+      continue;
+    }
+
+    const header = raw.match(HUNK_HEADER);
+    if (header && file) {
+      oldLine = parseInt(header[1], 10);
+      newLine = parseInt(header[3], 10);
+      // A count left out means one line
+      oldLeft = header[2] === undefined ? 1 : parseInt(header[2], 10);
+      newLeft = header[4] === undefined ? 1 : parseInt(header[4], 10);
+      hunk = {
+        header: header[5].trim(),
+        oldStart: oldLine,
+        newStart: newLine,
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (raw.startsWith("\\") && lastHunk) {
+      // "\ No newline at end of file"
+      lastHunk.lines.push({ kind: "meta", content: raw.slice(2) });
+      continue;
+    }
+    lastHunk = null;
+
+    // Extended headers between "diff --git" and the first hunk
+    if (file && !hunk) {
+      if (raw.startsWith("new file mode")) file.status = "added";
+      else if (raw.startsWith("deleted file mode")) file.status = "deleted";
+      else if (raw.startsWith("rename from ")) {
+        file.status = "renamed";
+        file.oldPath = raw.slice(12);
+      } else if (raw.startsWith("rename to ")) file.newPath = raw.slice(10);
+      else if (raw.startsWith("Binary files")) file.status = "binary";
+      continue;
+    }
+
+    if (!hunk || !file) continue;
+    const marker = raw[0];
+    if (marker === "+") {
+      file.additions++;
+      newLeft--;
+      hunk.lines.push({
+        kind: "add",
+        content: raw.slice(1),
+        newNumber: newLine++,
+      });
+    } else if (marker === "-") {
+      file.deletions++;
+      oldLeft--;
+      hunk.lines.push({
+        kind: "del",
+        content: raw.slice(1),
+        oldNumber: oldLine++,
+      });
+    } else if (marker === " " || raw === "") {
+      // Some tools strip the space off empty context lines
+      oldLeft--;
+      newLeft--;
+      hunk.lines.push({
+        kind: "context",
+        content: raw.slice(1),
+        oldNumber: oldLine++,
+        newNumber: newLine++,
+      });
+    } else if (marker === "\\") {
+      // "\ No newline at end of file"
+      hunk.lines.push({ kind: "meta", content: raw.slice(2) });
+    }
+    if (oldLeft <= 0 && newLeft <= 0) {
+      lastHunk = hunk;
+      hunk = null;
+    }
+  }
+
+  for (const f of files) {
+    if (f.oldPath === "/dev/null") f.status = "added";
+    else if (f.newPath === "/dev/null") f.status = "deleted";
+  }
+  return files;
+};
+
+// The path to show for a file: the new one unless the file was deleted
+export const diffFilePath = (file: DiffFile) =>
+  file.status === "deleted" || file.newPath === "/dev/null"
+    ? file.oldPath
+    : file.newPath || file.oldPath;
+
+export const diffTotals = (files: DiffFile[]) =>
+  files.reduce(
+    (acc, f) => ({
+      additions: acc.additions + f.additions,
+      deletions: acc.deletions + f.deletions,
+    }),
+    { additions: 0, deletions: 0 },
+  );
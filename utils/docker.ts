@@ -0,0 +1,320 @@
+import type {
+  ContainerStats,
+  PrunePreview,
+  PruneTarget,
+} from "../services/client/types";
+
+// ── Stats ──
+
+// `docker stats` prints human sizes: decimal (kB, MB) for I/O, binary
+// (KiB, MiB) for memory
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+export const parseSize = (text: string) => {
+  const match = text.trim().match(/^([\d.]+)\s*([a-z]*)$/i);
+  if (!match) return 0;
+  return parseFloat(match[1]) * (SIZE_UNITS[match[2].toLowerCase()] || 1);
+};
+
+export const parsePercent = (text: string) => parseFloat(text) || 0;
+
+// "1.2kB / 648B" into both numbers
+const parsePair = (text: string): [number, number] => {
+  const [a = "", b = ""] = text.split("/");
+  return [parseSize(a), parseSize(b)];
+};
+
+export interface StatsSample {
+  at: number;
+  cpu: number;
+  memory: number;
+  memoryLimit: number;
+  memoryPercent: number;
+  // Totals since the container started; rates come from consecutive samples
+  netRx: number;
+  netTx: number;
+}
+
+export const statsSample = (
+  stats: ContainerStats,
+  at = Date.now(),
+): StatsSample => {
+  const [memory, memoryLimit] = parsePair(stats.memUsage);
+  const [netRx, netTx] = parsePair(stats.netIO);
+  return {
+    at,
+    cpu: parsePercent(stats.cpuPercent),
+    memory,
+    memoryLimit,
+    memoryPercent: parsePercent(stats.memPercent),
+    netRx,
+    netTx,
+  };
+};
+
+// Bytes per second between samples; a restart resets the counters, which
+// would otherwise show up as a negative rate
+export const netRates = (samples: StatsSample[]) =>
+  samples.slice(1).map((sample, i) => {
+    const prev = samples[i];
+    const seconds = Math.max((sample.at - prev.at) / 1000, 0.001);
+    return {
+      at: sample.at,
+      rx: Math.max(sample.netRx - prev.netRx, 0) / seconds,
+      tx: Math.max(sample.netTx - prev.netTx, 0) / seconds,
+    };
+  });
+
+export const formatBytes = (bytes: number) => {
+  if (!bytes || bytes < 1) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1,
+  );
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+};
+
+// ── Inspect ──
+
+export interface ContainerEnvVar {
+  key: string;
+  value: string;
+}
+
+export interface ContainerMount {
+  type: string;
+  // Volume name for named volumes, host path for binds
+  source: string;
+  destination: string;
+  readOnly: boolean;
+}
+
+export interface ContainerNetwork {
+  name: string;
+  ipAddress: string;
+  gateway: string;
+  macAddress: string;
+  aliases: string[];
+}
+
+export interface ContainerPortBinding {
+  container: string;
+  host: string[];
+}
+
+export interface ContainerHealthcheck {
+  test: string;
+  // Milliseconds; unset means Docker's default
+  interval?: number;
+  timeout?: number;
+  startPeriod?: number;
+  retries?: number;
+}
+
+export interface ContainerHealthProbe {
+  start: string;
+  exitCode: number;
+  output: string;
+}
+
+export interface ContainerDetail {
+  id: string;
+  name: string;
+  image: string;
+  created?: string;
+  command: string;
+  workingDir?: string;
+  user?: string;
+  state: {
+    status: string;
+    startedAt?: string;
+    finishedAt?: string;
+    exitCode?: number;
+    oomKilled: boolean;
+    error?: string;
+    restartCount: number;
+  };
+  health?: {
+    status: string;
+    failingStreak: number;
+    log: ContainerHealthProbe[];
+  };
+  healthcheck?: ContainerHealthcheck;
+  restartPolicy: { name: string; maxRetries: number };
+  env: ContainerEnvVar[];
+  mounts: ContainerMount[];
+  networks: ContainerNetwork[];
+  ports: ContainerPortBinding[];
+  labels: Record<string, string>;
+}
+
+const asRecord = (value: unknown): Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, any>)
+    : {};
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+// Docker reports durations in nanoseconds and unset times as year 1
+const nsToMs = (ns: unknown) =>
+  typeof ns === "number" && ns > 0 ? ns / 1e6 : undefined;
+const time = (value: unknown) =>
+  typeof value === "string" && !value.startsWith("0001-") ? value : undefined;
+
+const healthcheckTest = (test: unknown) => {
+  const [kind, ...args] = asArray(test).map(String);
+  if (kind === "CMD" || kind === "CMD-SHELL") return args.join(" ");
+  return kind || "";
+};
+
+// `docker inspect` output, either the array it prints or a single object
+export const parseInspect = (raw: unknown): ContainerDetail => {
+  const data = asRecord(Array.isArray(raw) ? raw[0] : raw);
+  const config = asRecord(data.Config);
+  const state = asRecord(data.State);
+  const health = asRecord(state.Health);
+  const hostConfig = asRecord(data.HostConfig);
+  const restart = asRecord(hostConfig.RestartPolicy);
+  const networkSettings = asRecord(data.NetworkSettings);
+  const check = asRecord(config.Healthcheck);
+  const test = healthcheckTest(check.Test);
+
+  return {
+    id: String(data.Id || ""),
+    name: String(data.Name || "").replace(/^\//, ""),
+    image: String(config.Image || data.Image || ""),
+    created: time(data.Created),
+    command: [data.Path, ...asArray(data.Args)].filter(Boolean).join(" "),
+    workingDir: config.WorkingDir || undefined,
+    user: config.User || undefined,
+    state: {
+      status: String(state.Status || "unknown"),
+      startedAt: time(state.StartedAt),
+      finishedAt: time(state.FinishedAt),
+      exitCode: typeof state.ExitCode === "number" ? state.ExitCode : undefined,
+      oomKilled: !!state.OOMKilled,
+      error: state.Error || undefined,
+      restartCount: Number(data.RestartCount) || 0,
+    },
+    health: state.Health
+      ? {
+          status: String(health.Status || "none"),
+          failingStreak: Number(health.FailingStreak) || 0,
+          log: asArray(health.Log).map((probe) => ({
+            start: String(probe?.Start || ""),
+            exitCode: Number(probe?.ExitCode),
+            output: String(probe?.Output || "").trim(),
+          })),
+        }
+      : undefined,
+    healthcheck:
+      test && test !== "NONE"
+        ? {
+            test,
+            interval: nsToMs(check.Interval),
+            timeout: nsToMs(check.Timeout),
+            startPeriod: nsToMs(check.StartPeriod),
+            retries: check.Retries || undefined,
+          }
+        : undefined,
+    restartPolicy: {
+      name: restart.Name || "no",
+      maxRetries: Number(restart.MaximumRetryCount) || 0,
+    },
+    env: asArray(config.Env).map((entry) => {
+      const text = String(entry);
+      const eq = text.indexOf("=");
+      return eq === -1
+        ? { key: text, value: "" }
+        : { key: text.slice(0, eq), value: text.slice(eq + 1) };
+    }),
+    mounts: asArray(data.Mounts).map((mount) => ({
+      type: String(mount?.Type || "bind"),
+      source: String(mount?.Name || mount?.Source || ""),
+      destination: String(mount?.Destination || ""),
+      readOnly: mount?.RW === false,
+    })),
+    networks: Object.entries(asRecord(networkSettings.Networks)).map(
+      ([name, network]) => ({
+        name,
+        ipAddress: String(network?.IPAddress || ""),
+        gateway: String(network?.Gateway || ""),
+        macAddress: String(network?.MacAddress || ""),
+        aliases: asArray(network?.Aliases).map(String),
+      }),
+    ),
+    ports: Object.entries(asRecord(networkSettings.Ports)).map(
+      ([container, bindings]) => ({
+        container,
+        host: asArray(bindings).map(
+          (b) => `${b?.HostIp || "0.0.0.0"}:${b?.HostPort}`,
+        ),
+      }),
+    ),
+    labels: asRecord(config.Labels),
+  };
+};
+
+// Values of these look like credentials and are masked until revealed
+const SECRET_KEY = /pass|secret|token|key|credential|auth/i;
+
+export const isSecretEnv = (key: string) => SECRET_KEY.test(key);
+
+// ── Logs ──
+
+export interface ContainerLogLine {
+  timestamp?: string;
+  text: string;
+}
+
+// `docker logs --timestamps` prefixes each line with an RFC 3339 time
+const TIMESTAMPED = /^(\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:\d{2}))\s?(.*)$/;
+
+export const parseLogLine = (line: string): ContainerLogLine => {
+  const match = line.match(TIMESTAMPED);
+  return match ? { timestamp: match[1], text: match[2] } : { text: line };
+};
+
+export const parseLogs = (text: string) =>
+  text
+    .replace(/\n$/, "")
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map(parseLogLine);
+
+// ── Volumes, networks & cleanup ──
+
+// Created by the daemon itself and refused by `docker network rm`
+const BUILTIN_NETWORKS = ["bridge", "host", "none"];
+
+export const isBuiltinNetwork = (name: string) =>
+  BUILTIN_NETWORKS.includes(name);
+
+// Safest first; unused volumes can hold the only copy of some data
+export const PRUNE_TARGETS: PruneTarget[] = [
+  "containers",
+  "images",
+  "buildCache",
+  "volumes",
+];
+
+export const pruneTotals = (previews: PrunePreview[]) =>
+  previews.reduce(
+    (acc, preview) => ({
+      items: acc.items + preview.items.length,
+      reclaimable: acc.reclaimable + preview.reclaimable,
+    }),
+    { items: 0, reclaimable: 0 },
+  );
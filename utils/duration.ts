@@ -0,0 +1,30 @@
+import type { Deployment } from "../services/client/types";
+
+// Null while a deployment hasn't finished (or never started)
+export const deploymentDurationMs = (
+  dep: Pick<Deployment, "startedAt" | "finishedAt">,
+) => {
+  if (!dep.startedAt || !dep.finishedAt) return null;
+  const ms =
+    new Date(dep.finishedAt).getTime() - new Date(dep.startedAt).getTime();
+  return isNaN(ms) || ms < 0 ? null : ms;
+};
+
+// Sign is dropped; callers word deltas themselves ("faster"/"slower")
+export const formatDuration = (ms: number) => {
+  const total = Math.round(Math.abs(ms) / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
+
+// Like deploymentDurationMs, but counts up to `now` while still running
+export const elapsedMs = (
+  item: { startedAt?: string; finishedAt?: string },
+  now = Date.now(),
+) => {
+  if (!item.startedAt) return null;
+  const end = item.finishedAt ? new Date(item.finishedAt).getTime() : now;
+  const ms = end - new Date(item.startedAt).getTime();
+  return isNaN(ms) || ms < 0 ? null : ms;
+};
@@ -0,0 +1,324 @@
+import type { Project } from "../services/client/types";
+
+// The vhost wizard's model of a server block, rendering it as config and
+// reading it back from a file the wizard wrote.
+
+export type VhostKind = "proxy" | "static" | "redirect";
+
+export type LoadBalancing = "round-robin" | "least_conn" | "ip_hash";
+
+export interface VhostUpstream {
+  // host:port, or unix:/path for a socket
+  address: string;
+  weight: string;
+  backup: boolean;
+}
+
+export interface VhostSpec {
+  kind: VhostKind;
+  // As typed, space or comma separated
+  domains: string;
+  listen: string;
+  upstreams: VhostUpstream[];
+  balancing: LoadBalancing;
+  // A linked project replaces the upstreams with its own port on this host
+  projectId?: string;
+  // The project's port when the file was last rendered
+  projectPort?: number;
+  root: string;
+  spa: boolean;
+  redirectTo: string;
+  redirectCode: "301" | "302";
+  keepPath: boolean;
+  websocket: boolean;
+  gzip: boolean;
+  maxBodySize: string;
+  basicAuth: boolean;
+  authFile: string;
+  rateLimit: boolean;
+  rate: string;
+  burst: string;
+}
+
+export const newUpstream = (address = ""): VhostUpstream => ({
+  address,
+  weight: "",
+  backup: false,
+});
+
+export const newVhostSpec = (kind: VhostKind = "proxy"): VhostSpec => ({
+  kind,
+  domains: "",
+  listen: "80",
+  upstreams: [newUpstream("127.0.0.1:3000")],
+  balancing: "round-robin",
+  root: "/var/www/html",
+  spa: false,
+  redirectTo: "",
+  redirectCode: "301",
+  keepPath: true,
+  websocket: kind === "proxy",
+  gzip: true,
+  maxBodySize: "",
+  basicAuth: false,
+  authFile: "/etc/nginx/.htpasswd",
+  rateLimit: false,
+  rate: "10r/s",
+  burst: "20",
+});
+
+export const vhostDomains = (spec: VhostSpec) =>
+  spec.domains.split(/[\s,]+/).filter(Boolean);
+
+// ── Projects ──
+
+// Projects don't carry a port of their own; the app reads it from PORT
+export const projectPort = (project: Project) => {
+  const port = Number(project.envVars?.PORT);
+  return Number.isInteger(port) && port > 0 ? port : undefined;
+};
+
+// The linked project's port has moved since the file was rendered
+export const projectPortChanged = (spec: VhostSpec, project?: Project) => {
+  if (!spec.projectId || !project) return false;
+  const port = projectPort(project);
+  return port !== undefined && port !== spec.projectPort;
+};
+
+const targets = (spec: VhostSpec): VhostUpstream[] =>
+  spec.projectId
+    ? [newUpstream(`127.0.0.1:${spec.projectPort}`)]
+    : spec.upstreams.filter((u) => u.address.trim());
+
+// ── Validation ──
+
+const FILE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const DOMAIN = /^(\*\.)?[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*$/;
+const ADDRESS =
+  /^([A-Za-z0-9.-]+|\[[0-9a-fA-F:]+\]):\d{1,5}$|^unix:\/[^\s;{}$"'\\]+$/;
+const SIZE = /^\d+[kKmMgG]?$/;
+const RATE = /^\d+r\/[sm]$/;
+// Written into `return` as is, so nothing that could end the directive or
+// be read as a variable
+const REDIRECT = /^https?:\/\/[^\s;{}$"'\\]+$/;
+// Absolute paths, written unquoted like the redirect target
+const PATH = /^\/[^\s;{}$"'\\]*$/;
+
+export const validateVhost = (spec: VhostSpec, name: string) => {
+  const errors: string[] = [];
+  if (!FILE_NAME.test(name)) {
+    errors.push("File name may only use letters, digits, dots, - and _");
+  }
+  const domains = vhostDomains(spec);
+  if (domains.length === 0) errors.push("Add at least one domain");
+  domains
+    .filter((d) => d !== "_" && !DOMAIN.test(d))
+    .forEach((d) => errors.push(`"${d}" is not a valid domain`));
+  const listen = Number(spec.listen);
+  if (!Number.isInteger(listen) || listen < 1 || listen > 65535) {
+    errors.push("Listen port must be between 1 and 65535");
+  }
+
+  if (spec.kind === "proxy") {
+    if (spec.projectId) {
+      if (!spec.projectPort) {
+        errors.push("The linked project has no PORT environment variable");
+      }
+    } else {
+      const upstreams = targets(spec);
+      if (upstreams.length === 0) errors.push("Add at least one upstream");
+      upstreams
+        .filter((u) => !ADDRESS.test(u.address.trim()))
+        .forEach((u) => errors.push(`"${u.address}" is not host:port`));
+      upstreams
+        .filter((u) => u.weight.trim() && !/^[1-9]\d*$/.test(u.weight.trim()))
+        .forEach((u) => errors.push(`${u.address}: weight must be 1 or more`));
+      if (upstreams.length > 0 && upstreams.every((u) => u.backup)) {
+        errors.push("At least one upstream must not be a backup");
+      }
+      if (spec.balancing === "ip_hash" && upstreams.some((u) => u.backup)) {
+        errors.push("ip_hash can't be combined with backup upstreams");
+      }
+    }
+  }
+  if (spec.kind === "static" && !PATH.test(spec.root.trim())) {
+    errors.push(
+      "Root must be an absolute path without spaces, quotes, ; { } or $",
+    );
+  }
+  if (spec.kind === "redirect" && !REDIRECT.test(spec.redirectTo.trim())) {
+    errors.push(
+      "Redirect target must be an http(s) URL without spaces, quotes, ; { } or $",
+    );
+  }
+  if (spec.maxBodySize.trim() && !SIZE.test(spec.maxBodySize.trim())) {
+    errors.push("Max body size must look like 10m or 512k");
+  }
+  if (spec.kind !== "redirect") {
+    if (spec.basicAuth && !PATH.test(spec.authFile.trim())) {
+      errors.push(
+        "Password file must be an absolute path without spaces, quotes, ; { } or $",
+      );
+    }
+    if (spec.rateLimit && !RATE.test(spec.rate.trim())) {
+      errors.push("Rate must look like 10r/s or 300r/m");
+    }
+    if (spec.rateLimit && spec.burst.trim() && !/^\d+$/.test(spec.burst)) {
+      errors.push("Burst must be a whole number");
+    }
+  }
+  return errors;
+};
+
+// ── Rendering ──
+
+export const SPEC_PREFIX = "# pulse-vhost: ";
+
+// Upstream and zone names are shared across all of nginx, so they're
+// derived from the file name, which is already unique
+const configId = (name: string) => name.replace(/[^A-Za-z0-9_]/g, "_");
+
+const GZIP_TYPES =
+  "text/plain text/css text/xml application/json application/javascript application/xml application/rss+xml image/svg+xml";
+
+// Indents every line, including those of already-rendered nested blocks
+const block = (lines: string[], indent = "    ") =>
+  lines
+    .flatMap((line) => line.split("\n"))
+    .map((line) => (line ? `${indent}${line}` : ""))
+    .join("\n");
+
+export const renderVhost = (spec: VhostSpec, name: string) => {
+  const id = configId(name);
+  const out: string[] = [
+    "# Generated by the Pulse vhost wizard. Reopen it there to change this",
+    "# file; edits made by hand are replaced the next time it saves.",
+    `${SPEC_PREFIX}${JSON.stringify(spec)}`,
+    "",
+  ];
+  const guarded = spec.kind !== "redirect";
+
+  if (guarded && spec.rateLimit) {
+    out.push(
+      `limit_req_zone $binary_remote_addr zone=${id}_limit:10m rate=${spec.rate.trim()};`,
+      "",
+    );
+  }
+
+  if (spec.kind === "proxy" && spec.websocket) {
+    // Only upgrade requests get "Connection: upgrade"; the rest keep the
+    // empty header so upstream connections can be reused
+    out.push(
+      `map $http_upgrade $${id}_connection {`,
+      block(['default "";', "~. upgrade;"]),
+      "}",
+      "",
+    );
+  }
+
+  if (spec.kind === "proxy") {
+    const servers = targets(spec).map((u) => {
+      const params = [
+        u.weight.trim() && `weight=${u.weight.trim()}`,
+        u.backup && "backup",
+      ].filter(Boolean);
+      return `server ${[u.address.trim(), ...params].join(" ")};`;
+    });
+    out.push(
+      `upstream ${id}_backend {`,
+      block([
+        ...(spec.balancing === "round-robin" ? [] : [`${spec.balancing};`]),
+        ...servers,
+        // Reused connections to the app; needs the Connection header cleared
+        "keepalive 16;",
+      ]),
+      "}",
+      "",
+    );
+  }
+
+  const server: string[] = [
+    `listen ${spec.listen};`,
+    `listen [::]:${spec.listen};`,
+    `server_name ${vhostDomains(spec).join(" ")};`,
+    "",
+  ];
+
+  if (spec.kind === "redirect") {
+    const target = spec.redirectTo.trim().replace(/\/$/, "");
+    server.push(
+      spec.keepPath
+        ? `return ${spec.redirectCode} ${target}$request_uri;`
+        : `return ${spec.redirectCode} ${spec.redirectTo.trim()};`,
+    );
+  } else {
+    if (spec.maxBodySize.trim()) {
+      server.push(`client_max_body_size ${spec.maxBodySize.trim()};`);
+    }
+    if (spec.gzip) {
+      server.push(
+        "gzip on;",
+        "gzip_vary on;",
+        "gzip_proxied any;",
+        "gzip_min_length 1024;",
+        `gzip_types ${GZIP_TYPES};`,
+      );
+    }
+    if (spec.kind === "static") {
+      server.push(`root ${spec.root.trim()};`, "index index.html index.htm;");
+    }
+    if (server[server.length - 1] !== "") server.push("");
+
+    const location: string[] = [];
+    if (spec.rateLimit) {
+      const burst = spec.burst.trim() ? ` burst=${spec.burst.trim()}` : "";
+      location.push(`limit_req zone=${id}_limit${burst} nodelay;`);
+    }
+    if (spec.basicAuth) {
+      location.push(
+        'auth_basic "Restricted";',
+        `auth_basic_user_file ${spec.authFile.trim()};`,
+      );
+    }
+    if (spec.kind === "static") {
+      location.push(
+        spec.spa
+          ? "try_files $uri $uri/ /index.html;"
+          : "try_files $uri $uri/ =404;",
+      );
+    } else {
+      location.push(
+        `proxy_pass http://${id}_backend;`,
+        "proxy_http_version 1.1;",
+        ...(spec.websocket
+          ? [
+              "proxy_set_header Upgrade $http_upgrade;",
+              `proxy_set_header Connection $${id}_connection;`,
+              "proxy_read_timeout 3600s;",
+            ]
+          : ['proxy_set_header Connection "";']),
+        "proxy_set_header Host $host;",
+        "proxy_set_header X-Real-IP $remote_addr;",
+        "proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;",
+        "proxy_set_header X-Forwarded-Proto $scheme;",
+      );
+    }
+    server.push("location / {", block(location), "}");
+  }
+
+  out.push("server {", block(server), "}", "");
+  return out.join("\n");
+};
+
+// The spec a wizard-written file was rendered from, null for other files
+export const parseVhostSpec = (content: string): VhostSpec | null => {
+  const line = content.split("\n").find((l) => l.startsWith(SPEC_PREFIX));
+  if (!line) return null;
+  try {
+    const spec = JSON.parse(line.slice(SPEC_PREFIX.length));
+    if (!spec || typeof spec !== "object") return null;
+    return { ...newVhostSpec(spec.kind), ...spec };
+  } catch {
+    return null;
+  }
+};
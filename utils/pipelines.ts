@@ -0,0 +1,426 @@
+import { parse, stringify } from "yaml";
+import type {
+  Pipeline,
+  PipelineCondition,
+  PipelineFailurePolicy,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineRunTrigger,
+  PipelineRunWhen,
+  PipelineStage,
+  PipelineStep,
+  PipelineStepRun,
+  PipelineStepRunStatus,
+  PipelineStepType,
+  PipelineVariable,
+} from "../services/client/types";
+
+// Pipeline editing helpers: migrating flat step lists to stages, and the
+// YAML format pipelines are imported from and exported to.
+
+export const STEP_TYPES: PipelineStepType[] = [
+  "command",
+  "test",
+  "deploy",
+  "approval",
+  "notify",
+];
+
+export const FAILURE_POLICIES: PipelineFailurePolicy[] = [
+  "stop",
+  "continue",
+  "rollback",
+];
+
+export const RUN_WHEN: PipelineRunWhen[] = ["success", "failure", "always"];
+
+export const STEP_TYPE_COLORS: Record<PipelineStepType, string> = {
+  command: "#3b82f6",
+  test: "#8b5cf6",
+  deploy: "#22c55e",
+  approval: "#f59e0b",
+  notify: "#06b6d4",
+};
+
+export const STEP_TYPE_ICONS: Record<PipelineStepType, string> = {
+  command: "console",
+  test: "flask-outline",
+  deploy: "rocket-launch-outline",
+  approval: "check-decagram-outline",
+  notify: "bell-outline",
+};
+
+export interface PipelineDraft {
+  name: string;
+  description: string;
+  stages: PipelineStage[];
+  variables: PipelineVariable[];
+}
+
+export const newStep = (index: number): PipelineStep => ({
+  name: `Step ${index + 1}`,
+  type: "command",
+  command: "",
+  onFailure: "stop",
+});
+
+export const newStage = (index: number): PipelineStage => ({
+  name: `Stage ${index + 1}`,
+  steps: [newStep(0)],
+});
+
+// Older pipelines only have `steps`, which ran strictly in order
+export const pipelineStages = (pipeline: Pipeline): PipelineStage[] =>
+  pipeline.stages?.length
+    ? pipeline.stages
+    : (pipeline.steps || []).map((step) => ({
+        name: step.name,
+        steps: [step],
+      }));
+
+export const draftFromPipeline = (pipeline: Pipeline): PipelineDraft => ({
+  name: pipeline.name,
+  description: pipeline.description || "",
+  stages: pipelineStages(pipeline),
+  variables: pipeline.variables || [],
+});
+
+export const moveItem = <T>(list: T[], from: number, to: number) => {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const isEmptyCondition = (condition?: PipelineCondition) =>
+  !condition ||
+  (!condition.branches?.length &&
+    !condition.environments?.length &&
+    (!condition.when || condition.when === "success"));
+
+export const needsCommand = (step: PipelineStep) =>
+  step.type === "command" || step.type === "test";
+
+const cleanList = (list?: string[]) =>
+  (list || []).map((item) => item.trim()).filter(Boolean);
+
+// Trims what the form leaves behind (blank list entries, empty conditions,
+// unnamed variables) before a draft is saved or exported
+export const cleanDraft = (draft: PipelineDraft): PipelineDraft => ({
+  name: draft.name.trim(),
+  description: draft.description.trim(),
+  variables: draft.variables
+    .filter((v) => v.key.trim())
+    .map((v) => ({ ...v, key: v.key.trim() })),
+  stages: draft.stages.map((stage) => ({
+    name: stage.name.trim(),
+    steps: stage.steps.map((step) => {
+      const condition: PipelineCondition = {
+        branches: cleanList(step.condition?.branches),
+        environments: cleanList(step.condition?.environments),
+        when: step.condition?.when,
+      };
+      return {
+        ...step,
+        name: step.name.trim(),
+        command: needsCommand(step) ? step.command : undefined,
+        condition: isEmptyCondition(condition) ? undefined : condition,
+      };
+    }),
+  })),
+});
+
+// ── Runs ──
+
+export const RUN_STATUSES: PipelineRunStatus[] = [
+  "running",
+  "waiting_approval",
+  "success",
+  "failed",
+  "cancelled",
+];
+
+export const RUN_TRIGGERS: PipelineRunTrigger[] = [
+  "manual",
+  "push",
+  "schedule",
+  "webhook",
+];
+
+export const RUN_TRIGGER_ICONS: Record<PipelineRunTrigger, string> = {
+  manual: "account-outline",
+  push: "source-commit",
+  schedule: "calendar-clock",
+  webhook: "webhook",
+};
+
+export const STEP_STATUS_ICONS: Record<PipelineStepRunStatus, string> = {
+  pending: "circle-outline",
+  running: "progress-clock",
+  waiting_approval: "account-clock-outline",
+  success: "check-circle",
+  failed: "close-circle",
+  skipped: "debug-step-over",
+  cancelled: "cancel",
+};
+
+export const isRunActive = (status: PipelineRunStatus) =>
+  status === "queued" || status === "running" || status === "waiting_approval";
+
+// Run and step statuses share their names, so one palette serves both
+export const runStatusColor = (
+  status: PipelineRunStatus | PipelineStepRunStatus,
+  colors: Record<string, string>,
+) => {
+  switch (status) {
+    case "success":
+      return colors.success;
+    case "failed":
+      return colors.error;
+    case "running":
+      return colors.primary;
+    case "waiting_approval":
+      return colors.warning;
+    default:
+      return colors.textSecondary;
+  }
+};
+
+export interface StepRef {
+  stage: number;
+  step: number;
+}
+
+export const stepKey = ({ stage, step }: StepRef) => `${stage}-${step}`;
+
+export const runStep = (run: PipelineRun, ref: StepRef) =>
+  run.stages[ref.stage]?.steps[ref.step];
+
+export const patchRunStep = (
+  run: PipelineRun,
+  ref: StepRef,
+  patch: Partial<PipelineStepRun>,
+): PipelineRun => ({
+  ...run,
+  stages: run.stages.map((stage, i) =>
+    i === ref.stage
+      ? {
+          ...stage,
+          steps: stage.steps.map((step, j) =>
+            j === ref.step ? { ...step, ...patch } : step,
+          ),
+        }
+      : stage,
+  ),
+});
+
+// The step worth showing first: whatever needs attention, else the one
+// running, else the last one that ran
+export const focusStep = (run: PipelineRun): StepRef | null => {
+  let last: StepRef | null = null;
+  for (const wanted of ["waiting_approval", "failed", "running"] as const) {
+    for (let stage = 0; stage < run.stages.length; stage++) {
+      const steps = run.stages[stage].steps;
+      for (let step = 0; step < steps.length; step++) {
+        if (steps[step].status === wanted) return { stage, step };
+      }
+    }
+  }
+  run.stages.forEach((stage, i) =>
+    stage.steps.forEach((step, j) => {
+      if (step.status !== "pending") last = { stage: i, step: j };
+    }),
+  );
+  return last || (run.stages[0]?.steps.length ? { stage: 0, step: 0 } : null);
+};
+
+// ── YAML ──
+
+const SECRET_REF = /^\$\{\{\s*secrets\.([A-Za-z0-9_.-]+)\s*\}\}$/;
+
+const conditionToYaml = (condition?: PipelineCondition) => {
+  if (isEmptyCondition(condition)) return undefined;
+  return {
+    branches: condition?.branches?.length ? condition.branches : undefined,
+    environments: condition?.environments?.length
+      ? condition.environments
+      : undefined,
+    when:
+      condition?.when && condition.when !== "success"
+        ? condition.when
+        : undefined,
+  };
+};
+
+export const pipelineToYaml = (draft: PipelineDraft) => {
+  const variables: Record<string, string> = {};
+  for (const v of draft.variables) {
+    if (!v.key) continue;
+    variables[v.key] = v.fromSecret ? `\${{ secrets.${v.value} }}` : v.value;
+  }
+  const doc = {
+    name: draft.name,
+    description: draft.description || undefined,
+    variables: Object.keys(variables).length ? variables : undefined,
+    stages: draft.stages.map((stage) => ({
+      name: stage.name,
+      steps: stage.steps.map((step) => ({
+        name: step.name,
+        type: step.type,
+        run: step.command || undefined,
+        on_failure:
+          step.onFailure && step.onFailure !== "stop"
+            ? step.onFailure
+            : undefined,
+        timeout: step.timeout || undefined,
+        if: conditionToYaml(step.condition),
+      })),
+    })),
+  };
+  return stringify(doc, { lineWidth: 0 });
+};
+
+export interface PipelineYamlResult {
+  draft: PipelineDraft | null;
+  errors: string[];
+}
+
+const stringList = (value: unknown, path: string, errors: string[]) => {
+  if (value === undefined || value === null) return undefined;
+  const list = Array.isArray(value) ? value : [value];
+  if (list.some((v) => typeof v !== "string" && typeof v !== "number")) {
+    errors.push(`${path}: expected a list of strings`);
+    return undefined;
+  }
+  return list.map(String);
+};
+
+const oneOf = <T extends string>(
+  value: unknown,
+  allowed: T[],
+  path: string,
+  errors: string[],
+): T | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (allowed.includes(value as T)) return value as T;
+  errors.push(`${path}: must be one of ${allowed.join(", ")}`);
+  return undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const parseStep = (raw: unknown, path: string, errors: string[]) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: expected a mapping`);
+    return null;
+  }
+  const type = oneOf(raw.type ?? "command", STEP_TYPES, `${path}.type`, errors);
+  const command = raw.run ?? raw.command;
+  if (command !== undefined && typeof command !== "string") {
+    errors.push(`${path}.run: expected a string`);
+  }
+  const timeout = raw.timeout;
+  if (
+    timeout !== undefined &&
+    (typeof timeout !== "number" || !(timeout > 0))
+  ) {
+    errors.push(`${path}.timeout: expected a positive number of seconds`);
+  }
+  let condition: PipelineCondition | undefined;
+  if (raw.if !== undefined) {
+    if (!isRecord(raw.if)) {
+      errors.push(`${path}.if: expected a mapping`);
+    } else {
+      condition = {
+        branches: stringList(raw.if.branches, `${path}.if.branches`, errors),
+        environments: stringList(
+          raw.if.environments,
+          `${path}.if.environments`,
+          errors,
+        ),
+        when: oneOf(raw.if.when, RUN_WHEN, `${path}.if.when`, errors),
+      };
+    }
+  }
+  const step: PipelineStep = {
+    name: raw.name ? String(raw.name) : path,
+    type: type || "command",
+    command: typeof command === "string" ? command : undefined,
+    onFailure:
+      oneOf(
+        raw.on_failure ?? raw.onFailure,
+        FAILURE_POLICIES,
+        `${path}.on_failure`,
+        errors,
+      ) || "stop",
+    timeout: typeof timeout === "number" && timeout > 0 ? timeout : undefined,
+    condition: isEmptyCondition(condition) ? undefined : condition,
+  };
+  if (needsCommand(step) && !step.command) {
+    errors.push(`${path}.run: required for ${step.type} steps`);
+  }
+  return step;
+};
+
+export const pipelineFromYaml = (text: string): PipelineYamlResult => {
+  let doc: unknown;
+  try {
+    doc = parse(text);
+  } catch (err: any) {
+    return { draft: null, errors: [err?.message || String(err)] };
+  }
+  if (!isRecord(doc)) {
+    return { draft: null, errors: ["Expected a mapping at the top level"] };
+  }
+
+  const errors: string[] = [];
+  const variables: PipelineVariable[] = [];
+  if (doc.variables !== undefined) {
+    if (!isRecord(doc.variables)) {
+      errors.push("variables: expected a mapping of NAME: value");
+    } else {
+      for (const [key, value] of Object.entries(doc.variables)) {
+        const text = value === null || value === undefined ? "" : String(value);
+        const secret = text.match(SECRET_REF);
+        variables.push(
+          secret
+            ? { key, value: secret[1], fromSecret: true }
+            : { key, value: text },
+        );
+      }
+    }
+  }
+
+  const stages: PipelineStage[] = [];
+  if (!Array.isArray(doc.stages) || doc.stages.length === 0) {
+    errors.push("stages: at least one stage is required");
+  } else {
+    doc.stages.forEach((rawStage, i) => {
+      const path = `stages[${i}]`;
+      if (!isRecord(rawStage) || !Array.isArray(rawStage.steps)) {
+        errors.push(`${path}: expected a mapping with a steps list`);
+        return;
+      }
+      const steps = rawStage.steps
+        .map((rawStep, j) => parseStep(rawStep, `${path}.steps[${j}]`, errors))
+        .filter((step): step is PipelineStep => !!step);
+      if (steps.length === 0) errors.push(`${path}.steps: must not be empty`);
+      stages.push({
+        name: rawStage.name ? String(rawStage.name) : `Stage ${i + 1}`,
+        steps,
+      });
+    });
+  }
+
+  if (errors.length) return { draft: null, errors };
+  return {
+    draft: {
+      name: doc.name ? String(doc.name) : "",
+      description: doc.description ? String(doc.description) : "",
+      stages,
+      variables,
+    },
+    errors,
+  };
+};
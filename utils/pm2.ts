@@ -0,0 +1,379 @@
+import { stringify } from "yaml";
+import type {
+  PM2EcosystemApp,
+  PM2ExecMode,
+  PM2MetricSample,
+  PM2MetricsRange,
+  PM2Process,
+} from "../services/client/types";
+
+// Ecosystem file editing: the form's view of an app, writing apps back out
+// as a config file, and comparing a file with what PM2 is running. Then
+// reading a process's metrics history and spotting restart loops in it.
+
+// ── Drafts ──
+
+export interface EcosystemEnvVar {
+  key: string;
+  value: string;
+}
+
+export interface EcosystemEnvDraft {
+  // "" for the default `env` block, else the <name> of `env_<name>`
+  name: string;
+  vars: EcosystemEnvVar[];
+}
+
+export interface EcosystemAppDraft {
+  name: string;
+  script: string;
+  cwd: string;
+  args: string;
+  interpreter: string;
+  instances: string;
+  execMode: PM2ExecMode;
+  maxMemoryRestart: string;
+  watch: boolean;
+  envs: EcosystemEnvDraft[];
+  // Keys the form has no field for, written back untouched
+  extra: Record<string, unknown>;
+}
+
+const ENV_PREFIX = "env_";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// A key is only the form's to edit when its value has the shape the form
+// expects; `watch: ["src"]` or `args: ["--port", "80"]` stay in `extra`
+const FORM_KEYS: Record<string, (value: unknown) => boolean> = {
+  name: (v) => typeof v === "string",
+  script: (v) => typeof v === "string",
+  cwd: (v) => typeof v === "string",
+  args: (v) => typeof v === "string",
+  interpreter: (v) => typeof v === "string",
+  instances: (v) => typeof v === "number" || typeof v === "string",
+  exec_mode: (v) => typeof v === "string",
+  max_memory_restart: (v) => typeof v === "string" || typeof v === "number",
+  watch: (v) => typeof v === "boolean",
+  env: isRecord,
+};
+
+const envVars = (value: unknown): EcosystemEnvVar[] =>
+  isRecord(value)
+    ? Object.entries(value).map(([key, v]) => ({ key, value: String(v) }))
+    : [];
+
+export const newAppDraft = (index: number): EcosystemAppDraft => ({
+  name: `app-${index + 1}`,
+  script: "",
+  cwd: "",
+  args: "",
+  interpreter: "",
+  instances: "1",
+  execMode: "fork",
+  maxMemoryRestart: "",
+  watch: false,
+  envs: [{ name: "", vars: [] }],
+  extra: {},
+});
+
+export const appToDraft = (app: PM2EcosystemApp): EcosystemAppDraft => {
+  const envs: EcosystemEnvDraft[] = [{ name: "", vars: envVars(app.env) }];
+  const extra: Record<string, unknown> = {};
+  Object.entries(app).forEach(([key, value]) => {
+    if (key.startsWith(ENV_PREFIX) && isRecord(value)) {
+      envs.push({ name: key.slice(ENV_PREFIX.length), vars: envVars(value) });
+    } else if (!FORM_KEYS[key]?.(value)) {
+      extra[key] = value;
+    }
+  });
+  const text = (key: string) =>
+    FORM_KEYS[key](app[key]) ? String(app[key]) : "";
+  return {
+    name: text("name"),
+    script: text("script"),
+    cwd: text("cwd"),
+    args: text("args"),
+    interpreter: text("interpreter"),
+    instances: text("instances"),
+    execMode: String(app.exec_mode || "").startsWith("cluster")
+      ? "cluster"
+      : "fork",
+    maxMemoryRestart: text("max_memory_restart"),
+    watch: app.watch === true,
+    envs,
+    extra,
+  };
+};
+
+const parseInstances = (text: string): number | "max" | undefined => {
+  const value = text.trim();
+  if (!value) return undefined;
+  if (value === "max") return "max";
+  return /^-?\d+$/.test(value) ? parseInt(value, 10) : undefined;
+};
+
+export const draftToApp = (draft: EcosystemAppDraft): PM2EcosystemApp => {
+  const app: PM2EcosystemApp = {
+    name: draft.name.trim(),
+    script: draft.script.trim(),
+  };
+  if (draft.cwd.trim()) app.cwd = draft.cwd.trim();
+  if (draft.args.trim()) app.args = draft.args.trim();
+  if (draft.interpreter.trim()) app.interpreter = draft.interpreter.trim();
+  const instances = parseInstances(draft.instances);
+  if (instances !== undefined) app.instances = instances;
+  if (draft.execMode === "cluster") app.exec_mode = "cluster";
+  if (draft.maxMemoryRestart.trim()) {
+    app.max_memory_restart = draft.maxMemoryRestart.trim();
+  }
+  if (draft.watch) app.watch = true;
+  Object.assign(app, draft.extra);
+  draft.envs.forEach((env) => {
+    const vars = Object.fromEntries(
+      env.vars.filter((v) => v.key.trim()).map((v) => [v.key.trim(), v.value]),
+    );
+    if (env.name) app[`${ENV_PREFIX}${env.name}`] = vars;
+    else if (Object.keys(vars).length > 0) app.env = vars;
+  });
+  return app;
+};
+
+// Names of the env_<name> blocks across all apps, for `--env`
+export const ecosystemEnvironments = (apps: PM2EcosystemApp[]) => [
+  ...new Set(
+    apps.flatMap((app) =>
+      Object.keys(app)
+        .filter((key) => key.startsWith(ENV_PREFIX))
+        .map((key) => key.slice(ENV_PREFIX.length)),
+    ),
+  ),
+];
+
+// ── Validation ──
+
+const MEMORY = /^\d+\s*[KMG]?$/i;
+const ENV_NAME = /^[A-Za-z0-9_-]+$/;
+
+export const validateApps = (drafts: EcosystemAppDraft[]) => {
+  const errors: string[] = [];
+  const names = new Set<string>();
+  drafts.forEach((draft, i) => {
+    const label = draft.name.trim() || `apps[${i}]`;
+    if (!draft.name.trim()) errors.push(`apps[${i}]: name is required`);
+    else if (names.has(draft.name.trim())) {
+      errors.push(`${label}: another app has the same name`);
+    }
+    names.add(draft.name.trim());
+    if (!draft.script.trim()) errors.push(`${label}: script is required`);
+    if (
+      draft.instances.trim() &&
+      parseInstances(draft.instances) === undefined
+    ) {
+      errors.push(`${label}: instances must be a number or "max"`);
+    }
+    if (draft.maxMemoryRestart.trim() && !MEMORY.test(draft.maxMemoryRestart)) {
+      errors.push(`${label}: max_memory_restart must look like 300M or 1G`);
+    }
+    const envNames = new Set<string>();
+    draft.envs.forEach((env) => {
+      if (env.name && !ENV_NAME.test(env.name)) {
+        errors.push(`${label}: "${env.name}" is not a valid environment name`);
+      }
+      if (envNames.has(env.name)) {
+        errors.push(`${label}: environment "${env.name}" appears twice`);
+      }
+      envNames.add(env.name);
+      const keys = env.vars.map((v) => v.key.trim()).filter(Boolean);
+      const duplicate = keys.find((key, k) => keys.indexOf(key) !== k);
+      if (duplicate) {
+        errors.push(`${label}: ${duplicate} is set twice in one environment`);
+      }
+    });
+  });
+  return errors;
+};
+
+// ── Serializing ──
+
+const SCRIPT_FILE = /\.[cm]?js$/;
+
+// A .js file may read process.env or compute values; what the server sends
+// back is already evaluated, so writing it anywhere would bake those values
+// (secrets included) into plain text. Such files are only viewed and applied.
+export const isScriptEcosystem = (path: string) => SCRIPT_FILE.test(path);
+
+export const serializeEcosystem = (apps: PM2EcosystemApp[], path: string) =>
+  /\.ya?ml$/.test(path)
+    ? stringify({ apps })
+    : `${JSON.stringify({ apps }, null, 2)}\n`;
+
+// ── Drift ──
+
+export type EcosystemDriftKind =
+  "missing" | "stopped" | "instances" | "mode" | "script";
+
+export interface EcosystemDrift {
+  app: string;
+  kind: EcosystemDriftKind;
+  expected?: string;
+  actual?: string;
+}
+
+// null when the count depends on the host's CPUs
+const expectedInstances = (app: PM2EcosystemApp) => {
+  const { instances } = app;
+  if (instances === undefined) return 1;
+  const count = typeof instances === "number" ? instances : Number(instances);
+  return Number.isInteger(count) && count > 0 ? count : null;
+};
+
+// PM2 stores the resolved path; the file may give one relative to cwd
+const sameScript = (expected: string, actual: string) => {
+  const relative = expected.replace(/^\.\//, "");
+  return actual === expected || actual.endsWith(`/${relative}`);
+};
+
+export const ecosystemDrift = (
+  apps: PM2EcosystemApp[],
+  processes: PM2Process[],
+): EcosystemDrift[] =>
+  apps.flatMap((app) => {
+    const procs = processes.filter((p) => p.name === app.name);
+    if (procs.length === 0) return [{ app: app.name, kind: "missing" }];
+
+    const drift: EcosystemDrift[] = [];
+    const offline = procs.filter((p) => p.status !== "online").length;
+    if (offline > 0) {
+      drift.push({
+        app: app.name,
+        kind: "stopped",
+        actual: `${offline}/${procs.length}`,
+      });
+    }
+    // Agents list either one entry per instance or one per app
+    const running = procs.length > 1 ? procs.length : procs[0].instances || 1;
+    const expected = expectedInstances(app);
+    if (expected !== null && expected !== running) {
+      drift.push({
+        app: app.name,
+        kind: "instances",
+        expected: String(expected),
+        actual: String(running),
+      });
+    }
+    const mode = procs[0].mode.startsWith("cluster") ? "cluster" : "fork";
+    const expectedMode = String(app.exec_mode || "").startsWith("cluster")
+      ? "cluster"
+      : "fork";
+    if (mode !== expectedMode) {
+      drift.push({
+        app: app.name,
+        kind: "mode",
+        expected: expectedMode,
+        actual: mode,
+      });
+    }
+    if (
+      app.script &&
+      procs[0].script &&
+      !sameScript(app.script, procs[0].script)
+    ) {
+      drift.push({
+        app: app.name,
+        kind: "script",
+        expected: app.script,
+        actual: procs[0].script,
+      });
+    }
+    return drift;
+  });
+
+// ── Metrics history ──
+
+export const METRIC_RANGES: PM2MetricsRange[] = ["1h", "24h", "7d"];
+
+export interface RestartPoint {
+  time: number;
+  restarts: number;
+}
+
+export const restartPoints = (samples: PM2MetricSample[]): RestartPoint[] =>
+  samples
+    .map((s) => ({ time: new Date(s.time).getTime(), restarts: s.restarts }))
+    .filter((p) => !isNaN(p.time));
+
+// Restarts since the previous point; a counter that went down was reset
+// (`pm2 reset` or the process was recreated) rather than restarted
+export const restartIncrements = (points: RestartPoint[]) =>
+  points.map((p, i) =>
+    i === 0 ? 0 : Math.max(p.restarts - points[i - 1].restarts, 0),
+  );
+
+// ── Restart loops ──
+
+// This many restarts inside the window is a process that can't stay up
+export const RESTART_LOOP_COUNT = 3;
+export const RESTART_LOOP_WINDOW = 5 * 60 * 1000;
+
+export interface RestartLoop {
+  start: number;
+  end: number;
+  restarts: number;
+}
+
+// Stretches where restarts come faster than the threshold. A coarse bucket
+// counts as one instant, so on long ranges a bucket with several restarts
+// is flagged even if they were spread over it
+export const restartLoops = (points: RestartPoint[]): RestartLoop[] => {
+  const increments = restartIncrements(points);
+  const events = points
+    .map((p, i) => ({ time: p.time, count: increments[i] }))
+    .filter((e) => e.count > 0);
+
+  const loops: RestartLoop[] = [];
+  let first = 0;
+  let inWindow = 0;
+  events.forEach((event, i) => {
+    inWindow += event.count;
+    while (event.time - events[first].time > RESTART_LOOP_WINDOW) {
+      inWindow -= events[first].count;
+      first++;
+    }
+    if (inWindow < RESTART_LOOP_COUNT) return;
+    const last = loops[loops.length - 1];
+    if (last && events[first].time <= last.end) {
+      // Only the events this window adds past the loop's current end
+      last.restarts += events
+        .slice(first, i + 1)
+        .filter((e) => e.time > last.end)
+        .reduce((sum, e) => sum + e.count, 0);
+      last.end = event.time;
+    } else {
+      loops.push({
+        start: events[first].time,
+        end: event.time,
+        restarts: inWindow,
+      });
+    }
+  });
+  return loops;
+};
+
+// The loop still going on at `now`, if any
+export const activeRestartLoop = (points: RestartPoint[], now: number) => {
+  const loops = restartLoops(points);
+  const last = loops[loops.length - 1];
+  return last && now - last.end <= RESTART_LOOP_WINDOW ? last : null;
+};
+
+// Adds a polled restart counter, keeping only as much as the window needs
+export const trackRestarts = (
+  points: RestartPoint[],
+  restarts: number,
+  now: number,
+) =>
+  [...points, { time: now, restarts }].filter(
+    (p) => now - p.time <= RESTART_LOOP_WINDOW * 2,
+  );
@@ -0,0 +1,115 @@
+import type { DockerImage, Secret } from "../services/client/types";
+
+// ── Image references ──
+
+export const DEFAULT_REGISTRY = "docker.io";
+
+export interface ImageRef {
+  registry: string;
+  // Official Hub images get their implicit "library/" prefix
+  repository: string;
+  tag?: string;
+  digest?: string;
+}
+
+// The first path part names a registry only if it looks like a host
+const isRegistryHost = (part: string) =>
+  part === "localhost" || part.includes(".") || part.includes(":");
+
+export const parseImageRef = (ref: string): ImageRef => {
+  let rest = ref.trim();
+  let digest: string | undefined;
+  const at = rest.indexOf("@");
+  if (at !== -1) {
+    digest = rest.slice(at + 1);
+    rest = rest.slice(0, at);
+  }
+
+  let tag: string | undefined;
+  const colon = rest.lastIndexOf(":");
+  // A colon before the last slash is a registry port, not a tag
+  if (colon > rest.lastIndexOf("/")) {
+    tag = rest.slice(colon + 1);
+    rest = rest.slice(0, colon);
+  }
+
+  const parts = rest.split("/");
+  let registry = DEFAULT_REGISTRY;
+  if (parts.length > 1 && isRegistryHost(parts[0])) {
+    registry = parts.shift()!;
+  }
+  if (registry === "index.docker.io") registry = DEFAULT_REGISTRY;
+  let repository = parts.join("/");
+  if (registry === DEFAULT_REGISTRY && parts.length === 1) {
+    repository = `library/${repository}`;
+  }
+  return { registry, repository, tag, digest };
+};
+
+// The short form `docker pull` accepts, e.g. "nginx:1.27"
+export const formatImageRef = ({ registry, repository, tag }: ImageRef) => {
+  const name =
+    registry === DEFAULT_REGISTRY
+      ? repository.replace(/^library\//, "")
+      : `${registry}/${repository}`;
+  return tag ? `${name}:${tag}` : name;
+};
+
+export const withTag = (image: string, tag: string) =>
+  formatImageRef({ ...parseImageRef(image), tag });
+
+// "sha256:9b7c…" to its first 12 hex digits, as `docker images` shows them
+export const shortDigest = (digest: string) =>
+  digest.replace(/^sha256:/, "").slice(0, 12);
+
+// Containers whose tag was moved or removed report their image by ID
+const IMAGE_ID = /^(sha256:)?[0-9a-f]{12,64}$/;
+
+// The repository a container's image can be re-tagged from, or null when
+// the container was created from an image ID that no tag points to
+export const containerRepository = (image: string, images: DockerImage[]) => {
+  if (!IMAGE_ID.test(image)) {
+    // Drops the tag and any @digest
+    return formatImageRef({ ...parseImageRef(image), tag: undefined });
+  }
+  const id = shortDigest(image);
+  const tagged = images.find(
+    (i) =>
+      shortDigest(i.id) === id && i.repository && i.repository !== "<none>",
+  );
+  return tagged ? tagged.repository : null;
+};
+
+// ── Credentials ──
+
+// Registry logins live in the secrets vault under this type, named after
+// the registry host, with the value holding the username and password
+export const REGISTRY_SECRET_TYPE = "registry";
+
+export interface RegistryCredential {
+  username: string;
+  password: string;
+}
+
+export const encodeRegistryCredential = (credential: RegistryCredential) =>
+  JSON.stringify(credential);
+
+const normalizeHost = (host: string) => {
+  const bare = host
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "");
+  return bare === "index.docker.io" || bare === "registry-1.docker.io"
+    ? DEFAULT_REGISTRY
+    : bare;
+};
+
+export const registryCredentialFor = (secrets: Secret[], image: string) => {
+  const { registry } = parseImageRef(image);
+  return secrets.find(
+    (secret) =>
+      secret.type === REGISTRY_SECRET_TYPE &&
+      normalizeHost(secret.name) === registry,
+  );
+};
@@ -0,0 +1,151 @@
+import type {
+  DeploySchedule,
+  MaintenancePolicy,
+  MaintenanceWindow,
+} from "../services/client/types";
+import {
+  instantFor,
+  resolveTimezone,
+  wallClockIn,
+  wallDaysBetween,
+  wallWeekday,
+} from "./timezone";
+
+// Recurring schedules and maintenance windows are wall-clock times in the
+// timezone saved with them (the editing device's), and are evaluated there
+// whatever zone this device is in.
+
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const WEEKENDS = [0, 6];
+
+export const DAY_PRESETS = {
+  everyDay: EVERY_DAY,
+  weekdays: WEEKDAYS,
+  weekends: WEEKENDS,
+};
+
+// "HH:mm" -> minutes since midnight
+export const parseTime = (time: string) => {
+  const [h, m] = time.split(":").map((n) => parseInt(n, 10));
+  return (h || 0) * 60 + (m || 0);
+};
+
+export const formatTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+export const timeFromDate = (date: Date) =>
+  formatTime(date.getHours() * 60 + date.getMinutes());
+
+export const dateWithTime = (day: Date, time: string) => {
+  const minutes = parseTime(time);
+  const d = new Date(day);
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return d;
+};
+
+const sameDays = (a: number[], b: number[]) =>
+  a.length === b.length && b.every((d) => a.includes(d));
+
+export const dayPresetFor = (days: number[]) =>
+  (Object.keys(DAY_PRESETS) as (keyof typeof DAY_PRESETS)[]).find((key) =>
+    sameDays(days, DAY_PRESETS[key]),
+  ) || null;
+
+export const isInWindow = (
+  window: MaintenanceWindow,
+  date: Date,
+  timezone?: string,
+) => {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  const wall = wallClockIn(date, resolveTimezone(timezone));
+  const minutes = wall.hour * 60 + wall.minute;
+  const day = wallWeekday(wall);
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Wraps past midnight: the tail end belongs to the previous day's window
+  const previous = (day + 6) % 7;
+  return (
+    (window.days.includes(day) && minutes >= start) ||
+    (window.days.includes(previous) && minutes < end)
+  );
+};
+
+// No windows means deploys are allowed at any time
+export const isDeployAllowed = (
+  policy: MaintenancePolicy | null,
+  date = new Date(),
+) =>
+  !policy ||
+  policy.windows.length === 0 ||
+  policy.windows.some((w) => isInWindow(w, date, policy.timezone));
+
+// Every window opening in [from, to), as [start, end) instants
+const windowsBetween = (policy: MaintenancePolicy, from: Date, to: Date) => {
+  const zone = resolveTimezone(policy.timezone);
+  const list: { start: Date; end: Date }[] = [];
+  for (const day of wallDaysBetween(from, to, zone)) {
+    for (const w of policy.windows) {
+      if (!w.days.includes(wallWeekday(day))) continue;
+      const start = parseTime(w.start);
+      let end = parseTime(w.end);
+      if (end <= start) end += 24 * 60;
+      const at = instantFor(
+        { ...day, hour: Math.floor(start / 60), minute: start % 60 },
+        zone,
+      );
+      if (at < from || at >= to) continue;
+      list.push({
+        start: at,
+        end: new Date(at.getTime() + (end - start) * 60000),
+      });
+    }
+  }
+  return list.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+export const nextWindowStart = (
+  policy: MaintenancePolicy | null,
+  from = new Date(),
+) => {
+  if (!policy) return null;
+  const until = new Date(from.getTime() + 8 * 24 * 60 * 60 * 1000);
+  return (
+    windowsBetween(policy, from, until).find((w) => w.start > from)?.start ||
+    null
+  );
+};
+
+// Every run of a recurring schedule in [from, to)
+export const scheduleOccurrences = (
+  schedule: Pick<DeploySchedule, "days" | "time" | "enabled"> & {
+    timezone?: string;
+  },
+  from: Date,
+  to: Date,
+) => {
+  const runs: Date[] = [];
+  if (!schedule.enabled) return runs;
+  const zone = resolveTimezone(schedule.timezone);
+  const minutes = parseTime(schedule.time);
+  for (const day of wallDaysBetween(from, to, zone)) {
+    if (!schedule.days.includes(wallWeekday(day))) continue;
+    const run = instantFor(
+      { ...day, hour: Math.floor(minutes / 60), minute: minutes % 60 },
+      zone,
+    );
+    if (run >= from && run < to) runs.push(run);
+  }
+  return runs;
+};
+
+// The windows that open on a given day of this device's calendar
+export const windowsOn = (policy: MaintenancePolicy, day: Date) => {
+  const from = new Date(day);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return windowsBetween(policy, from, to);
+};
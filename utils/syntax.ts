@@ -0,0 +1,145 @@
+// Line-at-a-time syntax highlighting for the diff viewer. Deliberately
+// shallow: it knows comments, strings, numbers and keywords for the languages
+// a deploy diff usually touches, which is enough to make hunks scannable.
+
+export type TokenKind = "plain" | "keyword" | "string" | "comment" | "number";
+
+export interface SyntaxToken {
+  text: string;
+  kind: TokenKind;
+}
+
+export type SyntaxLanguage =
+  "js" | "python" | "go" | "shell" | "yaml" | "json" | "css" | "plain";
+
+const EXTENSIONS: Record<string, SyntaxLanguage> = {
+  js: "js",
+  jsx: "js",
+  ts: "js",
+  tsx: "js",
+  mjs: "js",
+  cjs: "js",
+  java: "js",
+  kt: "js",
+  cs: "js",
+  c: "js",
+  h: "js",
+  cpp: "js",
+  rs: "js",
+  php: "js",
+  py: "python",
+  rb: "python",
+  go: "go",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  env: "shell",
+  dockerfile: "shell",
+  yml: "yaml",
+  yaml: "yaml",
+  toml: "yaml",
+  json: "json",
+  css: "css",
+  scss: "css",
+  less: "css",
+};
+
+export const languageForPath = (path: string): SyntaxLanguage => {
+  const name = path.split("/").pop()?.toLowerCase() || "";
+  if (name === "dockerfile" || name.startsWith(".env")) return "shell";
+  const ext = name.includes(".") ? name.split(".").pop()! : "";
+  return EXTENSIONS[ext] || "plain";
+};
+
+const KEYWORDS: Partial<Record<SyntaxLanguage, Set<string>>> = {
+  js: new Set(
+    "import export from default const let var function return if else for while do switch case break continue new class extends implements interface type enum async await try catch finally throw typeof instanceof in of this super null undefined true false public private protected static readonly fn pub struct impl use mod match".split(
+      " ",
+    ),
+  ),
+  python: new Set(
+    "import from as def return if elif else for while in not and or is class try except finally raise with lambda yield pass break continue None True False self async await end do module require".split(
+      " ",
+    ),
+  ),
+  go: new Set(
+    "package import func return if else for range switch case default break continue go defer chan map struct interface type var const nil true false select".split(
+      " ",
+    ),
+  ),
+  shell: new Set(
+    "if then else elif fi for in do done while case esac function return export local echo exit FROM RUN CMD COPY ADD ENV WORKDIR EXPOSE ENTRYPOINT ARG USER VOLUME".split(
+      " ",
+    ),
+  ),
+  yaml: new Set("true false null yes no on off".split(" ")),
+  json: new Set("true false null".split(" ")),
+  css: new Set("important media import from to".split(" ")),
+};
+
+const LINE_COMMENT: Partial<Record<SyntaxLanguage, string>> = {
+  js: "//",
+  go: "//",
+  python: "#",
+  shell: "#",
+  yaml: "#",
+};
+
+// Stands in for a token kind the language doesn't have; an empty group
+// would match everywhere
+const NEVER = "([^\\s\\S])";
+
+// One alternation per token kind; order matters (comments before strings)
+const tokenPattern = (language: SyntaxLanguage) => {
+  const comment = LINE_COMMENT[language];
+  const parts = [
+    comment ? `(${comment.replace(/\//g, "\\/")}.*$)` : NEVER,
+    language === "js" || language === "css" || language === "go"
+      ? "(\\/\\*.*?(?:\\*\\/|$))"
+      : NEVER,
+    "(\"(?:[^\"\\\\]|\\\\.)*\"?|'(?:[^'\\\\]|\\\\.)*'?|`(?:[^`\\\\]|\\\\.)*`?)",
+    "(\\b\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b|\\b0x[\\da-f]+\\b)",
+    "([A-Za-z_$][\\w$]*)",
+  ];
+  return new RegExp(parts.join("|"), "gi");
+};
+
+const patterns = new Map<SyntaxLanguage, RegExp>();
+
+export const highlightCode = (
+  line: string,
+  language: SyntaxLanguage,
+): SyntaxToken[] => {
+  if (language === "plain" || !line) return [{ text: line, kind: "plain" }];
+  let pattern = patterns.get(language);
+  if (!pattern) {
+    pattern = tokenPattern(language);
+    patterns.set(language, pattern);
+  }
+  const keywords = KEYWORDS[language];
+  const tokens: SyntaxToken[] = [];
+  const push = (text: string, kind: TokenKind) => {
+    if (!text) return;
+    const prev = tokens[tokens.length - 1];
+    if (prev && prev.kind === kind) prev.text += text;
+    else tokens.push({ text, kind });
+  };
+
+  let last = 0;
+  pattern.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(line))) {
+    if (m[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    push(line.slice(last, m.index), "plain");
+    if (m[1] || m[2]) push(m[0], "comment");
+    else if (m[3]) push(m[0], "string");
+    else if (m[4]) push(m[0], "number");
+    else push(m[0], keywords?.has(m[0]) ? "keyword" : "plain");
+    last = m.index + m[0].length;
+  }
+  push(line.slice(last), "plain");
+  return tokens;
+};
@@ -0,0 +1,849 @@
+import { applySgr, CellStyle, DEFAULT_STYLE } from "./ansi";
+
+// A VT100/xterm screen-buffer model. Output from the PTY is fed through
+// write(), which runs a small escape-sequence state machine over a grid of
+// cells. The UI only reads the grid, so it never has to understand ANSI.
+
+export interface Cell {
+  ch: string;
+  style: CellStyle;
+}
+
+// Each row keeps a revision counter so the renderer can skip unchanged rows
+export interface TermLine {
+  cells: Cell[];
+  rev: number;
+}
+
+interface Cursor {
+  x: number;
+  y: number;
+}
+
+interface SavedCursor extends Cursor {
+  style: CellStyle;
+  originMode: boolean;
+  charsets: [boolean, boolean];
+}
+
+interface ScreenBuffer {
+  lines: TermLine[];
+  cursor: Cursor;
+  scrollTop: number;
+  scrollBottom: number;
+  saved: SavedCursor | null;
+}
+
+export interface TerminalEmulatorOptions {
+  rows?: number;
+  cols?: number;
+  scrollback?: number;
+  // Replies the terminal must send back to the host (DSR, DA)
+  onResponse?: (data: string) => void;
+  onTitleChange?: (title: string) => void;
+  onBell?: () => void;
+}
+
+type ParserState = "ground" | "escape" | "csi" | "osc" | "charset" | "string";
+
+// DEC special graphics, used by ncurses for box drawing (htop, mc, ...)
+const DEC_GRAPHICS: Record<string, string> = {
+  "`": "◆",
+  a: "▒",
+  f: "°",
+  g: "±",
+  j: "┘",
+  k: "┐",
+  l: "┌",
+  m: "└",
+  n: "┼",
+  o: "⎺",
+  p: "⎻",
+  q: "─",
+  r: "⎼",
+  s: "⎽",
+  t: "├",
+  u: "┤",
+  v: "┴",
+  w: "┬",
+  x: "│",
+  y: "≤",
+  z: "≥",
+  "{": "π",
+  "|": "≠",
+  "}": "£",
+  "~": "·",
+};
+
+const TAB_WIDTH = 8;
+
+export class TerminalEmulator {
+  rows: number;
+  cols: number;
+  title = "";
+  cursorVisible = true;
+  appCursorKeys = false;
+  bracketedPaste = false;
+
+  private scrollbackLimit: number;
+  private scrollback: TermLine[] = [];
+  private normal: ScreenBuffer;
+  private alternate: ScreenBuffer;
+  private buffer: ScreenBuffer;
+  private style: CellStyle = DEFAULT_STYLE;
+  private autoWrap = true;
+  private wrapPending = false;
+  private insertMode = false;
+  private originMode = false;
+  private charsets: [boolean, boolean] = [false, false]; // true = DEC graphics
+  private activeCharset = 0;
+  private lastPrinted = " ";
+
+  private state: ParserState = "ground";
+  private params = "";
+  private prefix = "";
+  private intermediates = "";
+  private oscData = "";
+  private oscEscape = false;
+  private charsetTarget = 0;
+
+  private options: TerminalEmulatorOptions;
+
+  constructor(options: TerminalEmulatorOptions = {}) {
+    this.options = options;
+    this.rows = options.rows || 24;
+    this.cols = options.cols || 80;
+    this.scrollbackLimit = options.scrollback ?? 1000;
+    this.normal = this.createBuffer();
+    this.alternate = this.createBuffer();
+    this.buffer = this.normal;
+  }
+
+  get isAlternateScreen() {
+    return this.buffer === this.alternate;
+  }
+
+  get cursor(): Cursor {
+    return { ...this.buffer.cursor };
+  }
+
+  // Scrollback (normal screen only) followed by the visible rows
+  getLines(): TermLine[] {
+    if (this.isAlternateScreen) return this.buffer.lines;
+    return [...this.scrollback, ...this.buffer.lines];
+  }
+
+  get scrollbackLength() {
+    return this.isAlternateScreen ? 0 : this.scrollback.length;
+  }
+
+  write(data: string) {
+    for (const ch of data) {
+      this.consume(ch);
+    }
+  }
+
+  reset() {
+    this.scrollback = [];
+    this.normal = this.createBuffer();
+    this.alternate = this.createBuffer();
+    this.buffer = this.normal;
+    this.style = DEFAULT_STYLE;
+    this.autoWrap = true;
+    this.wrapPending = false;
+    this.insertMode = false;
+    this.originMode = false;
+    this.cursorVisible = true;
+    this.appCursorKeys = false;
+    this.bracketedPaste = false;
+    this.charsets = [false, false];
+    this.activeCharset = 0;
+    this.state = "ground";
+  }
+
+  resize(rows: number, cols: number) {
+    rows = Math.max(1, Math.floor(rows));
+    cols = Math.max(1, Math.floor(cols));
+    if (rows === this.rows && cols === this.cols) return;
+
+    for (const buf of [this.normal, this.alternate]) {
+      for (const line of buf.lines) this.resizeLine(line, cols);
+
+      // Shrinking: push rows above the cursor into scrollback first so the
+      // prompt stays visible, then drop from the bottom
+      while (buf.lines.length > rows) {
+        if (buf.cursor.y > 0 && buf.cursor.y >= rows) {
+          const removed = buf.lines.shift()!;
+          if (buf === this.normal) this.pushScrollback(removed);
+          buf.cursor.y--;
+        } else {
+          buf.lines.pop();
+        }
+      }
+      while (buf.lines.length < rows) {
+        buf.lines.push(this.blankLine(cols));
+      }
+
+      buf.scrollTop = 0;
+      buf.scrollBottom = rows - 1;
+      buf.cursor.x = Math.min(buf.cursor.x, cols - 1);
+      buf.cursor.y = Math.min(buf.cursor.y, rows - 1);
+    }
+    for (const line of this.scrollback) this.resizeLine(line, cols);
+
+    this.rows = rows;
+    this.cols = cols;
+    this.wrapPending = false;
+  }
+
+  // ---------- Parser ----------
+
+  private consume(ch: string) {
+    switch (this.state) {
+      case "ground":
+        if (ch < " " || ch === "\x7f") this.execute(ch);
+        else this.print(ch);
+        return;
+
+      case "escape":
+        this.escapeDispatch(ch);
+        return;
+
+      case "csi": {
+        const code = ch.charCodeAt(0);
+        if (ch === "\x1b") {
+          this.state = "escape";
+        } else if (code < 0x20) {
+          this.execute(ch);
+        } else if (code >= 0x40 && code <= 0x7e) {
+          this.state = "ground";
+          this.csiDispatch(ch);
+        } else if ((ch >= "0" && ch <= "9") || ch === ";" || ch === ":") {
+          this.params += ch;
+        } else if ("?>=!".includes(ch) && this.params === "") {
+          this.prefix += ch;
+        } else {
+          this.intermediates += ch;
+        }
+        return;
+      }
+
+      case "osc":
+        if (ch === "\x07") {
+          this.oscDispatch();
+        } else if (this.oscEscape) {
+          this.oscEscape = false;
+          if (ch === "\\") this.oscDispatch();
+          else this.state = "ground";
+        } else if (ch === "\x1b") {
+          this.oscEscape = true;
+        } else {
+          this.oscData += ch;
+        }
+        return;
+
+      case "charset":
+        this.charsets[this.charsetTarget] = ch === "0";
+        this.state = "ground";
+        return;
+
+      case "string":
+        // DCS/APC/PM payloads are ignored until the string terminator
+        if (ch === "\x07") this.state = "ground";
+        else if (this.oscEscape) {
+          this.oscEscape = false;
+          if (ch === "\\") this.state = "ground";
+        } else if (ch === "\x1b") this.oscEscape = true;
+        return;
+    }
+  }
+
+  private execute(ch: string) {
+    const cursor = this.buffer.cursor;
+    switch (ch) {
+      case "\x1b":
+        this.state = "escape";
+        break;
+      case "\r":
+        cursor.x = 0;
+        this.wrapPending = false;
+        break;
+      case "\n":
+      case "\v":
+      case "\f":
+        this.lineFeed();
+        break;
+      case "\b":
+        if (this.wrapPending) this.wrapPending = false;
+        else if (cursor.x > 0) cursor.x--;
+        break;
+      case "\t":
+        cursor.x = Math.min(
+          this.cols - 1,
+          (Math.floor(cursor.x / TAB_WIDTH) + 1) * TAB_WIDTH,
+        );
+        break;
+      case "\x07":
+        this.options.onBell?.();
+        break;
+      case "\x0e":
+        this.activeCharset = 1;
+        break;
+      case "\x0f":
+        this.activeCharset = 0;
+        break;
+    }
+  }
+
+  private escapeDispatch(ch: string) {
+    this.state = "ground";
+    switch (ch) {
+      case "[":
+        this.state = "csi";
+        this.params = "";
+        this.prefix = "";
+        this.intermediates = "";
+        break;
+      case "]":
+        this.state = "osc";
+        this.oscData = "";
+        this.oscEscape = false;
+        break;
+      case "(":
+      case ")":
+        this.state = "charset";
+        this.charsetTarget = ch === "(" ? 0 : 1;
+        break;
+      case "P":
+      case "_":
+      case "^":
+        this.state = "string";
+        this.oscEscape = false;
+        break;
+      case "7":
+        this.saveCursor();
+        break;
+      case "8":
+        this.restoreCursor();
+        break;
+      case "D":
+        this.lineFeed();
+        break;
+      case "E":
+        this.buffer.cursor.x = 0;
+        this.lineFeed();
+        break;
+      case "M":
+        this.reverseIndex();
+        break;
+      case "c":
+        this.reset();
+        break;
+    }
+  }
+
+  private oscDispatch() {
+    this.state = "ground";
+    const sep = this.oscData.indexOf(";");
+    if (sep === -1) return;
+    const code = this.oscData.slice(0, sep);
+    if (code === "0" || code === "2") {
+      this.title = this.oscData.slice(sep + 1);
+      this.options.onTitleChange?.(this.title);
+    }
+  }
+
+  private csiDispatch(final: string) {
+    const params = this.params
+      .split(";")
+      .map((p) => (p === "" ? NaN : parseInt(p.split(":")[0], 10)));
+    // Parameter with a default of 1 (or the given default)
+    const arg = (i: number, def = 1) => {
+      const v = params[i];
+      return Number.isNaN(v) || v === undefined || v === 0 ? def : v;
+    };
+    const buf = this.buffer;
+    const cursor = buf.cursor;
+
+    if (this.prefix === "?") {
+      if (final === "h" || final === "l") {
+        params.forEach((p) => this.setPrivateMode(p, final === "h"));
+      }
+      return;
+    }
+    if (this.prefix !== "" || this.intermediates !== "") {
+      // Secondary DA
+      if (this.prefix === ">" && final === "c") {
+        this.options.onResponse?.("\x1b[>0;0;0c");
+      }
+      return;
+    }
+
+    this.wrapPending = false;
+
+    switch (final) {
+      case "@":
+        this.insertChars(arg(0));
+        break;
+      case "A":
+        cursor.y = Math.max(this.topLimit(), cursor.y - arg(0));
+        break;
+      case "B":
+        cursor.y = Math.min(this.bottomLimit(), cursor.y + arg(0));
+        break;
+      case "C":
+        cursor.x = Math.min(this.cols - 1, cursor.x + arg(0));
+        break;
+      case "D":
+        cursor.x = Math.max(0, cursor.x - arg(0));
+        break;
+      case "E":
+        cursor.x = 0;
+        cursor.y = Math.min(this.bottomLimit(), cursor.y + arg(0));
+        break;
+      case "F":
+        cursor.x = 0;
+        cursor.y = Math.max(this.topLimit(), cursor.y - arg(0));
+        break;
+      case "G":
+      case "`":
+        cursor.x = this.clampX(arg(0) - 1);
+        break;
+      case "H":
+      case "f":
+        this.moveTo(arg(1) - 1, arg(0) - 1);
+        break;
+      case "d":
+        this.moveTo(cursor.x, arg(0) - 1);
+        break;
+      case "J":
+        this.eraseInDisplay(arg(0, 0));
+        break;
+      case "K":
+        this.eraseInLine(arg(0, 0));
+        break;
+      case "L":
+        this.insertLines(arg(0));
+        break;
+      case "M":
+        this.deleteLines(arg(0));
+        break;
+      case "P":
+        this.deleteChars(arg(0));
+        break;
+      case "X":
+        this.eraseChars(arg(0));
+        break;
+      case "S":
+        this.scrollUp(arg(0));
+        break;
+      case "T":
+        this.scrollDown(arg(0));
+        break;
+      case "b":
+        for (let i = 0; i < arg(0); i++) this.print(this.lastPrinted);
+        break;
+      case "m":
+        // Empty params ("CSI m") read as 0, which is a reset
+        this.style = applySgr(
+          this.style,
+          params.map((p) => (Number.isNaN(p) ? 0 : p)),
+        );
+        break;
+      case "r": {
+        const top = arg(0) - 1;
+        const bottom = arg(1, this.rows) - 1;
+        if (top < bottom && bottom < this.rows) {
+          buf.scrollTop = top;
+          buf.scrollBottom = bottom;
+          this.moveTo(0, 0);
+        }
+        break;
+      }
+      case "s":
+        this.saveCursor();
+        break;
+      case "u":
+        this.restoreCursor();
+        break;
+      case "h":
+      case "l":
+        if (params.includes(4)) this.insertMode = final === "h";
+        break;
+      case "n":
+        if (arg(0, 0) === 5) {
+          this.options.onResponse?.("\x1b[0n");
+        } else if (arg(0, 0) === 6) {
+          const row = cursor.y - (this.originMode ? buf.scrollTop : 0) + 1;
+          this.options.onResponse?.(`\x1b[${row};${cursor.x + 1}R`);
+        }
+        break;
+      case "c":
+        this.options.onResponse?.("\x1b[?1;2c");
+        break;
+    }
+  }
+
+  private setPrivateMode(mode: number, enabled: boolean) {
+    switch (mode) {
+      case 1:
+        this.appCursorKeys = enabled;
+        break;
+      case 6:
+        this.originMode = enabled;
+        this.moveTo(0, 0);
+        break;
+      case 7:
+        this.autoWrap = enabled;
+        break;
+      case 25:
+        this.cursorVisible = enabled;
+        break;
+      case 47:
+      case 1047:
+        this.switchBuffer(enabled, false);
+        break;
+      case 1048:
+        if (enabled) this.saveCursor();
+        else this.restoreCursor();
+        break;
+      case 1049:
+        if (enabled) {
+          this.saveCursor();
+          this.switchBuffer(true, true);
+        } else {
+          this.switchBuffer(false, false);
+          this.restoreCursor();
+        }
+        break;
+      case 2004:
+        this.bracketedPaste = enabled;
+        break;
+    }
+  }
+
+  // ---------- Screen operations ----------
+
+  private print(ch: string) {
+    const charset = this.charsets[this.activeCharset];
+    if (charset && DEC_GRAPHICS[ch]) ch = DEC_GRAPHICS[ch];
+    this.lastPrinted = ch;
+
+    const buf = this.buffer;
+    if (this.wrapPending && this.autoWrap) {
+      buf.cursor.x = 0;
+      this.lineFeed();
+    }
+    this.wrapPending = false;
+
+    const line = buf.lines[buf.cursor.y];
+    if (this.insertMode) {
+      line.cells.splice(buf.cursor.x, 0, { ch, style: this.style });
+      line.cells.length = this.cols;
+    } else {
+      line.cells[buf.cursor.x] = { ch, style: this.style };
+    }
+    line.rev++;
+
+    if (buf.cursor.x >= this.cols - 1) {
+      this.wrapPending = true;
+    } else {
+      buf.cursor.x++;
+    }
+  }
+
+  private lineFeed() {
+    const buf = this.buffer;
+    this.wrapPending = false;
+    if (buf.cursor.y === buf.scrollBottom) {
+      this.scrollUp(1);
+    } else if (buf.cursor.y < this.rows - 1) {
+      buf.cursor.y++;
+    }
+  }
+
+  private reverseIndex() {
+    const buf = this.buffer;
+    if (buf.cursor.y === buf.scrollTop) {
+      this.scrollDown(1);
+    } else if (buf.cursor.y > 0) {
+      buf.cursor.y--;
+    }
+  }
+
+  private scrollUp(count: number) {
+    const buf = this.buffer;
+    const { scrollTop, scrollBottom } = buf;
+    count = Math.min(count, scrollBottom - scrollTop + 1);
+    for (let i = 0; i < count; i++) {
+      const [removed] = buf.lines.splice(scrollTop, 1);
+      if (buf === this.normal && scrollTop === 0) {
+        this.pushScrollback(removed);
+      }
+      buf.lines.splice(scrollBottom, 0, this.blankLine(this.cols, true));
+    }
+    this.touchRows(scrollTop, scrollBottom);
+  }
+
+  private scrollDown(count: number) {
+    const buf = this.buffer;
+    const { scrollTop, scrollBottom } = buf;
+    count = Math.min(count, scrollBottom - scrollTop + 1);
+    for (let i = 0; i < count; i++) {
+      buf.lines.splice(scrollBottom, 1);
+      buf.lines.splice(scrollTop, 0, this.blankLine(this.cols, true));
+    }
+    this.touchRows(scrollTop, scrollBottom);
+  }
+
+  private insertLines(count: number) {
+    const buf = this.buffer;
+    const y = buf.cursor.y;
+    if (y < buf.scrollTop || y > buf.scrollBottom) return;
+    count = Math.min(count, buf.scrollBottom - y + 1);
+    for (let i = 0; i < count; i++) {
+      buf.lines.splice(buf.scrollBottom, 1);
+      buf.lines.splice(y, 0, this.blankLine(this.cols, true));
+    }
+    buf.cursor.x = 0;
+    this.touchRows(y, buf.scrollBottom);
+  }
+
+  private deleteLines(count: number) {
+    const buf = this.buffer;
+    const y = buf.cursor.y;
+    if (y < buf.scrollTop || y > buf.scrollBottom) return;
+    count = Math.min(count, buf.scrollBottom - y + 1);
+    for (let i = 0; i < count; i++) {
+      buf.lines.splice(y, 1);
+      buf.lines.splice(buf.scrollBottom, 0, this.blankLine(this.cols, true));
+    }
+    buf.cursor.x = 0;
+    this.touchRows(y, buf.scrollBottom);
+  }
+
+  private insertChars(count: number) {
+    const { cursor, lines } = this.buffer;
+    const line = lines[cursor.y];
+    const blanks = Array.from({ length: count }, () => this.blankCell());
+    line.cells.splice(cursor.x, 0, ...blanks);
+    line.cells.length = this.cols;
+    line.rev++;
+  }
+
+  private deleteChars(count: number) {
+    const { cursor, lines } = this.buffer;
+    const line = lines[cursor.y];
+    count = Math.min(count, this.cols - cursor.x);
+    line.cells.splice(cursor.x, count);
+    for (let i = 0; i < count; i++) line.cells.push(this.blankCell());
+    line.rev++;
+  }
+
+  private eraseChars(count: number) {
+    const { cursor, lines } = this.buffer;
+    this.clearCells(lines[cursor.y], cursor.x, cursor.x + count);
+  }
+
+  private eraseInLine(mode: number) {
+    const { cursor, lines } = this.buffer;
+    const line = lines[cursor.y];
+    if (mode === 0) this.clearCells(line, cursor.x, this.cols);
+    else if (mode === 1) this.clearCells(line, 0, cursor.x + 1);
+    else if (mode === 2) this.clearCells(line, 0, this.cols);
+  }
+
+  private eraseInDisplay(mode: number) {
+    const buf = this.buffer;
+    const { x, y } = buf.cursor;
+    if (mode === 0) {
+      this.clearCells(buf.lines[y], x, this.cols);
+      for (let i = y + 1; i < this.rows; i++) {
+        this.clearCells(buf.lines[i], 0, this.cols);
+      }
+    } else if (mode === 1) {
+      for (let i = 0; i < y; i++) this.clearCells(buf.lines[i], 0, this.cols);
+      this.clearCells(buf.lines[y], 0, x + 1);
+    } else if (mode === 2) {
+      for (const line of buf.lines) this.clearCells(line, 0, this.cols);
+    } else if (mode === 3 && buf === this.normal) {
+      this.scrollback = [];
+    }
+  }
+
+  private clearCells(line: TermLine, from: number, to: number) {
+    to = Math.min(to, this.cols);
+    for (let i = Math.max(0, from); i < to; i++) {
+      line.cells[i] = this.blankCell();
+    }
+    line.rev++;
+  }
+
+  private switchBuffer(alternate: boolean, clear: boolean) {
+    if (alternate === this.isAlternateScreen) return;
+    if (alternate) {
+      if (clear) {
+        this.alternate = this.createBuffer();
+      }
+      this.alternate.cursor = { ...this.normal.cursor };
+      this.buffer = this.alternate;
+    } else {
+      this.buffer = this.normal;
+    }
+    this.touchRows(0, this.rows - 1);
+    this.wrapPending = false;
+  }
+
+  private saveCursor() {
+    const buf = this.buffer;
+    buf.saved = {
+      ...buf.cursor,
+      style: this.style,
+      originMode: this.originMode,
+      charsets: [...this.charsets] as [boolean, boolean],
+    };
+  }
+
+  private restoreCursor() {
+    const buf = this.buffer;
+    const saved = buf.saved;
+    if (!saved) {
+      buf.cursor = { x: 0, y: 0 };
+      return;
+    }
+    buf.cursor = {
+      x: this.clampX(saved.x),
+      y: Math.min(saved.y, this.rows - 1),
+    };
+    this.style = saved.style;
+    this.originMode = saved.originMode;
+    this.charsets = [...saved.charsets] as [boolean, boolean];
+    this.wrapPending = false;
+  }
+
+  private moveTo(x: number, y: number) {
+    const buf = this.buffer;
+    if (this.originMode) {
+      y = Math.min(
+        buf.scrollBottom,
+        Math.max(buf.scrollTop, y + buf.scrollTop),
+      );
+    } else {
+      y = Math.min(this.rows - 1, Math.max(0, y));
+    }
+    buf.cursor.x = this.clampX(x);
+    buf.cursor.y = y;
+    this.wrapPending = false;
+  }
+
+  // Cursor up/down stop at the scroll region when starting inside it
+  private topLimit() {
+    const { cursor, scrollTop } = this.buffer;
+    return cursor.y >= scrollTop ? scrollTop : 0;
+  }
+
+  private bottomLimit() {
+    const { cursor, scrollBottom } = this.buffer;
+    return cursor.y <= scrollBottom ? scrollBottom : this.rows - 1;
+  }
+
+  private clampX(x: number) {
+    return Math.min(this.cols - 1, Math.max(0, x));
+  }
+
+  private touchRows(from: number, to: number) {
+    for (let i = from; i <= to; i++) {
+      const line = this.buffer.lines[i];
+      if (line) line.rev++;
+    }
+  }
+
+  private pushScrollback(line: TermLine) {
+    if (this.scrollbackLimit <= 0) return;
+    this.scrollback.push(line);
+    if (this.scrollback.length > this.scrollbackLimit) {
+      this.scrollback.splice(0, this.scrollback.length - this.scrollbackLimit);
+    }
+  }
+
+  // Erased cells keep the current background color (xterm "BCE")
+  private blankCell(): Cell {
+    const style =
+      this.style.bg === null
+        ? DEFAULT_STYLE
+        : { ...DEFAULT_STYLE, bg: this.style.bg };
+    return { ch: " ", style };
+  }
+
+  private blankLine(cols: number, useBackground = false): TermLine {
+    const cells: Cell[] = [];
+    for (let i = 0; i < cols; i++) {
+      cells.push(
+        useBackground ? this.blankCell() : { ch: " ", style: DEFAULT_STYLE },
+      );
+    }
+    return { cells, rev: 0 };
+  }
+
+  private resizeLine(line: TermLine, cols: number) {
+    if (line.cells.length > cols) {
+      line.cells.length = cols;
+    } else {
+      while (line.cells.length < cols) {
+        line.cells.push({ ch: " ", style: DEFAULT_STYLE });
+      }
+    }
+    line.rev++;
+  }
+
+  private createBuffer(): ScreenBuffer {
+    const lines: TermLine[] = [];
+    for (let i = 0; i < this.rows; i++) lines.push(this.blankLine(this.cols));
+    return {
+      lines,
+      cursor: { x: 0, y: 0 },
+      scrollTop: 0,
+      scrollBottom: this.rows - 1,
+      saved: null,
+    };
+  }
+}
+
+export interface TermSpan {
+  text: string;
+  style: CellStyle;
+  cursor?: boolean;
+}
+
+// Groups a row into runs of identically styled text for rendering.
+// Trailing default-styled blanks are dropped; cursorX marks the cursor cell.
+export const lineToSpans = (line: TermLine, cursorX = -1): TermSpan[] => {
+  const cells = line.cells;
+  let end = cells.length;
+  while (
+    end > 0 &&
+    end - 1 !== cursorX &&
+    cells[end - 1].ch === " " &&
+    cells[end - 1].style.bg === null &&
+    !cells[end - 1].style.inverse
+  ) {
+    end--;
+  }
+
+  const spans: TermSpan[] = [];
+  for (let i = 0; i < end; i++) {
+    const cell = cells[i] || { ch: " ", style: DEFAULT_STYLE };
+    const isCursor = i === cursorX;
+    const last = spans[spans.length - 1];
+    if (last && !isCursor && !last.cursor && last.style === cell.style) {
+      last.text += cell.ch;
+    } else {
+      spans.push({
+        text: cell.ch,
+        style: cell.style,
+        cursor: isCursor || undefined,
+      });
+    }
+  }
+  return spans;
+};
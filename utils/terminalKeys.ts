@@ -0,0 +1,94 @@
+// Escape sequences for keys that mobile keyboards don't have
+
+export type TerminalKey =
+  | "esc"
+  | "tab"
+  | "up"
+  | "down"
+  | "left"
+  | "right"
+  | "home"
+  | "end"
+  | "pageUp"
+  | "pageDown"
+  | "delete"
+  | "enter"
+  | "backspace";
+
+export interface KeyModifiers {
+  ctrl?: boolean;
+  alt?: boolean;
+  shift?: boolean;
+}
+
+const ARROW_CODES: Partial<Record<TerminalKey, string>> = {
+  up: "A",
+  down: "B",
+  right: "C",
+  left: "D",
+  home: "H",
+  end: "F",
+};
+
+const TILDE_CODES: Partial<Record<TerminalKey, number>> = {
+  delete: 3,
+  pageUp: 5,
+  pageDown: 6,
+};
+
+// xterm modifier parameter: 1 + shift(1) + alt(2) + ctrl(4)
+const modifierParam = ({ ctrl, alt, shift }: KeyModifiers) =>
+  1 + (shift ? 1 : 0) + (alt ? 2 : 0) + (ctrl ? 4 : 0);
+
+// Control character for a printable key, e.g. "c" -> ETX (Ctrl-C)
+export const ctrlChar = (ch: string): string => {
+  if (ch === " " || ch === "@" || ch === "2") return "\x00";
+  if (ch === "?") return "\x7f";
+  const code = ch.toUpperCase().charCodeAt(0);
+  // A-Z and [ \ ] ^ _
+  if (code >= 0x40 && code <= 0x5f) return String.fromCharCode(code - 0x40);
+  return ch;
+};
+
+export const keySequence = (
+  key: TerminalKey,
+  modifiers: KeyModifiers = {},
+  appCursorKeys = false,
+): string => {
+  const hasModifier = modifiers.ctrl || modifiers.alt || modifiers.shift;
+  const altPrefix = modifiers.alt ? "\x1b" : "";
+
+  const arrow = ARROW_CODES[key];
+  if (arrow) {
+    if (hasModifier) return `\x1b[1;${modifierParam(modifiers)}${arrow}`;
+    // Full-screen apps (vim, less) switch cursor keys to SS3 form
+    return appCursorKeys ? `\x1bO${arrow}` : `\x1b[${arrow}`;
+  }
+
+  const tilde = TILDE_CODES[key];
+  if (tilde) {
+    return hasModifier
+      ? `\x1b[${tilde};${modifierParam(modifiers)}~`
+      : `\x1b[${tilde}~`;
+  }
+
+  switch (key) {
+    case "esc":
+      return "\x1b";
+    case "tab":
+      return modifiers.shift ? "\x1b[Z" : altPrefix + "\t";
+    case "enter":
+      return altPrefix + "\r";
+    case "backspace":
+      return altPrefix + (modifiers.ctrl ? "\b" : "\x7f");
+    default:
+      return "";
+  }
+};
+
+// Applies armed modifiers to a character typed on the soft keyboard
+export const modifyChar = (ch: string, modifiers: KeyModifiers): string => {
+  let out = modifiers.ctrl ? ctrlChar(ch) : ch;
+  if (modifiers.alt) out = "\x1b" + out;
+  return out;
+};
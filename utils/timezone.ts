@@ -0,0 +1,103 @@
+// Wall-clock time in a named IANA timezone, for schedules that run at a
+// local time somewhere other than the device.
+
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export const deviceTimezone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+// Unknown or missing zones fall back to the device's
+export const resolveTimezone = (timezone?: string) => {
+  if (!timezone) return deviceTimezone();
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    return deviceTimezone();
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const wallClockIn = (date: Date, timeZone: string): WallClock => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const p of formatter.formatToParts(date)) {
+    if (p.type !== "literal") parts[p.type] = parseInt(p.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+  };
+};
+
+const wallToUtc = (w: WallClock) =>
+  Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+
+// The instant a wall-clock time happens in the zone. Times skipped by a DST
+// jump run that much later, as cron runs them right after the jump.
+export const instantFor = (w: WallClock, timeZone: string) => {
+  const guess = wallToUtc(w);
+  const offsetAt = (ms: number) =>
+    wallToUtc(wallClockIn(new Date(ms), timeZone)) -
+    Math.floor(ms / 60000) * 60000;
+  const first = guess - offsetAt(guess);
+  if (wallToUtc(wallClockIn(new Date(first), timeZone)) === guess) {
+    return new Date(first);
+  }
+  const second = guess - offsetAt(first);
+  return wallToUtc(wallClockIn(new Date(second), timeZone)) === guess
+    ? new Date(second)
+    : new Date(first);
+};
+
+// 0 = Sunday, like Date.getDay
+export const wallWeekday = (w: WallClock) =>
+  new Date(Date.UTC(w.year, w.month - 1, w.day)).getUTCDay();
+
+// The zone's calendar days that overlap [from, to), with a day of margin on
+// each side for windows that wrap past midnight
+export const wallDaysBetween = (from: Date, to: Date, timeZone: string) => {
+  const start = wallClockIn(from, timeZone);
+  const end = wallClockIn(to, timeZone);
+  const day = new Date(Date.UTC(start.year, start.month - 1, start.day - 1));
+  const last = Date.UTC(end.year, end.month - 1, end.day + 1);
+  const days: WallClock[] = [];
+  while (day.getTime() <= last) {
+    days.push({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: 0,
+      minute: 0,
+    });
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return days;
+};